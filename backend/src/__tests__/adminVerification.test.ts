@@ -0,0 +1,97 @@
+import request from 'supertest';
+import { sendVerificationStatusEmail } from '../services/emailService';
+import { bearerToken, createTestApp } from './helpers/testApp';
+import { failNext, resetDatabase, seedRows, tableRows } from './helpers/memoryDatabase';
+
+jest.mock('../config/supabase', () => ({
+  supabase: require('./helpers/memoryDatabase').memoryDatabase,
+  supabaseAdmin: require('./helpers/memoryDatabase').memoryDatabase,
+}));
+
+jest.mock('../services/sessionService', () => ({
+  ...jest.requireActual('../services/sessionService'),
+  isSessionActive: jest.fn().mockResolvedValue(true),
+}));
+
+jest.mock('../services/emailService', () => ({
+  sendVerificationStatusEmail: jest.fn().mockResolvedValue(true),
+}));
+
+const app = createTestApp();
+const admin = bearerToken('admin');
+
+const verifyVendor = (body: object) =>
+  request(app).put('/api/admin/vendors/vendor-profile-1/verify').set('Authorization', admin).send(body);
+
+describe('admin verification', () => {
+  beforeEach(() => {
+    resetDatabase();
+    jest.mocked(sendVerificationStatusEmail).mockClear();
+
+    const applicant = { id: 'vendor-user', full_name: 'Chidi Parts', email: 'chidi@example.com' };
+    seedRows('users', { ...applicant, is_active: false, is_verified: false });
+    seedRows('vendor_profiles', {
+      id: 'vendor-profile-1',
+      user_id: applicant.id,
+      verification_status: 'pending',
+      is_active: false,
+      users: applicant,
+    });
+  });
+
+  it('approves a vendor, activates the account and records the review', async () => {
+    const response = await verifyVendor({ status: 'approved' });
+
+    expect(response.status).toBe(200);
+    expect(tableRows('vendor_profiles')[0]).toMatchObject({ verification_status: 'approved', is_active: true });
+    expect(tableRows('users')[0]).toMatchObject({ is_active: true, is_verified: true });
+    expect(tableRows('verification_reviews')).toEqual([
+      expect.objectContaining({ action: 'approved', reviewed_by: 'admin-user', user_id: 'vendor-user' }),
+    ]);
+    expect(sendVerificationStatusEmail).toHaveBeenCalledWith(
+      'chidi@example.com',
+      'Chidi Parts',
+      'approved',
+      undefined,
+      undefined
+    );
+  });
+
+  it('requires a reason to reject', async () => {
+    const response = await verifyVendor({ status: 'rejected' });
+
+    expect(response.status).toBe(400);
+    expect(tableRows('verification_reviews')).toHaveLength(0);
+  });
+
+  it('fails when the account cannot be activated', async () => {
+    failNext('users', 'update');
+
+    const response = await verifyVendor({ status: 'approved' });
+
+    expect(response.status).toBe(500);
+    expect(tableRows('verification_reviews')).toHaveLength(0);
+    expect(sendVerificationStatusEmail).not.toHaveBeenCalled();
+  });
+
+  it('fails when the review cannot be recorded', async () => {
+    failNext('verification_reviews', 'insert');
+
+    const response = await verifyVendor({ status: 'rejected', reason: 'Blurry ID' });
+
+    expect(response.status).toBe(500);
+    expect(sendVerificationStatusEmail).not.toHaveBeenCalled();
+  });
+
+  it('records resubmission requests', async () => {
+    const response = await request(app)
+      .post('/api/admin/vendors/vendor-profile-1/resubmission')
+      .set('Authorization', admin)
+      .send({ document: 'id_document', reason: 'The photo is cut off' });
+
+    expect(response.status).toBe(200);
+    expect(tableRows('verification_reviews')).toEqual([
+      expect.objectContaining({ action: 'resubmission_required', document: 'id_document' }),
+    ]);
+  });
+});
@@ -0,0 +1,251 @@
+import {
+  calculateCommission,
+  CommissionRule,
+  createCommissionRule,
+  CommissionRuleInput,
+  findCommissionRule,
+  parseCommissionRuleInput,
+  retireCommissionRule,
+  reviseCommissionRule,
+} from '../services/commissionService';
+import { settleCompletedJob } from '../services/settlementService';
+import { walletAccount } from '../services/ledgerService';
+import { accountBalance, resetDatabase, seedRows, tableRows } from './helpers/memoryDatabase';
+
+jest.mock('../config/supabase', () => ({
+  supabase: require('./helpers/memoryDatabase').memoryDatabase,
+  supabaseAdmin: require('./helpers/memoryDatabase').memoryDatabase,
+}));
+
+jest.mock('../services/invoiceService', () => ({
+  sendJobInvoice: jest.fn().mockResolvedValue(undefined),
+}));
+
+const baseRule: CommissionRuleInput = {
+  name: 'Default',
+  category_id: null,
+  mechanic_tier: null,
+  rate: 0.15,
+  min_fee: null,
+  max_fee: null,
+  priority: 0,
+  starts_at: null,
+  ends_at: null,
+};
+
+const seedRule = (rule: Partial<CommissionRule>) =>
+  seedRows('commission_rules', {
+    ...baseRule,
+    rule_key: rule.id || 'rule',
+    version: 1,
+    is_active: true,
+    superseded_at: null,
+    ...rule,
+  })[0] as CommissionRule;
+
+describe('parseCommissionRuleInput', () => {
+  it('reads a rule from a request body', () => {
+    expect(
+      parseCommissionRuleInput({
+        name: ' Gold brakes ',
+        rate: '0.1',
+        category_id: 'category-brakes',
+        mechanic_tier: 'gold',
+        min_fee: '500',
+        max_fee: 5000,
+        priority: '2',
+        starts_at: '2026-12-01',
+        ends_at: '2027-01-01',
+      })
+    ).toEqual({
+      name: 'Gold brakes',
+      rate: 0.1,
+      category_id: 'category-brakes',
+      mechanic_tier: 'gold',
+      min_fee: 500,
+      max_fee: 5000,
+      priority: 2,
+      starts_at: '2026-12-01T00:00:00.000Z',
+      ends_at: '2027-01-01T00:00:00.000Z',
+    });
+  });
+
+  const rule = (fields: object) => ({ name: 'x', rate: 0.1, ...fields });
+
+  it.each([
+    ['no body', undefined, 'Name is required (100 characters max)'],
+    ['a rate above 1', rule({ rate: 15 }), 'Rate must be between 0 and 1'],
+    ['an object as category', rule({ category_id: {} }), 'Category must be a category id'],
+    [
+      'an unknown tier',
+      rule({ mechanic_tier: 'platinum' }),
+      'Mechanic tier must be one of standard, silver, gold',
+    ],
+    ['a word priority', rule({ priority: 'high' }), 'Priority must be a whole number'],
+    ['a negative fee', rule({ min_fee: -5 }), 'Minimum fee cannot be negative'],
+    [
+      'fees the wrong way round',
+      rule({ min_fee: 10, max_fee: 5 }),
+      'Minimum fee cannot be more than the maximum fee',
+    ],
+    ['an invalid date', rule({ starts_at: 'soon' }), 'Start date must be a valid date'],
+    [
+      'an end before the start',
+      rule({ starts_at: '2027-01-01', ends_at: '2026-01-01' }),
+      'End date must be after the start date',
+    ],
+  ])('rejects %s', (_, body, message) => {
+    expect(() => parseCommissionRuleInput(body)).toThrow(
+      expect.objectContaining({ statusCode: 400, message })
+    );
+  });
+});
+
+describe('calculateCommission', () => {
+  const rule = { id: 'rule-1', rate: 0.1, min_fee: 500, max_fee: 2000 } as CommissionRule;
+
+  it('applies the rate within the fee limits', () => {
+    expect(calculateCommission(10000, rule)).toEqual({
+      rule_id: 'rule-1',
+      rate: 0.1,
+      amount: 1000,
+    });
+    expect(calculateCommission(1000, rule).amount).toBe(500);
+    expect(calculateCommission(50000, rule).amount).toBe(2000);
+  });
+
+  it('never charges more than the labour and uses the default without a rule', () => {
+    expect(calculateCommission(300, rule).amount).toBe(300);
+    expect(calculateCommission(0, rule).amount).toBe(0);
+    expect(calculateCommission(1000, null)).toEqual({ rule_id: null, rate: 0.15, amount: 150 });
+  });
+});
+
+describe('commission rules', () => {
+  beforeEach(() => {
+    resetDatabase();
+  });
+
+  describe('findCommissionRule', () => {
+    const job = {
+      category_id: 'category-brakes',
+      mechanic_tier: 'gold' as const,
+      at: new Date('2026-12-10'),
+    };
+
+    it('prefers priority, then the more specific rule', async () => {
+      seedRule({ id: 'any-job', rate: 0.15 });
+      seedRule({ id: 'brakes', rate: 0.12, category_id: 'category-brakes' });
+      seedRule({
+        id: 'gold-brakes',
+        rate: 0.1,
+        category_id: 'category-brakes',
+        mechanic_tier: 'gold',
+      });
+      seedRule({ id: 'engine', rate: 0.08, category_id: 'category-engine', priority: 5 });
+
+      await expect(findCommissionRule(job)).resolves.toMatchObject({ id: 'gold-brakes' });
+
+      seedRule({ id: 'promo', rate: 0.05, priority: 1 });
+      await expect(findCommissionRule(job)).resolves.toMatchObject({ id: 'promo' });
+    });
+
+    it('only uses promotions while they run', async () => {
+      seedRule({ id: 'any-job' });
+      seedRule({
+        id: 'december',
+        rate: 0.05,
+        priority: 1,
+        starts_at: '2026-12-01',
+        ends_at: '2026-12-10',
+      });
+
+      await expect(findCommissionRule(job)).resolves.toMatchObject({ id: 'any-job' });
+      await expect(
+        findCommissionRule({ ...job, at: new Date('2026-12-09T23:59:59Z') })
+      ).resolves.toMatchObject({ id: 'december' });
+    });
+
+    it('ignores superseded and retired versions', async () => {
+      seedRule({ id: 'old', rate: 0.2, priority: 9, superseded_at: '2026-01-01' });
+      seedRule({ id: 'retired', rate: 0.2, priority: 9, is_active: false });
+
+      await expect(findCommissionRule(job)).resolves.toBeNull();
+    });
+  });
+
+  describe('versions', () => {
+    it('adds a version on every change and keeps the old one for past jobs', async () => {
+      const first = seedRule({ id: 'default', rate: 0.15 });
+
+      const revised = await reviseCommissionRule(
+        first.id,
+        { ...baseRule, rate: 0.12 },
+        'admin-user'
+      );
+
+      expect(revised).toMatchObject({ rule_key: 'default', version: 2, rate: 0.12 });
+      expect(tableRows('commission_rules', { id: first.id })[0]).toMatchObject({
+        rate: 0.15,
+        superseded_at: expect.any(String),
+      });
+      await expect(
+        reviseCommissionRule(first.id, { ...baseRule, rate: 0.1 }, 'admin-user')
+      ).rejects.toMatchObject({ statusCode: 409 });
+    });
+
+    it('starts new rules at version 1', async () => {
+      await expect(createCommissionRule(baseRule, 'admin-user')).resolves.toMatchObject({
+        version: 1,
+        created_by: 'admin-user',
+      });
+    });
+
+    it('retires a rule', async () => {
+      const rule = seedRule({ id: 'promo' });
+
+      await expect(retireCommissionRule(rule.id)).resolves.toMatchObject({ is_active: false });
+      await expect(retireCommissionRule(rule.id)).rejects.toMatchObject({ statusCode: 409 });
+      await expect(retireCommissionRule('missing')).rejects.toMatchObject({ statusCode: 404 });
+    });
+  });
+
+  describe('settleCompletedJob', () => {
+    const cashJob = {
+      id: 'sr-1',
+      mechanic_id: 'mechanic-user',
+      category_id: 'category-brakes',
+      labor_cost: 6000,
+      total_cost: 8000,
+      payment_method: 'cash' as const,
+      completed_at: '2026-12-10T10:00:00.000Z',
+      commission_amount: null,
+    };
+
+    it('fixes the commission on the job the first time and reuses it afterwards', async () => {
+      seedRule({ id: 'brakes', rate: 0.1, category_id: 'category-brakes' });
+      seedRows('service_requests', cashJob);
+
+      await expect(settleCompletedJob(cashJob)).resolves.toEqual({
+        rule_id: 'brakes',
+        rate: 0.1,
+        amount: 600,
+      });
+
+      // A new rule doesn't change what the job was charged
+      seedRule({ id: 'promo', rate: 0.05, priority: 1 });
+      await expect(settleCompletedJob(cashJob)).resolves.toMatchObject({
+        rule_id: 'brakes',
+        amount: 600,
+      });
+
+      expect(tableRows('service_requests')[0]).toMatchObject({
+        commission_rule_id: 'brakes',
+        commission_rate: 0.1,
+        commission_amount: 600,
+      });
+      // The mechanic kept the cash, so the commission is owed from their wallet once
+      expect(accountBalance(walletAccount('mechanic-user'))).toBe(-600);
+    });
+  });
+});
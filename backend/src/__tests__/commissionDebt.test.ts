@@ -0,0 +1,96 @@
+import {
+  assertWithinDebtLimit,
+  chargeCashJobCommission,
+  createDebtSettlement,
+  getCommissionDebt,
+} from '../services/commissionDebtService';
+import { confirmTopUp } from '../services/customerWalletService';
+import { walletAccount } from '../services/ledgerService';
+import { accountBalance, resetDatabase, seedRows, tableRows } from './helpers/memoryDatabase';
+
+jest.mock('../config/supabase', () => ({
+  supabase: require('./helpers/memoryDatabase').memoryDatabase,
+  supabaseAdmin: require('./helpers/memoryDatabase').memoryDatabase,
+}));
+
+const mechanic = 'mechanic-user';
+
+const cashJob = (id: string) => ({ id, mechanic_id: mechanic });
+
+describe('commission owed on cash jobs', () => {
+  beforeEach(() => {
+    resetDatabase();
+    seedRows('mechanic_profiles', { user_id: mechanic, is_available: true });
+  });
+
+  describe('chargeCashJobCommission', () => {
+    it("charges each job once to the mechanic's wallet", async () => {
+      await chargeCashJobCommission(cashJob('sr-1'), 900);
+      await expect(chargeCashJobCommission(cashJob('sr-1'), 900)).resolves.toMatchObject({
+        created: false,
+      });
+
+      expect(accountBalance(walletAccount(mechanic))).toBe(-900);
+      await expect(getCommissionDebt(mechanic)).resolves.toEqual({
+        owed: 900,
+        limit: 5000,
+        over_limit: false,
+      });
+      // Still within the limit
+      expect(tableRows('mechanic_profiles')[0].is_available).toBe(true);
+      expect(tableRows('notifications')).toHaveLength(0);
+    });
+
+    it('takes the mechanic offline once they owe more than the limit', async () => {
+      await chargeCashJobCommission(cashJob('sr-1'), 3000);
+      await chargeCashJobCommission(cashJob('sr-2'), 2500);
+      await chargeCashJobCommission(cashJob('sr-2'), 2500);
+
+      expect(tableRows('mechanic_profiles')[0].is_available).toBe(false);
+      expect(tableRows('notifications')).toEqual([
+        expect.objectContaining({
+          user_id: mechanic,
+          title: 'Commission Owed',
+          body: expect.stringContaining('You owe ₦5500.00'),
+        }),
+      ]);
+      await expect(assertWithinDebtLimit(mechanic)).rejects.toMatchObject({
+        statusCode: 409,
+        message: expect.stringContaining('Settle at least ₦500.00'),
+      });
+    });
+
+    it('charges nothing for jobs without commission', async () => {
+      await expect(chargeCashJobCommission(cashJob('sr-1'), 0)).resolves.toBeNull();
+      expect(tableRows('ledger_transactions')).toHaveLength(0);
+    });
+  });
+
+  describe('createDebtSettlement', () => {
+    it('pays off what is owed through the gateway', async () => {
+      await chargeCashJobCommission(cashJob('sr-1'), 6000);
+
+      const topUp = await createDebtSettlement(mechanic, 'emeka@example.com', 2000, 'card');
+      await confirmTopUp(topUp);
+
+      expect(accountBalance(walletAccount(mechanic))).toBe(-4000);
+      expect(tableRows('ledger_transactions', { kind: 'debt_settlement' })).toHaveLength(1);
+      await expect(assertWithinDebtLimit(mechanic)).resolves.toMatchObject({ owed: 4000 });
+    });
+
+    it('only settles what is owed', async () => {
+      await expect(
+        createDebtSettlement(mechanic, 'emeka@example.com', null, 'card')
+      ).rejects.toMatchObject({ statusCode: 409 });
+
+      await chargeCashJobCommission(cashJob('sr-1'), 900);
+
+      await expect(
+        createDebtSettlement(mechanic, 'emeka@example.com', 1000, 'card')
+      ).rejects.toMatchObject({ statusCode: 400 });
+      await expect(
+        createDebtSettlement(mechanic, 'emeka@example.com', null, 'card')
+      ).resolves.toMatchObject({ amount: 900, purpose: 'debt_settlement' });
+    });
+  });
+});
@@ -0,0 +1,152 @@
+import request from 'supertest';
+import { createReview, getRatingSummary, parseCustomerFlags } from '../services/reviewService';
+import { bearerToken, createTestApp } from './helpers/testApp';
+import { onRpc, resetDatabase, seedRows, tableRows } from './helpers/memoryDatabase';
+
+jest.mock('../config/supabase', () => ({
+  supabase: require('./helpers/memoryDatabase').memoryDatabase,
+  supabaseAdmin: require('./helpers/memoryDatabase').memoryDatabase,
+}));
+
+jest.mock('../services/sessionService', () => ({
+  ...jest.requireActual('../services/sessionService'),
+  isSessionActive: jest.fn().mockResolvedValue(true),
+}));
+
+const minutesAgo = (minutes: number) => new Date(Date.now() - minutes * 60 * 1000).toISOString();
+
+describe('parseCustomerFlags', () => {
+  it('accepts known flags once each', () => {
+    expect(parseCustomerFlags(['abusive', 'abusive'], false)).toEqual(['abusive']);
+    expect(parseCustomerFlags(undefined, false)).toEqual([]);
+  });
+
+  it('always flags a no-show job and only a no-show job', () => {
+    expect(parseCustomerFlags([], true)).toEqual(['no_show']);
+    expect(() => parseCustomerFlags(['no_show'], false)).toThrow(
+      expect.objectContaining({ statusCode: 400 })
+    );
+  });
+
+  it('rejects anything else', () => {
+    expect(() => parseCustomerFlags('abusive', false)).toThrow('flags must be a list');
+    expect(() => parseCustomerFlags(['rude'], false)).toThrow(
+      'flags must be any of no_show, abusive'
+    );
+  });
+});
+
+describe('mechanics rating customers', () => {
+  beforeEach(() => {
+    resetDatabase();
+    onRpc('adjust_rating_aggregate', () => null);
+  });
+
+  it('records the review of the customer with its flags and no dimensions', async () => {
+    const review = await createReview(
+      { id: 'sr-1', customer_id: 'customer-user', mechanic_id: 'mechanic-user', status: 'completed' },
+      'mechanic-user',
+      { rating: 2, flags: ['abusive'], dimensions: { quality: 5 } }
+    );
+
+    expect(review).toMatchObject({
+      reviewee_id: 'customer-user',
+      reviewer_role: 'mechanic',
+      rating: 2,
+      flags: ['abusive'],
+    });
+    expect(review).not.toHaveProperty('quality');
+  });
+
+  it('lets only the mechanic review a job the customer missed', async () => {
+    const noShowJob = {
+      id: 'sr-1',
+      customer_id: 'customer-user',
+      mechanic_id: 'mechanic-user',
+      status: 'cancelled',
+      cancellation_reason: 'customer_no_show',
+    };
+
+    await expect(createReview(noShowJob, 'customer-user', { rating: 1 })).rejects.toMatchObject({
+      statusCode: 409,
+    });
+    await expect(createReview(noShowJob, 'mechanic-user', { rating: 1 })).resolves.toMatchObject({
+      flags: ['no_show'],
+    });
+  });
+
+  it("summarises a customer's flags", async () => {
+    seedRows('rating_aggregates', {
+      user_id: 'customer-user',
+      role: 'customer',
+      review_count: 4,
+      rating_sum: 14,
+      star_counts: [0, 1, 1, 0, 2],
+      no_show_count: 1,
+      abusive_count: 0,
+    });
+
+    await expect(getRatingSummary('customer-user', 'customer')).resolves.toMatchObject({
+      average: 3.5,
+      total: 4,
+      dimensions: null,
+      flags: { no_show: 1, abusive: 0 },
+    });
+  });
+
+  describe('PUT /api/mechanics/requests/:id/no-show', () => {
+    const app = createTestApp();
+
+    const reportNoShow = (body: object) =>
+      request(app)
+        .put('/api/mechanics/requests/sr-1/no-show')
+        .set('Authorization', bearerToken('mechanic'))
+        .send(body);
+
+    const seedArrivedJob = (arrivedAt: string) =>
+      seedRows('service_requests', {
+        id: 'sr-1',
+        customer_id: 'customer-user',
+        mechanic_id: 'mechanic-user',
+        status: 'arrived',
+        arrived_at: arrivedAt,
+      });
+
+    it('makes the mechanic wait for the customer first', async () => {
+      seedArrivedJob(minutesAgo(5));
+
+      const response = await reportNoShow({ rating: 1 });
+
+      expect(response.status).toBe(409);
+      expect(tableRows('service_requests')[0].status).toBe('arrived');
+      expect(tableRows('reviews')).toHaveLength(0);
+    });
+
+    it('cancels the job, flags the customer and tells them', async () => {
+      seedArrivedJob(minutesAgo(20));
+
+      const response = await reportNoShow({ rating: 1, comment: 'Nobody at the gate' });
+
+      expect(response.status).toBe(200);
+      expect(tableRows('service_requests')[0]).toMatchObject({
+        status: 'cancelled',
+        cancellation_reason: 'customer_no_show',
+      });
+      expect(tableRows('reviews')).toEqual([
+        expect.objectContaining({ reviewee_id: 'customer-user', rating: 1, flags: ['no_show'] }),
+      ]);
+      expect(tableRows('notifications', { user_id: 'customer-user' })).toEqual([
+        expect.objectContaining({ title: 'Service Request Cancelled' }),
+      ]);
+    });
+
+    it('requires a rating', async () => {
+      seedArrivedJob(minutesAgo(20));
+
+      const response = await reportNoShow({});
+
+      expect(response.status).toBe(400);
+      expect(response.body.error.message).toBe('rating is required');
+    });
+  });
+});
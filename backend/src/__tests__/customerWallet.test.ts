@@ -0,0 +1,199 @@
+import { createHmac } from 'crypto';
+import { env } from '../config/env';
+import {
+  confirmTopUp,
+  createTopUp,
+  grantPromoCredit,
+  spendFromWallet,
+} from '../services/customerWalletService';
+import { PLATFORM_ACCOUNTS, walletAccount } from '../services/ledgerService';
+import { createPayment, handlePaymentWebhook } from '../services/paymentService';
+import {
+  accountBalance,
+  addUniqueKey,
+  memoryDatabase,
+  resetDatabase,
+  seedRows,
+  setColumnDefaults,
+  tableRows,
+} from './helpers/memoryDatabase';
+
+jest.mock('../config/supabase', () => ({
+  supabase: require('./helpers/memoryDatabase').memoryDatabase,
+  supabaseAdmin: require('./helpers/memoryDatabase').memoryDatabase,
+}));
+
+const customerWallet = walletAccount('customer-user');
+
+const job = {
+  id: 'sr-1',
+  customer_id: 'customer-user',
+  mechanic_id: 'mechanic-user',
+  status: 'in_progress',
+  payment_method: 'in_app' as const,
+};
+
+const sendWebhook = (body: object) => {
+  const rawBody = Buffer.from(JSON.stringify(body));
+  const signature = createHmac('sha512', env.payment.webhookSecret).update(rawBody).digest('hex');
+  return handlePaymentWebhook('fake', rawBody, signature, body);
+};
+
+const topUpEvent = (reference: string) => ({
+  event_id: 'evt-1',
+  reference,
+  status: 'success',
+  amount: 5000,
+});
+
+describe('customer wallet', () => {
+  beforeEach(() => {
+    resetDatabase();
+    addUniqueKey('payment_webhook_events', ['gateway', 'event_id']);
+    setColumnDefaults('payments', { refunded_amount: 0 });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('top-ups', () => {
+    it('credits the wallet once, however the payment is confirmed', async () => {
+      const topUp = await createTopUp('customer-user', 'ada@example.com', 5000, 'card');
+
+      await expect(confirmTopUp(topUp)).resolves.toMatchObject({ status: 'paid' });
+      await expect(sendWebhook(topUpEvent(topUp.id))).resolves.toEqual({
+        recognised: true,
+        handled: false,
+      });
+
+      expect(accountBalance(customerWallet)).toBe(5000);
+      expect(accountBalance(PLATFORM_ACCOUNTS.gatewayClearing)).toBe(-5000);
+    });
+
+    it('credits a top-up on redelivery after the first delivery failed part way', async () => {
+      const topUp = await createTopUp('customer-user', 'ada@example.com', 5000, 'card');
+      jest.spyOn(console, 'error').mockImplementation(() => undefined);
+      jest
+        .spyOn(memoryDatabase, 'rpc')
+        .mockResolvedValueOnce({ data: null, error: { message: 'connection reset' } });
+
+      await expect(sendWebhook(topUpEvent(topUp.id))).rejects.toMatchObject({ statusCode: 500 });
+      expect(accountBalance(customerWallet)).toBe(0);
+
+      await sendWebhook(topUpEvent(topUp.id));
+
+      expect(accountBalance(customerWallet)).toBe(5000);
+      expect(tableRows('payment_webhook_events')[0]).toMatchObject({
+        topup_id: topUp.id,
+        processed_at: expect.any(String),
+      });
+    });
+
+    it('only accepts amounts within the limits', async () => {
+      await expect(
+        createTopUp('customer-user', 'ada@example.com', 50, 'card')
+      ).rejects.toMatchObject({ statusCode: 400 });
+    });
+  });
+
+  describe('spending', () => {
+    const spend = (amount: number, key: string) =>
+      spendFromWallet({
+        userId: 'customer-user',
+        amount,
+        account: PLATFORM_ACCOUNTS.escrow,
+        referenceType: 'service_request',
+        referenceId: 'sr-1',
+        idempotencyKey: key,
+        description: 'Payment for service request sr-1',
+      });
+
+    it('charges each key once and never overdraws the wallet', async () => {
+      seedRows('users', { id: 'customer-user', user_type: 'customer' });
+      await grantPromoCredit('customer-user', 3000, 'Welcome', 'welcome');
+
+      await spend(2000, 'wallet_payment:1');
+      await spend(2000, 'wallet_payment:1');
+      await expect(spend(2000, 'wallet_payment:2')).rejects.toMatchObject({
+        statusCode: 400,
+        message: 'Your wallet balance is too low, please top up first',
+      });
+
+      expect(accountBalance(customerWallet)).toBe(1000);
+    });
+
+    it('pays a job from the wallet straight into escrow', async () => {
+      seedRows('users', { id: 'customer-user', user_type: 'customer' });
+      seedRows('service_requests', job);
+      seedRows('service_request_quotes', {
+        service_request_id: 'sr-1',
+        version: 1,
+        status: 'approved',
+        total_cost: 3000,
+      });
+      await grantPromoCredit('customer-user', 5000, 'Welcome', 'welcome');
+
+      await expect(createPayment(job, 'ada@example.com', 'wallet')).resolves.toMatchObject({
+        status: 'held',
+        gateway: 'wallet',
+      });
+
+      expect(accountBalance(customerWallet)).toBe(2000);
+      expect(accountBalance(PLATFORM_ACCOUNTS.escrow)).toBe(3000);
+    });
+  });
+
+  describe('promo credit', () => {
+    it('credits each grant once and notifies the customer', async () => {
+      seedRows('users', { id: 'customer-user', user_type: 'customer' });
+
+      await grantPromoCredit('customer-user', 1000, 'Sorry for the wait', 'late-1');
+      await expect(
+        grantPromoCredit('customer-user', 1000, 'Sorry for the wait', 'late-1')
+      ).resolves.toMatchObject({ created: false });
+
+      expect(accountBalance(customerWallet)).toBe(1000);
+      expect(tableRows('notifications')).toHaveLength(1);
+    });
+
+    it('only credits customers', async () => {
+      seedRows('users', { id: 'mechanic-user', user_type: 'mechanic' });
+
+      await expect(
+        grantPromoCredit('mechanic-user', 1000, 'Thanks', 'thanks-1')
+      ).rejects.toMatchObject({ statusCode: 400 });
+    });
+  });
+
+  describe('in production', () => {
+    const nodeEnv = env.nodeEnv;
+
+    beforeEach(() => {
+      env.nodeEnv = 'production';
+    });
+
+    afterEach(() => {
+      env.nodeEnv = nodeEnv;
+    });
+
+    it('refuses to move money through the fake gateway', async () => {
+      seedRows('service_requests', job);
+      seedRows('service_request_quotes', {
+        service_request_id: 'sr-1',
+        version: 1,
+        status: 'approved',
+        total_cost: 3000,
+      });
+
+      await expect(
+        createTopUp('customer-user', 'ada@example.com', 5000, 'card')
+      ).rejects.toMatchObject({ statusCode: 503 });
+      await expect(createPayment(job, 'ada@example.com', 'card')).rejects.toMatchObject({
+        statusCode: 503,
+      });
+      expect(tableRows('wallet_topups')).toHaveLength(0);
+      expect(tableRows('payments')).toHaveLength(0);
+    });
+  });
+});
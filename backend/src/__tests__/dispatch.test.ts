@@ -0,0 +1,254 @@
+import request from 'supertest';
+import {
+  claimBroadcastRequest,
+  declineOffer,
+  DispatchableRequest,
+  expireStaleOffers,
+} from '../services/dispatchService';
+import { findNearbyMechanics, NearbyMechanic } from '../services/mechanicSearchService';
+import { bearerToken, createTestApp } from './helpers/testApp';
+import { resetDatabase, seedRows, tableRows } from './helpers/memoryDatabase';
+
+jest.mock('../config/supabase', () => ({
+  supabase: require('./helpers/memoryDatabase').memoryDatabase,
+  supabaseAdmin: require('./helpers/memoryDatabase').memoryDatabase,
+}));
+
+jest.mock('../services/mechanicSearchService', () => ({
+  findNearbyMechanics: jest.fn(),
+}));
+
+jest.mock('../services/sessionService', () => ({
+  ...jest.requireActual('../services/sessionService'),
+  isSessionActive: jest.fn().mockResolvedValue(true),
+}));
+
+const secondsFromNow = (seconds: number) => new Date(Date.now() + seconds * 1000).toISOString();
+
+const broadcastRequest: DispatchableRequest = {
+  id: 'sr-1',
+  customer_id: 'customer-user',
+  mechanic_id: null,
+  category_id: 'category-1',
+  customer_location_lat: 6.524379,
+  customer_location_lng: 3.379206,
+  status: 'pending',
+  dispatch_mode: 'broadcast',
+  dispatch_wave: 1,
+};
+
+const seedOffer = (mechanicId: string, expiresAt: string = secondsFromNow(60)) =>
+  seedRows('service_request_offers', {
+    id: `offer-${mechanicId}`,
+    service_request_id: broadcastRequest.id,
+    mechanic_id: mechanicId,
+    wave: 1,
+    status: 'offered',
+    expires_at: expiresAt,
+  });
+
+// Whoever the search returns, minus the mechanics it was told to leave out
+const nearbyMechanics = (...userIds: string[]) => {
+  jest.mocked(findNearbyMechanics).mockImplementation(async ({ excludeUserIds = [], limit = 10 }) => {
+    const found = userIds.filter((userId) => !excludeUserIds.includes(userId));
+    return {
+      mechanics: found
+        .slice(0, limit)
+        .map((userId, index) => ({ user_id: userId, distance: index + 1 }) as NearbyMechanic),
+      total: found.length,
+    };
+  });
+};
+
+const offerStatus = (mechanicId: string) =>
+  tableRows('service_request_offers', { mechanic_id: mechanicId })[0].status;
+
+describe('broadcast dispatch', () => {
+  beforeEach(() => {
+    resetDatabase();
+    seedRows('service_requests', {
+      ...broadcastRequest,
+      customer_location_address: '14 Admiralty Way, Lekki',
+      payment_method: 'cash',
+      customer: {
+        id: 'customer-user',
+        full_name: 'Ada Obi',
+        phone: '08011112222',
+        profile_picture_url: null,
+      },
+    });
+  });
+
+  describe('claimBroadcastRequest', () => {
+    it('assigns the first mechanic to accept and withdraws the other offers', async () => {
+      seedOffer('mechanic-a');
+      seedOffer('mechanic-b');
+
+      const claimed = await claimBroadcastRequest(broadcastRequest, 'mechanic-a');
+
+      expect(claimed).toMatchObject({ status: 'accepted', mechanic_id: 'mechanic-a' });
+      expect(offerStatus('mechanic-a')).toBe('accepted');
+      expect(offerStatus('mechanic-b')).toBe('withdrawn');
+    });
+
+    it('refuses an offer that has expired but not been marked yet', async () => {
+      seedOffer('mechanic-a', secondsFromNow(-1));
+
+      await expect(claimBroadcastRequest(broadcastRequest, 'mechanic-a')).rejects.toMatchObject({
+        statusCode: 409,
+      });
+      expect(tableRows('service_requests')[0]).toMatchObject({ status: 'pending', mechanic_id: null });
+    });
+
+    it('withdraws the offer of a mechanic who lost the race', async () => {
+      seedOffer('mechanic-a');
+      await claimBroadcastRequest(broadcastRequest, 'mechanic-a');
+
+      // As when two mechanics accept at once: this offer was still open when the
+      // winner withdrew the others
+      seedOffer('mechanic-c');
+
+      await expect(claimBroadcastRequest(broadcastRequest, 'mechanic-c')).rejects.toMatchObject({
+        statusCode: 409,
+        message: 'Another mechanic has already accepted this job',
+      });
+      expect(offerStatus('mechanic-c')).toBe('withdrawn');
+      expect(tableRows('service_requests')[0].mechanic_id).toBe('mechanic-a');
+    });
+  });
+
+  describe('viewing an offered request', () => {
+    const app = createTestApp();
+
+    const viewAs = (userType: 'customer' | 'mechanic', id: string) =>
+      request(app)
+        .get(`/api/service-requests/${broadcastRequest.id}`)
+        .set('Authorization', bearerToken(userType, id));
+
+    it('hides the exact address and the customer phone from a mechanic with an open offer', async () => {
+      seedOffer('mechanic-a');
+
+      const response = await viewAs('mechanic', 'mechanic-a');
+
+      expect(response.status).toBe(200);
+      expect(response.body.data).toMatchObject({
+        customer_location_lat: 6.52,
+        customer_location_lng: 3.38,
+        customer_location_address: null,
+        customer: { id: 'customer-user', full_name: 'Ada Obi' },
+      });
+      expect(response.body.data.customer).not.toHaveProperty('phone');
+    });
+
+    it('shows everything to the customer', async () => {
+      const response = await viewAs('customer', 'customer-user');
+
+      expect(response.status).toBe(200);
+      expect(response.body.data).toMatchObject({
+        customer_location_lat: 6.524379,
+        customer_location_address: '14 Admiralty Way, Lekki',
+        customer: { phone: '08011112222' },
+      });
+    });
+
+    it('refuses a mechanic whose offer has expired', async () => {
+      seedOffer('mechanic-a', secondsFromNow(-1));
+
+      const response = await viewAs('mechanic', 'mechanic-a');
+
+      expect(response.status).toBe(403);
+    });
+  });
+
+  describe('reassignment', () => {
+    const directRequest: DispatchableRequest = {
+      ...broadcastRequest,
+      id: 'sr-direct',
+      mechanic_id: 'mechanic-a',
+      dispatch_mode: 'direct',
+    };
+
+    const storedRequest = (id: string) =>
+      tableRows('service_requests', { id })[0] as DispatchableRequest;
+
+    beforeEach(() => {
+      jest.mocked(findNearbyMechanics).mockReset();
+      seedRows('service_requests', directRequest);
+      seedRows('service_request_offers', {
+        service_request_id: directRequest.id,
+        mechanic_id: 'mechanic-a',
+        wave: 1,
+        status: 'offered',
+        expires_at: secondsFromNow(60),
+      });
+    });
+
+    it('hands a declined direct request to the next mechanic who has not seen it', async () => {
+      nearbyMechanics('mechanic-a', 'mechanic-b', 'mechanic-c');
+
+      await declineOffer(directRequest, 'mechanic-a');
+
+      expect(storedRequest(directRequest.id)).toMatchObject({
+        status: 'pending',
+        mechanic_id: 'mechanic-b',
+        dispatch_wave: 2,
+      });
+      expect(tableRows('service_request_offers', { service_request_id: directRequest.id })).toEqual([
+        expect.objectContaining({ mechanic_id: 'mechanic-a', status: 'declined' }),
+        expect.objectContaining({ mechanic_id: 'mechanic-b', status: 'offered', wave: 2 }),
+      ]);
+    });
+
+    it('waits for the rest of a broadcast wave before reassigning', async () => {
+      seedOffer('mechanic-a');
+      seedOffer('mechanic-b');
+      nearbyMechanics('mechanic-c');
+
+      await declineOffer(broadcastRequest, 'mechanic-a');
+
+      expect(storedRequest(broadcastRequest.id).dispatch_wave).toBe(1);
+      expect(findNearbyMechanics).not.toHaveBeenCalled();
+    });
+
+    it('cancels the request once nobody is left to ask', async () => {
+      nearbyMechanics('mechanic-a');
+
+      await declineOffer(directRequest, 'mechanic-a');
+
+      expect(storedRequest(directRequest.id)).toMatchObject({
+        status: 'cancelled',
+        cancellation_reason: 'no_mechanic_available',
+      });
+      expect(tableRows('notifications', { user_id: 'customer-user' })).toEqual([
+        expect.objectContaining({ title: 'No Mechanic Available' }),
+      ]);
+    });
+
+    it('refuses to decline an offer that is no longer open', async () => {
+      nearbyMechanics('mechanic-b');
+      await declineOffer(directRequest, 'mechanic-a');
+
+      await expect(
+        declineOffer(storedRequest(directRequest.id), 'mechanic-a')
+      ).rejects.toMatchObject({ statusCode: 409 });
+    });
+
+    it('reassigns requests whose offers ran out', async () => {
+      resetDatabase();
+      seedRows('service_requests', directRequest);
+      seedRows('service_request_offers', {
+        service_request_id: directRequest.id,
+        mechanic_id: 'mechanic-a',
+        wave: 1,
+        status: 'offered',
+        expires_at: secondsFromNow(-5),
+      });
+      nearbyMechanics('mechanic-a', 'mechanic-b');
+
+      await expireStaleOffers();
+
+      expect(offerStatus('mechanic-a')).toBe('expired');
+      expect(storedRequest(directRequest.id).mechanic_id).toBe('mechanic-b');
+    });
+  });
+});
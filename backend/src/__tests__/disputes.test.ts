@@ -0,0 +1,183 @@
+import { DEFAULT_COMMISSION_RATE } from '../services/commissionService';
+import { resolveDispute } from '../services/disputeService';
+import { PLATFORM_ACCOUNTS, walletAccount } from '../services/ledgerService';
+import { fakePaymentGateway, setPaymentGateway } from '../services/paymentGatewayService';
+import { confirmPayment, createPayment, refundEscrow } from '../services/paymentService';
+import { settleServiceRequest } from '../services/settlementService';
+import {
+  accountBalance,
+  memoryDatabase,
+  resetDatabase,
+  seedRows,
+  setColumnDefaults,
+  tableRows,
+} from './helpers/memoryDatabase';
+
+jest.mock('../config/supabase', () => ({
+  supabase: require('./helpers/memoryDatabase').memoryDatabase,
+  supabaseAdmin: require('./helpers/memoryDatabase').memoryDatabase,
+}));
+
+jest.mock('../services/invoiceService', () => ({
+  sendJobInvoice: jest.fn().mockResolvedValue(undefined),
+}));
+
+const admin = { id: 'admin-user', type: 'admin' as const };
+
+const job = {
+  id: 'sr-1',
+  customer_id: 'customer-user',
+  mechanic_id: 'mechanic-user',
+  category_id: null,
+  status: 'disputed',
+  payment_method: 'in_app' as const,
+};
+
+const mechanicWallet = walletAccount('mechanic-user');
+const commission = 6000 * DEFAULT_COMMISSION_RATE;
+
+const serviceRequestRow = () => tableRows('service_requests', { id: 'sr-1' })[0];
+const disputeRow = () => tableRows('service_request_disputes')[0];
+
+const failNextLedgerPosting = () =>
+  jest
+    .spyOn(memoryDatabase, 'rpc')
+    .mockResolvedValueOnce({ data: null, error: { message: 'connection reset' } });
+
+describe('resolveDispute', () => {
+  let consoleError: jest.SpyInstance;
+
+  beforeEach(async () => {
+    resetDatabase();
+    setColumnDefaults('payments', { refunded_amount: 0 });
+    setPaymentGateway(fakePaymentGateway);
+    consoleError = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    seedRows('service_requests', job);
+    seedRows('service_request_quotes', {
+      service_request_id: 'sr-1',
+      version: 1,
+      status: 'approved',
+      material_cost: 4000,
+      labor_cost: 6000,
+      total_cost: 10000,
+    });
+    seedRows('service_request_disputes', {
+      service_request_id: 'sr-1',
+      status: 'open',
+      reason: 'poor_quality',
+      created_at: new Date().toISOString(),
+    });
+
+    // Paid while the job was still in progress
+    const payment = await createPayment(
+      { ...job, status: 'in_progress' },
+      'ada@example.com',
+      'card'
+    );
+    await confirmPayment(payment);
+  });
+
+  afterEach(() => {
+    consoleError.mockRestore();
+    jest.restoreAllMocks();
+  });
+
+  it('cancels the job and refunds everything held', async () => {
+    await expect(
+      resolveDispute(job, admin, { outcome: 'refund', notes: 'No work was done' })
+    ).resolves.toMatchObject({ status: 'resolved', outcome: 'refund', refunded_amount: 10000 });
+
+    expect(serviceRequestRow()).toMatchObject({
+      status: 'cancelled',
+      cancellation_reason: 'dispute_refunded',
+    });
+    expect(tableRows('payment_refunds')[0]).toMatchObject({ amount: 10000, status: 'completed' });
+    expect(accountBalance(PLATFORM_ACCOUNTS.escrow)).toBe(0);
+    expect(accountBalance(mechanicWallet)).toBe(0);
+  });
+
+  it('completes the job at the approved quote and pays the mechanic', async () => {
+    await expect(
+      resolveDispute(job, admin, { outcome: 'release', notes: 'The work was done' })
+    ).resolves.toMatchObject({ status: 'resolved', outcome: 'release', refunded_amount: 0 });
+
+    expect(serviceRequestRow()).toMatchObject({ status: 'completed', total_cost: 10000 });
+    expect(accountBalance(mechanicWallet)).toBe(10000 - commission);
+    expect(accountBalance(PLATFORM_ACCOUNTS.commissionRevenue)).toBe(commission);
+    expect(accountBalance(PLATFORM_ACCOUNTS.escrow)).toBe(0);
+  });
+
+  it("completes the job at the admin's costs and refunds the excess", async () => {
+    await expect(
+      resolveDispute(job, admin, {
+        outcome: 'adjust',
+        notes: 'Fewer parts were needed',
+        material_cost: 2000,
+        labor_cost: 6000,
+      })
+    ).resolves.toMatchObject({ status: 'resolved', outcome: 'adjust', refunded_amount: 2000 });
+
+    expect(serviceRequestRow()).toMatchObject({ status: 'completed', total_cost: 8000 });
+    expect(accountBalance(mechanicWallet)).toBe(8000 - commission);
+    expect(accountBalance(PLATFORM_ACCOUNTS.gatewayClearing)).toBe(-8000);
+    expect(accountBalance(PLATFORM_ACCOUNTS.escrow)).toBe(0);
+  });
+
+  it('refuses to complete the job for more than is held', async () => {
+    await expect(
+      resolveDispute(job, admin, {
+        outcome: 'adjust',
+        notes: 'More parts were needed',
+        material_cost: 8000,
+        labor_cost: 6000,
+      })
+    ).rejects.toMatchObject({ statusCode: 409 });
+
+    expect(serviceRequestRow().status).toBe('disputed');
+    expect(disputeRow().status).toBe('open');
+  });
+
+  it('closes the dispute when settlement fails and settles on retry', async () => {
+    failNextLedgerPosting();
+
+    await expect(
+      resolveDispute(job, admin, { outcome: 'release', notes: 'The work was done' })
+    ).rejects.toMatchObject({ statusCode: 502 });
+
+    expect(serviceRequestRow().status).toBe('completed');
+    expect(disputeRow()).toMatchObject({ status: 'resolved', outcome: 'release' });
+    expect(tableRows('notifications', { title: 'Dispute Resolved' })).toHaveLength(2);
+    expect(accountBalance(PLATFORM_ACCOUNTS.escrow)).toBe(10000);
+
+    await settleServiceRequest('sr-1');
+    await settleServiceRequest('sr-1');
+
+    expect(accountBalance(mechanicWallet)).toBe(10000 - commission);
+    expect(accountBalance(PLATFORM_ACCOUNTS.escrow)).toBe(0);
+  });
+
+  it('closes the dispute when the refund fails so it can be refunded again', async () => {
+    setPaymentGateway({
+      ...fakePaymentGateway,
+      refund: jest.fn().mockRejectedValue(new Error('gateway down')),
+    });
+
+    await expect(
+      resolveDispute(job, admin, { outcome: 'refund', notes: 'No work was done' })
+    ).rejects.toMatchObject({ statusCode: 502 });
+
+    expect(serviceRequestRow().status).toBe('cancelled');
+    expect(disputeRow().status).toBe('resolved');
+    expect(accountBalance(PLATFORM_ACCOUNTS.escrow)).toBe(10000);
+
+    setPaymentGateway(fakePaymentGateway);
+    await expect(refundEscrow('sr-1', null, 'the dispute was resolved')).resolves.toBe(10000);
+    expect(accountBalance(PLATFORM_ACCOUNTS.escrow)).toBe(0);
+  });
+
+  it('only settles completed jobs', async () => {
+    await expect(settleServiceRequest('sr-1')).rejects.toMatchObject({ statusCode: 409 });
+    await expect(settleServiceRequest('sr-missing')).rejects.toMatchObject({ statusCode: 404 });
+  });
+});
@@ -0,0 +1,510 @@
+/**
+ * In-memory stand-in for supabaseAdmin, for tests that follow rows through a service.
+ * Tables are plain arrays; queries support the filters, ordering and single-row reads
+ * the services use. Unique keys raise 23505 like Postgres, failNext makes the next
+ * query on a table return an error, and rpc calls go to registered handlers, with
+ * post_ledger_transaction built in.
+ *
+ * Column lists and joins in select() are ignored: every column of the row comes back,
+ * so seed joined data (e.g. a nested customer) on the row itself.
+ */
+export type Row = Record<string, any>;
+
+export interface DatabaseError {
+  message: string;
+  code?: string;
+}
+
+type Operation = 'select' | 'insert' | 'update' | 'upsert' | 'delete';
+
+interface QueryResult {
+  data: any;
+  error: DatabaseError | null;
+  count?: number | null;
+}
+
+type RpcHandler = (params: Row) => unknown;
+
+const tables = new Map<string, Row[]>();
+const uniqueKeys = new Map<string, string[][]>();
+const columnDefaults = new Map<string, Row>();
+const rpcHandlers = new Map<string, RpcHandler>();
+let failures: { table: string; operation: Operation; error: DatabaseError }[] = [];
+let nextId = 1;
+
+const copy = <T>(value: T): T => (value === undefined ? value : structuredClone(value));
+
+const rowsOf = (table: string) => {
+  if (!tables.has(table)) {
+    tables.set(table, []);
+  }
+  return tables.get(table)!;
+};
+
+const valueOf = (row: Row, column: string) => row[column] ?? null;
+
+const compare = (left: unknown, right: unknown) => {
+  if (typeof left === 'number' || typeof right === 'number') {
+    return Number(left) - Number(right);
+  }
+  return String(left) < String(right) ? -1 : String(left) > String(right) ? 1 : 0;
+};
+
+const matchesValue = (row: Row, column: string, value: unknown) =>
+  valueOf(row, column) === (value ?? null) ||
+  (typeof value === 'number' && Number(valueOf(row, column)) === value);
+
+const uniqueViolation = (table: string, candidate: Row, others: Row[]) =>
+  [['id'], ...(uniqueKeys.get(table) || [])].some((columns) =>
+    others.some(
+      (other) =>
+        other !== candidate &&
+        columns.every((column) => valueOf(candidate, column) !== null) &&
+        columns.every((column) => valueOf(other, column) === valueOf(candidate, column))
+    )
+  );
+
+// Supports the "column.eq.value,column.eq.value" form used with .or()
+const parseOrFilter = (expression: string) => {
+  const conditions = expression.split(',').map((part) => {
+    const [column, operator, ...rest] = part.split('.');
+    if (operator !== 'eq') {
+      throw new Error(`memoryDatabase: unsupported or() operator ${operator}`);
+    }
+    return { column, value: rest.join('.') };
+  });
+
+  return (row: Row) =>
+    conditions.some(({ column, value }) => String(valueOf(row, column)) === value);
+};
+
+class MemoryQuery implements PromiseLike<QueryResult> {
+  private operation: Operation = 'select';
+  private values: Row[] = [];
+  private changes: Row = {};
+  private conflictColumns: string[] = ['id'];
+  private filters: ((row: Row) => boolean)[] = [];
+  private orders: { column: string; ascending: boolean }[] = [];
+  private rowLimit: number | null = null;
+  private rowOffset = 0;
+  private returning = false;
+  private countRows = false;
+  private headOnly = false;
+  private singleRow: 'single' | 'maybeSingle' | null = null;
+
+  constructor(private readonly table: string) {}
+
+  select(_columns?: string, options: { count?: string; head?: boolean } = {}) {
+    if (this.operation !== 'select') {
+      this.returning = true;
+    }
+    this.countRows = Boolean(options.count);
+    this.headOnly = Boolean(options.head);
+    return this;
+  }
+
+  insert(values: Row | Row[]) {
+    this.operation = 'insert';
+    this.values = Array.isArray(values) ? values : [values];
+    return this;
+  }
+
+  upsert(values: Row | Row[], options: { onConflict?: string } = {}) {
+    this.operation = 'upsert';
+    this.values = Array.isArray(values) ? values : [values];
+    if (options.onConflict) {
+      this.conflictColumns = options.onConflict.split(',').map((column) => column.trim());
+    }
+    return this;
+  }
+
+  update(changes: Row) {
+    this.operation = 'update';
+    this.changes = changes;
+    return this;
+  }
+
+  delete() {
+    this.operation = 'delete';
+    return this;
+  }
+
+  eq(column: string, value: unknown) {
+    this.filters.push((row) => matchesValue(row, column, value));
+    return this;
+  }
+
+  neq(column: string, value: unknown) {
+    this.filters.push((row) => !matchesValue(row, column, value));
+    return this;
+  }
+
+  is(column: string, value: unknown) {
+    return this.eq(column, value);
+  }
+
+  in(column: string, values: unknown[]) {
+    this.filters.push((row) => values.some((value) => matchesValue(row, column, value)));
+    return this;
+  }
+
+  not(column: string, operator: string, value: unknown) {
+    if (operator !== 'is' && operator !== 'eq') {
+      throw new Error(`memoryDatabase: unsupported not() operator ${operator}`);
+    }
+    return this.neq(column, value);
+  }
+
+  gt(column: string, value: unknown) {
+    this.filters.push((row) => valueOf(row, column) !== null && compare(valueOf(row, column), value) > 0);
+    return this;
+  }
+
+  gte(column: string, value: unknown) {
+    this.filters.push((row) => valueOf(row, column) !== null && compare(valueOf(row, column), value) >= 0);
+    return this;
+  }
+
+  lt(column: string, value: unknown) {
+    this.filters.push((row) => valueOf(row, column) !== null && compare(valueOf(row, column), value) < 0);
+    return this;
+  }
+
+  lte(column: string, value: unknown) {
+    this.filters.push((row) => valueOf(row, column) !== null && compare(valueOf(row, column), value) <= 0);
+    return this;
+  }
+
+  match(values: Row) {
+    Object.entries(values).forEach(([column, value]) => this.eq(column, value));
+    return this;
+  }
+
+  or(expression: string) {
+    this.filters.push(parseOrFilter(expression));
+    return this;
+  }
+
+  order(column: string, options: { ascending?: boolean } = {}) {
+    this.orders.push({ column, ascending: options.ascending !== false });
+    return this;
+  }
+
+  limit(count: number) {
+    this.rowLimit = count;
+    return this;
+  }
+
+  range(from: number, to: number) {
+    this.rowOffset = from;
+    this.rowLimit = to - from + 1;
+    return this;
+  }
+
+  single() {
+    this.singleRow = 'single';
+    return this;
+  }
+
+  maybeSingle() {
+    this.singleRow = 'maybeSingle';
+    return this;
+  }
+
+  overrideTypes() {
+    return this;
+  }
+
+  returns() {
+    return this;
+  }
+
+  then<TResult1 = QueryResult, TResult2 = never>(
+    onfulfilled?: ((value: QueryResult) => TResult1 | PromiseLike<TResult1>) | null,
+    onrejected?: ((reason: unknown) => TResult2 | PromiseLike<TResult2>) | null
+  ): PromiseLike<TResult1 | TResult2> {
+    return Promise.resolve()
+      .then(() => this.execute())
+      .then(onfulfilled, onrejected);
+  }
+
+  private matching() {
+    return rowsOf(this.table).filter((row) => this.filters.every((filter) => filter(row)));
+  }
+
+  private insertRows(values: Row[]): DatabaseError | null {
+    const rows = rowsOf(this.table);
+    const now = new Date().toISOString();
+    const inserted = values.map((value) => ({
+      id: `${this.table}-${nextId++}`,
+      created_at: now,
+      ...copy(columnDefaults.get(this.table) || {}),
+      ...copy(value),
+    }));
+
+    for (const row of inserted) {
+      if (uniqueViolation(this.table, row, [...rows, ...inserted])) {
+        return { code: '23505', message: `duplicate key value violates unique constraint on ${this.table}` };
+      }
+    }
+
+    rows.push(...inserted);
+    this.values = inserted;
+    return null;
+  }
+
+  private execute(): QueryResult {
+    const failureIndex = failures.findIndex(
+      (failure) => failure.table === this.table && failure.operation === this.operation
+    );
+    if (failureIndex >= 0) {
+      const [failure] = failures.splice(failureIndex, 1);
+      return { data: null, error: failure.error, count: null };
+    }
+
+    let result: Row[];
+
+    switch (this.operation) {
+      case 'insert': {
+        const error = this.insertRows(this.values);
+        if (error) {
+          return { data: null, error };
+        }
+        result = this.values;
+        break;
+      }
+      case 'upsert': {
+        const rows = rowsOf(this.table);
+        const fresh: Row[] = [];
+        result = [];
+        for (const value of this.values) {
+          const existing = rows.find((row) =>
+            this.conflictColumns.every((column) => valueOf(row, column) === (value[column] ?? null))
+          );
+          if (existing) {
+            Object.assign(existing, copy(value));
+            result.push(existing);
+          } else {
+            fresh.push(value);
+          }
+        }
+        const error = this.insertRows(fresh);
+        if (error) {
+          return { data: null, error };
+        }
+        result.push(...this.values);
+        break;
+      }
+      case 'update':
+        result = this.matching();
+        result.forEach((row) => Object.assign(row, copy(this.changes)));
+        break;
+      case 'delete': {
+        result = this.matching();
+        tables.set(
+          this.table,
+          rowsOf(this.table).filter((row) => !result.includes(row))
+        );
+        break;
+      }
+      default: {
+        result = [...this.matching()];
+        for (const { column, ascending } of [...this.orders].reverse()) {
+          result.sort((left, right) => {
+            const order = compare(valueOf(left, column), valueOf(right, column));
+            return ascending ? order : -order;
+          });
+        }
+      }
+    }
+
+    const count = result.length;
+
+    if (this.operation === 'select') {
+      result = result.slice(this.rowOffset, this.rowLimit === null ? undefined : this.rowOffset + this.rowLimit);
+    } else if (!this.returning) {
+      return { data: null, error: null, count: null };
+    }
+
+    if (this.headOnly) {
+      return { data: null, error: null, count };
+    }
+
+    const data = copy(result);
+
+    if (this.singleRow) {
+      if (data.length > 1 || (data.length === 0 && this.singleRow === 'single')) {
+        return {
+          data: null,
+          error: { code: 'PGRST116', message: `JSON object requested, ${data.length} rows returned` },
+        };
+      }
+      return { data: data[0] ?? null, error: null };
+    }
+
+    return { data, error: null, count: this.countRows ? count : null };
+  }
+}
+
+/**
+ * post_ledger_transaction from the schema: idempotent by key, wallets opened on first
+ * use and never overdrawn unless the entry allows it, wallet activity written per entry.
+ */
+const postLedgerTransaction: RpcHandler = (params) => {
+  const entries: { account: string; amount: number; allow_overdraft?: boolean }[] = params.p_entries;
+
+  if (entries.reduce((sum, entry) => sum + Math.round(entry.amount * 100), 0) !== 0) {
+    throw { message: 'unbalanced_transaction: entries must sum to zero' };
+  }
+
+  const existing = rowsOf('ledger_transactions').find(
+    (transaction) => transaction.idempotency_key === params.p_idempotency_key
+  );
+  if (existing) {
+    return { transaction_id: existing.id, created: false };
+  }
+
+  const accounts = rowsOf('ledger_accounts');
+  const accountFor = (code: string) => {
+    let account = accounts.find((candidate) => candidate.code === code);
+    if (!account) {
+      account = { id: `ledger_accounts-${nextId++}`, code, balance: 0, allow_negative: !code.startsWith('wallet:') };
+      accounts.push(account);
+    }
+    return account;
+  };
+
+  for (const entry of entries) {
+    const account = accountFor(entry.account);
+    if (
+      !account.allow_negative &&
+      !entry.allow_overdraft &&
+      entry.amount < 0 &&
+      Number(account.balance) + entry.amount < 0
+    ) {
+      throw { message: `insufficient_funds: ${entry.account}` };
+    }
+  }
+
+  const transactionId = `ledger_transactions-${nextId++}`;
+  rowsOf('ledger_transactions').push({
+    id: transactionId,
+    kind: params.p_kind,
+    idempotency_key: params.p_idempotency_key,
+    reference_type: params.p_reference_type,
+    reference_id: params.p_reference_id,
+    description: params.p_description,
+  });
+
+  const balances: Record<string, number> = {};
+  const activity = params.p_activity || {};
+
+  for (const entry of entries) {
+    const account = accountFor(entry.account);
+    account.balance = Math.round((Number(account.balance) + entry.amount) * 100) / 100;
+    balances[account.code] = account.balance;
+    rowsOf('ledger_entries').push({ transaction_id: transactionId, account_id: account.id, amount: entry.amount });
+
+    if (account.code.startsWith('wallet:')) {
+      rowsOf('wallet_transactions').push({
+        id: `wallet_transactions-${nextId++}`,
+        user_id: account.code.slice('wallet:'.length),
+        amount: entry.amount,
+        transaction_type: activity.transaction_type || params.p_kind,
+        status: activity.status || 'completed',
+        reference_type: params.p_reference_type,
+        reference_id: params.p_reference_id,
+        ledger_transaction_id: transactionId,
+      });
+    }
+  }
+
+  return { transaction_id: transactionId, created: true, balances };
+};
+
+export const memoryDatabase = {
+  from: (table: string) => new MemoryQuery(table),
+
+  rpc: async (name: string, params: Row = {}) => {
+    const handler = rpcHandlers.get(name);
+    if (!handler) {
+      return { data: null, error: { message: `memoryDatabase: no handler for rpc ${name}` } };
+    }
+    try {
+      return { data: copy(await handler(params)), error: null };
+    } catch (error) {
+      return { data: null, error: error as DatabaseError };
+    }
+  },
+
+  storage: {
+    from: () => ({
+      upload: async () => ({ data: { path: 'test-upload' }, error: null }),
+      remove: async () => ({ data: null, error: null }),
+      getPublicUrl: (path: string) => ({ data: { publicUrl: `https://storage.test/${path}` } }),
+      createSignedUrl: async (path: string) => ({ data: { signedUrl: `https://storage.test/${path}?signed` }, error: null }),
+    }),
+  },
+};
+
+/**
+ * Empty every table and go back to the built-in rpc handlers. Call in beforeEach.
+ */
+export const resetDatabase = () => {
+  tables.clear();
+  uniqueKeys.clear();
+  columnDefaults.clear();
+  rpcHandlers.clear();
+  failures = [];
+  rpcHandlers.set('post_ledger_transaction', postLedgerTransaction);
+};
+
+export const seedRows = (table: string, rows: Row | Row[]) => {
+  const seeded = (Array.isArray(rows) ? rows : [rows]).map((row) => ({
+    id: `${table}-${nextId++}`,
+    ...copy(row),
+  }));
+  rowsOf(table).push(...seeded);
+  return copy(seeded);
+};
+
+/**
+ * The current rows of a table, optionally only those matching every given column
+ */
+export const tableRows = (table: string, where: Row = {}) =>
+  copy(
+    rowsOf(table).filter((row) =>
+      Object.entries(where).every(([column, value]) => matchesValue(row, column, value))
+    )
+  );
+
+export const addUniqueKey = (table: string, columns: string[]) => {
+  uniqueKeys.set(table, [...(uniqueKeys.get(table) || []), columns]);
+};
+
+/**
+ * Column values inserted rows get unless they set them, like Postgres DEFAULTs
+ */
+export const setColumnDefaults = (table: string, defaults: Row) => {
+  columnDefaults.set(table, defaults);
+};
+
+export const onRpc = (name: string, handler: RpcHandler) => {
+  rpcHandlers.set(name, handler);
+};
+
+/**
+ * Make the next query of this kind on the table fail
+ */
+export const failNext = (
+  table: string,
+  operation: Operation,
+  error: DatabaseError = { message: 'connection reset' }
+) => {
+  failures.push({ table, operation, error });
+};
+
+export const accountBalance = (code: string) =>
+  Number(rowsOf('ledger_accounts').find((account) => account.code === code)?.balance ?? 0);
+
+resetDatabase();
@@ -0,0 +1,9 @@
+// Required settings for loading the app in tests; nothing talks to these services
+process.env.SUPABASE_URL = 'http://localhost:54321';
+process.env.SUPABASE_ANON_KEY = 'test-anon-key';
+process.env.SUPABASE_SERVICE_KEY = 'test-service-key';
+process.env.JWT_SECRET = 'test-jwt-secret';
+process.env.PAYOUT_PROVIDER = 'fake';
+process.env.PAYOUT_WEBHOOK_SECRET = 'test-payout-webhook-secret';
+process.env.PAYMENT_GATEWAY = 'fake';
+process.env.PAYMENT_WEBHOOK_SECRET = 'test-payment-webhook-secret';
@@ -0,0 +1,40 @@
+/**
+ * Stand-in for supabaseAdmin where every query on a table resolves to the row set
+ * with setTableRow (or null). Filters are accepted and ignored.
+ */
+const tableRows = new Map<string, unknown>();
+
+export const setTableRow = (table: string, row: unknown) => {
+  tableRows.set(table, row);
+};
+
+export const clearTableRows = () => {
+  tableRows.clear();
+};
+
+const createQuery = (table: string): any => {
+  const result = () => ({ data: tableRows.get(table) ?? null, error: null });
+
+  const query: any = new Proxy(
+    {},
+    {
+      get: (_target, property) => {
+        if (property === 'then') {
+          return (resolve: (value: unknown) => void) => resolve(result());
+        }
+        if (property === 'single' || property === 'maybeSingle') {
+          return () => Promise.resolve(result());
+        }
+        return () => query;
+      },
+    }
+  );
+
+  return query;
+};
+
+export const supabaseMock = {
+  from: (table: string) => createQuery(table),
+  rpc: () => Promise.resolve({ data: null, error: null }),
+  storage: { from: () => ({}) },
+};
@@ -0,0 +1,28 @@
+import express from 'express';
+import jwt from 'jsonwebtoken';
+import routes from '../../routes';
+import { errorHandler, notFoundHandler } from '../../middleware';
+import { UserRole } from '../../types';
+
+/**
+ * The API routes without app.ts's listener and background jobs
+ */
+export const createTestApp = () => {
+  const app = express();
+  app.use(express.json());
+  app.use('/api', routes);
+  app.use(notFoundHandler);
+  app.use(errorHandler);
+  return app;
+};
+
+/**
+ * A bearer token for a user of the given type. Tests mock isSessionActive, so the
+ * session id doesn't need to exist.
+ */
+export const bearerToken = (userType: UserRole, id: string = `${userType}-user`) =>
+  `Bearer ${jwt.sign(
+    { id, user_type: userType, sid: `${id}-session` },
+    process.env.JWT_SECRET as string,
+    { expiresIn: '5m' }
+  )}`;
@@ -0,0 +1,185 @@
+import jwt from 'jsonwebtoken';
+import request from 'supertest';
+import {
+  createInvoiceDownloadToken,
+  formatInvoice,
+  getInvoiceFromDownloadToken,
+  issueInvoice,
+  renderInvoiceHtml,
+} from '../services/invoiceService';
+import { bearerToken, createTestApp } from './helpers/testApp';
+import {
+  addUniqueKey,
+  resetDatabase,
+  seedRows,
+  setColumnDefaults,
+  tableRows,
+} from './helpers/memoryDatabase';
+
+jest.mock('../config/supabase', () => ({
+  supabase: require('./helpers/memoryDatabase').memoryDatabase,
+  supabaseAdmin: require('./helpers/memoryDatabase').memoryDatabase,
+}));
+
+jest.mock('../services/sessionService', () => ({
+  ...jest.requireActual('../services/sessionService'),
+  isSessionActive: jest.fn().mockResolvedValue(true),
+}));
+
+const completedJob = {
+  id: 'sr-1',
+  status: 'completed',
+  customer_id: 'customer-user',
+  mechanic_id: 'mechanic-user',
+  material_cost: 15000,
+  labor_cost: 6000,
+  total_cost: 21500,
+  commission_rate: 0.1,
+  commission_amount: 600,
+  customer_location_address: '14 Admiralty Way, Lekki',
+  completed_at: '2026-03-02T15:00:00.000Z',
+  customer: { id: 'customer-user', full_name: 'Ada Obi', email: 'ada@example.com', phone: null },
+  mechanic: { id: 'mechanic-user', full_name: 'Emeka Eze', email: null, phone: '08033334444' },
+  vehicle: { car_name: 'Toyota', car_model: 'Corolla', car_year: 2014 },
+  category: { name: 'Brakes' },
+};
+
+describe('invoices', () => {
+  beforeEach(() => {
+    resetDatabase();
+    addUniqueKey('invoices', ['service_request_id']);
+    setColumnDefaults('invoices', {
+      invoice_number: 'MKF-000001',
+      issued_at: '2026-03-02T15:01:00.000Z',
+    });
+  });
+
+  describe('issueInvoice', () => {
+    it('copies the approved quote lines and the recorded commission', async () => {
+      seedRows('service_requests', completedJob);
+      seedRows('service_request_quotes', {
+        service_request_id: 'sr-1',
+        version: 2,
+        status: 'approved',
+        items: [
+          { type: 'part', description: 'Brake pads', quantity: 2, unit_price: 7500, total: 15000 },
+          { type: 'labour', description: 'Fitting', quantity: 1, unit_price: 6000, total: 6000 },
+        ],
+      });
+
+      const invoice = await issueInvoice('sr-1');
+
+      expect(invoice).toMatchObject({
+        line_items: [
+          expect.objectContaining({ description: 'Brake pads' }),
+          expect.objectContaining({ description: 'Fitting' }),
+        ],
+        total: 21500,
+        // Prices include 7.5% VAT
+        vat_amount: 1500,
+        subtotal: 20000,
+        commission_rate: 0.1,
+        commission: 600,
+        mechanic_earnings: 5400,
+        details: expect.objectContaining({ category: 'Brakes', quote_version: 2 }),
+      });
+    });
+
+    it('falls back to the cost totals and the default rate for older jobs', async () => {
+      seedRows('service_requests', {
+        ...completedJob,
+        material_cost: 0,
+        total_cost: null,
+        commission_rate: null,
+        commission_amount: null,
+      });
+
+      const invoice = await issueInvoice('sr-1');
+
+      expect(invoice.line_items).toEqual([
+        { type: 'labour', description: 'Labour', quantity: 1, unit_price: 6000, total: 6000 },
+      ]);
+      expect(invoice).toMatchObject({ total: 6000, commission_rate: 0.15, commission: 900 });
+    });
+
+    it('returns the invoice already issued', async () => {
+      seedRows('service_requests', completedJob);
+      const first = await issueInvoice('sr-1');
+
+      await expect(issueInvoice('sr-1')).resolves.toEqual(first);
+      expect(tableRows('invoices')).toHaveLength(1);
+    });
+
+    it('refuses jobs that are not completed', async () => {
+      seedRows('service_requests', { ...completedJob, status: 'in_progress' });
+
+      await expect(issueInvoice('sr-1')).rejects.toMatchObject({ statusCode: 409 });
+    });
+  });
+
+  describe('copies', () => {
+    const issue = async () => {
+      seedRows('service_requests', completedJob);
+      return issueInvoice('sr-1');
+    };
+
+    it("hides the commission from the customer's receipt", async () => {
+      const invoice = await issue();
+
+      expect(formatInvoice(invoice, 'customer')).not.toHaveProperty('commission');
+      expect(formatInvoice(invoice, 'mechanic')).toMatchObject({ commission: 600, copy: 'mechanic' });
+      expect(renderInvoiceHtml(invoice, 'customer')).not.toContain('Platform commission');
+      expect(renderInvoiceHtml(invoice, 'mechanic')).toContain('Platform commission (10% of labour)');
+    });
+
+    it('escapes text from the job in the HTML', async () => {
+      seedRows('service_requests', {
+        ...completedJob,
+        customer_location_address: '<script>alert(1)</script>',
+      });
+
+      const html = renderInvoiceHtml(await issueInvoice('sr-1'), 'customer');
+
+      expect(html).not.toContain('<script>');
+      expect(html).toContain('&lt;script&gt;');
+    });
+
+    it('gives each party their own copy through the API', async () => {
+      await issue();
+      const app = createTestApp();
+
+      const asMechanic = await request(app)
+        .get('/api/service-requests/sr-1/invoice')
+        .set('Authorization', bearerToken('mechanic'));
+      const asStranger = await request(app)
+        .get('/api/service-requests/sr-1/invoice')
+        .set('Authorization', bearerToken('customer', 'another-customer'));
+
+      expect(asMechanic.status).toBe(200);
+      expect(asMechanic.body.data).toMatchObject({ copy: 'mechanic', mechanic_earnings: 5400 });
+      expect(asStranger.status).toBe(403);
+    });
+  });
+
+  describe('download links', () => {
+    it('open the copy they were made for', async () => {
+      seedRows('service_requests', completedJob);
+      const invoice = await issueInvoice('sr-1');
+
+      await expect(
+        getInvoiceFromDownloadToken(createInvoiceDownloadToken(invoice.id, 'customer'))
+      ).resolves.toMatchObject({ invoice: { id: invoice.id }, copy: 'customer' });
+    });
+
+    it('refuse other tokens', async () => {
+      const accessToken = jwt.sign({ id: 'customer-user' }, process.env.JWT_SECRET as string);
+
+      await expect(getInvoiceFromDownloadToken(accessToken)).rejects.toMatchObject({
+        statusCode: 401,
+      });
+      await expect(getInvoiceFromDownloadToken('not-a-token')).rejects.toMatchObject({
+        statusCode: 401,
+      });
+    });
+  });
+});
@@ -0,0 +1,159 @@
+import {
+  PLATFORM_ACCOUNTS,
+  postLedgerTransaction,
+  reconcileLedger,
+  settleJobEarnings,
+  walletAccount,
+} from '../services/ledgerService';
+import { accountBalance, onRpc, resetDatabase, tableRows } from './helpers/memoryDatabase';
+
+jest.mock('../config/supabase', () => ({
+  supabase: require('./helpers/memoryDatabase').memoryDatabase,
+  supabaseAdmin: require('./helpers/memoryDatabase').memoryDatabase,
+}));
+
+const mechanicWallet = walletAccount('mechanic-user');
+
+const topUp = (amount: number, key: string = 'opening') =>
+  postLedgerTransaction({
+    kind: 'opening_balance',
+    idempotencyKey: key,
+    entries: [
+      { account: PLATFORM_ACCOUNTS.openingBalances, amount: -amount },
+      { account: mechanicWallet, amount },
+    ],
+  });
+
+const withdraw = (amount: number, key: string) =>
+  postLedgerTransaction({
+    kind: 'withdrawal',
+    idempotencyKey: key,
+    entries: [
+      { account: mechanicWallet, amount: -amount },
+      { account: PLATFORM_ACCOUNTS.payoutsPending, amount },
+    ],
+  });
+
+describe('ledger', () => {
+  beforeEach(() => {
+    resetDatabase();
+  });
+
+  describe('postLedgerTransaction', () => {
+    it('moves money between accounts and writes wallet activity', async () => {
+      const result = await topUp(5000);
+
+      expect(result).toMatchObject({ created: true, balances: { [mechanicWallet]: 5000 } });
+      expect(accountBalance(PLATFORM_ACCOUNTS.openingBalances)).toBe(-5000);
+      expect(tableRows('wallet_transactions')).toEqual([
+        expect.objectContaining({ user_id: 'mechanic-user', amount: 5000 }),
+      ]);
+    });
+
+    it('posts a key only once', async () => {
+      const first = await topUp(5000, 'topup:1');
+      const again = await topUp(5000, 'topup:1');
+
+      expect(again).toEqual({ transaction_id: first.transaction_id, created: false });
+      expect(accountBalance(mechanicWallet)).toBe(5000);
+    });
+
+    it('treats losing a race on the same key as already posted', async () => {
+      onRpc('post_ledger_transaction', () => {
+        throw { code: '23505', message: 'duplicate key value' };
+      });
+
+      await expect(topUp(5000)).resolves.toEqual({ transaction_id: '', created: false });
+    });
+
+    it('rounds to kobo and refuses entries that do not balance', async () => {
+      await expect(
+        postLedgerTransaction({
+          kind: 'promo_credit',
+          idempotencyKey: 'promo:1',
+          entries: [
+            { account: PLATFORM_ACCOUNTS.promotions, amount: -0.3 },
+            { account: walletAccount('customer-user'), amount: 0.1 + 0.2 },
+          ],
+        })
+      ).resolves.toMatchObject({ created: true });
+
+      await expect(
+        postLedgerTransaction({
+          kind: 'promo_credit',
+          idempotencyKey: 'promo:2',
+          entries: [
+            { account: PLATFORM_ACCOUNTS.promotions, amount: -100 },
+            { account: walletAccount('customer-user'), amount: 99.99 },
+          ],
+        })
+      ).rejects.toMatchObject({ statusCode: 500, message: 'Ledger transaction does not balance' });
+      expect(tableRows('ledger_transactions')).toHaveLength(1);
+    });
+
+    it('never overdraws a wallet, even with concurrent withdrawals', async () => {
+      await topUp(5000);
+
+      const results = await Promise.allSettled([
+        withdraw(3000, 'payout:1'),
+        withdraw(3000, 'payout:2'),
+      ]);
+
+      expect(results.map((result) => result.status).sort()).toEqual(['fulfilled', 'rejected']);
+      expect(results.find((result) => result.status === 'rejected')).toMatchObject({
+        reason: { statusCode: 400, message: 'Insufficient balance' },
+      });
+      expect(accountBalance(mechanicWallet)).toBe(2000);
+    });
+
+    it('lets an entry overdraw when it allows it', async () => {
+      await postLedgerTransaction({
+        kind: 'cash_commission',
+        idempotencyKey: 'cash_commission:sr-1',
+        entries: [
+          { account: mechanicWallet, amount: -900, allowOverdraft: true },
+          { account: PLATFORM_ACCOUNTS.commissionRevenue, amount: 900 },
+        ],
+      });
+
+      expect(accountBalance(mechanicWallet)).toBe(-900);
+    });
+  });
+
+  describe('settleJobEarnings', () => {
+    const job = { id: 'sr-1', mechanic_id: 'mechanic-user', labor_cost: '6000' };
+
+    it("splits the labour between the mechanic's wallet and commission once", async () => {
+      await settleJobEarnings(job, 900);
+      await settleJobEarnings(job, 900);
+
+      expect(accountBalance(mechanicWallet)).toBe(5100);
+      expect(accountBalance(PLATFORM_ACCOUNTS.commissionRevenue)).toBe(900);
+      expect(accountBalance(PLATFORM_ACCOUNTS.jobClearing)).toBe(-6000);
+    });
+
+    it('posts nothing for jobs without labour', async () => {
+      await expect(settleJobEarnings({ ...job, labor_cost: null }, 0)).resolves.toBeNull();
+      expect(tableRows('ledger_transactions')).toHaveLength(0);
+    });
+  });
+
+  describe('reconcileLedger', () => {
+    it('records each run with the drift it found', async () => {
+      const drift = [
+        { check_name: 'wallet_balance', reference: 'mechanic-user', expected: 5000, actual: 4500 },
+      ];
+      onRpc('reconcile_ledger', () => drift);
+      const consoleError = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+      const result = await reconcileLedger();
+
+      expect(result.drift).toEqual(drift);
+      expect(tableRows('ledger_reconciliation_runs')).toEqual([
+        expect.objectContaining({ drift_count: 1, drift }),
+      ]);
+      expect(consoleError).toHaveBeenCalled();
+      consoleError.mockRestore();
+    });
+  });
+});
@@ -0,0 +1,80 @@
+import {
+  getMechanicEta,
+  getMechanicLocation,
+  publishMechanicLocation,
+} from '../services/liveLocationService';
+import { resetDatabase, seedRows, tableRows } from './helpers/memoryDatabase';
+
+jest.mock('../config/supabase', () => ({
+  supabase: require('./helpers/memoryDatabase').memoryDatabase,
+  supabaseAdmin: require('./helpers/memoryDatabase').memoryDatabase,
+}));
+
+const job = {
+  id: 'sr-1',
+  mechanic_id: 'mechanic-user',
+  status: 'en_route',
+  customer_location_lat: 6.4281,
+  customer_location_lng: 3.4219,
+};
+
+describe('live mechanic location', () => {
+  beforeEach(() => {
+    resetDatabase();
+    seedRows('users', { id: 'mechanic-user', location_lat: 6.6018, location_lng: 3.3515 });
+  });
+
+  it('keeps one row per request with the latest position', async () => {
+    await publishMechanicLocation(job, { latitude: 6.5, longitude: 3.38 });
+    await publishMechanicLocation(job, { latitude: 6.45, longitude: 3.4, heading: 120 });
+
+    expect(tableRows('service_request_locations')).toEqual([
+      expect.objectContaining({
+        service_request_id: 'sr-1',
+        latitude: 6.45,
+        longitude: 3.4,
+        heading: 120,
+      }),
+    ]);
+    // Nearby search sees the new position too
+    expect(tableRows('users')[0]).toMatchObject({ location_lat: 6.45, location_lng: 3.4 });
+  });
+
+  it('stops accepting positions once the mechanic has arrived', async () => {
+    await expect(
+      publishMechanicLocation({ ...job, status: 'arrived' }, { latitude: 6.45, longitude: 3.4 })
+    ).rejects.toMatchObject({ statusCode: 409 });
+    expect(tableRows('service_request_locations')).toHaveLength(0);
+  });
+
+  it('stops sharing the last position once tracking has ended', async () => {
+    await publishMechanicLocation(job, { latitude: 6.45, longitude: 3.4 });
+
+    await expect(getMechanicLocation(job)).resolves.toMatchObject({ latitude: 6.45 });
+    await expect(getMechanicLocation({ ...job, status: 'in_progress' })).resolves.toBeNull();
+  });
+
+  describe('getMechanicEta', () => {
+    it('estimates from the live position', async () => {
+      await publishMechanicLocation(job, { latitude: 6.43, longitude: 3.42 });
+
+      const eta = await getMechanicEta(job);
+
+      expect(eta).toMatchObject({ location_recorded_at: expect.any(String) });
+      expect(eta!.duration_minutes).toBeGreaterThan(0);
+    });
+
+    it('falls back to the profile location before streaming starts', async () => {
+      const eta = await getMechanicEta(job);
+
+      expect(eta).toMatchObject({ location_recorded_at: null });
+      // The profile location in Ikeja is about 20km from the customer in Ikoyi
+      expect(eta!.distance_km).toBeGreaterThan(10);
+    });
+
+    it('returns null without a customer location or outside tracking', async () => {
+      await expect(getMechanicEta({ ...job, customer_location_lat: null })).resolves.toBeNull();
+      await expect(getMechanicEta({ ...job, status: 'completed' })).resolves.toBeNull();
+    });
+  });
+});
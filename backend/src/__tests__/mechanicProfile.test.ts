@@ -0,0 +1,98 @@
+import request from 'supertest';
+import { toPublicName } from '../services/reviewService';
+import { createTestApp } from './helpers/testApp';
+import { resetDatabase, seedRows } from './helpers/memoryDatabase';
+
+jest.mock('../config/supabase', () => ({
+  supabase: require('./helpers/memoryDatabase').memoryDatabase,
+  supabaseAdmin: require('./helpers/memoryDatabase').memoryDatabase,
+}));
+
+describe('toPublicName', () => {
+  it.each([
+    ['Emeka Obi', 'Emeka O.'],
+    ['  Ngozi   Ada  Eze ', 'Ngozi E.'],
+    ['Tunde', 'Tunde'],
+  ])('shows %p as %p', (fullName, publicName) => {
+    expect(toPublicName(fullName)).toBe(publicName);
+  });
+
+  it('falls back when there is no name', () => {
+    expect(toPublicName(null)).toBe('Customer');
+    expect(toPublicName('', 'Mechanic')).toBe('Mechanic');
+  });
+});
+
+describe('GET /api/mechanics/:id', () => {
+  const app = createTestApp();
+
+  const seedMechanic = (verificationStatus: string) =>
+    seedRows('mechanic_profiles', {
+      id: 'mechanic-profile-1',
+      user_id: 'mechanic-user',
+      bio: 'Brakes and suspension, 10 years in Surulere',
+      years_of_experience: 10,
+      rating: 4.5,
+      total_jobs: 2,
+      is_available: true,
+      profile_photo_url: null,
+      verification_status: verificationStatus,
+      background_check_status: 'passed',
+      verified_at: '2026-01-10T09:00:00.000Z',
+      created_at: '2025-12-01T09:00:00.000Z',
+      users: { full_name: 'Emeka Obi', profile_picture_url: 'https://cdn.example.com/emeka.jpg' },
+    });
+
+  beforeEach(() => {
+    resetDatabase();
+  });
+
+  it('returns the profile with badges, ratings, reviews and portfolio', async () => {
+    seedMechanic('approved');
+    seedRows('mechanic_specializations', [
+      { mechanic_id: 'mechanic-profile-1', specialization: 'brakes' },
+      { mechanic_id: 'mechanic-profile-1', specialization: 'suspension' },
+    ]);
+    seedRows('mechanic_portfolio_photos', {
+      mechanic_id: 'mechanic-profile-1',
+      image_url: 'https://cdn.example.com/job.jpg',
+      caption: 'New brake pads',
+    });
+    seedRows('rating_aggregates', {
+      user_id: 'mechanic-user',
+      role: 'mechanic',
+      review_count: 2,
+      rating_sum: 9,
+      star_counts: [0, 0, 0, 1, 1],
+    });
+    seedRows('reviews', {
+      reviewee_id: 'mechanic-user',
+      reviewer_role: 'customer',
+      status: 'published',
+      rating: 5,
+      comment: 'Quick and tidy',
+      reviewer: { full_name: 'Ada Chioma Nwosu' },
+    });
+
+    const response = await request(app).get('/api/mechanics/mechanic-user');
+
+    expect(response.status).toBe(200);
+    expect(response.body.data).toMatchObject({
+      name: 'Emeka Obi',
+      profile_photo: 'https://cdn.example.com/emeka.jpg',
+      specializations: ['brakes', 'suspension'],
+      badges: { identity_verified: true, background_checked: true },
+      rating_breakdown: { average: 4.5, total: 2, counts: { '4': 1, '5': 1 } },
+      recent_reviews: [{ rating: 5, reviewer_name: 'Ada N.' }],
+      portfolio: [{ caption: 'New brake pads' }],
+    });
+  });
+
+  it('hides mechanics who are not approved', async () => {
+    seedMechanic('pending');
+
+    const response = await request(app).get('/api/mechanics/mechanic-user');
+
+    expect(response.status).toBe(404);
+  });
+});
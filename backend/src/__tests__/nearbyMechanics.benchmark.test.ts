@@ -0,0 +1,128 @@
+import { Client } from 'pg';
+
+/**
+ * Seeds a large set of mechanics around Lagos and times nearby_mechanics against it.
+ * Needs a scratch Postgres database with PostGIS and the schema from
+ * MEKOFIX_TECHNICAL_PLAN.md applied; everything runs in one transaction that is
+ * rolled back, so nothing is left behind. Skipped unless BENCHMARK_DATABASE_URL is set:
+ *
+ *   BENCHMARK_DATABASE_URL=postgres://... npm run test:benchmark
+ */
+
+const databaseUrl = process.env.BENCHMARK_DATABASE_URL;
+const mechanicCount = parseInt(process.env.BENCHMARK_MECHANICS || '50000', 10);
+const maxP95Ms = parseFloat(process.env.BENCHMARK_MAX_P95_MS || '200');
+const runs = 30;
+
+// Around Lagos, roughly 220km x 220km, so a 10km search only touches a small share
+const AREA = { lat: 6.5244, lng: 3.3792, spreadDegrees: 2 };
+
+const SPECIALIZATIONS = ['engine', 'brakes', 'electrical', 'suspension', 'ac', 'tyres'];
+
+const SEARCHES = [
+  { label: '10km, best', params: [AREA.lat, AREA.lng, 10, null, 'best'] },
+  { label: '10km, distance', params: [AREA.lat, AREA.lng, 10, null, 'distance'] },
+  { label: '25km, brakes', params: [AREA.lat + 0.2, AREA.lng - 0.1, 25, ['brakes'], 'best'] },
+];
+
+const seedMechanics = async (client: Client) => {
+  await client.query(
+    `
+    WITH seeded_users AS (
+      INSERT INTO users (email, full_name, user_type, gender, is_verified, location_lat, location_lng)
+      SELECT
+        'benchmark-mechanic-' || n || '@example.com',
+        'Benchmark Mechanic ' || n,
+        'mechanic',
+        CASE WHEN n % 2 = 0 THEN 'male' ELSE 'female' END,
+        TRUE,
+        $1::DOUBLE PRECISION + (random() - 0.5) * $3::DOUBLE PRECISION,
+        $2::DOUBLE PRECISION + (random() - 0.5) * $3::DOUBLE PRECISION
+      FROM generate_series(1, $4::INTEGER) AS n
+      RETURNING id
+    ),
+    seeded_profiles AS (
+      INSERT INTO mechanic_profiles (user_id, verification_status, is_available, rating, total_jobs)
+      SELECT id, 'approved', random() < 0.7, round((3 + random() * 2)::NUMERIC, 1), floor(random() * 200)
+      FROM seeded_users
+      RETURNING id
+    )
+    INSERT INTO mechanic_specializations (mechanic_id, specialization)
+    SELECT id, ($5::TEXT[])[1 + floor(random() * CARDINALITY($5::TEXT[]))::INTEGER]
+    FROM seeded_profiles
+    `,
+    [AREA.lat, AREA.lng, AREA.spreadDegrees, mechanicCount, SPECIALIZATIONS]
+  );
+
+  await client.query('ANALYZE users, mechanic_profiles, mechanic_specializations');
+};
+
+interface PlanNode {
+  'Node Type': string;
+  'Relation Name'?: string;
+  'Index Name'?: string;
+  Plans?: PlanNode[];
+}
+
+const flattenPlan = (node: PlanNode): PlanNode[] => [node, ...(node.Plans || []).flatMap(flattenPlan)];
+
+const percentile = (sorted: number[], fraction: number) =>
+  sorted[Math.min(sorted.length - 1, Math.ceil(sorted.length * fraction) - 1)];
+
+const describeWithDatabase = databaseUrl ? describe : describe.skip;
+
+describeWithDatabase('nearby_mechanics benchmark', () => {
+  const client = new Client({ connectionString: databaseUrl });
+
+  beforeAll(async () => {
+    await client.connect();
+    await client.query('BEGIN');
+    await seedMechanics(client);
+  }, 600000);
+
+  afterAll(async () => {
+    await client.query('ROLLBACK');
+    await client.end();
+  });
+
+  it.each(SEARCHES)(
+    `answers "$label" within the p95 limit using the location index`,
+    async ({ params }) => {
+      const [lat, lng, radiusKm, specializations, sort] = params;
+      const query = `SELECT * FROM nearby_mechanics(
+        p_lat => $1, p_lng => $2, p_radius_km => $3,
+        p_specializations => $4, p_sort => $5, p_weights => $6
+      )`;
+      const values = [lat, lng, radiusKm, specializations, sort, JSON.stringify({ distance: 1, rating: 1 })];
+
+      // nearby_mechanics is a STABLE SQL function, so Postgres inlines it and the plan
+      // shows the scans inside it
+      const { rows: explained } = await client.query(`EXPLAIN (FORMAT JSON) ${query}`, values);
+      const nodes = flattenPlan(explained[0]['QUERY PLAN'][0].Plan);
+
+      expect(nodes.map((node) => node['Index Name'])).toContain('idx_users_location');
+      expect(
+        nodes.filter((node) => node['Node Type'] === 'Seq Scan' && node['Relation Name'] === 'users')
+      ).toHaveLength(0);
+
+      const timings: number[] = [];
+
+      for (let run = 0; run < runs; run += 1) {
+        const started = process.hrtime.bigint();
+        await client.query(query, values);
+        timings.push(Number(process.hrtime.bigint() - started) / 1e6);
+      }
+
+      const sorted = [...timings].sort((a, b) => a - b);
+      const p95 = percentile(sorted, 0.95);
+
+      console.log(
+        `nearby_mechanics over ${mechanicCount} mechanics (${params.slice(2, 5).join(', ')}): ` +
+          `p50 ${percentile(sorted, 0.5).toFixed(1)}ms, p95 ${p95.toFixed(1)}ms`
+      );
+
+      expect(p95).toBeLessThanOrEqual(maxP95Ms);
+    },
+    120000
+  );
+});
@@ -0,0 +1,170 @@
+import request from 'supertest';
+import { ETA_RANKING_CANDIDATES, findNearbyMechanics } from '../services/mechanicSearchService';
+import { heuristicEtaProvider, setEtaProvider } from '../services/etaService';
+import { createTestApp } from './helpers/testApp';
+import { onRpc, resetDatabase } from './helpers/memoryDatabase';
+
+jest.mock('../config/supabase', () => ({
+  supabase: require('./helpers/memoryDatabase').memoryDatabase,
+  supabaseAdmin: require('./helpers/memoryDatabase').memoryDatabase,
+}));
+
+const customer = { latitude: 6.5244, longitude: 3.3792 };
+
+// mechanic-1 is the closest in a straight line, mechanic-150 the furthest
+const rows = Array.from({ length: 150 }, (_, index) => ({
+  id: `profile-${index + 1}`,
+  user_id: `mechanic-${index + 1}`,
+  name: `Mechanic ${index + 1}`,
+  latitude: customer.latitude + (index + 1) * 0.0005,
+  longitude: customer.longitude,
+  distance_km: (index + 1) * 0.05,
+  is_available: true,
+  distance_score: 1 - index / 150,
+  score: 1 - index / 150,
+  total_count: 150,
+}));
+
+describe('findNearbyMechanics', () => {
+  let rpcCalls: Record<string, unknown>[];
+
+  beforeEach(() => {
+    resetDatabase();
+    rpcCalls = [];
+    onRpc('nearby_mechanics', (params) => {
+      rpcCalls.push(params);
+      const offset = params.p_offset as number;
+      return rows.slice(offset, offset + (params.p_limit as number));
+    });
+    // mechanic-30 has a far quicker road route than its straight-line distance suggests
+    setEtaProvider({
+      name: 'test',
+      async estimate(origins) {
+        return origins.map((origin) => {
+          const index = Math.round((origin.latitude - customer.latitude) / 0.0005);
+          return {
+            distance_km: index,
+            duration_minutes: index === 30 ? 1 : 10 + index,
+            provider: 'test',
+          };
+        });
+      },
+    });
+  });
+
+  afterAll(() => {
+    setEtaProvider(heuristicEtaProvider);
+  });
+
+  it('ranks the candidate window by travel time before cutting the page', async () => {
+    const page = await findNearbyMechanics({ ...customer, radiusKm: 10, limit: 10, sort: 'distance' });
+
+    expect(rpcCalls[0]).toMatchObject({ p_limit: ETA_RANKING_CANDIDATES, p_offset: 0 });
+    expect(page.total).toBe(150);
+    expect(page.mechanics.map((m) => m.user_id)).toEqual([
+      'mechanic-30',
+      ...Array.from({ length: 9 }, (_, index) => `mechanic-${index + 1}`),
+    ]);
+  });
+
+  it('does not repeat a mechanic that moved up on the next page', async () => {
+    const page = await findNearbyMechanics({
+      ...customer,
+      radiusKm: 10,
+      limit: 25,
+      offset: 25,
+      sort: 'distance',
+    });
+
+    expect(page.mechanics[0].user_id).toBe('mechanic-25');
+    expect(page.mechanics.map((m) => m.user_id)).not.toContain('mechanic-30');
+  });
+
+  it('pages in Postgres past the candidate window', async () => {
+    const page = await findNearbyMechanics({
+      ...customer,
+      radiusKm: 10,
+      limit: 20,
+      offset: ETA_RANKING_CANDIDATES,
+      sort: 'best',
+    });
+
+    expect(rpcCalls[0]).toMatchObject({ p_limit: 20, p_offset: ETA_RANKING_CANDIDATES });
+    expect(page.mechanics[0].user_id).toBe('mechanic-101');
+  });
+
+  it('keeps the Postgres order for sorts that do not use travel time', async () => {
+    const page = await findNearbyMechanics({ ...customer, radiusKm: 10, limit: 10, sort: 'rating' });
+
+    expect(rpcCalls[0]).toMatchObject({ p_limit: 10, p_offset: 0 });
+    expect(page.mechanics[0].user_id).toBe('mechanic-1');
+    expect(page.mechanics[0].eta_minutes).toBe(11);
+  });
+});
+
+describe('GET /api/mechanics/nearby filters', () => {
+  const app = createTestApp();
+  let rpcParams: Record<string, unknown> | undefined;
+
+  beforeEach(() => {
+    resetDatabase();
+    rpcParams = undefined;
+    onRpc('nearby_mechanics', (params) => {
+      rpcParams = params;
+      return [];
+    });
+  });
+
+  const search = (query: Record<string, string>) =>
+    request(app)
+      .get('/api/mechanics/nearby')
+      .query({ lat: '6.5244', lng: '3.3792', ...query });
+
+  it('passes rating, categories, price band and gender to the search', async () => {
+    const response = await search({
+      categories: 'brakes, engine',
+      specialization: 'tyres',
+      min_rating: '4.5',
+      min_price: '5000',
+      max_price: '20000',
+      gender: 'female',
+      verified_only: 'true',
+    });
+
+    expect(response.status).toBe(200);
+    expect(rpcParams).toMatchObject({
+      p_specializations: ['brakes', 'engine', 'tyres'],
+      p_min_rating: 4.5,
+      p_min_price: 5000,
+      p_max_price: 20000,
+      p_gender: 'female',
+      p_verified_only: true,
+    });
+  });
+
+  it('leaves out filters that were not given', async () => {
+    await search({});
+
+    expect(rpcParams).toMatchObject({
+      p_specializations: null,
+      p_min_rating: null,
+      p_min_price: null,
+      p_max_price: null,
+      p_gender: null,
+      p_verified_only: false,
+    });
+  });
+
+  it.each([
+    [{ min_rating: 'high' }, 'Invalid min_rating'],
+    [{ max_price: '-1' }, 'Invalid max_price'],
+    [{ gender: 'other' }, 'Gender must be one of: male, female'],
+    [{ sort: 'cheapest' }, 'Sort must be one of: best, distance, rating, jobs'],
+  ])('rejects %p', async (query, message) => {
+    const response = await search(query);
+
+    expect(response.status).toBe(400);
+    expect(response.body.error.message).toBe(message);
+    expect(rpcParams).toBeUndefined();
+  });
+});
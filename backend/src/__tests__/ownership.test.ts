@@ -0,0 +1,114 @@
+import request from 'supertest';
+import {
+  assertServiceRequestCustomer,
+  assertServiceRequestMechanic,
+  assertServiceRequestParticipant,
+} from '../utils/ownership';
+import { bearerToken, createTestApp } from './helpers/testApp';
+import { clearTableRows, setTableRow } from './helpers/supabaseMock';
+
+jest.mock('../config/supabase', () => ({
+  supabase: require('./helpers/supabaseMock').supabaseMock,
+  supabaseAdmin: require('./helpers/supabaseMock').supabaseMock,
+}));
+
+jest.mock('../services/sessionService', () => ({
+  ...jest.requireActual('../services/sessionService'),
+  isSessionActive: jest.fn().mockResolvedValue(true),
+}));
+
+// Someone else's request: neither test user is a party to it
+const otherUsersRequest = {
+  id: 'sr-other',
+  customer_id: 'other-customer',
+  mechanic_id: 'other-mechanic',
+  status: 'in_progress',
+  payment_method: 'card',
+};
+
+const expectForbidden = (assertion: () => void) => {
+  expect(assertion).toThrow(expect.objectContaining({ statusCode: 403 }));
+};
+
+describe('ownership checks', () => {
+  describe('assertServiceRequestCustomer', () => {
+    it('allows the customer who created the request', () => {
+      expect(() => assertServiceRequestCustomer(otherUsersRequest, 'other-customer')).not.toThrow();
+    });
+
+    it('rejects another customer', () => {
+      expectForbidden(() => assertServiceRequestCustomer(otherUsersRequest, 'customer-user'));
+    });
+
+    it('rejects the assigned mechanic', () => {
+      expectForbidden(() => assertServiceRequestCustomer(otherUsersRequest, 'other-mechanic'));
+    });
+  });
+
+  describe('assertServiceRequestMechanic', () => {
+    it('allows the assigned mechanic', () => {
+      expect(() => assertServiceRequestMechanic(otherUsersRequest, 'other-mechanic')).not.toThrow();
+    });
+
+    it('rejects another mechanic', () => {
+      expectForbidden(() => assertServiceRequestMechanic(otherUsersRequest, 'mechanic-user'));
+    });
+
+    it('rejects everyone while no mechanic is assigned', () => {
+      expectForbidden(() =>
+        assertServiceRequestMechanic({ ...otherUsersRequest, mechanic_id: null }, 'mechanic-user')
+      );
+    });
+  });
+
+  describe('assertServiceRequestParticipant', () => {
+    it('allows both parties and admins', () => {
+      expect(() =>
+        assertServiceRequestParticipant(otherUsersRequest, { id: 'other-customer', user_type: 'customer' })
+      ).not.toThrow();
+      expect(() =>
+        assertServiceRequestParticipant(otherUsersRequest, { id: 'other-mechanic', user_type: 'mechanic' })
+      ).not.toThrow();
+      expect(() =>
+        assertServiceRequestParticipant(otherUsersRequest, { id: 'admin-user', user_type: 'admin' })
+      ).not.toThrow();
+    });
+
+    it('rejects a customer and a mechanic from another request', () => {
+      expectForbidden(() =>
+        assertServiceRequestParticipant(otherUsersRequest, { id: 'customer-user', user_type: 'customer' })
+      );
+      expectForbidden(() =>
+        assertServiceRequestParticipant(otherUsersRequest, { id: 'mechanic-user', user_type: 'mechanic' })
+      );
+    });
+  });
+
+  describe("routes called with another user's request id", () => {
+    const app = createTestApp();
+
+    beforeEach(() => {
+      setTableRow('service_requests', otherUsersRequest);
+    });
+
+    afterEach(() => {
+      clearTableRows();
+    });
+
+    // Bodies are valid so the request gets as far as the ownership check
+    it.each([
+      ['customer', 'get', '/api/service-requests/sr-other/payments', {}],
+      ['customer', 'post', '/api/service-requests/sr-other/payments', {}],
+      ['customer', 'put', '/api/service-requests/sr-other/quotes/q-1/approve', {}],
+      ['customer', 'put', '/api/service-requests/sr-other/complete', { rating: 5 }],
+      ['customer', 'get', '/api/service-requests/sr-other/dispute', {}],
+      ['mechanic', 'post', '/api/service-requests/sr-other/dispute', {}],
+      ['mechanic', 'put', '/api/mechanics/requests/sr-other/en-route', {}],
+      ['mechanic', 'put', '/api/mechanics/requests/sr-other/arrived', {}],
+    ] as const)('rejects a %s from %s %s', async (role, method, path, body) => {
+      const response = await request(app)[method](path).set('Authorization', bearerToken(role)).send(body);
+
+      expect(response.status).toBe(403);
+    });
+  });
+});
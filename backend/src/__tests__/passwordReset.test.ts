@@ -0,0 +1,104 @@
+import request from 'supertest';
+import { createTestApp } from './helpers/testApp';
+import { resetDatabase, seedRows, tableRows } from './helpers/memoryDatabase';
+
+jest.mock('../config/supabase', () => ({
+  supabase: require('./helpers/memoryDatabase').memoryDatabase,
+  supabaseAdmin: require('./helpers/memoryDatabase').memoryDatabase,
+}));
+
+const app = createTestApp();
+
+const resetPassword = (code: string) =>
+  request(app)
+    .post('/api/auth/reset-password')
+    .send({ email: 'ada@example.com', code, new_password: 'new-password' });
+
+const inAnHour = () => new Date(Date.now() + 60 * 60 * 1000).toISOString();
+
+describe('password reset', () => {
+  let resetCodeId: string;
+
+  beforeEach(() => {
+    resetDatabase();
+    seedRows('users', { id: 'user-1', email: 'ada@example.com', password_hash: 'old-hash' });
+    seedRows('user_sessions', { id: 'session-1', user_id: 'user-1', revoked_at: null });
+    [{ id: resetCodeId }] = seedRows('verification_codes', {
+      user_id: 'user-1',
+      code: '123456',
+      type: 'password_reset',
+      is_used: false,
+      attempts: 0,
+      expires_at: inAnHour(),
+      created_at: new Date().toISOString(),
+    });
+  });
+
+  it('resets the password with the latest code and signs out every session', async () => {
+    const response = await resetPassword('123456');
+
+    expect(response.status).toBe(200);
+    expect(tableRows('users')[0].password_hash).not.toBe('old-hash');
+    expect(tableRows('verification_codes')[0].is_used).toBe(true);
+    expect(tableRows('user_sessions')[0].revoked_at).not.toBeNull();
+  });
+
+  it('accepts a code only once', async () => {
+    await resetPassword('123456');
+    const replay = await resetPassword('123456');
+
+    expect(replay.status).toBe(400);
+    expect(replay.body.error.message).toBe('Invalid or expired reset code');
+  });
+
+  it('counts wrong guesses and burns the code on the fifth', async () => {
+    for (let attempt = 1; attempt <= 4; attempt += 1) {
+      const response = await resetPassword('000000');
+      expect(response.status).toBe(400);
+      expect(tableRows('verification_codes', { id: resetCodeId })[0].attempts).toBe(attempt);
+    }
+
+    const fifth = await resetPassword('000000');
+    expect(fifth.status).toBe(429);
+    expect(tableRows('verification_codes', { id: resetCodeId })[0].is_used).toBe(true);
+
+    // The right code no longer works either
+    const correct = await resetPassword('123456');
+    expect(correct.status).toBe(400);
+    expect(tableRows('users')[0].password_hash).toBe('old-hash');
+  });
+
+  it('refuses a code that has used up its attempts', async () => {
+    seedRows('verification_codes', {
+      user_id: 'user-1',
+      code: '654321',
+      type: 'password_reset',
+      is_used: false,
+      attempts: 5,
+      expires_at: inAnHour(),
+      created_at: new Date(Date.now() + 1000).toISOString(),
+    });
+
+    const response = await resetPassword('654321');
+
+    expect(response.status).toBe(429);
+    expect(tableRows('users')[0].password_hash).toBe('old-hash');
+  });
+
+  it('refuses an expired code', async () => {
+    resetDatabase();
+    seedRows('users', { id: 'user-1', email: 'ada@example.com', password_hash: 'old-hash' });
+    seedRows('verification_codes', {
+      user_id: 'user-1',
+      code: '123456',
+      type: 'password_reset',
+      is_used: false,
+      expires_at: new Date(Date.now() - 1000).toISOString(),
+    });
+
+    const response = await resetPassword('123456');
+
+    expect(response.status).toBe(400);
+    expect(response.body.error.message).toMatch(/expired/);
+  });
+});
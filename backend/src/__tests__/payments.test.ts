@@ -0,0 +1,211 @@
+import { createHmac } from 'crypto';
+import { env } from '../config/env';
+import { PLATFORM_ACCOUNTS, walletAccount } from '../services/ledgerService';
+import { fakePaymentGateway, setPaymentGateway } from '../services/paymentGatewayService';
+import {
+  confirmPayment,
+  createPayment,
+  handlePaymentWebhook,
+  releaseEscrow,
+  refundEscrow,
+} from '../services/paymentService';
+import {
+  accountBalance,
+  addUniqueKey,
+  memoryDatabase,
+  resetDatabase,
+  seedRows,
+  setColumnDefaults,
+  tableRows,
+} from './helpers/memoryDatabase';
+
+jest.mock('../config/supabase', () => ({
+  supabase: require('./helpers/memoryDatabase').memoryDatabase,
+  supabaseAdmin: require('./helpers/memoryDatabase').memoryDatabase,
+}));
+
+const job = {
+  id: 'sr-1',
+  customer_id: 'customer-user',
+  mechanic_id: 'mechanic-user',
+  status: 'in_progress',
+  payment_method: 'in_app' as const,
+  total_cost: 10000,
+};
+
+const startPayment = () => createPayment(job, 'ada@example.com', 'card');
+
+const payJob = async () => confirmPayment(await startPayment());
+
+const sendWebhook = (body: object) => {
+  const rawBody = Buffer.from(JSON.stringify(body));
+  const signature = createHmac('sha512', env.payment.webhookSecret).update(rawBody).digest('hex');
+  return handlePaymentWebhook('fake', rawBody, signature, body);
+};
+
+const failNextLedgerPosting = () =>
+  jest
+    .spyOn(memoryDatabase, 'rpc')
+    .mockResolvedValueOnce({ data: null, error: { message: 'connection reset' } });
+
+describe('payments', () => {
+  let consoleError: jest.SpyInstance;
+
+  beforeEach(() => {
+    resetDatabase();
+    addUniqueKey('payment_webhook_events', ['gateway', 'event_id']);
+    setColumnDefaults('payments', { refunded_amount: 0 });
+    setPaymentGateway(fakePaymentGateway);
+    consoleError = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    seedRows('service_requests', job);
+    seedRows('service_request_quotes', {
+      service_request_id: 'sr-1',
+      version: 1,
+      status: 'approved',
+      total_cost: 10000,
+    });
+  });
+
+  afterEach(() => {
+    consoleError.mockRestore();
+    jest.restoreAllMocks();
+  });
+
+  describe('handlePaymentWebhook', () => {
+    const paid = (reference: string) => ({
+      event_id: 'evt-1',
+      reference,
+      status: 'success',
+      amount: 10000,
+      channel: 'card',
+    });
+
+    it('holds the payment once and ignores redeliveries', async () => {
+      const payment = await startPayment();
+
+      await expect(sendWebhook(paid(payment.id))).resolves.toEqual({
+        recognised: true,
+        handled: true,
+      });
+      await expect(sendWebhook(paid(payment.id))).resolves.toEqual({
+        recognised: true,
+        handled: false,
+      });
+
+      expect(tableRows('payments')[0].status).toBe('held');
+      expect(accountBalance(PLATFORM_ACCOUNTS.escrow)).toBe(10000);
+      expect(tableRows('ledger_transactions', { kind: 'payment_received' })).toHaveLength(1);
+    });
+
+    it('finishes an event on redelivery after it failed part way', async () => {
+      const payment = await startPayment();
+      failNextLedgerPosting();
+
+      await expect(sendWebhook(paid(payment.id))).rejects.toMatchObject({ statusCode: 500 });
+      expect(tableRows('payments')[0].status).toBe('held');
+      expect(accountBalance(PLATFORM_ACCOUNTS.escrow)).toBe(0);
+
+      await sendWebhook(paid(payment.id));
+
+      expect(accountBalance(PLATFORM_ACCOUNTS.escrow)).toBe(10000);
+      expect(tableRows('payment_webhook_events')[0].processed_at).toEqual(expect.any(String));
+    });
+  });
+
+  describe('releaseEscrow', () => {
+    it('pays the mechanic and the commission once, returning the earlier release', async () => {
+      await payJob();
+
+      const release = await releaseEscrow(job, 1500);
+      await expect(releaseEscrow(job, 1500)).resolves.toEqual({
+        transaction_id: release!.transaction_id,
+        created: false,
+      });
+
+      expect(accountBalance(walletAccount('mechanic-user'))).toBe(8500);
+      expect(accountBalance(PLATFORM_ACCOUNTS.commissionRevenue)).toBe(1500);
+      expect(accountBalance(PLATFORM_ACCOUNTS.escrow)).toBe(0);
+      expect(tableRows('payments')[0].status).toBe('released');
+    });
+
+    it('refunds what was paid beyond the final price', async () => {
+      await payJob();
+
+      await releaseEscrow({ ...job, total_cost: 8000 }, 1200);
+
+      expect(accountBalance(walletAccount('mechanic-user'))).toBe(6800);
+      expect(accountBalance(PLATFORM_ACCOUNTS.gatewayClearing)).toBe(-8000);
+      expect(accountBalance(PLATFORM_ACCOUNTS.escrow)).toBe(0);
+    });
+
+    it('refuses jobs that are not fully paid for', async () => {
+      await startPayment();
+
+      await expect(releaseEscrow(job, 1500)).rejects.toMatchObject({ statusCode: 409 });
+    });
+  });
+
+  describe('refundEscrow', () => {
+    it('records each refund and posts it once the gateway sends it', async () => {
+      const payment = await payJob();
+
+      await expect(refundEscrow('sr-1', 4000, 'the job was cancelled')).resolves.toBe(4000);
+
+      expect(tableRows('payment_refunds')).toEqual([
+        expect.objectContaining({
+          payment_id: payment.id,
+          amount: 4000,
+          status: 'completed',
+          gateway_refund_reference: `FAKE_RFD_${payment.id}`,
+        }),
+      ]);
+      expect(tableRows('payments')[0]).toMatchObject({ status: 'held', refunded_amount: 4000 });
+      expect(accountBalance(PLATFORM_ACCOUNTS.escrow)).toBe(6000);
+    });
+
+    it('sends refunds to the wallet when asked', async () => {
+      await payJob();
+
+      await refundEscrow('sr-1', null, 'goodwill', true);
+
+      expect(accountBalance(walletAccount('customer-user'))).toBe(10000);
+      expect(tableRows('payments')[0].status).toBe('refunded');
+    });
+
+    it('hands the portion back to escrow when the gateway refuses', async () => {
+      await payJob();
+      setPaymentGateway({
+        ...fakePaymentGateway,
+        refund: jest.fn().mockRejectedValue(new Error('gateway down')),
+      });
+
+      await expect(refundEscrow('sr-1', null, 'the job was cancelled')).rejects.toMatchObject({
+        statusCode: 502,
+      });
+
+      expect(tableRows('payment_refunds')[0].status).toBe('failed');
+      expect(tableRows('payments')[0]).toMatchObject({ status: 'held', refunded_amount: 0 });
+      expect(accountBalance(PLATFORM_ACCOUNTS.escrow)).toBe(10000);
+    });
+
+    it('posts a sent refund on the next call without sending it again', async () => {
+      await payJob();
+      const refund = jest.fn(fakePaymentGateway.refund);
+      setPaymentGateway({ ...fakePaymentGateway, refund });
+      failNextLedgerPosting();
+
+      await expect(refundEscrow('sr-1', null, 'the job was cancelled')).rejects.toMatchObject({
+        statusCode: 500,
+      });
+      expect(tableRows('payment_refunds')[0].status).toBe('sent');
+      expect(accountBalance(PLATFORM_ACCOUNTS.escrow)).toBe(10000);
+
+      await expect(refundEscrow('sr-1', null, 'the job was cancelled')).resolves.toBe(0);
+
+      expect(refund).toHaveBeenCalledTimes(1);
+      expect(tableRows('payment_refunds')[0].status).toBe('completed');
+      expect(accountBalance(PLATFORM_ACCOUNTS.escrow)).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,274 @@
+import { createHmac } from 'crypto';
+import { env } from '../config/env';
+import { PLATFORM_ACCOUNTS, postLedgerTransaction, walletAccount } from '../services/ledgerService';
+import {
+  fakePayoutProvider,
+  PayoutProvider,
+  setPayoutProvider,
+} from '../services/payoutProviderService';
+import {
+  checkStalePayouts,
+  handlePayoutWebhook,
+  processPayoutBatch,
+  requestPayout,
+} from '../services/payoutService';
+import {
+  accountBalance,
+  addUniqueKey,
+  memoryDatabase,
+  resetDatabase,
+  seedRows,
+  tableRows,
+} from './helpers/memoryDatabase';
+
+jest.mock('../config/supabase', () => ({
+  supabase: require('./helpers/memoryDatabase').memoryDatabase,
+  supabaseAdmin: require('./helpers/memoryDatabase').memoryDatabase,
+}));
+
+const mechanicWallet = walletAccount('mechanic-user');
+
+const useProvider = (overrides: Partial<PayoutProvider>) => {
+  const provider = { ...fakePayoutProvider, ...overrides };
+  setPayoutProvider(provider);
+  return provider;
+};
+
+const stillProcessing: PayoutProvider['transfer'] = async (input) => ({
+  status: 'processing',
+  provider_reference: input.reference,
+});
+
+const connectionError = async (): Promise<never> => {
+  throw new Error('socket hang up');
+};
+
+const withdraw = async (recipientCode: string = 'RCP_1234') => {
+  const [account] = seedRows('payout_bank_accounts', {
+    user_id: 'mechanic-user',
+    bank_code: '058',
+    bank_name: 'GTBank',
+    account_number: '0123456789',
+    account_name: 'EMEKA EZE',
+    recipient_code: recipientCode,
+    is_default: true,
+    deleted_at: null,
+  });
+  const { payout } = await requestPayout('mechanic-user', 3000, account.id);
+  return payout;
+};
+
+const payoutRow = (id: string) => tableRows('payouts', { id })[0];
+
+const sendWebhook = (body: object) => {
+  const rawBody = Buffer.from(JSON.stringify(body));
+  const signature = createHmac('sha512', env.payout.webhookSecret).update(rawBody).digest('hex');
+  return handlePayoutWebhook('fake', rawBody, signature, body);
+};
+
+describe('payouts', () => {
+  let consoleError: jest.SpyInstance;
+
+  beforeEach(async () => {
+    resetDatabase();
+    addUniqueKey('payout_webhook_events', ['provider', 'event_id']);
+    setPayoutProvider(fakePayoutProvider);
+    consoleError = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    await postLedgerTransaction({
+      kind: 'opening_balance',
+      idempotencyKey: 'opening',
+      entries: [
+        { account: PLATFORM_ACCOUNTS.openingBalances, amount: -5000 },
+        { account: mechanicWallet, amount: 5000 },
+      ],
+    });
+  });
+
+  afterEach(() => {
+    consoleError.mockRestore();
+    jest.restoreAllMocks();
+  });
+
+  describe('processPayoutBatch', () => {
+    it('pays queued withdrawals out of pending payouts', async () => {
+      const payout = await withdraw();
+      expect(accountBalance(mechanicWallet)).toBe(2000);
+
+      await expect(processPayoutBatch()).resolves.toMatchObject({ paid_count: 1 });
+
+      expect(payoutRow(payout.id)).toMatchObject({ status: 'paid', attempts: 1 });
+      expect(accountBalance(PLATFORM_ACCOUNTS.payoutsPending)).toBe(0);
+      expect(accountBalance(PLATFORM_ACCOUNTS.payoutsSent)).toBe(3000);
+      expect(tableRows('notifications')).toEqual([
+        expect.objectContaining({ title: 'Withdrawal Paid' }),
+      ]);
+    });
+
+    it('refunds a transfer the provider failed', async () => {
+      const payout = await withdraw('RCP_9999');
+
+      await processPayoutBatch();
+
+      expect(payoutRow(payout.id)).toMatchObject({
+        status: 'failed',
+        failure_reason: 'Account could not be credited',
+      });
+      expect(accountBalance(mechanicWallet)).toBe(5000);
+    });
+
+    it('retries a transfer the provider never received, then refunds it', async () => {
+      const provider = useProvider({
+        transfer: jest.fn(connectionError),
+        findTransfer: jest.fn().mockResolvedValue(null),
+      });
+      const payout = await withdraw();
+
+      await processPayoutBatch();
+      expect(payoutRow(payout.id)).toMatchObject({ status: 'pending', attempts: 1 });
+      expect(provider.findTransfer).toHaveBeenCalledWith(payout.id);
+
+      await processPayoutBatch();
+      await processPayoutBatch();
+
+      expect(payoutRow(payout.id)).toMatchObject({
+        status: 'failed',
+        attempts: 3,
+        failure_reason: 'Payout provider unavailable',
+      });
+      expect(accountBalance(mechanicWallet)).toBe(5000);
+      expect(accountBalance(PLATFORM_ACCOUNTS.payoutsPending)).toBe(0);
+    });
+
+    it('does not refund a transfer that went through despite the error', async () => {
+      useProvider({
+        transfer: jest.fn(connectionError),
+        findTransfer: jest.fn(async (reference: string) => ({
+          status: 'paid' as const,
+          provider_reference: reference,
+        })),
+      });
+      const payout = await withdraw();
+
+      await processPayoutBatch();
+
+      expect(payoutRow(payout.id)).toMatchObject({ status: 'paid', provider_reference: payout.id });
+      expect(accountBalance(mechanicWallet)).toBe(2000);
+      expect(accountBalance(PLATFORM_ACCOUNTS.payoutsSent)).toBe(3000);
+    });
+
+    it('leaves the payout processing when the provider cannot be asked', async () => {
+      useProvider({ transfer: jest.fn(connectionError), findTransfer: jest.fn(connectionError) });
+      const payout = await withdraw();
+
+      await processPayoutBatch();
+
+      expect(payoutRow(payout.id).status).toBe('processing');
+      expect(accountBalance(PLATFORM_ACCOUNTS.payoutsPending)).toBe(3000);
+    });
+  });
+
+  describe('checkStalePayouts', () => {
+    const makeStale = (id: string) =>
+      memoryDatabase
+        .from('payouts')
+        .update({ processing_at: new Date(Date.now() - 2 * 60 * 60 * 1000).toISOString() })
+        .eq('id', id);
+
+    it('settles transfers the provider has finished', async () => {
+      useProvider({
+        transfer: stillProcessing,
+        findTransfer: jest.fn(async (reference: string) => ({
+          status: 'failed' as const,
+          provider_reference: reference,
+          failure_reason: 'Account closed',
+        })),
+      });
+      const payout = await withdraw();
+      await processPayoutBatch();
+
+      // Not stale yet
+      await expect(checkStalePayouts()).resolves.toEqual({ checked: 0, resolved: 0 });
+
+      await makeStale(payout.id);
+      await expect(checkStalePayouts()).resolves.toEqual({ checked: 1, resolved: 1 });
+
+      expect(payoutRow(payout.id)).toMatchObject({
+        status: 'failed',
+        failure_reason: 'Account closed',
+      });
+      expect(accountBalance(mechanicWallet)).toBe(5000);
+    });
+
+    it('queues transfers the provider never received again', async () => {
+      useProvider({ transfer: jest.fn(connectionError), findTransfer: jest.fn(connectionError) });
+      const payout = await withdraw();
+      await processPayoutBatch();
+      await makeStale(payout.id);
+
+      useProvider({ findTransfer: jest.fn().mockResolvedValue(null) });
+      await checkStalePayouts();
+
+      expect(payoutRow(payout.id)).toMatchObject({ status: 'pending', attempts: 1 });
+      expect(accountBalance(PLATFORM_ACCOUNTS.payoutsPending)).toBe(3000);
+    });
+  });
+
+  describe('handlePayoutWebhook', () => {
+    beforeEach(() => {
+      useProvider({ transfer: stillProcessing });
+    });
+
+    it('applies an event once and ignores redeliveries', async () => {
+      const payout = await withdraw();
+      await processPayoutBatch();
+      const event = { event_id: 'evt-1', reference: payout.id, status: 'paid' };
+
+      await expect(sendWebhook(event)).resolves.toEqual({ handled: true });
+      await expect(sendWebhook(event)).resolves.toEqual({ handled: false });
+
+      expect(payoutRow(payout.id).status).toBe('paid');
+      expect(accountBalance(PLATFORM_ACCOUNTS.payoutsSent)).toBe(3000);
+      expect(tableRows('payout_webhook_events')).toEqual([
+        expect.objectContaining({ payout_id: payout.id, processed_at: expect.any(String) }),
+      ]);
+    });
+
+    it('finishes an event on redelivery after it failed part way', async () => {
+      const payout = await withdraw();
+      await processPayoutBatch();
+      const event = { event_id: 'evt-1', reference: payout.id, status: 'failed' };
+      jest
+        .spyOn(memoryDatabase, 'rpc')
+        .mockResolvedValueOnce({ data: null, error: { message: 'connection reset' } });
+
+      await expect(sendWebhook(event)).rejects.toMatchObject({ statusCode: 500 });
+      expect(payoutRow(payout.id).status).toBe('failed');
+      expect(accountBalance(mechanicWallet)).toBe(2000);
+
+      await sendWebhook(event);
+
+      expect(accountBalance(mechanicWallet)).toBe(5000);
+      expect(tableRows('payout_webhook_events')[0].processed_at).toEqual(expect.any(String));
+    });
+
+    it('takes a reversal after payment back from what was sent', async () => {
+      const payout = await withdraw();
+      await processPayoutBatch();
+
+      await sendWebhook({ event_id: 'evt-1', reference: payout.id, status: 'paid' });
+      await sendWebhook({ event_id: 'evt-2', reference: payout.id, status: 'reversed' });
+
+      expect(payoutRow(payout.id).status).toBe('reversed');
+      expect(accountBalance(PLATFORM_ACCOUNTS.payoutsSent)).toBe(0);
+      expect(accountBalance(PLATFORM_ACCOUNTS.payoutsPending)).toBe(0);
+      expect(accountBalance(mechanicWallet)).toBe(5000);
+    });
+
+    it('refuses unsigned events', async () => {
+      await expect(
+        handlePayoutWebhook('fake', Buffer.from('{}'), 'bad-signature', {})
+      ).rejects.toMatchObject({ statusCode: 401 });
+    });
+  });
+});
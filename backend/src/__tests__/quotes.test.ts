@@ -0,0 +1,126 @@
+import { parseQuoteItems, respondToQuote, submitQuote } from '../services/quoteService';
+import { addUniqueKey, resetDatabase, seedRows, tableRows } from './helpers/memoryDatabase';
+
+jest.mock('../config/supabase', () => ({
+  supabase: require('./helpers/memoryDatabase').memoryDatabase,
+  supabaseAdmin: require('./helpers/memoryDatabase').memoryDatabase,
+}));
+
+const brakePads = { type: 'part', description: 'Brake pads', quantity: 2, unit_price: 7500 };
+const labour = { type: 'labour', description: 'Fitting', quantity: '1.5', unit_price: '4000' };
+
+describe('parseQuoteItems', () => {
+  it('works out each line total, accepting numeric strings', () => {
+    expect(parseQuoteItems([brakePads, { ...labour, description: '  Fitting ' }])).toEqual([
+      { type: 'part', description: 'Brake pads', quantity: 2, unit_price: 7500, total: 15000 },
+      { type: 'labour', description: 'Fitting', quantity: 1.5, unit_price: 4000, total: 6000 },
+    ]);
+  });
+
+  it.each([
+    ['no items', undefined, 'A quote needs at least one item'],
+    ['an empty list', [], 'A quote needs at least one item'],
+    ['too many items', Array(51).fill(brakePads), 'A quote can have at most 50 items'],
+    ['a line that is not an object', [null], 'Item 1: type must be one of part, labour'],
+    [
+      'an unknown type',
+      [brakePads, { ...brakePads, type: 'tip' }],
+      'Item 2: type must be one of part, labour',
+    ],
+    [
+      'a blank description',
+      [{ ...brakePads, description: '   ' }],
+      'Item 1: description is required (200 characters max)',
+    ],
+    [
+      'a long description',
+      [{ ...brakePads, description: 'x'.repeat(201) }],
+      'Item 1: description is required (200 characters max)',
+    ],
+    ['a zero quantity', [{ ...brakePads, quantity: 0 }], 'Item 1: quantity must be greater than 0'],
+    ['a word quantity', [{ ...brakePads, quantity: 'two' }], 'Item 1: quantity must be greater than 0'],
+    ['a negative price', [{ ...brakePads, unit_price: -1 }], 'Item 1: unit price cannot be negative'],
+    ['a list as a price', [{ ...brakePads, unit_price: [100] }], 'Item 1: unit price cannot be negative'],
+  ])('rejects %s', (_, items, message) => {
+    expect(() => parseQuoteItems(items)).toThrow(
+      expect.objectContaining({ statusCode: 400, message })
+    );
+  });
+});
+
+describe('quotes', () => {
+  const serviceRequest = {
+    id: 'sr-1',
+    customer_id: 'customer-user',
+    mechanic_id: 'mechanic-user',
+    status: 'arrived',
+  };
+
+  beforeEach(() => {
+    resetDatabase();
+    addUniqueKey('service_request_quotes', ['service_request_id', 'version']);
+  });
+
+  it('splits the costs into parts and labour and notifies the customer', async () => {
+    const quote = await submitQuote(serviceRequest, {
+      items: [brakePads, labour],
+      note: ' Rear only ',
+    });
+
+    expect(quote).toMatchObject({
+      version: 1,
+      status: 'pending',
+      material_cost: 15000,
+      labor_cost: 6000,
+      total_cost: 21000,
+      note: 'Rear only',
+    });
+    expect(tableRows('notifications')).toEqual([
+      expect.objectContaining({ user_id: 'customer-user', title: 'Quote Received' }),
+    ]);
+  });
+
+  it('supersedes a pending quote with a revision', async () => {
+    const first = await submitQuote(serviceRequest, { items: [brakePads] });
+    const revision = await submitQuote(serviceRequest, { items: [brakePads, labour] });
+
+    expect(revision.version).toBe(2);
+    expect(tableRows('service_request_quotes', { id: first.id })[0].status).toBe('superseded');
+    expect(tableRows('notifications')[1].title).toBe('Quote Updated');
+  });
+
+  it('only accepts quotes once the mechanic has arrived', async () => {
+    await expect(
+      submitQuote({ ...serviceRequest, status: 'accepted' }, { items: [brakePads] })
+    ).rejects.toMatchObject({ statusCode: 409 });
+  });
+
+  it('applies the costs of an approved quote to the job', async () => {
+    seedRows('service_requests', serviceRequest);
+    const quote = await submitQuote(serviceRequest, { items: [brakePads] });
+
+    await respondToQuote(serviceRequest, quote.id, 'approved');
+
+    expect(tableRows('service_requests')[0]).toMatchObject({
+      material_cost: 15000,
+      labor_cost: 0,
+      total_cost: 15000,
+    });
+    await expect(respondToQuote(serviceRequest, quote.id, 'rejected')).rejects.toMatchObject({
+      statusCode: 409,
+    });
+  });
+
+  it('records why a quote was rejected and leaves the costs alone', async () => {
+    seedRows('service_requests', serviceRequest);
+    const quote = await submitQuote(serviceRequest, { items: [brakePads] });
+
+    const rejected = await respondToQuote(serviceRequest, quote.id, 'rejected', ' Too expensive ');
+
+    expect(rejected).toMatchObject({ status: 'rejected', rejection_reason: 'Too expensive' });
+    expect(tableRows('service_requests')[0]).not.toHaveProperty('total_cost');
+    expect(tableRows('notifications', { user_id: 'mechanic-user' })).toEqual([
+      expect.objectContaining({ title: 'Quote Rejected' }),
+    ]);
+  });
+});
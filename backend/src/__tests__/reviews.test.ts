@@ -0,0 +1,189 @@
+import {
+  createReview,
+  listReportedReviews,
+  moderateReview,
+  parseStars,
+  reportReview,
+  REVIEW_REPORT_HIDE_THRESHOLD,
+} from '../services/reviewService';
+import {
+  addUniqueKey,
+  onRpc,
+  resetDatabase,
+  seedRows,
+  setColumnDefaults,
+  tableRows,
+} from './helpers/memoryDatabase';
+
+jest.mock('../config/supabase', () => ({
+  supabase: require('./helpers/memoryDatabase').memoryDatabase,
+  supabaseAdmin: require('./helpers/memoryDatabase').memoryDatabase,
+}));
+
+const completedJob = {
+  id: 'sr-1',
+  customer_id: 'customer-user',
+  mechanic_id: 'mechanic-user',
+  status: 'completed',
+};
+
+describe('parseStars', () => {
+  it.each([1, 5, '3', ' 4 '])('accepts %p', (value) => {
+    expect(parseStars(value, 'rating')).toBe(Number(value));
+  });
+
+  it.each([0, 6, 4.5, 'five', true, [5]])('rejects %p', (value) => {
+    expect(() => parseStars(value, 'quality')).toThrow(
+      expect.objectContaining({
+        statusCode: 400,
+        message: 'quality must be a whole number between 1 and 5',
+      })
+    );
+  });
+
+  it('returns null for a missing optional value and requires a required one', () => {
+    expect(parseStars(undefined, 'quality')).toBeNull();
+    expect(parseStars('', 'quality')).toBeNull();
+    expect(() => parseStars(null, 'rating', true)).toThrow('rating is required');
+  });
+});
+
+describe('reviews', () => {
+  let aggregateChanges: unknown[];
+
+  beforeEach(() => {
+    resetDatabase();
+    addUniqueKey('reviews', ['service_request_id', 'reviewer_id']);
+    addUniqueKey('review_reports', ['review_id', 'reporter_id']);
+    setColumnDefaults('reviews', { status: 'published', report_count: 0 });
+    setColumnDefaults('review_reports', { status: 'open' });
+    aggregateChanges = [];
+    onRpc('adjust_rating_aggregate', (params) => {
+      aggregateChanges.push(params.p_direction);
+      return null;
+    });
+  });
+
+  describe('createReview', () => {
+    it("records the customer's review of the mechanic and updates the aggregate", async () => {
+      const review = await createReview(completedJob, 'customer-user', {
+        rating: '5',
+        comment: '  Fixed the brakes in an hour ',
+        dimensions: { punctuality: 4, quality: 5 },
+      });
+
+      expect(review).toMatchObject({
+        reviewee_id: 'mechanic-user',
+        reviewer_role: 'customer',
+        rating: 5,
+        punctuality: 4,
+        quality: 5,
+        price_fairness: null,
+        comment: 'Fixed the brakes in an hour',
+      });
+      expect(aggregateChanges).toEqual([1]);
+    });
+
+    it('allows one review per job and reviewer', async () => {
+      await createReview(completedJob, 'customer-user', { rating: 4 });
+
+      await expect(createReview(completedJob, 'customer-user', { rating: 2 })).rejects.toMatchObject({
+        statusCode: 409,
+        message: 'You have already reviewed this job',
+      });
+      expect(aggregateChanges).toEqual([1]);
+    });
+
+    it('only lets the two parties review a finished job', async () => {
+      await expect(createReview(completedJob, 'someone-else', { rating: 4 })).rejects.toMatchObject({
+        statusCode: 403,
+      });
+      await expect(
+        createReview({ ...completedJob, status: 'in_progress' }, 'customer-user', { rating: 4 })
+      ).rejects.toMatchObject({ statusCode: 409 });
+    });
+
+    it('validates the body', async () => {
+      await expect(createReview(completedJob, 'customer-user', { rating: 6 })).rejects.toMatchObject({
+        statusCode: 400,
+      });
+      await expect(
+        createReview(completedJob, 'customer-user', { rating: 4, comment: { text: 'hi' } })
+      ).rejects.toMatchObject({ statusCode: 400, message: 'Review must be text' });
+      await expect(
+        createReview(completedJob, 'customer-user', { rating: 4, comment: 'x'.repeat(1001) })
+      ).rejects.toMatchObject({ statusCode: 400 });
+      expect(tableRows('reviews')).toHaveLength(0);
+    });
+  });
+
+  describe('moderation', () => {
+    let reviewId: string;
+
+    beforeEach(async () => {
+      reviewId = (await createReview(completedJob, 'customer-user', { rating: 1 })).id;
+      aggregateChanges = [];
+    });
+
+    const reportFrom = (count: number) =>
+      Promise.all(
+        Array.from({ length: count }, (_, index) =>
+          reportReview(reviewId, `reporter-${index}`, 'abusive')
+        )
+      );
+
+    it('hides a review once enough people report it', async () => {
+      await reportFrom(REVIEW_REPORT_HIDE_THRESHOLD - 1);
+      expect(tableRows('reviews')[0]).toMatchObject({ status: 'published', report_count: 2 });
+
+      await reportReview(reviewId, 'reporter-last', 'spam');
+
+      expect(tableRows('reviews')[0]).toMatchObject({ status: 'hidden', report_count: 3 });
+      expect(aggregateChanges).toEqual([-1]);
+    });
+
+    it('refuses a second report from the same user and reports of your own review', async () => {
+      await reportReview(reviewId, 'mechanic-user', 'fake');
+
+      await expect(reportReview(reviewId, 'mechanic-user', 'fake')).rejects.toMatchObject({
+        statusCode: 409,
+      });
+      await expect(reportReview(reviewId, 'customer-user', 'fake')).rejects.toMatchObject({
+        statusCode: 400,
+      });
+      await expect(reportReview(reviewId, 'mechanic-user', 'rude')).rejects.toMatchObject({
+        statusCode: 400,
+      });
+    });
+
+    it('restores a hidden review and dismisses its reports', async () => {
+      await reportFrom(REVIEW_REPORT_HIDE_THRESHOLD);
+
+      await moderateReview(reviewId, 'admin-user', 'restore');
+
+      expect(tableRows('reviews')[0]).toMatchObject({ status: 'published', report_count: 0 });
+      expect(tableRows('review_reports', { status: 'dismissed' })).toHaveLength(3);
+      expect(aggregateChanges).toEqual([-1, 1]);
+    });
+
+    it('lists only the open reports of reported reviews', async () => {
+      seedRows('reviews', {
+        id: 'review-reported',
+        report_count: 1,
+        reports: [
+          { id: 'report-1', status: 'open', reason: 'abusive' },
+          { id: 'report-2', status: 'dismissed', reason: 'spam' },
+        ],
+      });
+
+      const reported = await listReportedReviews();
+
+      expect(reported).toEqual([
+        expect.objectContaining({
+          id: 'review-reported',
+          reports: [expect.objectContaining({ id: 'report-1' })],
+        }),
+      ]);
+    });
+  });
+});
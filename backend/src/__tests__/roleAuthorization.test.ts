@@ -0,0 +1,88 @@
+import request from 'supertest';
+import { UserRole } from '../types';
+import { bearerToken, createTestApp } from './helpers/testApp';
+
+jest.mock('../config/supabase', () => ({
+  supabase: require('./helpers/supabaseMock').supabaseMock,
+  supabaseAdmin: require('./helpers/supabaseMock').supabaseMock,
+}));
+
+jest.mock('../services/sessionService', () => ({
+  ...jest.requireActual('../services/sessionService'),
+  isSessionActive: jest.fn().mockResolvedValue(true),
+}));
+
+type Method = 'get' | 'post' | 'put' | 'delete';
+
+interface RoleRoute {
+  method: Method;
+  path: string;
+  roles: UserRole[]; // who may call it
+}
+
+const ROLES: UserRole[] = ['customer', 'mechanic', 'vendor', 'admin'];
+
+// There are no vendor-only routes yet, so vendors only appear as a rejected role
+const ROUTES: RoleRoute[] = [
+  // Customer
+  { method: 'get', path: '/api/customer/vehicles', roles: ['customer'] },
+  { method: 'put', path: '/api/customer/profile', roles: ['customer'] },
+  { method: 'get', path: '/api/customer/wallet', roles: ['customer'] },
+  { method: 'post', path: '/api/customer/wallet/top-ups', roles: ['customer'] },
+  { method: 'get', path: '/api/service-requests', roles: ['customer'] },
+  { method: 'post', path: '/api/service-requests', roles: ['customer'] },
+  { method: 'put', path: '/api/service-requests/sr-1/cancel', roles: ['customer'] },
+  { method: 'put', path: '/api/service-requests/sr-1/complete', roles: ['customer'] },
+  { method: 'put', path: '/api/service-requests/sr-1/quotes/q-1/approve', roles: ['customer'] },
+  { method: 'post', path: '/api/service-requests/sr-1/payments', roles: ['customer'] },
+
+  // Mechanic
+  { method: 'put', path: '/api/mechanics/availability', roles: ['mechanic'] },
+  { method: 'get', path: '/api/mechanics/stats', roles: ['mechanic'] },
+  { method: 'put', path: '/api/mechanics/location', roles: ['mechanic'] },
+  { method: 'put', path: '/api/mechanics/requests/sr-1/accept', roles: ['mechanic'] },
+  { method: 'put', path: '/api/mechanics/requests/sr-1/complete', roles: ['mechanic'] },
+  { method: 'post', path: '/api/mechanics/requests/sr-1/quotes', roles: ['mechanic'] },
+  { method: 'get', path: '/api/mechanic/wallet', roles: ['mechanic'] },
+  { method: 'post', path: '/api/mechanic/wallet/withdraw', roles: ['mechanic'] },
+  { method: 'post', path: '/api/mechanic/bank-accounts', roles: ['mechanic'] },
+  { method: 'put', path: '/api/reviews/rv-1/reply', roles: ['mechanic'] },
+
+  // Admin
+  { method: 'get', path: '/api/admin/mechanics/pending', roles: ['admin'] },
+  { method: 'put', path: '/api/admin/mechanics/m-1/verify', roles: ['admin'] },
+  { method: 'get', path: '/api/admin/vendors/pending', roles: ['admin'] },
+  { method: 'put', path: '/api/admin/reviews/rv-1/moderate', roles: ['admin'] },
+  { method: 'post', path: '/api/admin/payouts/process', roles: ['admin'] },
+  { method: 'post', path: '/api/admin/customers/c-1/credits', roles: ['admin'] },
+  { method: 'post', path: '/api/admin/service-requests/sr-1/refund', roles: ['admin'] },
+  { method: 'post', path: '/api/admin/service-requests/sr-1/dispute/resolve', roles: ['admin'] },
+  { method: 'delete', path: '/api/admin/commission-rules/cr-1', roles: ['admin'] },
+
+  // Shared between the parties to a request
+  { method: 'get', path: '/api/service-requests/sr-1', roles: ['customer', 'mechanic', 'admin'] },
+  { method: 'post', path: '/api/service-requests/sr-1/dispute', roles: ['customer', 'mechanic'] },
+  { method: 'post', path: '/api/service-requests/sr-1/reviews', roles: ['customer', 'mechanic'] },
+  { method: 'post', path: '/api/reviews/rv-1/report', roles: ['customer', 'mechanic'] },
+];
+
+const cases = ROUTES.flatMap((route) =>
+  ROLES.filter((role) => !route.roles.includes(role)).map((role) => ({ ...route, role }))
+);
+
+describe('role authorization', () => {
+  const app = createTestApp();
+
+  it.each(cases)('rejects a $role from $method $path', async ({ method, path, role }) => {
+    const response = await request(app)[method](path).set('Authorization', bearerToken(role)).send({});
+
+    expect(response.status).toBe(403);
+    expect(response.body.success).toBe(false);
+  });
+
+  it('rejects requests without a token before checking the role', async () => {
+    const response = await request(app).get('/api/admin/mechanics/pending');
+
+    expect(response.status).toBe(401);
+  });
+});
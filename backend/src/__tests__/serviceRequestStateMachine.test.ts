@@ -0,0 +1,136 @@
+import {
+  assertTransition,
+  canTransition,
+  ServiceRequestStatus,
+  transitionServiceRequest,
+  tryTransition,
+} from '../services/serviceRequestStateMachine';
+import { failNext, resetDatabase, seedRows, tableRows } from './helpers/memoryDatabase';
+
+jest.mock('../config/supabase', () => ({
+  supabase: require('./helpers/memoryDatabase').memoryDatabase,
+  supabaseAdmin: require('./helpers/memoryDatabase').memoryDatabase,
+}));
+
+const mechanic = { id: 'mechanic-user', type: 'mechanic' as const };
+const customer = { id: 'customer-user', type: 'customer' as const };
+
+describe('service request state machine', () => {
+  describe('canTransition', () => {
+    it.each<[ServiceRequestStatus, ServiceRequestStatus]>([
+      ['pending', 'accepted'],
+      ['accepted', 'en_route'],
+      ['accepted', 'arrived'],
+      ['en_route', 'arrived'],
+      ['arrived', 'in_progress'],
+      ['in_progress', 'awaiting_confirmation'],
+      ['awaiting_confirmation', 'completed'],
+      ['in_progress', 'disputed'],
+      ['disputed', 'completed'],
+      ['disputed', 'cancelled'],
+    ])('allows %s -> %s', (from, to) => {
+      expect(canTransition(from, to)).toBe(true);
+    });
+
+    it.each<[ServiceRequestStatus, ServiceRequestStatus]>([
+      ['pending', 'in_progress'],
+      ['accepted', 'completed'],
+      ['in_progress', 'cancelled'],
+      ['completed', 'disputed'],
+      ['cancelled', 'pending'],
+      ['expired', 'accepted'],
+    ])('refuses %s -> %s', (from, to) => {
+      expect(canTransition(from, to)).toBe(false);
+    });
+
+    it('checks who may make the change', () => {
+      expect(canTransition('pending', 'accepted', 'mechanic')).toBe(true);
+      expect(canTransition('pending', 'accepted', 'customer')).toBe(false);
+      expect(canTransition('pending', 'expired', 'system')).toBe(true);
+      expect(canTransition('disputed', 'completed', 'customer')).toBe(false);
+      expect(canTransition('arrived', 'cancelled', 'customer')).toBe(false);
+    });
+  });
+
+  describe('assertTransition', () => {
+    it('throws 400 for a transition that does not exist', () => {
+      expect(() => assertTransition('pending', 'completed', customer)).toThrow(
+        expect.objectContaining({
+          statusCode: 400,
+          message: 'Cannot move service request from pending to completed',
+        })
+      );
+    });
+
+    it('throws 403 when the actor may not make it', () => {
+      expect(() => assertTransition('pending', 'accepted', customer)).toThrow(
+        expect.objectContaining({ statusCode: 403 })
+      );
+    });
+
+    it('accepts an allowed transition', () => {
+      expect(() => assertTransition('accepted', 'arrived', mechanic)).not.toThrow();
+    });
+  });
+
+  describe('tryTransition', () => {
+    const serviceRequest = { id: 'sr-1', status: 'accepted', mechanic_id: 'mechanic-user' };
+
+    beforeEach(() => {
+      resetDatabase();
+      seedRows('service_requests', serviceRequest);
+    });
+
+    it('updates the status, stamps its timestamp and records an event', async () => {
+      const updated = await tryTransition(serviceRequest, 'arrived', mechanic, {
+        metadata: { eta_minutes: 4 },
+      });
+
+      expect(updated).toMatchObject({ status: 'arrived', arrived_at: expect.any(String) });
+      expect(tableRows('service_request_events')).toEqual([
+        expect.objectContaining({
+          service_request_id: 'sr-1',
+          from_status: 'accepted',
+          to_status: 'arrived',
+          actor_id: 'mechanic-user',
+          actor_type: 'mechanic',
+          metadata: { eta_minutes: 4 },
+        }),
+      ]);
+    });
+
+    it('returns null when the request moved on meanwhile', async () => {
+      await tryTransition(serviceRequest, 'cancelled', customer);
+
+      // Still holding the copy read before the cancellation
+      await expect(tryTransition(serviceRequest, 'arrived', mechanic)).resolves.toBeNull();
+      expect(tableRows('service_requests')[0].status).toBe('cancelled');
+      expect(tableRows('service_request_events')).toHaveLength(1);
+    });
+
+    it('only applies while the expected columns still match', async () => {
+      const result = await tryTransition(serviceRequest, 'arrived', mechanic, {
+        expected: { mechanic_id: 'another-mechanic' },
+      });
+
+      expect(result).toBeNull();
+      expect(tableRows('service_requests')[0].status).toBe('accepted');
+    });
+
+    it('throws 409 with the conflict message through transitionServiceRequest', async () => {
+      await tryTransition(serviceRequest, 'cancelled', customer);
+
+      await expect(
+        transitionServiceRequest(serviceRequest, 'arrived', mechanic, {}, 'Job was cancelled')
+      ).rejects.toMatchObject({ statusCode: 409, message: 'Job was cancelled' });
+    });
+
+    it('throws 500 when the update fails', async () => {
+      failNext('service_requests', 'update');
+
+      await expect(tryTransition(serviceRequest, 'arrived', mechanic)).rejects.toMatchObject({
+        statusCode: 500,
+      });
+    });
+  });
+});
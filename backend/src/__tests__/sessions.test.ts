@@ -0,0 +1,114 @@
+import {
+  createSession,
+  isSessionActive,
+  revokeAllSessions,
+  revokeSession,
+  rotateSession,
+} from '../services/sessionService';
+import { failNext, resetDatabase, seedRows, tableRows } from './helpers/memoryDatabase';
+
+jest.mock('../config/supabase', () => ({
+  supabase: require('./helpers/memoryDatabase').memoryDatabase,
+  supabaseAdmin: require('./helpers/memoryDatabase').memoryDatabase,
+}));
+
+const user = { id: 'user-1', user_type: 'customer', email: 'ada@example.com' };
+
+describe('device sessions', () => {
+  beforeEach(() => {
+    resetDatabase();
+    seedRows('users', { ...user, is_active: true });
+  });
+
+  describe('rotateSession', () => {
+    it('issues a new refresh token and retires the old one', async () => {
+      const first = await createSession(user, { device_id: 'phone' });
+      const second = await rotateSession(first.refresh_token);
+
+      expect(second.session_id).toBe(first.session_id);
+      expect(second.refresh_token).not.toBe(first.refresh_token);
+      await expect(rotateSession(second.refresh_token)).resolves.toMatchObject({
+        session_id: first.session_id,
+      });
+    });
+
+    it('revokes the session when a rotated token is presented again', async () => {
+      const first = await createSession(user, { device_id: 'phone' });
+      const second = await rotateSession(first.refresh_token);
+
+      await expect(rotateSession(first.refresh_token)).rejects.toMatchObject({
+        statusCode: 401,
+        message: 'Refresh token reuse detected. Please log in again.',
+      });
+
+      // The thief's copy and the legitimate latest token are both dead now
+      expect(tableRows('user_sessions')[0].revoked_at).not.toBeNull();
+      await expect(rotateSession(second.refresh_token)).rejects.toMatchObject({ statusCode: 401 });
+    });
+
+    it('refuses tokens of deactivated users and revokes their session', async () => {
+      const deactivated = { id: 'user-2', user_type: 'customer' };
+      seedRows('users', { ...deactivated, is_active: false });
+      const first = await createSession(deactivated);
+
+      await expect(rotateSession(first.refresh_token)).rejects.toMatchObject({ statusCode: 401 });
+      expect(tableRows('user_sessions', { user_id: 'user-2' })[0].revoked_at).not.toBeNull();
+    });
+
+    it('rejects malformed tokens', async () => {
+      await expect(rotateSession('no-separator')).rejects.toMatchObject({ statusCode: 401 });
+    });
+  });
+
+  it('replaces the previous session when the same device logs in again', async () => {
+    const first = await createSession(user, { device_id: 'phone' });
+    await createSession(user, { device_id: 'phone' });
+
+    await expect(isSessionActive(first.session_id)).resolves.toBe(false);
+    await expect(rotateSession(first.refresh_token)).rejects.toMatchObject({ statusCode: 401 });
+  });
+
+  describe('isSessionActive', () => {
+    it('answers repeat checks from the cache', async () => {
+      const { session_id } = await createSession(user);
+
+      await expect(isSessionActive(session_id)).resolves.toBe(true);
+
+      // Reads now fail, so a second true can only come from the cache
+      failNext('user_sessions', 'select');
+      await expect(isSessionActive(session_id)).resolves.toBe(true);
+    });
+
+    it('sees a revocation made on this server straight away', async () => {
+      const { session_id } = await createSession(user);
+      await isSessionActive(session_id);
+
+      await revokeSession(session_id);
+
+      await expect(isSessionActive(session_id)).resolves.toBe(false);
+    });
+
+    it('sees log out of all devices straight away', async () => {
+      const phone = await createSession(user, { device_id: 'phone' });
+      const tablet = await createSession(user, { device_id: 'tablet' });
+      await isSessionActive(phone.session_id);
+      await isSessionActive(tablet.session_id);
+
+      await revokeAllSessions(user.id, tablet.session_id);
+
+      await expect(isSessionActive(phone.session_id)).resolves.toBe(false);
+      await expect(isSessionActive(tablet.session_id)).resolves.toBe(true);
+    });
+
+    it('does not cache unknown or expired sessions', async () => {
+      const [expired] = seedRows('user_sessions', {
+        user_id: user.id,
+        revoked_at: null,
+        expires_at: new Date(Date.now() - 1000).toISOString(),
+      });
+
+      await expect(isSessionActive(expired.id)).resolves.toBe(false);
+      await expect(isSessionActive('missing-session')).resolves.toBe(false);
+    });
+  });
+});
@@ -0,0 +1,101 @@
+import request from 'supertest';
+import { createTestApp } from './helpers/testApp';
+import { failNext, resetDatabase, seedRows, tableRows } from './helpers/memoryDatabase';
+
+jest.mock('../config/supabase', () => ({
+  supabase: require('./helpers/memoryDatabase').memoryDatabase,
+  supabaseAdmin: require('./helpers/memoryDatabase').memoryDatabase,
+}));
+
+jest.mock('../services/storageService', () => ({
+  uploadFile: jest.fn(async ({ folder }: { folder: string }) => `https://storage.test/${folder}/file.jpg`),
+}));
+
+const app = createTestApp();
+
+const guarantor = (n: number) => ({
+  [`guarantor${n}_name`]: `Guarantor ${n}`,
+  [`guarantor${n}_phone`]: `0800000000${n}`,
+  [`guarantor${n}_address`]: `${n} Allen Avenue, Ikeja`,
+  [`guarantor${n}_relationship`]: 'Sibling',
+});
+
+const application = {
+  full_name: 'Chidi Parts',
+  email: 'Chidi@Example.com',
+  phone: '08012345678',
+  password: 'secret-password',
+  gender: 'male',
+  business_name: 'Chidi Auto Parts',
+  business_address: '12 Ladipo Market, Mushin',
+  id_type: 'nin',
+  utility_bill: 'data:image/jpeg;base64,AAAA',
+  id_document: 'data:image/jpeg;base64,BBBB',
+  ...guarantor(1),
+  ...guarantor(2),
+};
+
+const register = (body: object = application) =>
+  request(app).post('/api/auth/register/vendor').send(body);
+
+describe('vendor registration', () => {
+  beforeEach(() => {
+    resetDatabase();
+  });
+
+  it('creates an inactive vendor with a pending profile and two guarantors', async () => {
+    const response = await register();
+
+    expect(response.status).toBe(201);
+    expect(tableRows('users')).toEqual([
+      expect.objectContaining({
+        email: 'chidi@example.com',
+        user_type: 'vendor',
+        is_active: false,
+        is_verified: false,
+      }),
+    ]);
+    expect(tableRows('vendor_profiles')).toEqual([
+      expect.objectContaining({ verification_status: 'pending', user_id: response.body.data.user_id }),
+    ]);
+    expect(tableRows('vendor_guarantors')).toHaveLength(2);
+  });
+
+  it('rejects an email that is already registered', async () => {
+    seedRows('users', { email: 'chidi@example.com', phone: '08099999999' });
+
+    const response = await register();
+
+    expect(response.status).toBe(409);
+    expect(tableRows('vendor_profiles')).toHaveLength(0);
+  });
+
+  it('removes the user when the profile cannot be created', async () => {
+    failNext('vendor_profiles', 'insert');
+
+    const response = await register();
+
+    expect(response.status).toBe(500);
+    expect(tableRows('users')).toHaveLength(0);
+  });
+
+  it('removes the profile and user when the guarantors cannot be saved', async () => {
+    failNext('vendor_guarantors', 'insert');
+
+    const response = await register();
+
+    expect(response.status).toBe(500);
+    expect(tableRows('users')).toHaveLength(0);
+    expect(tableRows('vendor_profiles')).toHaveLength(0);
+    expect(tableRows('vendor_guarantors')).toHaveLength(0);
+  });
+
+  it('lets the vendor register again after a rolled back attempt', async () => {
+    failNext('vendor_guarantors', 'insert');
+    await register();
+
+    const retry = await register();
+
+    expect(retry.status).toBe(201);
+  });
+});
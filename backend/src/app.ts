@@ -4,6 +4,9 @@ import helmet from 'helmet';
 import { env } from './config/env';
 import routes from './routes';
 import { errorHandler, notFoundHandler } from './middleware';
+import { startOfferExpiryJob } from './services/dispatchService';
+import { startLedgerReconciliationJob } from './services/ledgerService';
+import { startPayoutProcessingJob } from './services/payoutService';
 
 const app: Express = express();
 
@@ -18,8 +21,14 @@ app.use(
   })
 );
 
-// Body parsing middleware
-app.use(express.json());
+// Body parsing middleware (the raw body is kept for verifying webhook signatures)
+app.use(
+  express.json({
+    verify: (req, _res, buf) => {
+      (req as express.Request & { rawBody?: Buffer }).rawBody = buf;
+    },
+  })
+);
 app.use(express.urlencoded({ extended: true }));
 
 // API routes
@@ -47,6 +56,15 @@ app.listen(PORT, () => {
   console.log(`🚀 Server is running on port ${PORT}`);
   console.log(`📝 Environment: ${env.nodeEnv}`);
   console.log(`🔗 Health check: http://localhost:${PORT}/api/health`);
+
+  // Expire unanswered service request offers and reassign them
+  startOfferExpiryJob();
+
+  // Report wallet balances that drift from their ledger entries
+  startLedgerReconciliationJob();
+
+  // Send queued withdrawals to the payout provider
+  startPayoutProcessingJob();
 });
 
 export default app;
@@ -12,6 +12,35 @@ interface EnvConfig {
   };
   jwt: {
     secret: string;
+    accessTokenExpiresIn: string;
+    refreshTokenTtlDays: number;
+  };
+  eta: {
+    provider: string; // 'heuristic' (offline) or 'google'
+    googleMapsApiKey?: string;
+  };
+  ranking: {
+    weights?: string; // JSON object overriding the default ranking weights
+  };
+  invoice: {
+    vatRate: number; // prices are VAT inclusive, e.g. 0.075
+    vatNumber?: string; // printed on invoices when set
+  };
+  payout: {
+    provider: string; // 'fake' (local, no money moves; not in production) or 'paystack'
+    paystackSecretKey?: string; // always set when provider is 'paystack'
+    webhookSecret: string; // signs fake provider webhooks
+    batchSize: number;
+  };
+  payment: {
+    gateway: string; // 'fake' (local, payments succeed when verified; not in production) or 'paystack'
+    paystackSecretKey?: string; // always set when gateway is 'paystack'
+    webhookSecret: string; // signs fake gateway webhooks ('' with paystack)
+  };
+  cashJobs: {
+    // Charge commission on cash jobs to the mechanic's wallet (false: credit the labour as before)
+    commissionDebt: boolean;
+    debtLimit: number; // mechanics owing more than this can't go online
   };
   email?: {
     smtpHost?: string;
@@ -30,6 +59,35 @@ function getEnvVar(name: string, defaultValue?: string): string {
   return value || defaultValue || '';
 }
 
+// Defaults that are only safe locally: outside NODE_ENV=development the variable is required
+function developmentDefault(value: string): string | undefined {
+  return process.env.NODE_ENV === 'development' ? value : undefined;
+}
+
+// 'fake' moves no money, so it's refused in production; 'paystack' needs its secret key
+function getMoneyProvider(name: string, defaultValue?: string): string {
+  const provider = getEnvVar(name, defaultValue);
+
+  if (provider !== 'fake' && provider !== 'paystack') {
+    throw new Error(`${name} must be 'fake' or 'paystack'`);
+  }
+  if (provider === 'paystack' && !process.env.PAYSTACK_SECRET_KEY) {
+    throw new Error(`${name} is paystack but PAYSTACK_SECRET_KEY is not set`);
+  }
+  if (provider === 'fake' && process.env.NODE_ENV === 'production') {
+    throw new Error(`${name} cannot be fake in production`);
+  }
+
+  return provider;
+}
+
+// Paystack signs its webhooks with the secret key, so only the fake one needs a webhook secret
+function getFakeWebhookSecret(name: string, provider: string, defaultValue?: string): string {
+  return provider === 'fake' ? getEnvVar(name, defaultValue) : process.env[name] || '';
+}
+
+const paymentGateway = getMoneyProvider('PAYMENT_GATEWAY', developmentDefault('fake'));
+
 export const env: EnvConfig = {
   port: parseInt(getEnvVar('PORT', '3000'), 10),
   nodeEnv: getEnvVar('NODE_ENV', 'development'),
@@ -40,6 +98,38 @@ export const env: EnvConfig = {
   },
   jwt: {
     secret: getEnvVar('JWT_SECRET'),
+    accessTokenExpiresIn: getEnvVar('JWT_ACCESS_EXPIRES_IN', '15m'),
+    refreshTokenTtlDays: parseInt(getEnvVar('REFRESH_TOKEN_TTL_DAYS', '30'), 10),
+  },
+  eta: {
+    provider: getEnvVar('ETA_PROVIDER', 'heuristic'),
+    googleMapsApiKey: process.env.GOOGLE_MAPS_API_KEY,
+  },
+  ranking: {
+    weights: process.env.RANKING_WEIGHTS,
+  },
+  invoice: {
+    vatRate: parseFloat(getEnvVar('INVOICE_VAT_RATE', '0.075')),
+    vatNumber: process.env.VAT_REGISTRATION_NUMBER,
+  },
+  payout: {
+    provider: getMoneyProvider('PAYOUT_PROVIDER', developmentDefault('fake')),
+    paystackSecretKey: process.env.PAYSTACK_SECRET_KEY,
+    webhookSecret: getEnvVar('PAYOUT_WEBHOOK_SECRET', developmentDefault('local-payout-webhook-secret')),
+    batchSize: parseInt(getEnvVar('PAYOUT_BATCH_SIZE', '50'), 10),
+  },
+  payment: {
+    gateway: paymentGateway,
+    paystackSecretKey: process.env.PAYSTACK_SECRET_KEY,
+    webhookSecret: getFakeWebhookSecret(
+      'PAYMENT_WEBHOOK_SECRET',
+      paymentGateway,
+      developmentDefault('local-payment-webhook-secret')
+    ),
+  },
+  cashJobs: {
+    commissionDebt: getEnvVar('CASH_COMMISSION_DEBT', 'true') === 'true',
+    debtLimit: parseFloat(getEnvVar('MECHANIC_DEBT_LIMIT', '5000')),
   },
   email: {
     smtpHost: process.env.SMTP_HOST,
@@ -0,0 +1,472 @@
+/// <reference types="express" />
+import { Response, NextFunction } from 'express';
+import { supabaseAdmin } from '../config/supabase';
+import { CustomError } from '../middleware/errorHandler';
+import { AuthenticatedRequest } from '../middleware/auth';
+import { sendVerificationStatusEmail } from '../services/emailService';
+import { listReconciliationRuns, reconcileLedger } from '../services/ledgerService';
+import { grantPromoCredit } from '../services/customerWalletService';
+
+type ApplicantType = 'mechanic' | 'vendor';
+
+// Table layout for each kind of applicant reviewed by admins
+const APPLICANTS: Record<
+  ApplicantType,
+  {
+    profileTable: string;
+    guarantorTable: string;
+    guarantorKey: string;
+    documents: Record<string, string>;
+  }
+> = {
+  mechanic: {
+    profileTable: 'mechanic_profiles',
+    guarantorTable: 'mechanic_guarantors',
+    guarantorKey: 'mechanic_id',
+    documents: {
+      utility_bill: 'utility_bill_url',
+      id_document: 'id_document_url',
+      profile_photo: 'profile_photo_url',
+    },
+  },
+  vendor: {
+    profileTable: 'vendor_profiles',
+    guarantorTable: 'vendor_guarantors',
+    guarantorKey: 'vendor_id',
+    documents: {
+      utility_bill: 'utility_bill_url',
+      id_document: 'id_document_url',
+    },
+  },
+};
+
+const DOCUMENT_LABELS: Record<string, string> = {
+  utility_bill: 'utility bill',
+  id_document: 'ID document',
+  profile_photo: 'profile photo',
+};
+
+const listPendingApplications = async (type: ApplicantType) => {
+  const config = APPLICANTS[type];
+
+  const { data: profiles, error } = await supabaseAdmin
+    .from(config.profileTable)
+    .select(`
+      *,
+      users!inner (
+        id,
+        full_name,
+        email,
+        phone,
+        gender,
+        created_at
+      )
+    `)
+    .in('verification_status', ['pending', 'resubmission_required'])
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    throw new CustomError(`Failed to fetch pending ${type} applications`, 500);
+  }
+
+  if (!profiles || profiles.length === 0) {
+    return [];
+  }
+
+  const profileIds = profiles.map((p) => p.id);
+
+  const { data: guarantors, error: guarantorsError } = await supabaseAdmin
+    .from(config.guarantorTable)
+    .select('*')
+    .in(config.guarantorKey, profileIds);
+
+  if (guarantorsError) {
+    console.error(`Error fetching ${type} guarantors:`, guarantorsError);
+  }
+
+  let specializations: { mechanic_id: string; specialization: string }[] = [];
+  if (type === 'mechanic') {
+    const { data: specs } = await supabaseAdmin
+      .from('mechanic_specializations')
+      .select('mechanic_id, specialization')
+      .in('mechanic_id', profileIds);
+    specializations = specs || [];
+  }
+
+  return profiles.map((profile) => ({
+    ...profile,
+    documents: Object.fromEntries(
+      Object.entries(config.documents).map(([doc, column]) => [doc, profile[column] || null])
+    ),
+    guarantors: (guarantors || []).filter((g) => g[config.guarantorKey] === profile.id),
+    ...(type === 'mechanic' && {
+      specializations: specializations
+        .filter((s) => s.mechanic_id === profile.id)
+        .map((s) => s.specialization),
+    }),
+  }));
+};
+
+const getApplicationProfile = async (type: ApplicantType, profileId: string) => {
+  const { data: profile, error } = await supabaseAdmin
+    .from(APPLICANTS[type].profileTable)
+    .select(`
+      *,
+      users!inner (
+        id,
+        full_name,
+        email
+      )
+    `)
+    .eq('id', profileId)
+    .single();
+
+  if (error || !profile) {
+    throw new CustomError(`${type === 'mechanic' ? 'Mechanic' : 'Vendor'} application not found`, 404);
+  }
+
+  return profile;
+};
+
+// Send both the in-app notification and the email for a review decision
+const notifyApplicant = async (
+  user: { id: string; email: string; full_name: string },
+  profileId: string,
+  status: 'approved' | 'rejected' | 'resubmission_required',
+  reason?: string,
+  document?: string
+): Promise<void> => {
+  const documentLabel = document ? DOCUMENT_LABELS[document] || document : undefined;
+
+  const titles = {
+    approved: 'Application Approved',
+    rejected: 'Application Rejected',
+    resubmission_required: 'Document Resubmission Required',
+  };
+
+  const bodies = {
+    approved: 'Your application has been approved. You can now start using Mekofix.',
+    rejected: `Your application was not approved${reason ? `: ${reason}` : '.'}`,
+    resubmission_required: `Please resubmit your ${documentLabel}${reason ? `: ${reason}` : '.'}`,
+  };
+
+  await supabaseAdmin.from('notifications').insert({
+    user_id: user.id,
+    title: titles[status],
+    body: bodies[status],
+    type: 'system',
+    reference_id: profileId,
+  });
+
+  try {
+    if (user.email) {
+      await sendVerificationStatusEmail(user.email, user.full_name, status, reason, documentLabel);
+    }
+  } catch (emailError) {
+    console.error('Failed to send verification email (non-fatal):', emailError);
+  }
+};
+
+const verifyApplication = async (
+  type: ApplicantType,
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> => {
+  const adminId = req.user?.id;
+  const { id } = req.params;
+  const { status, reason } = req.body;
+
+  if (!adminId) {
+    throw new CustomError('Unauthorized', 401);
+  }
+
+  if (status !== 'approved' && status !== 'rejected') {
+    throw new CustomError("Status must be 'approved' or 'rejected'", 400);
+  }
+
+  if (status === 'rejected' && !reason) {
+    throw new CustomError('A reason is required when rejecting an application', 400);
+  }
+
+  const profile = await getApplicationProfile(type, id);
+
+  if (profile.verification_status === status) {
+    throw new CustomError(`Application is already ${status}`, 400);
+  }
+
+  const profileUpdate: Record<string, unknown> = {
+    verification_status: status,
+    verification_notes: reason || null,
+    verified_at: new Date().toISOString(),
+    verified_by: adminId,
+  };
+
+  if (type === 'vendor') {
+    profileUpdate.is_active = status === 'approved';
+  }
+
+  const { data: updatedProfile, error: updateError } = await supabaseAdmin
+    .from(APPLICANTS[type].profileTable)
+    .update(profileUpdate)
+    .eq('id', id)
+    .select()
+    .single();
+
+  if (updateError) {
+    throw new CustomError(`Failed to update ${type} application`, 500);
+  }
+
+  // Approved applicants become active users; rejected ones stay inactive
+  const { error: userError } = await supabaseAdmin
+    .from('users')
+    .update({ is_active: status === 'approved', is_verified: status === 'approved' })
+    .eq('id', profile.user_id);
+
+  if (userError) {
+    throw new CustomError(`Failed to update ${type} account`, 500);
+  }
+
+  const { error: reviewError } = await supabaseAdmin.from('verification_reviews').insert({
+    applicant_type: type,
+    profile_id: id,
+    user_id: profile.user_id,
+    action: status,
+    reason: reason || null,
+    reviewed_by: adminId,
+  });
+
+  if (reviewError) {
+    throw new CustomError('Failed to record verification review', 500);
+  }
+
+  await notifyApplicant(profile.users, id, status, reason);
+
+  res.json({
+    success: true,
+    data: updatedProfile,
+  });
+};
+
+const requestResubmission = async (
+  type: ApplicantType,
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> => {
+  const adminId = req.user?.id;
+  const { id } = req.params;
+  const { document, reason } = req.body;
+
+  if (!adminId) {
+    throw new CustomError('Unauthorized', 401);
+  }
+
+  const documentColumn = APPLICANTS[type].documents[document];
+
+  if (!documentColumn) {
+    throw new CustomError(
+      `Document must be one of: ${Object.keys(APPLICANTS[type].documents).join(', ')}`,
+      400
+    );
+  }
+
+  if (!reason) {
+    throw new CustomError('A reason is required when requesting resubmission', 400);
+  }
+
+  const profile = await getApplicationProfile(type, id);
+
+  if (profile.verification_status === 'approved') {
+    throw new CustomError('Application is already approved', 400);
+  }
+
+  const { data: updatedProfile, error: updateError } = await supabaseAdmin
+    .from(APPLICANTS[type].profileTable)
+    .update({
+      verification_status: 'resubmission_required',
+      verification_notes: reason,
+      resubmission_document: document,
+    })
+    .eq('id', id)
+    .select()
+    .single();
+
+  if (updateError) {
+    throw new CustomError(`Failed to update ${type} application`, 500);
+  }
+
+  const { error: reviewError } = await supabaseAdmin.from('verification_reviews').insert({
+    applicant_type: type,
+    profile_id: id,
+    user_id: profile.user_id,
+    action: 'resubmission_required',
+    document,
+    reason,
+    reviewed_by: adminId,
+  });
+
+  if (reviewError) {
+    throw new CustomError('Failed to record verification review', 500);
+  }
+
+  await notifyApplicant(profile.users, id, 'resubmission_required', reason, document);
+
+  res.json({
+    success: true,
+    data: updatedProfile,
+  });
+};
+
+export const getPendingMechanics = async (
+  _req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const applications = await listPendingApplications('mechanic');
+
+    res.json({
+      success: true,
+      data: applications,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const getPendingVendors = async (
+  _req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const applications = await listPendingApplications('vendor');
+
+    res.json({
+      success: true,
+      data: applications,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const verifyMechanic = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    await verifyApplication('mechanic', req, res);
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const verifyVendor = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    await verifyApplication('vendor', req, res);
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const requestMechanicResubmission = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    await requestResubmission('mechanic', req, res);
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const requestVendorResubmission = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    await requestResubmission('vendor', req, res);
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const reconcileLedgerNow = async (
+  _req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { run, drift } = await reconcileLedger();
+
+    res.json({
+      success: true,
+      data: {
+        run,
+        drift,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const getLedgerReconciliations = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const limit = Math.min(parseInt(req.query.limit as string) || 20, 100);
+    const runs = await listReconciliationRuns(limit);
+
+    res.json({
+      success: true,
+      data: runs,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const addCustomerCredit = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const { amount, reason } = req.body;
+    const grantKey = req.header('Idempotency-Key');
+
+    if (!reason || typeof reason !== 'string') {
+      throw new CustomError('A reason is required', 400);
+    }
+
+    if (!grantKey) {
+      throw new CustomError('An Idempotency-Key header is required', 400);
+    }
+
+    const creditAmount = parseFloat(amount as string);
+
+    if (isNaN(creditAmount)) {
+      throw new CustomError('Invalid amount', 400);
+    }
+
+    const posting = await grantPromoCredit(id, creditAmount, reason.trim(), grantKey);
+
+    res.status(posting.created ? 201 : 200).json({
+      success: true,
+      data: posting,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
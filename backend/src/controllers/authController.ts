@@ -2,11 +2,25 @@ import { Request, Response, NextFunction } from 'express';
 import { supabaseAdmin } from '../config/supabase';
 import { CustomError } from '../middleware/errorHandler';
 import { uploadFile } from '../services/storageService';
-import jwt from 'jsonwebtoken';
-import { env } from '../config/env';
 import { sendOTPEmail } from '../services/emailService';
-
-// Auth controller exports: registerMechanic, login, registerCustomer, verifyOTP, resendOTP, forgotPassword
+import {
+  createSession,
+  rotateSession,
+  revokeSession,
+  revokeAllSessions,
+  listSessions,
+  DeviceInfo,
+} from '../services/sessionService';
+import { AuthenticatedRequest } from '../middleware/auth';
+
+// Auth controller exports: registerMechanic, registerVendor, login, registerCustomer, verifyOTP, resendOTP, forgotPassword, resetPassword,
+// refreshToken, logout, logoutAllDevices, getSessions, revokeDeviceSession
+
+const getDeviceInfo = (req: Request): DeviceInfo => ({
+  device_id: req.body.device_id,
+  device_name: req.body.device_name || req.headers['user-agent'],
+  platform: req.body.platform,
+});
 
 interface MechanicSignupRequest extends Request {
   body: {
@@ -294,6 +308,222 @@ export const registerMechanic = async (
   }
 };
 
+interface VendorSignupRequest extends Request {
+  body: {
+    // Step 1: Basic Info
+    full_name: string;
+    email: string;
+    phone: string;
+    password: string;
+    gender: string;
+
+    // Step 2: Business & Documents
+    business_name: string;
+    business_address: string;
+    utility_bill?: {
+      uri: string;
+      type: string;
+      name: string;
+    };
+    id_type: string;
+    id_document?: {
+      uri: string;
+      type: string;
+      name: string;
+    };
+
+    // Step 3: Guarantors
+    guarantor1_name: string;
+    guarantor1_phone: string;
+    guarantor1_address: string;
+    guarantor1_relationship: string;
+    guarantor2_name: string;
+    guarantor2_phone: string;
+    guarantor2_address: string;
+    guarantor2_relationship: string;
+  };
+}
+
+export const registerVendor = async (
+  req: VendorSignupRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const {
+      full_name,
+      email,
+      phone,
+      password,
+      gender,
+      business_name,
+      business_address,
+      utility_bill,
+      id_type,
+      id_document,
+      guarantor1_name,
+      guarantor1_phone,
+      guarantor1_address,
+      guarantor1_relationship,
+      guarantor2_name,
+      guarantor2_phone,
+      guarantor2_address,
+      guarantor2_relationship,
+    } = req.body;
+
+    // Validate required fields
+    if (!full_name || !email || !phone || !password || !gender) {
+      throw new CustomError('Missing required fields: full_name, email, phone, password, gender', 400);
+    }
+
+    if (!business_name || !business_address || !id_type) {
+      throw new CustomError('Missing required fields: business_name, business_address, id_type', 400);
+    }
+
+    if (!utility_bill || !id_document) {
+      throw new CustomError('Missing required documents: utility_bill, id_document', 400);
+    }
+
+    if (!guarantor1_name || !guarantor1_phone || !guarantor1_address || !guarantor1_relationship) {
+      throw new CustomError('Missing required guarantor 1 information', 400);
+    }
+
+    if (!guarantor2_name || !guarantor2_phone || !guarantor2_address || !guarantor2_relationship) {
+      throw new CustomError('Missing required guarantor 2 information', 400);
+    }
+
+    const trimmedEmail = email.trim().toLowerCase();
+    const trimmedPhone = phone.trim();
+
+    // Check if user already exists
+    const { data: existingUserByEmail } = await supabaseAdmin
+      .from('users')
+      .select('id')
+      .eq('email', trimmedEmail)
+      .maybeSingle();
+
+    const { data: existingUserByPhone } = await supabaseAdmin
+      .from('users')
+      .select('id')
+      .eq('phone', trimmedPhone)
+      .maybeSingle();
+
+    if (existingUserByEmail || existingUserByPhone) {
+      throw new CustomError('User with this email or phone already exists', 409);
+    }
+
+    // Upload files to Supabase Storage
+    let utilityBillUrl: string | null = null;
+    let idDocumentUrl: string | null = null;
+
+    try {
+      utilityBillUrl = await uploadFile({
+        file: utility_bill,
+        bucket: 'vendor-documents',
+        folder: 'utility-bills',
+      });
+
+      idDocumentUrl = await uploadFile({
+        file: id_document,
+        bucket: 'vendor-documents',
+        folder: 'id-documents',
+      });
+    } catch (uploadError: any) {
+      throw new CustomError(`File upload failed: ${uploadError.message}`, 500);
+    }
+
+    // Hash password using bcrypt so the vendor can log in once approved
+    const bcrypt = require('bcryptjs');
+    const password_hash = await bcrypt.hash(password, 10);
+
+    // Create user record (database generates the id)
+    const { data: newUser, error: userError } = await supabaseAdmin
+      .from('users')
+      .insert({
+        email: trimmedEmail,
+        phone: trimmedPhone,
+        password_hash,
+        full_name: full_name.trim(),
+        user_type: 'vendor',
+        gender: gender.trim(),
+        is_verified: false,
+        is_active: false, // Inactive until approved
+      })
+      .select('id')
+      .single();
+
+    if (userError || !newUser) {
+      throw new CustomError(`Failed to create user record: ${userError?.message || 'Unknown error'}`, 500);
+    }
+
+    const userId = newUser.id;
+
+    // Create vendor profile
+    const { data: vendorProfile, error: profileError } = await supabaseAdmin
+      .from('vendor_profiles')
+      .insert({
+        user_id: userId,
+        business_name: business_name.trim(),
+        business_address: business_address.trim(),
+        utility_bill_url: utilityBillUrl,
+        id_type,
+        id_document_url: idDocumentUrl,
+        verification_status: 'pending',
+        is_active: false, // Products hidden until approved
+      })
+      .select()
+      .single();
+
+    if (profileError || !vendorProfile) {
+      // Rollback: delete user
+      await supabaseAdmin.from('users').delete().eq('id', userId);
+      throw new CustomError(`Failed to create vendor profile: ${profileError?.message || 'Unknown error'}`, 500);
+    }
+
+    const vendorId = vendorProfile.id;
+
+    // Create guarantors
+    const guarantors = [
+      {
+        vendor_id: vendorId,
+        guarantor_name: guarantor1_name,
+        guarantor_phone: guarantor1_phone,
+        guarantor_address: guarantor1_address,
+        guarantor_relationship: guarantor1_relationship,
+      },
+      {
+        vendor_id: vendorId,
+        guarantor_name: guarantor2_name,
+        guarantor_phone: guarantor2_phone,
+        guarantor_address: guarantor2_address,
+        guarantor_relationship: guarantor2_relationship,
+      },
+    ];
+
+    const { error: guarantorsError } = await supabaseAdmin
+      .from('vendor_guarantors')
+      .insert(guarantors);
+
+    if (guarantorsError) {
+      // Rollback: delete vendor profile and user
+      await supabaseAdmin.from('vendor_profiles').delete().eq('id', vendorId);
+      await supabaseAdmin.from('users').delete().eq('id', userId);
+      throw new CustomError(`Failed to create guarantors: ${guarantorsError.message}`, 500);
+    }
+
+    res.status(201).json({
+      success: true,
+      data: {
+        message: 'Vendor registration submitted successfully. Your application is under review.',
+        user_id: userId,
+        vendor_id: vendorId,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
 export const login = async (
   req: Request,
   res: Response,
@@ -333,15 +563,10 @@ export const login = async (
       throw new CustomError('Invalid credentials', 401);
     }
 
-    // Generate JWT token
-    const token = jwt.sign(
-      {
-        id: user.id,
-        user_type: user.user_type,
-        email: user.email,
-      },
-      env.jwt.secret,
-      { expiresIn: '7d' }
+    // Start a device session (short-lived access token + refresh token)
+    const { token, refresh_token } = await createSession(
+      { id: user.id, user_type: user.user_type, email: user.email },
+      getDeviceInfo(req)
     );
 
     res.json({
@@ -356,6 +581,7 @@ export const login = async (
           profile_picture_url: user.profile_picture_url,
         },
         token,
+        refresh_token,
       },
     });
   } catch (error) {
@@ -778,15 +1004,10 @@ export const verifyOTP = async (
       .update({ is_verified: true, is_active: true })
       .eq('id', user.id);
 
-    // Generate JWT token
-    const token = jwt.sign(
-      {
-        id: fullUser.id,
-        user_type: fullUser.user_type,
-        email: fullUser.email,
-      },
-      env.jwt.secret,
-      { expiresIn: '7d' }
+    // Start a device session (short-lived access token + refresh token)
+    const { token, refresh_token } = await createSession(
+      { id: fullUser.id, user_type: fullUser.user_type, email: fullUser.email },
+      getDeviceInfo(req)
     );
 
     res.json({
@@ -803,6 +1024,7 @@ export const verifyOTP = async (
           is_active: fullUser.is_active !== undefined ? fullUser.is_active : true,
         },
         token,
+        refresh_token,
       },
     });
   } catch (error) {
@@ -927,3 +1149,248 @@ export const forgotPassword = async (
   }
 };
 
+
+// Maximum wrong guesses allowed against a single password reset code
+const MAX_RESET_ATTEMPTS = 5;
+
+export const resetPassword = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { email, code, new_password } = req.body;
+
+    if (!email || !code || !new_password) {
+      throw new CustomError('Email, code and new password are required', 400);
+    }
+
+    if (new_password.length < 6) {
+      throw new CustomError('Password must be at least 6 characters', 400);
+    }
+
+    const trimmedEmail = email.trim().toLowerCase();
+    const trimmedCode = code.toString().trim();
+
+    // Find user
+    const { data: user, error: userError } = await supabaseAdmin
+      .from('users')
+      .select('id, email')
+      .eq('email', trimmedEmail)
+      .single();
+
+    if (userError || !user) {
+      // Same message as a wrong code so we don't reveal which emails exist
+      throw new CustomError('Invalid or expired reset code', 400);
+    }
+
+    // Only the most recent unused reset code is valid; older ones are superseded
+    const { data: resetCode } = await supabaseAdmin
+      .from('verification_codes')
+      .select('*')
+      .eq('user_id', user.id)
+      .eq('type', 'password_reset')
+      .eq('is_used', false)
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (!resetCode) {
+      throw new CustomError('Invalid or expired reset code', 400);
+    }
+
+    if (new Date(resetCode.expires_at) < new Date()) {
+      throw new CustomError('Reset code has expired. Please request a new code.', 400);
+    }
+
+    const attempts = resetCode.attempts || 0;
+
+    if (attempts >= MAX_RESET_ATTEMPTS) {
+      throw new CustomError('Too many attempts. Please request a new code.', 429);
+    }
+
+    if (resetCode.code !== trimmedCode) {
+      const newAttempts = attempts + 1;
+
+      // Burn the code once the attempt limit is reached
+      await supabaseAdmin
+        .from('verification_codes')
+        .update({
+          attempts: newAttempts,
+          is_used: newAttempts >= MAX_RESET_ATTEMPTS,
+        })
+        .eq('id', resetCode.id);
+
+      throw new CustomError(
+        newAttempts >= MAX_RESET_ATTEMPTS
+          ? 'Too many attempts. Please request a new code.'
+          : 'Invalid or expired reset code',
+        newAttempts >= MAX_RESET_ATTEMPTS ? 429 : 400
+      );
+    }
+
+    // Mark code as used before changing the password so it cannot be replayed
+    const { data: consumedCode } = await supabaseAdmin
+      .from('verification_codes')
+      .update({ is_used: true, attempts: attempts + 1 })
+      .eq('id', resetCode.id)
+      .eq('is_used', false)
+      .select('id')
+      .maybeSingle();
+
+    if (!consumedCode) {
+      throw new CustomError('Invalid or expired reset code', 400);
+    }
+
+    // Hash new password using bcrypt
+    const bcrypt = require('bcryptjs');
+    const password_hash = await bcrypt.hash(new_password, 10);
+
+    const { error: updateError } = await supabaseAdmin
+      .from('users')
+      .update({
+        password_hash,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', user.id);
+
+    if (updateError) {
+      throw new CustomError('Failed to reset password', 500);
+    }
+
+    // Sign the user out everywhere in case the old password was compromised
+    await revokeAllSessions(user.id);
+
+    res.json({
+      success: true,
+      message: 'Password has been reset successfully. Please log in with your new password.',
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const refreshToken = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { refresh_token } = req.body;
+
+    if (!refresh_token || typeof refresh_token !== 'string') {
+      throw new CustomError('Refresh token is required', 400);
+    }
+
+    const { token, refresh_token: newRefreshToken } = await rotateSession(refresh_token);
+
+    res.json({
+      success: true,
+      data: {
+        token,
+        refresh_token: newRefreshToken,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const logout = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const userId = req.user?.id;
+    const sessionId = req.user?.session_id;
+
+    if (!userId || !sessionId) {
+      throw new CustomError('Unauthorized', 401);
+    }
+
+    await revokeSession(sessionId, userId);
+
+    res.json({
+      success: true,
+      message: 'Logged out successfully',
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const logoutAllDevices = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const userId = req.user?.id;
+
+    if (!userId) {
+      throw new CustomError('Unauthorized', 401);
+    }
+
+    // Optionally keep the current device signed in
+    const keepCurrent = req.body?.keep_current === true;
+    await revokeAllSessions(userId, keepCurrent ? req.user?.session_id : undefined);
+
+    res.json({
+      success: true,
+      message: 'Logged out of all devices',
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const getSessions = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const userId = req.user?.id;
+
+    if (!userId) {
+      throw new CustomError('Unauthorized', 401);
+    }
+
+    const sessions = await listSessions(userId);
+
+    res.json({
+      success: true,
+      data: sessions.map((session) => ({
+        ...session,
+        is_current: session.id === req.user?.session_id,
+      })),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const revokeDeviceSession = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const userId = req.user?.id;
+    const { id } = req.params;
+
+    if (!userId) {
+      throw new CustomError('Unauthorized', 401);
+    }
+
+    await revokeSession(id, userId);
+
+    res.json({
+      success: true,
+      message: 'Session revoked',
+    });
+  } catch (error) {
+    next(error);
+  }
+};
@@ -0,0 +1,132 @@
+/// <reference types="express" />
+import { Response, NextFunction } from 'express';
+import { supabaseAdmin } from '../config/supabase';
+import { CustomError } from '../middleware/errorHandler';
+import { AuthenticatedRequest } from '../middleware/auth';
+import {
+  createCommissionRule,
+  listCommissionRules,
+  MECHANIC_TIERS,
+  parseCommissionRuleInput,
+  retireCommissionRule,
+  reviseCommissionRule,
+} from '../services/commissionService';
+
+export const getCommissionRules = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const rules = await listCommissionRules(req.query.include_history === 'true');
+
+    res.json({
+      success: true,
+      data: rules,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const addCommissionRule = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const adminId = req.user?.id;
+
+    if (!adminId) {
+      throw new CustomError('Unauthorized', 401);
+    }
+
+    const rule = await createCommissionRule(parseCommissionRuleInput(req.body), adminId);
+
+    res.status(201).json({
+      success: true,
+      data: rule,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const updateCommissionRule = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const adminId = req.user?.id;
+
+    if (!adminId) {
+      throw new CustomError('Unauthorized', 401);
+    }
+
+    const rule = await reviseCommissionRule(id, parseCommissionRuleInput(req.body), adminId);
+
+    res.json({
+      success: true,
+      data: rule,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const deleteCommissionRule = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const rule = await retireCommissionRule(id);
+
+    res.json({
+      success: true,
+      data: rule,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const setMechanicTier = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const { tier } = req.body;
+
+    if (!MECHANIC_TIERS.includes(tier)) {
+      throw new CustomError(`Tier must be one of ${MECHANIC_TIERS.join(', ')}`, 400);
+    }
+
+    const { data: profile, error } = await supabaseAdmin
+      .from('mechanic_profiles')
+      .update({ tier, updated_at: new Date().toISOString() })
+      .eq('id', id)
+      .select()
+      .maybeSingle();
+
+    if (error) {
+      throw new CustomError('Failed to update mechanic tier', 500);
+    }
+
+    if (!profile) {
+      throw new CustomError('Mechanic not found', 404);
+    }
+
+    res.json({
+      success: true,
+      data: profile,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
@@ -0,0 +1,174 @@
+/// <reference types="express" />
+import { Response, NextFunction } from 'express';
+import { supabaseAdmin } from '../config/supabase';
+import { CustomError } from '../middleware/errorHandler';
+import { AuthenticatedRequest } from '../middleware/auth';
+import { assertServiceRequestParticipant } from '../utils/ownership';
+import { actorFromUser } from '../services/serviceRequestStateMachine';
+import {
+  addDisputeMessage,
+  DisputeStatus,
+  getDispute,
+  listDisputes,
+  openDispute,
+  resolveDispute,
+} from '../services/disputeService';
+
+const DISPUTE_STATUSES: DisputeStatus[] = ['open', 'resolved'];
+
+const getServiceRequestForDispute = async (id: string) => {
+  const { data: serviceRequest, error } = await supabaseAdmin
+    .from('service_requests')
+    .select('id, customer_id, mechanic_id, status, payment_method, material_cost, labor_cost')
+    .eq('id', id)
+    .single();
+
+  if (error || !serviceRequest) {
+    throw new CustomError('Service request not found', 404);
+  }
+
+  return serviceRequest;
+};
+
+export const getServiceRequestDispute = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    if (!req.user?.id) {
+      throw new CustomError('Unauthorized', 401);
+    }
+
+    const serviceRequest = await getServiceRequestForDispute(id);
+    assertServiceRequestParticipant(serviceRequest, req.user);
+
+    const dispute = await getDispute(id);
+
+    res.json({
+      success: true,
+      data: dispute,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const openServiceRequestDispute = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const { reason, description, photos } = req.body;
+
+    if (!req.user?.id) {
+      throw new CustomError('Unauthorized', 401);
+    }
+
+    const serviceRequest = await getServiceRequestForDispute(id);
+    assertServiceRequestParticipant(serviceRequest, req.user);
+
+    const dispute = await openDispute(serviceRequest, actorFromUser(req.user), {
+      reason,
+      description,
+      photos,
+    });
+
+    res.status(201).json({
+      success: true,
+      data: dispute,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const addServiceRequestDisputeMessage = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const { body, photos } = req.body;
+
+    if (!req.user?.id) {
+      throw new CustomError('Unauthorized', 401);
+    }
+
+    const serviceRequest = await getServiceRequestForDispute(id);
+    assertServiceRequestParticipant(serviceRequest, req.user);
+
+    const message = await addDisputeMessage(serviceRequest, actorFromUser(req.user), {
+      body,
+      photos,
+    });
+
+    res.status(201).json({
+      success: true,
+      data: message,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const getDisputes = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    // Open disputes by default; 'all' includes resolved ones
+    const status = (req.query.status as string) || 'open';
+
+    if (status !== 'all' && !DISPUTE_STATUSES.includes(status as DisputeStatus)) {
+      throw new CustomError(`Status must be one of ${[...DISPUTE_STATUSES, 'all'].join(', ')}`, 400);
+    }
+
+    const disputes = await listDisputes(status === 'all' ? null : (status as DisputeStatus));
+
+    res.json({
+      success: true,
+      data: disputes,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const resolveServiceRequestDispute = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const { outcome, notes, material_cost, labor_cost, refund_to_wallet } = req.body;
+
+    if (!req.user?.id) {
+      throw new CustomError('Unauthorized', 401);
+    }
+
+    const serviceRequest = await getServiceRequestForDispute(id);
+
+    const dispute = await resolveDispute(serviceRequest, actorFromUser(req.user), {
+      outcome,
+      notes,
+      material_cost,
+      labor_cost,
+      refund_to_wallet,
+    });
+
+    res.json({
+      success: true,
+      data: dispute,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
@@ -2,4 +2,9 @@
 export * from './authController';
 export * from './mechanicController';
 export * from './serviceRequestController';
-
+export * from './reviewController';
+export * from './invoiceController';
+export * from './commissionController';
+export * from './payoutController';
+export * from './paymentController';
+export * from './disputeController';
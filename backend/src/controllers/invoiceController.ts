@@ -0,0 +1,179 @@
+/// <reference types="express" />
+import { Request, Response, NextFunction } from 'express';
+import { supabaseAdmin } from '../config/supabase';
+import { CustomError } from '../middleware/errorHandler';
+import { AuthenticatedRequest } from '../middleware/auth';
+import { assertServiceRequestParticipant } from '../utils/ownership';
+import {
+  createInvoiceDownloadToken,
+  emailInvoice,
+  formatInvoice,
+  getInvoiceFromDownloadToken,
+  Invoice,
+  InvoiceCopy,
+  INVOICE_COPIES,
+  issueInvoice,
+  renderInvoiceHtml,
+  renderInvoicePdf,
+} from '../services/invoiceService';
+
+/**
+ * Load a job's invoice for one of its parties, issuing it if the job completed
+ * before invoices existed. Admins may pick either copy with ?copy=.
+ */
+const getInvoiceForUser = async (
+  req: AuthenticatedRequest
+): Promise<{ invoice: Invoice; copy: InvoiceCopy }> => {
+  const { id } = req.params;
+
+  if (!req.user?.id) {
+    throw new CustomError('Unauthorized', 401);
+  }
+
+  const { data: serviceRequest, error } = await supabaseAdmin
+    .from('service_requests')
+    .select('id, customer_id, mechanic_id')
+    .eq('id', id)
+    .single();
+
+  if (error || !serviceRequest) {
+    throw new CustomError('Service request not found', 404);
+  }
+
+  assertServiceRequestParticipant(serviceRequest, req.user);
+
+  let copy: InvoiceCopy;
+  if (req.user.user_type === 'admin') {
+    copy = INVOICE_COPIES.includes(req.query.copy as InvoiceCopy)
+      ? (req.query.copy as InvoiceCopy)
+      : 'customer';
+  } else {
+    copy = serviceRequest.customer_id === req.user.id ? 'customer' : 'mechanic';
+  }
+
+  const invoice = await issueInvoice(id);
+
+  return { invoice, copy };
+};
+
+const sendInvoiceDocument = async (
+  res: Response,
+  invoice: Invoice,
+  copy: InvoiceCopy,
+  format: string
+) => {
+  if (format === 'html') {
+    res.type('html').send(renderInvoiceHtml(invoice, copy));
+    return;
+  }
+
+  const pdf = await renderInvoicePdf(invoice, copy);
+  res
+    .type('application/pdf')
+    .set('Content-Disposition', `inline; filename="${invoice.invoice_number}.pdf"`)
+    .send(pdf);
+};
+
+export const getServiceRequestInvoice = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { invoice, copy } = await getInvoiceForUser(req);
+
+    res.json({
+      success: true,
+      data: formatInvoice(invoice, copy),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const getServiceRequestInvoiceDocument = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const format = (req.query.format as string) || 'pdf';
+
+    if (format !== 'pdf' && format !== 'html') {
+      throw new CustomError("Format must be 'pdf' or 'html'", 400);
+    }
+
+    const { invoice, copy } = await getInvoiceForUser(req);
+
+    await sendInvoiceDocument(res, invoice, copy, format);
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const emailServiceRequestInvoice = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { invoice, copy } = await getInvoiceForUser(req);
+
+    await emailInvoice(invoice, [copy]);
+
+    res.json({
+      success: true,
+      message: 'Invoice sent to your email',
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const createServiceRequestInvoiceLink = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const format = (req.body?.format as string) || 'pdf';
+
+    if (format !== 'pdf' && format !== 'html') {
+      throw new CustomError("Format must be 'pdf' or 'html'", 400);
+    }
+
+    const { invoice, copy } = await getInvoiceForUser(req);
+    const token = createInvoiceDownloadToken(invoice.id, copy);
+
+    res.json({
+      success: true,
+      data: {
+        url: `${req.protocol}://${req.get('host')}/api/invoices/download/${token}?format=${format}`,
+        invoice_number: invoice.invoice_number,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const downloadInvoice = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { token } = req.params;
+    const format = (req.query.format as string) || 'pdf';
+
+    if (format !== 'pdf' && format !== 'html') {
+      throw new CustomError("Format must be 'pdf' or 'html'", 400);
+    }
+
+    const { invoice, copy } = await getInvoiceFromDownloadToken(token);
+
+    await sendInvoiceDocument(res, invoice, copy, format);
+  } catch (error) {
+    next(error);
+  }
+};
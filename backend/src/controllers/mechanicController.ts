@@ -3,26 +3,44 @@ import { Request, Response, NextFunction } from 'express';
 import { supabaseAdmin } from '../config/supabase';
 import { CustomError } from '../middleware/errorHandler';
 import { AuthenticatedRequest } from '../middleware/auth';
-
-// Calculate distance between two coordinates (Haversine formula)
-function calculateDistance(
-  lat1: number,
-  lon1: number,
-  lat2: number,
-  lon2: number
-): number {
-  const R = 6371; // Earth's radius in km
-  const dLat = ((lat2 - lat1) * Math.PI) / 180;
-  const dLon = ((lon2 - lon1) * Math.PI) / 180;
-  const a =
-    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
-    Math.cos((lat1 * Math.PI) / 180) *
-      Math.cos((lat2 * Math.PI) / 180) *
-      Math.sin(dLon / 2) *
-      Math.sin(dLon / 2);
-  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-  return R * c;
-}
+import { assertServiceRequestMechanic } from '../utils/ownership';
+import {
+  findNearbyMechanics,
+  NEARBY_DEFAULT_LIMIT,
+  NEARBY_GENDERS,
+  NEARBY_MAX_LIMIT,
+  NEARBY_MAX_RADIUS_KM,
+} from '../services/mechanicSearchService';
+import {
+  claimBroadcastRequest,
+  claimDirectRequest,
+  declineOffer,
+} from '../services/dispatchService';
+import {
+  actorFromUser,
+  transitionServiceRequest,
+} from '../services/serviceRequestStateMachine';
+import { publishMechanicLocation } from '../services/liveLocationService';
+import { NEARBY_SORTS, NearbySort } from '../services/rankingService';
+import {
+  getPublicMechanicProfile,
+  PORTFOLIO_PHOTO_LIMIT,
+} from '../services/mechanicProfileService';
+import { uploadFile } from '../services/storageService';
+import { DEFAULT_COMMISSION_RATE } from '../services/commissionService';
+import {
+  createReview,
+  NO_SHOW_CANCELLATION_REASON,
+  parseCustomerFlags,
+  parseStars,
+} from '../services/reviewService';
+import { getApprovedQuote, getLatestQuote, submitQuote } from '../services/quoteService';
+import { settleCompletedJob } from '../services/settlementService';
+import { assertEscrowFunded, refundEscrow } from '../services/paymentService';
+import { assertWithinDebtLimit } from '../services/commissionDebtService';
+
+// How long a mechanic must wait after arriving before reporting a no-show
+const CUSTOMER_NO_SHOW_WAIT_MINUTES = 15;
 
 export const getNearbyMechanics = async (
   req: Request,
@@ -30,7 +48,21 @@ export const getNearbyMechanics = async (
   next: NextFunction
 ): Promise<void> => {
   try {
-    const { lat, lng, radius = 10, specialization } = req.query;
+    const {
+      lat,
+      lng,
+      radius = 10,
+      specialization,
+      categories,
+      min_rating,
+      verified_only,
+      gender,
+      min_price,
+      max_price,
+      sort = 'best',
+    } = req.query;
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = Math.min(parseInt(req.query.limit as string) || NEARBY_DEFAULT_LIMIT, NEARBY_MAX_LIMIT);
 
     if (!lat || !lng) {
       throw new CustomError('Latitude and longitude are required', 400);
@@ -38,115 +70,72 @@ export const getNearbyMechanics = async (
 
     const latitude = parseFloat(lat as string);
     const longitude = parseFloat(lng as string);
-    const radiusKm = parseFloat(radius as string) || 10;
+    const radiusKm = Math.min(parseFloat(radius as string) || 10, NEARBY_MAX_RADIUS_KM);
 
-    if (isNaN(latitude) || isNaN(longitude) || isNaN(radiusKm)) {
+    if (isNaN(latitude) || isNaN(longitude) || radiusKm <= 0) {
       throw new CustomError('Invalid coordinates or radius', 400);
     }
 
-    // Get all verified mechanics
-    const { data: mechanics, error: mechanicsError } = await supabaseAdmin
-      .from('mechanic_profiles')
-      .select(`
-        id,
-        user_id,
-        rating,
-        total_jobs,
-        is_available,
-        profile_photo_url,
-        users!inner (
-          id,
-          full_name,
-          profile_picture_url,
-          location_lat,
-          location_lng
-        )
-      `)
-      .eq('verification_status', 'approved')
-      .eq('is_available', true);
-
-    if (mechanicsError) {
-      throw new CustomError('Failed to fetch mechanics', 500);
-    }
-
-    if (!mechanics || mechanics.length === 0) {
-      res.json({
-        success: true,
-        data: [],
-      });
-      return;
+    if (page < 1 || limit < 1) {
+      throw new CustomError('Invalid page or limit', 400);
     }
 
-    // Get specializations for each mechanic
-    const mechanicIds = mechanics.map((m) => m.id);
-    const { data: specializations, error: specError } = await supabaseAdmin
-      .from('mechanic_specializations')
-      .select('mechanic_id, specialization')
-      .in('mechanic_id', mechanicIds);
-
-    if (specError) {
-      console.error('Error fetching specializations:', specError);
+    if (!NEARBY_SORTS.includes(sort as NearbySort)) {
+      throw new CustomError(`Sort must be one of: ${NEARBY_SORTS.join(', ')}`, 400);
     }
 
-    // Create a map of mechanic_id -> specializations
-    const specMap = new Map<string, string[]>();
-    specializations?.forEach((spec) => {
-      const existing = specMap.get(spec.mechanic_id) || [];
-      specMap.set(spec.mechanic_id, [...existing, spec.specialization]);
-    });
-
-    // Filter by distance and specialization, calculate distances
-    const mechanicsWithDistance = mechanics
-      .map((mechanic) => {
-        const user = mechanic.users as any;
-        if (!user?.location_lat || !user?.location_lng) {
-          return null;
-        }
+    // `categories` is comma separated; `specialization` is the older single-value form
+    const specializations = [
+      ...((categories as string | undefined)?.split(',') || []),
+      ...(specialization ? [specialization as string] : []),
+    ]
+      .map((c) => c.trim())
+      .filter(Boolean);
+
+    const parseOptionalNumber = (value: unknown, name: string): number | undefined => {
+      if (value === undefined || value === '') {
+        return undefined;
+      }
+      const parsed = parseFloat(value as string);
+      if (isNaN(parsed) || parsed < 0) {
+        throw new CustomError(`Invalid ${name}`, 400);
+      }
+      return parsed;
+    };
 
-        const distance = calculateDistance(
-          latitude,
-          longitude,
-          user.location_lat,
-          user.location_lng
-        );
-
-        const mechanicSpecs = specMap.get(mechanic.id) || [];
-
-        // Filter by specialization if provided
-        if (specialization) {
-          const searchSpec = (specialization as string).toLowerCase();
-          const hasSpecialization = mechanicSpecs.some(
-            (s) => s.toLowerCase() === searchSpec
-          );
-          if (!hasSpecialization) {
-            return null;
-          }
-        }
+    const minRating = parseOptionalNumber(min_rating, 'min_rating');
+    const minPrice = parseOptionalNumber(min_price, 'min_price');
+    const maxPrice = parseOptionalNumber(max_price, 'max_price');
 
-        // Filter by radius
-        if (distance > radiusKm) {
-          return null;
-        }
+    if (gender && !NEARBY_GENDERS.includes(gender as string)) {
+      throw new CustomError(`Gender must be one of: ${NEARBY_GENDERS.join(', ')}`, 400);
+    }
 
-        return {
-          id: mechanic.id,
-          name: user.full_name,
-          profile_photo: mechanic.profile_photo_url || user.profile_picture_url || null,
-          rating: mechanic.rating || 0,
-          total_jobs: mechanic.total_jobs || 0,
-          specializations: mechanicSpecs,
-          distance: Math.round(distance * 10) / 10, // Round to 1 decimal
-          is_available: mechanic.is_available,
-          latitude: user.location_lat,
-          longitude: user.location_lng,
-        };
-      })
-      .filter((m) => m !== null)
-      .sort((a, b) => (a?.distance || 0) - (b?.distance || 0)); // Sort by distance
+    const { mechanics, total } = await findNearbyMechanics({
+      latitude,
+      longitude,
+      radiusKm,
+      specializations,
+      minRating,
+      verifiedOnly: verified_only === 'true',
+      gender: gender as string | undefined,
+      minPrice,
+      maxPrice,
+      limit,
+      offset: (page - 1) * limit,
+      sort: sort as NearbySort,
+    });
 
+    // Each mechanic carries road distance and travel time to the customer
     res.json({
       success: true,
-      data: mechanicsWithDistance,
+      data: mechanics,
+      pagination: {
+        page,
+        limit,
+        total,
+        total_pages: Math.ceil(total / limit),
+      },
     });
   } catch (error) {
     next(error);
@@ -178,6 +167,201 @@ export const getCategories = async (
   }
 };
 
+export const getMechanicProfile = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    const profile = await getPublicMechanicProfile(id);
+
+    res.json({
+      success: true,
+      data: profile,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const updateMechanicProfile = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const userId = req.user?.id;
+    const { bio, years_of_experience } = req.body;
+
+    if (!userId) {
+      throw new CustomError('Unauthorized', 401);
+    }
+
+    const updates: Record<string, unknown> = {};
+
+    if (bio !== undefined) {
+      if (typeof bio !== 'string' || bio.length > 1000) {
+        throw new CustomError('Bio must be text of at most 1000 characters', 400);
+      }
+      updates.bio = bio.trim() || null;
+    }
+
+    if (years_of_experience !== undefined) {
+      const years = parseInt(years_of_experience as string, 10);
+      if (isNaN(years) || years < 0 || years > 60) {
+        throw new CustomError('Years of experience must be between 0 and 60', 400);
+      }
+      updates.years_of_experience = years;
+    }
+
+    if (Object.keys(updates).length === 0) {
+      throw new CustomError('Nothing to update', 400);
+    }
+
+    const { data: updatedProfile, error: updateError } = await supabaseAdmin
+      .from('mechanic_profiles')
+      .update({ ...updates, updated_at: new Date().toISOString() })
+      .eq('user_id', userId)
+      .select('bio, years_of_experience')
+      .single();
+
+    if (updateError || !updatedProfile) {
+      throw new CustomError('Failed to update profile', 500);
+    }
+
+    res.json({
+      success: true,
+      data: updatedProfile,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const addPortfolioPhoto = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const userId = req.user?.id;
+    const { image, caption } = req.body;
+
+    if (!userId) {
+      throw new CustomError('Unauthorized', 401);
+    }
+
+    if (!image?.uri) {
+      throw new CustomError('Image is required', 400);
+    }
+
+    const { data: mechanicProfile, error: profileError } = await supabaseAdmin
+      .from('mechanic_profiles')
+      .select('id')
+      .eq('user_id', userId)
+      .single();
+
+    if (profileError || !mechanicProfile) {
+      throw new CustomError('Mechanic profile not found', 404);
+    }
+
+    const { count } = await supabaseAdmin
+      .from('mechanic_portfolio_photos')
+      .select('id', { count: 'exact', head: true })
+      .eq('mechanic_id', mechanicProfile.id);
+
+    if ((count || 0) >= PORTFOLIO_PHOTO_LIMIT) {
+      throw new CustomError(`You can have at most ${PORTFOLIO_PHOTO_LIMIT} portfolio photos`, 400);
+    }
+
+    let imageUrl: string;
+    try {
+      imageUrl = await uploadFile({
+        file: {
+          uri: image.uri,
+          type: image.type || 'image/jpeg',
+          name: image.name || 'portfolio.jpg',
+        },
+        bucket: 'mechanic-portfolio',
+        folder: mechanicProfile.id,
+      });
+    } catch (uploadError: any) {
+      throw new CustomError(`File upload failed: ${uploadError.message}`, 500);
+    }
+
+    const { data: photo, error: insertError } = await supabaseAdmin
+      .from('mechanic_portfolio_photos')
+      .insert({
+        mechanic_id: mechanicProfile.id,
+        image_url: imageUrl,
+        caption: typeof caption === 'string' ? caption.trim().slice(0, 200) || null : null,
+      })
+      .select('id, image_url, caption, created_at')
+      .single();
+
+    if (insertError || !photo) {
+      throw new CustomError('Failed to save portfolio photo', 500);
+    }
+
+    res.status(201).json({
+      success: true,
+      data: photo,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const deletePortfolioPhoto = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const userId = req.user?.id;
+    const { photoId } = req.params;
+
+    if (!userId) {
+      throw new CustomError('Unauthorized', 401);
+    }
+
+    const { data: mechanicProfile, error: profileError } = await supabaseAdmin
+      .from('mechanic_profiles')
+      .select('id')
+      .eq('user_id', userId)
+      .single();
+
+    if (profileError || !mechanicProfile) {
+      throw new CustomError('Mechanic profile not found', 404);
+    }
+
+    // Scoped to the mechanic's own photos
+    const { data: deleted, error: deleteError } = await supabaseAdmin
+      .from('mechanic_portfolio_photos')
+      .delete()
+      .eq('id', photoId)
+      .eq('mechanic_id', mechanicProfile.id)
+      .select('id');
+
+    if (deleteError) {
+      throw new CustomError('Failed to delete portfolio photo', 500);
+    }
+
+    if (!deleted || deleted.length === 0) {
+      throw new CustomError('Portfolio photo not found', 404);
+    }
+
+    res.json({
+      success: true,
+      data: { id: photoId },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
 export const toggleAvailability = async (
   req: AuthenticatedRequest,
   res: Response,
@@ -204,6 +388,11 @@ export const toggleAvailability = async (
     // Toggle availability
     const newAvailability = !mechanicProfile.is_available;
 
+    // Going offline is always allowed; going online needs commission owed under the limit
+    if (newAvailability) {
+      await assertWithinDebtLimit(userId);
+    }
+
     const { data: updatedProfile, error: updateError } = await supabaseAdmin
       .from('mechanic_profiles')
       .update({ is_available: newAvailability })
@@ -258,7 +447,7 @@ export const getMechanicStats = async (
     // Get today's completed jobs
     const { data: todayJobs, error: jobsError } = await supabaseAdmin
       .from('service_requests')
-      .select('id, total_cost, labor_cost')
+      .select('id, total_cost, labor_cost, commission_amount')
       .eq('mechanic_id', userId)
       .eq('status', 'completed')
       .gte('completed_at', today.toISOString())
@@ -270,9 +459,12 @@ export const getMechanicStats = async (
 
     // Calculate today's earnings (from completed jobs)
     const todayEarnings = (todayJobs || []).reduce((sum, job) => {
-      // Earnings = labor_cost - 10% commission
-      const laborCost = job.labor_cost || 0;
-      const commission = laborCost * 0.1;
+      // Earnings = labor_cost less the commission recorded when the job settled
+      const laborCost = Number(job.labor_cost) || 0;
+      const commission =
+        job.commission_amount !== null
+          ? Number(job.commission_amount)
+          : laborCost * DEFAULT_COMMISSION_RATE;
       return sum + (laborCost - commission);
     }, 0);
 
@@ -382,26 +574,17 @@ export const acceptServiceRequest = async (
       throw new CustomError('Service request not found', 404);
     }
 
-    // Verify request is assigned to this mechanic
-    if (serviceRequest.mechanic_id !== userId) {
-      throw new CustomError('Service request not assigned to this mechanic', 403);
-    }
-
-    // Verify request is pending
-    if (serviceRequest.status !== 'pending') {
-      throw new CustomError('Service request is not pending', 400);
-    }
+    let updatedRequest;
 
-    // Update status to accepted
-    const { data: updatedRequest, error: updateError } = await supabaseAdmin
-      .from('service_requests')
-      .update({ status: 'accepted' })
-      .eq('id', id)
-      .select()
-      .single();
+    if (serviceRequest.dispatch_mode === 'broadcast' && !serviceRequest.mechanic_id) {
+      // Broadcast request: first mechanic to accept their offer wins
+      updatedRequest = await claimBroadcastRequest(serviceRequest, userId);
+    } else {
+      // Verify request is assigned to this mechanic
+      assertServiceRequestMechanic(serviceRequest, userId);
 
-    if (updateError) {
-      throw new CustomError('Failed to accept service request', 500);
+      // Fails if the offer timed out and the job was reassigned meanwhile
+      updatedRequest = await claimDirectRequest(serviceRequest, userId);
     }
 
     // Send notification to customer
@@ -446,25 +629,21 @@ export const declineServiceRequest = async (
       throw new CustomError('Service request not found', 404);
     }
 
-    // Verify request is assigned to this mechanic
-    if (serviceRequest.mechanic_id !== userId) {
-      throw new CustomError('Service request not assigned to this mechanic', 403);
-    }
-
     // Verify request is pending
     if (serviceRequest.status !== 'pending') {
       throw new CustomError('Service request is not pending', 400);
     }
 
-    // Update status to cancelled (or we could set mechanic_id to null to reassign)
-    const { data: updatedRequest, error: updateError } = await supabaseAdmin
+    // Record the decline and hand the job to the next candidate mechanic
+    await declineOffer(serviceRequest, userId);
+
+    const { data: updatedRequest, error: refetchError } = await supabaseAdmin
       .from('service_requests')
-      .update({ status: 'cancelled' })
+      .select('*')
       .eq('id', id)
-      .select()
       .single();
 
-    if (updateError) {
+    if (refetchError) {
       throw new CustomError('Failed to decline service request', 500);
     }
 
@@ -477,7 +656,27 @@ export const declineServiceRequest = async (
   }
 };
 
-export const markArrived = async (
+/**
+ * Load a request assigned to the mechanic, for the job progress endpoints
+ */
+const getAssignedServiceRequest = async (id: string, userId: string) => {
+  const { data: serviceRequest, error: fetchError } = await supabaseAdmin
+    .from('service_requests')
+    .select('*')
+    .eq('id', id)
+    .single();
+
+  if (fetchError || !serviceRequest) {
+    throw new CustomError('Service request not found', 404);
+  }
+
+  // Verify request is assigned to this mechanic
+  assertServiceRequestMechanic(serviceRequest, userId);
+
+  return serviceRequest;
+};
+
+export const markEnRoute = async (
   req: AuthenticatedRequest,
   res: Response,
   next: NextFunction
@@ -490,42 +689,104 @@ export const markArrived = async (
       throw new CustomError('Unauthorized', 401);
     }
 
-    // Get service request
-    const { data: serviceRequest, error: fetchError } = await supabaseAdmin
-      .from('service_requests')
-      .select('*')
-      .eq('id', id)
-      .single();
+    const serviceRequest = await getAssignedServiceRequest(id, userId);
 
-    if (fetchError || !serviceRequest) {
-      throw new CustomError('Service request not found', 404);
+    const updatedRequest = await transitionServiceRequest(
+      serviceRequest,
+      'en_route',
+      actorFromUser(req.user!)
+    );
+
+    // Send notification to customer
+    await supabaseAdmin.from('notifications').insert({
+      user_id: serviceRequest.customer_id,
+      title: 'Mechanic On The Way',
+      body: 'The mechanic is on the way to your location',
+      type: 'service_request',
+      reference_id: id,
+    });
+
+    res.json({
+      success: true,
+      data: updatedRequest,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const updateServiceRequestLocation = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const userId = req.user?.id;
+    const { id } = req.params;
+    const { lat, lng, heading, speed, accuracy } = req.body;
+
+    if (!userId) {
+      throw new CustomError('Unauthorized', 401);
     }
 
-    // Verify request is assigned to this mechanic
-    if (serviceRequest.mechanic_id !== userId) {
-      throw new CustomError('Service request not assigned to this mechanic', 403);
+    if (lat === undefined || lng === undefined) {
+      throw new CustomError('Latitude and longitude are required', 400);
     }
 
-    // Verify request is accepted
-    if (serviceRequest.status !== 'accepted') {
-      throw new CustomError('Service request must be accepted first', 400);
+    const latitude = parseFloat(lat as string);
+    const longitude = parseFloat(lng as string);
+
+    if (isNaN(latitude) || isNaN(longitude)) {
+      throw new CustomError('Invalid coordinates', 400);
     }
 
-    // Update status to in_progress and set arrived_at
-    const { data: updatedRequest, error: updateError } = await supabaseAdmin
-      .from('service_requests')
-      .update({
-        status: 'in_progress',
-        arrived_at: new Date().toISOString(),
-      })
-      .eq('id', id)
-      .select()
-      .single();
+    // Negative heading/speed means the device could not determine it
+    const toOptionalNumber = (value: unknown): number | null => {
+      const parsed = parseFloat(value as string);
+      return isNaN(parsed) || parsed < 0 ? null : parsed;
+    };
 
-    if (updateError) {
-      throw new CustomError('Failed to mark as arrived', 500);
+    const serviceRequest = await getAssignedServiceRequest(id, userId);
+
+    const location = await publishMechanicLocation(serviceRequest, {
+      latitude,
+      longitude,
+      heading: toOptionalNumber(heading),
+      speed: toOptionalNumber(speed),
+      accuracy: toOptionalNumber(accuracy),
+    });
+
+    res.json({
+      success: true,
+      data: location,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const markArrived = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const userId = req.user?.id;
+    const { id } = req.params;
+
+    if (!userId) {
+      throw new CustomError('Unauthorized', 401);
     }
 
+    const serviceRequest = await getAssignedServiceRequest(id, userId);
+
+    // Sets arrived_at
+    const updatedRequest = await transitionServiceRequest(
+      serviceRequest,
+      'arrived',
+      actorFromUser(req.user!)
+    );
+
     // Send notification to customer
     await supabaseAdmin.from('notifications').insert({
       user_id: serviceRequest.customer_id,
@@ -544,7 +805,7 @@ export const markArrived = async (
   }
 };
 
-export const completeServiceRequestMechanic = async (
+export const submitServiceRequestQuote = async (
   req: AuthenticatedRequest,
   res: Response,
   next: NextFunction
@@ -552,98 +813,138 @@ export const completeServiceRequestMechanic = async (
   try {
     const userId = req.user?.id;
     const { id } = req.params;
+    const { items, note } = req.body;
 
     if (!userId) {
       throw new CustomError('Unauthorized', 401);
     }
 
-    // Get service request
-    const { data: serviceRequest, error: fetchError } = await supabaseAdmin
-      .from('service_requests')
-      .select('*')
-      .eq('id', id)
-      .single();
+    const serviceRequest = await getAssignedServiceRequest(id, userId);
 
-    if (fetchError || !serviceRequest) {
-      throw new CustomError('Service request not found', 404);
+    if (serviceRequest.mechanic_confirmed) {
+      throw new CustomError('You have already marked this job as done', 400);
     }
 
-    // Verify request is assigned to this mechanic
-    if (serviceRequest.mechanic_id !== userId) {
-      throw new CustomError('Service request not assigned to this mechanic', 403);
+    const quote = await submitQuote(serviceRequest, { items, note });
+
+    res.status(201).json({
+      success: true,
+      data: quote,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const startServiceRequest = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const userId = req.user?.id;
+    const { id } = req.params;
+
+    if (!userId) {
+      throw new CustomError('Unauthorized', 401);
     }
 
-    // Verify request is in_progress
-    if (serviceRequest.status !== 'in_progress') {
-      throw new CustomError('Service request must be in progress', 400);
+    const serviceRequest = await getAssignedServiceRequest(id, userId);
+
+    // Work only starts on a price the customer has agreed to
+    const approvedQuote = await getApprovedQuote(id);
+    if (!approvedQuote) {
+      throw new CustomError('The customer must approve your quote before you start work', 409);
     }
 
-    // Set mechanic_confirmed = true
-    const updateData: any = {
-      mechanic_confirmed: true,
-    };
+    await assertEscrowFunded(
+      serviceRequest,
+      'Wait for the customer to pay into escrow before you start work'
+    );
+
+    // Sets started_at
+    const updatedRequest = await transitionServiceRequest(
+      serviceRequest,
+      'in_progress',
+      actorFromUser(req.user!)
+    );
+
+    res.json({
+      success: true,
+      data: updatedRequest,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const completeServiceRequestMechanic = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const userId = req.user?.id;
+    const { id } = req.params;
 
-    // If customer already confirmed, finalize (set status to completed)
-    if (serviceRequest.customer_confirmed) {
-      updateData.status = 'completed';
-      updateData.completed_at = new Date().toISOString();
+    if (!userId) {
+      throw new CustomError('Unauthorized', 401);
     }
 
-    const { data: updatedRequest, error: updateError } = await supabaseAdmin
-      .from('service_requests')
-      .update(updateData)
-      .eq('id', id)
-      .select()
-      .single();
+    const { rating, comment, flags } = req.body;
 
-    if (updateError) {
-      throw new CustomError('Failed to complete service request', 500);
-    }
-
-    // If both confirmed, process commission and send notification
-    if (updateData.status === 'completed' && serviceRequest.labor_cost) {
-      // Check if commission has already been processed (prevent double processing)
-      const { data: existingTransaction } = await supabaseAdmin
-        .from('wallet_transactions')
-        .select('id')
-        .eq('reference_id', id)
-        .eq('reference_type', 'service_request')
-        .eq('transaction_type', 'commission_deduction')
-        .single();
-
-      if (!existingTransaction) {
-        const laborCost = parseFloat(serviceRequest.labor_cost as string) || 0;
-        const commission = laborCost * 0.15; // 15% commission on labor
-        const mechanicEarnings = laborCost - commission;
-
-        // Get mechanic profile
-        const { data: mechanicProfile, error: mechanicError } = await supabaseAdmin
-          .from('mechanic_profiles')
-          .select('wallet_balance, user_id')
-          .eq('user_id', userId)
-          .single();
-
-        if (!mechanicError && mechanicProfile) {
-          // Add earnings (labor_cost - commission) to wallet
-          const currentBalance = mechanicProfile.wallet_balance || 0;
-          const newBalance = currentBalance + mechanicEarnings;
-
-          await supabaseAdmin
-            .from('mechanic_profiles')
-            .update({ wallet_balance: newBalance })
-            .eq('user_id', userId);
-
-          // Create wallet transaction for commission deduction
-          await supabaseAdmin.from('wallet_transactions').insert({
-            user_id: userId,
-            amount: -commission, // Negative amount for deduction
-            transaction_type: 'commission_deduction',
-            description: `Commission deduction (15%) for service request ${id}`,
-            reference_id: id,
-            reference_type: 'service_request',
-          });
+    // Rating the customer is optional, but must be valid before the job moves on
+    const customerRating = parseStars(rating, 'rating');
+    const customerFlags = parseCustomerFlags(flags, false);
+
+    const serviceRequest = await getAssignedServiceRequest(id, userId);
+
+    if (serviceRequest.mechanic_confirmed) {
+      throw new CustomError('You have already confirmed this job', 400);
+    }
+
+    const latestQuote = await getLatestQuote(id);
+    if (latestQuote?.status === 'pending') {
+      throw new CustomError('Wait for the customer to answer your revised quote first', 409);
+    }
+
+    // First confirmation waits for the customer, the second completes the job
+    const nextStatus =
+      serviceRequest.status === 'awaiting_confirmation' ? 'completed' : 'awaiting_confirmation';
+
+    // A revised quote may have raised the price after the customer paid
+    if (nextStatus === 'completed') {
+      await assertEscrowFunded(
+        serviceRequest,
+        'The customer needs to pay the rest of the revised quote first'
+      );
+    }
+
+    const updatedRequest = await transitionServiceRequest(
+      serviceRequest,
+      nextStatus,
+      actorFromUser(req.user!),
+      { updates: { mechanic_confirmed: true } }
+    );
+
+    if (customerRating) {
+      try {
+        await createReview(updatedRequest, userId, {
+          rating: customerRating,
+          comment,
+          flags: customerFlags,
+        });
+      } catch (reviewError) {
+        // Already reviewed separately
+        if (!(reviewError instanceof CustomError) || reviewError.statusCode !== 409) {
+          throw reviewError;
         }
       }
+    }
+
+    // If both confirmed, settle the job and notify the customer
+    if (nextStatus === 'completed') {
+      await settleCompletedJob(updatedRequest);
 
       // Send notification to customer
       await supabaseAdmin.from('notifications').insert({
@@ -663,3 +964,72 @@ export const completeServiceRequestMechanic = async (
     next(error);
   }
 };
+
+export const markCustomerNoShow = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const userId = req.user?.id;
+    const { id } = req.params;
+    const { rating, comment, flags } = req.body;
+
+    if (!userId) {
+      throw new CustomError('Unauthorized', 401);
+    }
+
+    // The mechanic's review of the customer is recorded with the no-show
+    const customerRating = parseStars(rating, 'rating', true);
+    const customerFlags = parseCustomerFlags(flags, true);
+
+    const serviceRequest = await getAssignedServiceRequest(id, userId);
+
+    if (serviceRequest.status !== 'arrived') {
+      throw new CustomError('You can only report a no-show after arriving', 400);
+    }
+
+    const waitedMinutes =
+      (Date.now() - new Date(serviceRequest.arrived_at).getTime()) / (60 * 1000);
+    if (waitedMinutes < CUSTOMER_NO_SHOW_WAIT_MINUTES) {
+      throw new CustomError(
+        `Please wait ${Math.ceil(CUSTOMER_NO_SHOW_WAIT_MINUTES - waitedMinutes)} more minutes for the customer before reporting a no-show`,
+        409
+      );
+    }
+
+    const updatedRequest = await transitionServiceRequest(
+      serviceRequest,
+      'cancelled',
+      actorFromUser(req.user!),
+      {
+        updates: { cancellation_reason: NO_SHOW_CANCELLATION_REASON },
+        reason: 'Customer did not show up',
+      }
+    );
+
+    await createReview(updatedRequest, userId, {
+      rating: customerRating!,
+      comment,
+      flags: customerFlags,
+    });
+
+    // Anything the customer already paid goes back to them
+    await refundEscrow(id, null, 'the job was cancelled');
+
+    await supabaseAdmin.from('notifications').insert({
+      user_id: serviceRequest.customer_id,
+      title: 'Service Request Cancelled',
+      body: 'The mechanic could not find you at the location and cancelled the job',
+      type: 'service_request',
+      reference_id: id,
+    });
+
+    res.json({
+      success: true,
+      data: updatedRequest,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
@@ -0,0 +1,242 @@
+/// <reference types="express" />
+import { Request, Response, NextFunction } from 'express';
+import { supabaseAdmin } from '../config/supabase';
+import { CustomError } from '../middleware/errorHandler';
+import { AuthenticatedRequest } from '../middleware/auth';
+import {
+  assertServiceRequestCustomer,
+  assertServiceRequestParticipant,
+} from '../utils/ownership';
+import { getPaymentGateway } from '../services/paymentGatewayService';
+import {
+  confirmPayment,
+  createPayment,
+  getEscrowSummary,
+  getPayment,
+  handlePaymentWebhook,
+  refundEscrow,
+} from '../services/paymentService';
+import { getPayoutProvider } from '../services/payoutProviderService';
+import { handlePayoutWebhook } from '../services/payoutService';
+import { settleServiceRequest } from '../services/settlementService';
+
+// Admins may only hand money back on jobs that didn't end normally
+const REFUNDABLE_STATUSES = ['disputed', 'cancelled'];
+
+const getServiceRequestForPayment = async (id: string) => {
+  const { data: serviceRequest, error } = await supabaseAdmin
+    .from('service_requests')
+    .select('id, customer_id, mechanic_id, status, payment_method')
+    .eq('id', id)
+    .single();
+
+  if (error || !serviceRequest) {
+    throw new CustomError('Service request not found', 404);
+  }
+
+  return serviceRequest;
+};
+
+export const getServiceRequestPayments = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    if (!req.user?.id) {
+      throw new CustomError('Unauthorized', 401);
+    }
+
+    const serviceRequest = await getServiceRequestForPayment(id);
+    assertServiceRequestParticipant(serviceRequest, req.user);
+
+    const escrow = await getEscrowSummary(serviceRequest);
+
+    res.json({
+      success: true,
+      data: escrow,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const createServiceRequestPayment = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const { channel } = req.body;
+    const userId = req.user?.id;
+
+    if (!userId) {
+      throw new CustomError('Unauthorized', 401);
+    }
+
+    const serviceRequest = await getServiceRequestForPayment(id);
+    assertServiceRequestCustomer(serviceRequest, userId, 'Only the customer can pay for this job');
+
+    let email = req.user!.email;
+    if (!email) {
+      const { data: customer } = await supabaseAdmin
+        .from('users')
+        .select('email')
+        .eq('id', userId)
+        .single();
+      email = customer?.email;
+    }
+
+    // The gateway needs an email for its receipt; wallet payments don't
+    if (!email && channel !== 'wallet') {
+      throw new CustomError('Add an email address to your account before paying', 400);
+    }
+
+    const payment = await createPayment(serviceRequest, email || '', channel);
+
+    res.status(201).json({
+      success: true,
+      data: payment,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const verifyServiceRequestPayment = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { id, paymentId } = req.params;
+    const userId = req.user?.id;
+
+    if (!userId) {
+      throw new CustomError('Unauthorized', 401);
+    }
+
+    const serviceRequest = await getServiceRequestForPayment(id);
+    assertServiceRequestCustomer(serviceRequest, userId, 'Only the customer can pay for this job');
+
+    const payment = await confirmPayment(await getPayment(id, paymentId));
+    const escrow = await getEscrowSummary(serviceRequest);
+
+    res.json({
+      success: true,
+      data: { payment, escrow },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Charge updates from the payment gateway (no access token, signed body). Paystack
+ * sends every event to one URL, so transfer events are passed on to payouts.
+ */
+export const receivePaymentWebhook = async (
+  req: Request & { rawBody?: Buffer },
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { gateway } = req.params;
+    const signature = req.header(getPaymentGateway().signatureHeader);
+
+    const result = await handlePaymentWebhook(gateway, req.rawBody, signature, req.body);
+
+    if (!result.recognised && getPayoutProvider().name === gateway) {
+      const payoutResult = await handlePayoutWebhook(
+        gateway,
+        req.rawBody,
+        req.header(getPayoutProvider().signatureHeader),
+        req.body
+      );
+
+      res.json({
+        success: true,
+        data: payoutResult,
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: result,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const refundServiceRequestPayment = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const { amount, reason, to_wallet } = req.body;
+
+    if (!reason || typeof reason !== 'string') {
+      throw new CustomError('A reason is required', 400);
+    }
+
+    let refundAmount: number | null = null;
+    if (amount !== undefined && amount !== null) {
+      refundAmount = parseFloat(amount);
+      if (isNaN(refundAmount) || refundAmount <= 0) {
+        throw new CustomError('Amount must be a positive number', 400);
+      }
+    }
+
+    const serviceRequest = await getServiceRequestForPayment(id);
+
+    if (!REFUNDABLE_STATUSES.includes(serviceRequest.status)) {
+      throw new CustomError('Only disputed or cancelled jobs can be refunded', 409);
+    }
+
+    const escrow = await getEscrowSummary(serviceRequest);
+
+    if (!escrow || escrow.held === 0) {
+      throw new CustomError('Nothing is held for this job', 409);
+    }
+
+    if (refundAmount !== null && refundAmount > escrow.held) {
+      throw new CustomError(`At most ₦${escrow.held.toFixed(2)} can be refunded`, 400);
+    }
+
+    const refunded = await refundEscrow(id, refundAmount, reason, to_wallet === true);
+
+    res.json({
+      success: true,
+      data: {
+        refunded,
+        escrow: await getEscrowSummary(serviceRequest),
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const settleServiceRequestPayment = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const commission = await settleServiceRequest(req.params.id);
+
+    res.json({
+      success: true,
+      data: { commission },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
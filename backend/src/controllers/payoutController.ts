@@ -0,0 +1,86 @@
+/// <reference types="express" />
+import { Request, Response, NextFunction } from 'express';
+import { CustomError } from '../middleware/errorHandler';
+import { AuthenticatedRequest } from '../middleware/auth';
+import { getPayoutProvider } from '../services/payoutProviderService';
+import {
+  handlePayoutWebhook,
+  listPayouts,
+  PAYOUT_STATUSES,
+  PayoutStatus,
+  processPayoutBatch,
+} from '../services/payoutService';
+
+/**
+ * Transfer status updates from the payout provider (no access token, signed body)
+ */
+export const receivePayoutWebhook = async (
+  req: Request & { rawBody?: Buffer },
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { provider } = req.params;
+    const signature = req.header(getPayoutProvider().signatureHeader);
+
+    const result = await handlePayoutWebhook(provider, req.rawBody, signature, req.body);
+
+    res.json({
+      success: true,
+      data: result,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const getPayouts = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const status = req.query.status as PayoutStatus | undefined;
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = Math.min(parseInt(req.query.limit as string) || 20, 100);
+
+    if (status && !PAYOUT_STATUSES.includes(status)) {
+      throw new CustomError(`Status must be one of ${PAYOUT_STATUSES.join(', ')}`, 400);
+    }
+
+    const { payouts, total } = await listPayouts({ status, page, limit });
+
+    res.json({
+      success: true,
+      data: {
+        payouts,
+        pagination: {
+          page,
+          limit,
+          total,
+          total_pages: Math.ceil(total / limit),
+        },
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const processPayoutsNow = async (
+  _req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const batch = await processPayoutBatch();
+
+    res.json({
+      success: true,
+      data: batch,
+      message: batch ? undefined : 'No withdrawals are waiting to be paid',
+    });
+  } catch (error) {
+    next(error);
+  }
+};
@@ -0,0 +1,189 @@
+/// <reference types="express" />
+import { Request, Response, NextFunction } from 'express';
+import { supabaseAdmin } from '../config/supabase';
+import { CustomError } from '../middleware/errorHandler';
+import { AuthenticatedRequest } from '../middleware/auth';
+import {
+  createReview,
+  getRatingSummary,
+  listReportedReviews,
+  listReviews,
+  moderateReview as moderateReviewById,
+  replyToReview as replyToReviewById,
+  reportReview as reportReviewById,
+  REVIEWS_DEFAULT_LIMIT,
+  REVIEWS_MAX_LIMIT,
+} from '../services/reviewService';
+
+export const createServiceRequestReview = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const { rating, comment, punctuality, quality, price_fairness, flags } = req.body;
+    const userId = req.user?.id;
+
+    if (!userId) {
+      throw new CustomError('Unauthorized', 401);
+    }
+
+    const { data: serviceRequest, error } = await supabaseAdmin
+      .from('service_requests')
+      .select('id, customer_id, mechanic_id, status, cancellation_reason')
+      .eq('id', id)
+      .single();
+
+    if (error || !serviceRequest) {
+      throw new CustomError('Service request not found', 404);
+    }
+
+    const review = await createReview(serviceRequest, userId, {
+      rating,
+      comment,
+      dimensions: { punctuality, quality, price_fairness },
+      flags,
+    });
+
+    res.status(201).json({
+      success: true,
+      data: review,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const getMechanicReviews = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = Math.min(parseInt(req.query.limit as string) || REVIEWS_DEFAULT_LIMIT, REVIEWS_MAX_LIMIT);
+
+    if (page < 1 || limit < 1) {
+      throw new CustomError('Invalid page or limit', 400);
+    }
+
+    const [{ reviews, total }, summary] = await Promise.all([
+      listReviews(id, 'customer', { limit, offset: (page - 1) * limit }),
+      getRatingSummary(id, 'mechanic'),
+    ]);
+
+    res.json({
+      success: true,
+      data: {
+        summary,
+        reviews,
+      },
+      pagination: {
+        page,
+        limit,
+        total,
+        total_pages: Math.ceil(total / limit),
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const replyToReview = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const { reply } = req.body;
+    const userId = req.user?.id;
+
+    if (!userId) {
+      throw new CustomError('Unauthorized', 401);
+    }
+
+    const review = await replyToReviewById(id, userId, reply);
+
+    res.json({
+      success: true,
+      data: review,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const reportReview = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const { reason, details } = req.body;
+    const userId = req.user?.id;
+
+    if (!userId) {
+      throw new CustomError('Unauthorized', 401);
+    }
+
+    const report = await reportReviewById(id, userId, reason, details);
+
+    res.status(201).json({
+      success: true,
+      data: report,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const getReportedReviews = async (
+  _req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const reviews = await listReportedReviews();
+
+    res.json({
+      success: true,
+      data: reviews,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const moderateReview = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const { action } = req.body;
+    const adminId = req.user?.id;
+
+    if (!adminId) {
+      throw new CustomError('Unauthorized', 401);
+    }
+
+    if (action !== 'hide' && action !== 'restore') {
+      throw new CustomError("Action must be 'hide' or 'restore'", 400);
+    }
+
+    const review = await moderateReviewById(id, adminId, action);
+
+    res.json({
+      success: true,
+      data: review,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
@@ -3,6 +3,40 @@ import { Response, NextFunction } from 'express';
 import { supabaseAdmin } from '../config/supabase';
 import { CustomError } from '../middleware/errorHandler';
 import { AuthenticatedRequest } from '../middleware/auth';
+import {
+  assertServiceRequestCustomer,
+  assertServiceRequestParticipant,
+} from '../utils/ownership';
+import { NearbyMechanic } from '../services/mechanicSearchService';
+import {
+  findDispatchCandidates,
+  offerWave,
+  openDirectOffer,
+  getOpenOffer,
+  withdrawOpenOffers,
+} from '../services/dispatchService';
+import {
+  actorFromUser,
+  getServiceRequestTimeline,
+  recordServiceRequestEvent,
+  transitionServiceRequest,
+} from '../services/serviceRequestStateMachine';
+import { getMechanicEta, getMechanicLocation } from '../services/liveLocationService';
+import {
+  getApprovedQuote,
+  getLatestQuote,
+  getQuotes,
+  respondToQuote,
+} from '../services/quoteService';
+import {
+  createReview,
+  getRatingSummary,
+  parseStars,
+  REVIEW_DIMENSIONS,
+} from '../services/reviewService';
+import { settleCompletedJob } from '../services/settlementService';
+import { assertEscrowFunded, getEscrowSummary, PAYMENT_METHODS } from '../services/paymentService';
+import { getDispute } from '../services/disputeService';
 
 export const createServiceRequest = async (
   req: AuthenticatedRequest,
@@ -10,34 +44,69 @@ export const createServiceRequest = async (
   next: NextFunction
 ): Promise<void> => {
   try {
-    const { mechanic_id, vehicle_id, category_id, problem_description, location } = req.body;
+    const {
+      mechanic_id,
+      vehicle_id,
+      category_id,
+      problem_description,
+      location,
+      dispatch_mode = 'direct',
+      payment_method = 'in_app',
+    } = req.body;
     const customer_id = req.user?.id;
 
     if (!customer_id) {
       throw new CustomError('Unauthorized', 401);
     }
 
-    if (!mechanic_id || !vehicle_id || !category_id || !problem_description || !location) {
-      throw new CustomError('Missing required fields', 400);
+    if (dispatch_mode !== 'direct' && dispatch_mode !== 'broadcast') {
+      throw new CustomError('Invalid dispatch mode', 400);
     }
 
-    // Verify mechanic exists and is available
-    const { data: mechanicProfile, error: mechanicError } = await supabaseAdmin
-      .from('mechanic_profiles')
-      .select('user_id, is_available, verification_status')
-      .eq('user_id', mechanic_id)
-      .single();
-
-    if (mechanicError || !mechanicProfile) {
-      throw new CustomError('Mechanic not found', 404);
+    if (!PAYMENT_METHODS.includes(payment_method)) {
+      throw new CustomError('Invalid payment method', 400);
     }
 
-    if (mechanicProfile.verification_status !== 'approved') {
-      throw new CustomError('Mechanic is not verified', 400);
+    const isBroadcast = dispatch_mode === 'broadcast';
+
+    if (
+      (!isBroadcast && !mechanic_id) ||
+      !vehicle_id ||
+      !category_id ||
+      !problem_description ||
+      !location
+    ) {
+      throw new CustomError('Missing required fields', 400);
     }
 
-    if (!mechanicProfile.is_available) {
-      throw new CustomError('Mechanic is not available', 400);
+    let candidates: NearbyMechanic[] = [];
+
+    if (isBroadcast) {
+      // Find the first wave of mechanics before creating the request
+      candidates = await findDispatchCandidates(category_id, location);
+
+      if (candidates.length === 0) {
+        throw new CustomError('No mechanics are available near you right now', 404);
+      }
+    } else {
+      // Verify mechanic exists and is available
+      const { data: mechanicProfile, error: mechanicError } = await supabaseAdmin
+        .from('mechanic_profiles')
+        .select('user_id, is_available, verification_status')
+        .eq('user_id', mechanic_id)
+        .single();
+
+      if (mechanicError || !mechanicProfile) {
+        throw new CustomError('Mechanic not found', 404);
+      }
+
+      if (mechanicProfile.verification_status !== 'approved') {
+        throw new CustomError('Mechanic is not verified', 400);
+      }
+
+      if (!mechanicProfile.is_available) {
+        throw new CustomError('Mechanic is not available', 400);
+      }
     }
 
     // Verify vehicle belongs to customer
@@ -57,7 +126,7 @@ export const createServiceRequest = async (
       .from('service_requests')
       .insert({
         customer_id,
-        mechanic_id,
+        mechanic_id: isBroadcast ? null : mechanic_id,
         vehicle_id,
         category_id,
         problem_description,
@@ -65,6 +134,8 @@ export const createServiceRequest = async (
         customer_location_lng: location.lng,
         customer_location_address: location.address || null,
         status: 'pending',
+        dispatch_mode,
+        payment_method,
       })
       .select()
       .single();
@@ -73,14 +144,31 @@ export const createServiceRequest = async (
       throw new CustomError('Failed to create service request', 500);
     }
 
-    // Create notification for mechanic
-    await supabaseAdmin.from('notifications').insert({
-      user_id: mechanic_id,
-      title: 'New Service Request',
-      body: `You have a new service request from a customer`,
-      type: 'service_request',
-      reference_id: serviceRequest.id,
-    });
+    await recordServiceRequestEvent(
+      serviceRequest.id,
+      null,
+      'pending',
+      actorFromUser(req.user!),
+      undefined,
+      { dispatch_mode }
+    );
+
+    if (isBroadcast) {
+      // Offer the job to the first wave of nearby mechanics
+      await offerWave(serviceRequest, candidates);
+    } else {
+      // Give the chosen mechanic a limited time to respond before reassigning
+      await openDirectOffer(serviceRequest);
+
+      // Create notification for mechanic
+      await supabaseAdmin.from('notifications').insert({
+        user_id: mechanic_id,
+        title: 'New Service Request',
+        body: `You have a new service request from a customer`,
+        type: 'service_request',
+        reference_id: serviceRequest.id,
+      });
+    }
 
     res.status(201).json({
       success: true,
@@ -91,6 +179,36 @@ export const createServiceRequest = async (
   }
 };
 
+// About 1km: enough to judge the distance before accepting, not to find the house
+const OFFER_LOCATION_DECIMALS = 2;
+
+const approximateCoordinate = (value: number | string | null) =>
+  value === null ? null : Number(Number(value).toFixed(OFFER_LOCATION_DECIMALS));
+
+/**
+ * What a mechanic holding an unaccepted offer may see: the customer's exact address,
+ * location and contact details only come with the job once they accept it
+ */
+const toOfferView = <
+  T extends {
+    customer_location_lat: number | string | null;
+    customer_location_lng: number | string | null;
+    customer?: { phone?: string | null; email?: string | null } | null;
+  },
+>(
+  serviceRequest: T
+) => {
+  const { phone: _phone, email: _email, ...customer } = serviceRequest.customer || {};
+
+  return {
+    ...serviceRequest,
+    customer_location_lat: approximateCoordinate(serviceRequest.customer_location_lat),
+    customer_location_lng: approximateCoordinate(serviceRequest.customer_location_lng),
+    customer_location_address: null,
+    customer: serviceRequest.customer ? customer : null,
+  };
+};
+
 export const getServiceRequest = async (
   req: AuthenticatedRequest,
   res: Response,
@@ -129,6 +247,13 @@ export const getServiceRequest = async (
         category:service_categories (
           id,
           name
+        ),
+        reviews (
+          id,
+          reviewer_id,
+          reviewer_role,
+          rating,
+          created_at
         )
       `)
       .eq('id', id)
@@ -138,24 +263,46 @@ export const getServiceRequest = async (
       throw new CustomError('Service request not found', 404);
     }
 
-    // Verify user has access (customer or mechanic)
-    if (
-      serviceRequest.customer_id !== userId &&
-      serviceRequest.mechanic_id !== userId
-    ) {
-      throw new CustomError('Unauthorized', 403);
+    // Mechanics holding an open broadcast offer may view the request before accepting
+    const hasOpenOffer =
+      req.user!.user_type === 'mechanic' &&
+      !serviceRequest.mechanic_id &&
+      !!(await getOpenOffer(id, userId));
+
+    // Verify user has access (customer, mechanic or admin)
+    if (!hasOpenOffer) {
+      assertServiceRequestParticipant(serviceRequest, req.user!);
     }
 
+    const timeline = await getServiceRequestTimeline(id);
+
+    // Mechanics see how other mechanics rated the customer before and during the job
+    const customerScore =
+      req.user!.user_type === 'customer'
+        ? undefined
+        : await getRatingSummary(serviceRequest.customer_id, 'customer');
+
+    const quote = await getLatestQuote(id);
+    const escrow = await getEscrowSummary(serviceRequest);
+    const dispute = await getDispute(id);
+
     res.json({
       success: true,
-      data: serviceRequest,
+      data: {
+        ...(hasOpenOffer ? toOfferView(serviceRequest) : serviceRequest),
+        timeline,
+        quote,
+        escrow,
+        dispute,
+        customer_score: customerScore,
+      },
     });
   } catch (error) {
     next(error);
   }
 };
 
-export const cancelServiceRequest = async (
+export const getServiceRequestMechanicLocation = async (
   req: AuthenticatedRequest,
   res: Response,
   next: NextFunction
@@ -168,53 +315,212 @@ export const cancelServiceRequest = async (
       throw new CustomError('Unauthorized', 401);
     }
 
-    // Get current request
-    const { data: serviceRequest, error: fetchError } = await supabaseAdmin
+    const { data: serviceRequest, error } = await supabaseAdmin
       .from('service_requests')
-      .select('*')
+      .select('id, customer_id, mechanic_id, status')
       .eq('id', id)
       .single();
 
-    if (fetchError || !serviceRequest) {
+    if (error || !serviceRequest) {
       throw new CustomError('Service request not found', 404);
     }
 
-    // Verify user is the customer
-    if (serviceRequest.customer_id !== userId) {
-      throw new CustomError('Only the customer can cancel this request', 403);
+    assertServiceRequestParticipant(serviceRequest, req.user!);
+
+    const location = await getMechanicLocation(serviceRequest);
+
+    res.json({
+      success: true,
+      data: location,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const getServiceRequestEta = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const userId = req.user?.id;
+
+    if (!userId) {
+      throw new CustomError('Unauthorized', 401);
     }
 
-    // Only allow cancellation if pending or accepted
-    if (
-      serviceRequest.status !== 'pending' &&
-      serviceRequest.status !== 'accepted'
-    ) {
-      throw new CustomError(
-        'Cannot cancel request in current status',
-        400
-      );
+    const { data: serviceRequest, error } = await supabaseAdmin
+      .from('service_requests')
+      .select('id, customer_id, mechanic_id, status, customer_location_lat, customer_location_lng')
+      .eq('id', id)
+      .single();
+
+    if (error || !serviceRequest) {
+      throw new CustomError('Service request not found', 404);
+    }
+
+    assertServiceRequestParticipant(serviceRequest, req.user!);
+
+    const eta = await getMechanicEta(serviceRequest);
+
+    res.json({
+      success: true,
+      data: eta,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const getServiceRequestQuotes = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const userId = req.user?.id;
+
+    if (!userId) {
+      throw new CustomError('Unauthorized', 401);
+    }
+
+    const { data: serviceRequest, error } = await supabaseAdmin
+      .from('service_requests')
+      .select('id, customer_id, mechanic_id')
+      .eq('id', id)
+      .single();
+
+    if (error || !serviceRequest) {
+      throw new CustomError('Service request not found', 404);
+    }
+
+    assertServiceRequestParticipant(serviceRequest, req.user!);
+
+    const quotes = await getQuotes(id);
+
+    res.json({
+      success: true,
+      data: quotes,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+const answerQuote = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  decision: 'approved' | 'rejected'
+) => {
+  const { id, quoteId } = req.params;
+  const userId = req.user?.id;
+
+  if (!userId) {
+    throw new CustomError('Unauthorized', 401);
+  }
+
+  const { data: serviceRequest, error } = await supabaseAdmin
+    .from('service_requests')
+    .select('id, customer_id, mechanic_id')
+    .eq('id', id)
+    .single();
+
+  if (error || !serviceRequest) {
+    throw new CustomError('Service request not found', 404);
+  }
+
+  assertServiceRequestCustomer(serviceRequest, userId, 'Only the customer can answer this quote');
+
+  const quote = await respondToQuote(serviceRequest, quoteId, decision, req.body?.reason);
+
+  res.json({
+    success: true,
+    data: quote,
+  });
+};
+
+export const approveServiceRequestQuote = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    await answerQuote(req, res, 'approved');
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const rejectServiceRequestQuote = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    await answerQuote(req, res, 'rejected');
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const cancelServiceRequest = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const userId = req.user?.id;
+
+    if (!userId) {
+      throw new CustomError('Unauthorized', 401);
     }
 
-    // Update status
-    const { data: updatedRequest, error: updateError } = await supabaseAdmin
+    // Get current request
+    const { data: serviceRequest, error: fetchError } = await supabaseAdmin
       .from('service_requests')
-      .update({ status: 'cancelled' })
+      .select('*')
       .eq('id', id)
-      .select()
       .single();
 
-    if (updateError) {
-      throw new CustomError('Failed to cancel service request', 500);
+    if (fetchError || !serviceRequest) {
+      throw new CustomError('Service request not found', 404);
     }
 
+    // Verify user is the customer
+    assertServiceRequestCustomer(
+      serviceRequest,
+      userId,
+      'Only the customer can cancel this request'
+    );
+
+    // Customers can cancel until the mechanic has arrived
+    const updatedRequest = await transitionServiceRequest(
+      serviceRequest,
+      'cancelled',
+      actorFromUser(req.user!),
+      {
+        updates: { cancellation_reason: 'customer_cancelled' },
+        reason: req.body?.reason || 'customer_cancelled',
+      }
+    );
+
+    // Pull the job from any mechanics still deciding on it
+    await withdrawOpenOffers(serviceRequest.id);
+
     // Create notification for mechanic
-    await supabaseAdmin.from('notifications').insert({
-      user_id: serviceRequest.mechanic_id,
-      title: 'Service Request Cancelled',
-      body: 'A service request has been cancelled by the customer',
-      type: 'service_request',
-      reference_id: serviceRequest.id,
-    });
+    if (serviceRequest.mechanic_id) {
+      await supabaseAdmin.from('notifications').insert({
+        user_id: serviceRequest.mechanic_id,
+        title: 'Service Request Cancelled',
+        body: 'A service request has been cancelled by the customer',
+        type: 'service_request',
+        reference_id: serviceRequest.id,
+      });
+    }
 
     res.json({
       success: true,
@@ -232,22 +538,21 @@ export const completeServiceRequest = async (
 ): Promise<void> => {
   try {
     const { id } = req.params;
-    const { material_cost, labor_cost, rating, review } = req.body;
+    const { material_cost, labor_cost, rating, review, punctuality, quality, price_fairness } =
+      req.body;
     const userId = req.user?.id;
 
     if (!userId) {
       throw new CustomError('Unauthorized', 401);
     }
 
-    if (!material_cost || !labor_cost || !rating) {
+    if (!rating) {
       throw new CustomError('Missing required fields', 400);
     }
 
-    const materialCost = parseFloat(material_cost);
-    const laborCost = parseFloat(labor_cost);
     const customerRating = parseInt(rating);
 
-    if (isNaN(materialCost) || isNaN(laborCost) || isNaN(customerRating)) {
+    if (isNaN(customerRating)) {
       throw new CustomError('Invalid cost or rating values', 400);
     }
 
@@ -255,6 +560,10 @@ export const completeServiceRequest = async (
       throw new CustomError('Rating must be between 1 and 5', 400);
     }
 
+    // Validate the optional dimension ratings before anything is written
+    const dimensions = { punctuality, quality, price_fairness };
+    REVIEW_DIMENSIONS.forEach((dimension) => parseStars(dimensions[dimension], dimension));
+
     // Get current request
     const { data: serviceRequest, error: fetchError } = await supabaseAdmin
       .from('service_requests')
@@ -267,105 +576,85 @@ export const completeServiceRequest = async (
     }
 
     // Verify user is the customer
-    if (serviceRequest.customer_id !== userId) {
-      throw new CustomError('Only the customer can complete this request', 403);
+    assertServiceRequestCustomer(
+      serviceRequest,
+      userId,
+      'Only the customer can complete this request'
+    );
+
+    if (serviceRequest.customer_confirmed) {
+      throw new CustomError('You have already confirmed this job', 400);
     }
 
-    // Only allow completion if in_progress
-    if (serviceRequest.status !== 'in_progress') {
-      throw new CustomError('Service request is not in progress', 400);
+    // Costs come from the approved quote. Jobs started before quotes existed
+    // still send them with the confirmation.
+    const approvedQuote = await getApprovedQuote(id);
+    const latestQuote = await getLatestQuote(id);
+
+    if (latestQuote?.status === 'pending') {
+      throw new CustomError('Please approve or reject the revised quote first', 409);
     }
 
-    const totalCost = materialCost + laborCost;
-    const commission = laborCost * 0.15; // 15% commission on labor
-    const mechanicEarnings = laborCost - commission;
-
-    // Update service request
-    const updateData: any = {
-      material_cost: materialCost,
-      labor_cost: laborCost,
-      total_cost: totalCost,
-      customer_rating: customerRating,
-      customer_review: review || null,
-      customer_confirmed: true,
-    };
-
-    // If mechanic also confirmed, mark as completed
-    if (serviceRequest.mechanic_confirmed) {
-      updateData.status = 'completed';
-      updateData.completed_at = new Date().toISOString();
-    }
-
-    const { data: updatedRequest, error: updateError } = await supabaseAdmin
-      .from('service_requests')
-      .update(updateData)
-      .eq('id', id)
-      .select()
-      .single();
+    let materialCost: number;
+    let laborCost: number;
+
+    if (approvedQuote) {
+      materialCost = Number(approvedQuote.material_cost);
+      laborCost = Number(approvedQuote.labor_cost);
+    } else if (serviceRequest.payment_method === 'in_app') {
+      throw new CustomError("Approve the mechanic's quote before confirming", 409);
+    } else {
+      if (material_cost === undefined || labor_cost === undefined) {
+        throw new CustomError('Missing required fields', 400);
+      }
+
+      materialCost = parseFloat(material_cost);
+      laborCost = parseFloat(labor_cost);
 
-    if (updateError) {
-      throw new CustomError('Failed to complete service request', 500);
+      if (isNaN(materialCost) || isNaN(laborCost) || materialCost < 0 || laborCost < 0) {
+        throw new CustomError('Invalid cost or rating values', 400);
+      }
     }
 
-    // Process commission deduction and wallet update when job is completed
-    if (updateData.status === 'completed') {
-      // Check if commission has already been processed (prevent double processing)
-      const { data: existingTransaction } = await supabaseAdmin
-        .from('wallet_transactions')
-        .select('id')
-        .eq('reference_id', id)
-        .eq('reference_type', 'service_request')
-        .eq('transaction_type', 'commission_deduction')
-        .single();
+    const totalCost = materialCost + laborCost;
 
-      if (!existingTransaction) {
-        const { data: mechanicProfile, error: mechanicError } = await supabaseAdmin
-          .from('mechanic_profiles')
-          .select('wallet_balance, user_id')
-          .eq('user_id', serviceRequest.mechanic_id)
-          .single();
-
-        if (!mechanicError && mechanicProfile) {
-          // Add earnings (labor_cost - commission) to wallet
-          const currentBalance = mechanicProfile.wallet_balance || 0;
-          const newBalance = currentBalance + mechanicEarnings;
-
-          await supabaseAdmin
-            .from('mechanic_profiles')
-            .update({ wallet_balance: newBalance })
-            .eq('user_id', serviceRequest.mechanic_id);
-
-          // Create wallet transaction for commission deduction
-          await supabaseAdmin.from('wallet_transactions').insert({
-            user_id: serviceRequest.mechanic_id,
-            amount: -commission, // Negative amount for deduction
-            transaction_type: 'commission_deduction',
-            description: `Commission deduction (15%) for service request ${id}`,
-            reference_id: id,
-            reference_type: 'service_request',
-          });
-        }
+    await assertEscrowFunded(serviceRequest, 'Please pay for the job before confirming it');
+
+    // First confirmation waits for the mechanic, the second completes the job
+    const nextStatus =
+      serviceRequest.status === 'awaiting_confirmation' ? 'completed' : 'awaiting_confirmation';
+
+    const updatedRequest = await transitionServiceRequest(
+      serviceRequest,
+      nextStatus,
+      actorFromUser(req.user!),
+      {
+        updates: {
+          material_cost: materialCost,
+          labor_cost: laborCost,
+          total_cost: totalCost,
+          customer_confirmed: true,
+        },
       }
+    );
+
+    // Charge commission, credit the mechanic in the ledger and send both invoices
+    if (nextStatus === 'completed') {
+      await settleCompletedJob(updatedRequest);
     }
 
-    // Update mechanic's average rating
-    const { data: allRatings, error: ratingsError } = await supabaseAdmin
-      .from('service_requests')
-      .select('customer_rating')
-      .eq('mechanic_id', serviceRequest.mechanic_id)
-      .not('customer_rating', 'is', null);
-
-    if (!ratingsError && allRatings && allRatings.length > 0) {
-      const totalRating = allRatings.reduce(
-        (sum, r) => sum + (r.customer_rating || 0),
-        0
-      );
-      const averageRating = totalRating / allRatings.length;
-
-      await supabaseAdmin
-        .from('mechanic_profiles')
-        .update({ rating: Math.round(averageRating * 10) / 10 })
-        .eq('user_id', serviceRequest.mechanic_id);
+    // The rating becomes the customer's review of the mechanic, which also
+    // updates the mechanic's aggregate. They may have reviewed separately already.
+    try {
+      await createReview(updatedRequest, userId, {
+        rating: customerRating,
+        comment: review,
+        dimensions,
+      });
+    } catch (reviewError) {
+      if (!(reviewError instanceof CustomError) || reviewError.statusCode !== 409) {
+        throw reviewError;
+      }
     }
 
     res.json({
@@ -407,6 +696,10 @@ export const getCustomerServiceRequests = async (
         category:service_categories (
           id,
           name
+        ),
+        reviews (
+          reviewer_role,
+          rating
         )
       `)
       .eq('customer_id', userId)
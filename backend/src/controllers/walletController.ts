@@ -3,6 +3,17 @@ import { Response, NextFunction } from 'express';
 import { supabaseAdmin } from '../config/supabase';
 import { CustomError } from '../middleware/errorHandler';
 import { AuthenticatedRequest } from '../middleware/auth';
+import { getAccountBalance, walletAccount } from '../services/ledgerService';
+import { confirmTopUp, createTopUp, getTopUp } from '../services/customerWalletService';
+import { createDebtSettlement, getCommissionDebt } from '../services/commissionDebtService';
+import {
+  addBankAccount,
+  listBankAccounts,
+  listPayoutBanks,
+  removeBankAccount,
+  requestPayout,
+  setDefaultBankAccount,
+} from '../services/payoutService';
 
 export const getWallet = async (
   req: AuthenticatedRequest,
@@ -16,16 +27,12 @@ export const getWallet = async (
       throw new CustomError('Unauthorized', 401);
     }
 
-    // Get wallet balance from mechanic profile
-    const { data: mechanicProfile, error: profileError } = await supabaseAdmin
-      .from('mechanic_profiles')
-      .select('wallet_balance, user_id')
-      .eq('user_id', userId)
-      .single();
+    // The ledger account is the source of truth for the balance
+    const balance = await getAccountBalance(walletAccount(userId));
 
-    if (profileError || !mechanicProfile) {
-      throw new CustomError('Mechanic profile not found', 404);
-    }
+    // Mechanics can owe commission on cash jobs
+    const commissionDebt =
+      req.user!.user_type === 'mechanic' ? await getCommissionDebt(userId) : undefined;
 
     // Get pagination parameters
     const page = parseInt(req.query.page as string) || 1;
@@ -57,7 +64,8 @@ export const getWallet = async (
     res.json({
       success: true,
       data: {
-        balance: mechanicProfile.wallet_balance || 0,
+        balance,
+        ...(commissionDebt ? { commission_debt: commissionDebt } : {}),
         recent_transactions: transactions || [],
         pagination: {
           page,
@@ -79,7 +87,7 @@ export const withdrawFromWallet = async (
 ): Promise<void> => {
   try {
     const userId = req.user?.id;
-    const { amount, bank_details } = req.body;
+    const { amount, bank_account_id } = req.body;
 
     if (!userId) {
       throw new CustomError('Unauthorized', 401);
@@ -95,65 +103,102 @@ export const withdrawFromWallet = async (
       throw new CustomError('Invalid amount', 400);
     }
 
-    // Get current wallet balance
-    const { data: mechanicProfile, error: profileError } = await supabaseAdmin
-      .from('mechanic_profiles')
-      .select('wallet_balance, user_id')
+    const { payout, posting } = await requestPayout(
+      userId,
+      withdrawalAmount,
+      bank_account_id,
+      req.header('Idempotency-Key')
+    );
+
+    const { data: transaction, error: transactionError } = await supabaseAdmin
+      .from('wallet_transactions')
+      .select('*')
+      .eq('ledger_transaction_id', posting.transaction_id)
       .eq('user_id', userId)
       .single();
 
-    if (profileError || !mechanicProfile) {
-      throw new CustomError('Mechanic profile not found', 404);
+    if (transactionError) {
+      console.error('Error fetching withdrawal transaction:', transactionError);
     }
 
-    const currentBalance = mechanicProfile.wallet_balance || 0;
+    res.json({
+      success: true,
+      data: {
+        balance: posting.balances?.[walletAccount(userId)] ?? 0,
+        transaction: transaction || null,
+        payout,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const createWalletTopUp = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const userId = req.user?.id;
+    const { amount, channel } = req.body;
 
-    // Check sufficient balance
-    if (currentBalance < withdrawalAmount) {
-      throw new CustomError('Insufficient balance', 400);
+    if (!userId) {
+      throw new CustomError('Unauthorized', 401);
     }
 
-    // Deduct from wallet balance
-    const newBalance = currentBalance - withdrawalAmount;
+    const topUpAmount = parseFloat(amount as string);
 
-    const { error: updateError } = await supabaseAdmin
-      .from('mechanic_profiles')
-      .update({ wallet_balance: newBalance })
-      .eq('user_id', userId);
+    if (isNaN(topUpAmount) || topUpAmount <= 0) {
+      throw new CustomError('Invalid amount', 400);
+    }
 
-    if (updateError) {
-      throw new CustomError('Failed to update wallet balance', 500);
+    let email = req.user!.email;
+    if (!email) {
+      const { data: customer } = await supabaseAdmin
+        .from('users')
+        .select('email')
+        .eq('id', userId)
+        .single();
+      email = customer?.email;
     }
 
-    // Create pending withdrawal transaction
-    const { data: transaction, error: transactionError } = await supabaseAdmin
-      .from('wallet_transactions')
-      .insert({
-        user_id: userId,
-        amount: -withdrawalAmount, // Negative for withdrawal
-        transaction_type: 'withdrawal',
-        description: 'Withdrawal request',
-        status: 'pending',
-        bank_details: bank_details || null,
-      })
-      .select()
-      .single();
+    if (!email) {
+      throw new CustomError('Add an email address to your account before topping up', 400);
+    }
 
-    if (transactionError) {
-      // Rollback balance update if transaction creation fails
-      await supabaseAdmin
-        .from('mechanic_profiles')
-        .update({ wallet_balance: currentBalance })
-        .eq('user_id', userId);
+    const topUp = await createTopUp(userId, email, topUpAmount, channel);
+
+    res.status(201).json({
+      success: true,
+      data: topUp,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const verifyWalletTopUp = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const userId = req.user?.id;
+    const { topUpId } = req.params;
 
-      throw new CustomError('Failed to create withdrawal transaction', 500);
+    if (!userId) {
+      throw new CustomError('Unauthorized', 401);
     }
 
+    const topUp = await confirmTopUp(await getTopUp(userId, topUpId));
+    const balance = await getAccountBalance(walletAccount(userId));
+
     res.json({
       success: true,
       data: {
-        balance: newBalance,
-        transaction,
+        top_up: topUp,
+        balance,
       },
     });
   } catch (error) {
@@ -161,3 +206,159 @@ export const withdrawFromWallet = async (
   }
 };
 
+export const settleCommissionDebt = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const userId = req.user?.id;
+    const { amount, channel } = req.body;
+
+    if (!userId) {
+      throw new CustomError('Unauthorized', 401);
+    }
+
+    let settleAmount: number | null = null;
+    if (amount !== undefined && amount !== null) {
+      settleAmount = parseFloat(amount as string);
+      if (isNaN(settleAmount) || settleAmount <= 0) {
+        throw new CustomError('Invalid amount', 400);
+      }
+    }
+
+    let email = req.user!.email;
+    if (!email) {
+      const { data: mechanic } = await supabaseAdmin
+        .from('users')
+        .select('email')
+        .eq('id', userId)
+        .single();
+      email = mechanic?.email;
+    }
+
+    if (!email) {
+      throw new CustomError('Add an email address to your account before paying', 400);
+    }
+
+    const settlement = await createDebtSettlement(userId, email, settleAmount, channel);
+
+    res.status(201).json({
+      success: true,
+      data: settlement,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const getPayoutBanks = async (
+  _req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const banks = await listPayoutBanks();
+
+    res.json({
+      success: true,
+      data: banks,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const getBankAccounts = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const userId = req.user?.id;
+
+    if (!userId) {
+      throw new CustomError('Unauthorized', 401);
+    }
+
+    const accounts = await listBankAccounts(userId);
+
+    res.json({
+      success: true,
+      data: accounts,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const createBankAccount = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const userId = req.user?.id;
+
+    if (!userId) {
+      throw new CustomError('Unauthorized', 401);
+    }
+
+    const account = await addBankAccount(userId, req.body);
+
+    res.status(201).json({
+      success: true,
+      data: account,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const makeDefaultBankAccount = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const userId = req.user?.id;
+    const { accountId } = req.params;
+
+    if (!userId) {
+      throw new CustomError('Unauthorized', 401);
+    }
+
+    const accounts = await setDefaultBankAccount(userId, accountId);
+
+    res.json({
+      success: true,
+      data: accounts,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const deleteBankAccount = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const userId = req.user?.id;
+    const { accountId } = req.params;
+
+    if (!userId) {
+      throw new CustomError('Unauthorized', 401);
+    }
+
+    const accounts = await removeBankAccount(userId, accountId);
+
+    res.json({
+      success: true,
+      data: accounts,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
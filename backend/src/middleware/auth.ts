@@ -1,21 +1,24 @@
 import { Request, Response, NextFunction } from 'express';
 import jwt from 'jsonwebtoken';
 import { env } from '../config/env';
+import { isSessionActive } from '../services/sessionService';
 import { CustomError } from './errorHandler';
+import { UserRole } from '../types';
 
 export interface AuthenticatedRequest extends Request {
   user?: {
     id: string;
     user_type: string;
     email?: string;
+    session_id?: string;
   };
 }
 
-export const authenticate = (
+export const authenticate = async (
   req: AuthenticatedRequest,
   _res: Response,
   next: NextFunction
-): void => {
+): Promise<void> => {
   try {
     const authHeader = req.headers.authorization;
 
@@ -25,25 +28,53 @@ export const authenticate = (
 
     const token = authHeader.substring(7);
 
+    let decoded: {
+      id: string;
+      user_type: string;
+      email?: string;
+      sid?: string;
+    };
+
     try {
-      const decoded = jwt.verify(token, env.jwt.secret) as {
-        id: string;
-        user_type: string;
-        email?: string;
-      };
-
-      req.user = {
-        id: decoded.id,
-        user_type: decoded.user_type,
-        email: decoded.email,
-      };
-
-      next();
+      decoded = jwt.verify(token, env.jwt.secret) as typeof decoded;
     } catch (error) {
       throw new CustomError('Invalid or expired token', 401);
     }
+
+    // Access tokens are only valid while their device session is active
+    if (!decoded.sid || !(await isSessionActive(decoded.sid))) {
+      throw new CustomError('Session has been revoked. Please log in again.', 401);
+    }
+
+    req.user = {
+      id: decoded.id,
+      user_type: decoded.user_type,
+      email: decoded.email,
+      session_id: decoded.sid,
+    };
+
+    next();
   } catch (error) {
     next(error);
   }
 };
 
+/**
+ * Restrict a route to the given user types. Must run after `authenticate`.
+ * @example router.put('/availability', authenticate, authorize('mechanic'), toggleAvailability)
+ */
+export const authorize = (...roles: UserRole[]) => {
+  return (req: AuthenticatedRequest, _res: Response, next: NextFunction): void => {
+    if (!req.user) {
+      next(new CustomError('Unauthorized', 401));
+      return;
+    }
+
+    if (!roles.includes(req.user.user_type as UserRole)) {
+      next(new CustomError('You do not have permission to access this resource', 403));
+      return;
+    }
+
+    next();
+  };
+};
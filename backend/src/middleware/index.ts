@@ -1,4 +1,4 @@
 export { errorHandler, CustomError, AppError } from './errorHandler';
 export { notFoundHandler } from './notFound';
-export { authenticate, AuthenticatedRequest } from './auth';
+export { authenticate, authorize, AuthenticatedRequest } from './auth';
 
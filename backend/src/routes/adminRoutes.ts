@@ -0,0 +1,76 @@
+import { Router } from 'express';
+import {
+  getPendingMechanics,
+  getPendingVendors,
+  verifyMechanic,
+  verifyVendor,
+  requestMechanicResubmission,
+  requestVendorResubmission,
+  reconcileLedgerNow,
+  getLedgerReconciliations,
+  addCustomerCredit,
+} from '../controllers/adminController';
+import { getReportedReviews, moderateReview } from '../controllers/reviewController';
+import {
+  getCommissionRules,
+  addCommissionRule,
+  updateCommissionRule,
+  deleteCommissionRule,
+  setMechanicTier,
+} from '../controllers/commissionController';
+import { getPayouts, processPayoutsNow } from '../controllers/payoutController';
+import {
+  refundServiceRequestPayment,
+  settleServiceRequestPayment,
+} from '../controllers/paymentController';
+import { getDisputes, resolveServiceRequestDispute } from '../controllers/disputeController';
+import { authenticate, authorize } from '../middleware/auth';
+
+const router = Router();
+
+// All routes require an admin
+router.use(authenticate, authorize('admin'));
+
+// Mechanic applications
+router.get('/mechanics/pending', getPendingMechanics);
+router.put('/mechanics/:id/verify', verifyMechanic);
+router.post('/mechanics/:id/resubmission', requestMechanicResubmission);
+router.put('/mechanics/:id/tier', setMechanicTier);
+
+// Vendor applications
+router.get('/vendors/pending', getPendingVendors);
+router.put('/vendors/:id/verify', verifyVendor);
+router.post('/vendors/:id/resubmission', requestVendorResubmission);
+
+// Reported reviews
+router.get('/reviews/reported', getReportedReviews);
+router.put('/reviews/:id/moderate', moderateReview);
+
+// Ledger reconciliation reports
+router.get('/ledger/reconciliations', getLedgerReconciliations);
+router.post('/ledger/reconcile', reconcileLedgerNow);
+
+// Withdrawal payouts
+router.get('/payouts', getPayouts);
+router.post('/payouts/process', processPayoutsNow);
+
+// Promotional or goodwill credit to a customer's wallet
+router.post('/customers/:id/credits', addCustomerCredit);
+
+// Refund escrowed payments on disputed or cancelled jobs
+router.post('/service-requests/:id/refund', refundServiceRequestPayment);
+
+// Run settlement again for a completed job whose settlement failed (safe to repeat)
+router.post('/service-requests/:id/settle', settleServiceRequestPayment);
+
+// Disputed jobs: refund, complete at the agreed price, or complete at adjusted costs
+router.get('/disputes', getDisputes);
+router.post('/service-requests/:id/dispute/resolve', resolveServiceRequestDispute);
+
+// Commission rules (each change adds a new version)
+router.get('/commission-rules', getCommissionRules);
+router.post('/commission-rules', addCommissionRule);
+router.put('/commission-rules/:id', updateCommissionRule);
+router.delete('/commission-rules/:id', deleteCommissionRule);
+
+export default router;
@@ -1,12 +1,20 @@
 import { Router } from 'express';
 import {
   registerMechanic,
+  registerVendor,
   login,
   registerCustomer,
   verifyOTP,
   resendOTP,
   forgotPassword,
+  resetPassword,
+  refreshToken,
+  logout,
+  logoutAllDevices,
+  getSessions,
+  revokeDeviceSession,
 } from '../controllers/authController';
+import { authenticate } from '../middleware/auth';
 
 const router = Router();
 
@@ -16,6 +24,9 @@ router.post('/register/customer', registerCustomer);
 // Mechanic registration
 router.post('/register/mechanic', registerMechanic);
 
+// Vendor registration
+router.post('/register/vendor', registerVendor);
+
 // Login
 router.post('/login', login);
 
@@ -28,5 +39,17 @@ router.post('/resend-otp', resendOTP);
 // Forgot password
 router.post('/forgot-password', forgotPassword);
 
+// Reset password with code from forgot-password
+router.post('/reset-password', resetPassword);
+
+// Exchange refresh token for a new token pair
+router.post('/refresh-token', refreshToken);
+
+// Session management (requires authentication)
+router.post('/logout', authenticate, logout);
+router.post('/logout-all', authenticate, logoutAllDevices);
+router.get('/sessions', authenticate, getSessions);
+router.delete('/sessions/:id', authenticate, revokeDeviceSession);
+
 export default router;
 
@@ -1,14 +1,20 @@
 import { Router } from 'express';
 import { getCustomerVehicles, updateCustomerProfile } from '../controllers/customerController';
-import { authenticate } from '../middleware/auth';
+import { getWallet, createWalletTopUp, verifyWalletTopUp } from '../controllers/walletController';
+import { authenticate, authorize } from '../middleware/auth';
 
 const router = Router();
 
-// Get customer vehicles (requires authentication)
-router.get('/vehicles', authenticate, getCustomerVehicles);
+// Get customer vehicles (customers only)
+router.get('/vehicles', authenticate, authorize('customer'), getCustomerVehicles);
 
-// Update customer profile (requires authentication)
-router.put('/profile', authenticate, updateCustomerProfile);
+// Update customer profile (customers only)
+router.put('/profile', authenticate, authorize('customer'), updateCustomerProfile);
+
+// Prepaid wallet: balance and history, top-ups through the payment gateway (customers only)
+router.get('/wallet', authenticate, authorize('customer'), getWallet);
+router.post('/wallet/top-ups', authenticate, authorize('customer'), createWalletTopUp);
+router.post('/wallet/top-ups/:topUpId/verify', authenticate, authorize('customer'), verifyWalletTopUp);
 
 export default router;
 
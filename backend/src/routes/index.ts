@@ -5,6 +5,11 @@ import serviceRequestRouter from './serviceRequestRoutes';
 import authRouter from './authRoutes';
 import walletRouter from './walletRoutes';
 import customerRouter from './customerRoutes';
+import adminRouter from './adminRoutes';
+import reviewRouter from './reviewRoutes';
+import invoiceRouter from './invoiceRoutes';
+import payoutRouter from './payoutRoutes';
+import paymentRouter from './paymentRoutes';
 
 const router = Router();
 
@@ -29,11 +34,25 @@ router.use('/mechanic', walletRouter);
 // Categories route (also available via /mechanics/categories)
 router.use('/categories', mechanicRouter);
 
+// Review replies and reports
+router.use('/reviews', reviewRouter);
+
+// Signed invoice downloads
+router.use('/invoices', invoiceRouter);
+
+// Payout provider webhooks
+router.use('/payouts', payoutRouter);
+
+// Payment gateway webhooks
+router.use('/payments', paymentRouter);
+
+// Admin verification console
+router.use('/admin', adminRouter);
+
 // TODO: Add other route modules here
 // router.use('/api/customer', customerRouter);
 // router.use('/api/vendor', vendorRouter);
 // router.use('/api/marketplace', marketplaceRouter);
-// router.use('/api/admin', adminRouter);
 
 export default router;
 
@@ -0,0 +1,9 @@
+import { Router } from 'express';
+import { downloadInvoice } from '../controllers/invoiceController';
+
+const router = Router();
+
+// Open an invoice from a short-lived signed link (no access token needed)
+router.get('/download/:token', downloadInvoice);
+
+export default router;
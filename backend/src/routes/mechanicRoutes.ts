@@ -2,15 +2,25 @@ import { Router } from 'express';
 import {
   getNearbyMechanics,
   getCategories,
+  getMechanicProfile,
+  updateMechanicProfile,
+  addPortfolioPhoto,
+  deletePortfolioPhoto,
   toggleAvailability,
   getMechanicStats,
   updateMechanicLocation,
   acceptServiceRequest,
   declineServiceRequest,
+  markEnRoute,
+  updateServiceRequestLocation,
   markArrived,
+  submitServiceRequestQuote,
+  startServiceRequest,
   completeServiceRequestMechanic,
+  markCustomerNoShow,
 } from '../controllers/mechanicController';
-import { authenticate } from '../middleware/auth';
+import { getMechanicReviews } from '../controllers/reviewController';
+import { authenticate, authorize } from '../middleware/auth';
 
 const router = Router();
 
@@ -20,20 +30,36 @@ router.get('/nearby', getNearbyMechanics);
 // Get service categories
 router.get('/categories', getCategories);
 
-// Toggle mechanic availability (requires authentication)
-router.put('/availability', authenticate, toggleAvailability);
+// Toggle mechanic availability (mechanics only)
+router.put('/availability', authenticate, authorize('mechanic'), toggleAvailability);
 
-// Get mechanic stats (requires authentication)
-router.get('/stats', authenticate, getMechanicStats);
+// Get mechanic stats (mechanics only)
+router.get('/stats', authenticate, authorize('mechanic'), getMechanicStats);
 
-// Update mechanic location (requires authentication)
-router.put('/location', authenticate, updateMechanicLocation);
+// Update mechanic location (mechanics only)
+router.put('/location', authenticate, authorize('mechanic'), updateMechanicLocation);
 
-// Service request actions (requires authentication)
-router.put('/requests/:id/accept', authenticate, acceptServiceRequest);
-router.put('/requests/:id/decline', authenticate, declineServiceRequest);
-router.put('/requests/:id/arrived', authenticate, markArrived);
-router.put('/requests/:id/complete', authenticate, completeServiceRequestMechanic);
+// Manage own public profile (mechanics only)
+router.put('/profile', authenticate, authorize('mechanic'), updateMechanicProfile);
+router.post('/portfolio', authenticate, authorize('mechanic'), addPortfolioPhoto);
+router.delete('/portfolio/:photoId', authenticate, authorize('mechanic'), deletePortfolioPhoto);
+
+// Service request actions (mechanics only)
+router.put('/requests/:id/accept', authenticate, authorize('mechanic'), acceptServiceRequest);
+router.put('/requests/:id/decline', authenticate, authorize('mechanic'), declineServiceRequest);
+router.put('/requests/:id/en-route', authenticate, authorize('mechanic'), markEnRoute);
+router.put('/requests/:id/location', authenticate, authorize('mechanic'), updateServiceRequestLocation);
+router.put('/requests/:id/arrived', authenticate, authorize('mechanic'), markArrived);
+router.post('/requests/:id/quotes', authenticate, authorize('mechanic'), submitServiceRequestQuote);
+router.put('/requests/:id/start', authenticate, authorize('mechanic'), startServiceRequest);
+router.put('/requests/:id/complete', authenticate, authorize('mechanic'), completeServiceRequestMechanic);
+router.put('/requests/:id/no-show', authenticate, authorize('mechanic'), markCustomerNoShow);
+
+// Public reviews of a mechanic, paginated
+router.get('/:id/reviews', getMechanicReviews);
+
+// Public mechanic profile (keep last so it does not shadow the routes above)
+router.get('/:id', getMechanicProfile);
 
 export default router;
 
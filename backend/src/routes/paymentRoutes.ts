@@ -0,0 +1,9 @@
+import { Router } from 'express';
+import { receivePaymentWebhook } from '../controllers/paymentController';
+
+const router = Router();
+
+// Charge updates from the payment gateway (verified by signature)
+router.post('/webhooks/:gateway', receivePaymentWebhook);
+
+export default router;
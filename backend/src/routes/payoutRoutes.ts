@@ -0,0 +1,9 @@
+import { Router } from 'express';
+import { receivePayoutWebhook } from '../controllers/payoutController';
+
+const router = Router();
+
+// Transfer status updates from the payout provider (verified by signature)
+router.post('/webhooks/:provider', receivePayoutWebhook);
+
+export default router;
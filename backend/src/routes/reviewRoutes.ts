@@ -0,0 +1,16 @@
+import { Router } from 'express';
+import { replyToReview, reportReview } from '../controllers/reviewController';
+import { authenticate, authorize } from '../middleware/auth';
+
+const router = Router();
+
+// All routes require authentication
+router.use(authenticate);
+
+// Reply publicly to a review about you (mechanics only)
+router.put('/:id/reply', authorize('mechanic'), replyToReview);
+
+// Flag a review as abusive, spam, fake, etc.
+router.post('/:id/report', authorize('customer', 'mechanic'), reportReview);
+
+export default router;
@@ -2,11 +2,33 @@ import { Router } from 'express';
 import {
   createServiceRequest,
   getServiceRequest,
+  getServiceRequestMechanicLocation,
+  getServiceRequestEta,
+  getServiceRequestQuotes,
+  approveServiceRequestQuote,
+  rejectServiceRequestQuote,
   cancelServiceRequest,
   completeServiceRequest,
   getCustomerServiceRequests,
 } from '../controllers/serviceRequestController';
-import { authenticate } from '../middleware/auth';
+import { createServiceRequestReview } from '../controllers/reviewController';
+import {
+  getServiceRequestInvoice,
+  getServiceRequestInvoiceDocument,
+  emailServiceRequestInvoice,
+  createServiceRequestInvoiceLink,
+} from '../controllers/invoiceController';
+import {
+  getServiceRequestPayments,
+  createServiceRequestPayment,
+  verifyServiceRequestPayment,
+} from '../controllers/paymentController';
+import {
+  getServiceRequestDispute,
+  openServiceRequestDispute,
+  addServiceRequestDisputeMessage,
+} from '../controllers/disputeController';
+import { authenticate, authorize } from '../middleware/auth';
 
 const router = Router();
 
@@ -14,19 +36,51 @@ const router = Router();
 router.use(authenticate);
 
 // Get customer's service requests (history)
-router.get('/', getCustomerServiceRequests);
+router.get('/', authorize('customer'), getCustomerServiceRequests);
 
 // Create service request
-router.post('/', createServiceRequest);
+router.post('/', authorize('customer'), createServiceRequest);
+
+// Get service request details (ownership checked in controller)
+router.get('/:id', authorize('customer', 'mechanic', 'admin'), getServiceRequest);
+
+// Get the assigned mechanic's live location while they are on the way
+router.get('/:id/mechanic-location', authorize('customer', 'mechanic', 'admin'), getServiceRequestMechanicLocation);
+
+// Get the assigned mechanic's estimated arrival time and route distance
+router.get('/:id/eta', authorize('customer', 'mechanic', 'admin'), getServiceRequestEta);
 
-// Get service request details
-router.get('/:id', getServiceRequest);
+// Itemized quotes sent by the mechanic, every version
+router.get('/:id/quotes', authorize('customer', 'mechanic', 'admin'), getServiceRequestQuotes);
+
+// Answer the mechanic's pending quote
+router.put('/:id/quotes/:quoteId/approve', authorize('customer'), approveServiceRequestQuote);
+router.put('/:id/quotes/:quoteId/reject', authorize('customer'), rejectServiceRequestQuote);
+
+// Payments into escrow for in-app jobs
+router.get('/:id/payments', authorize('customer', 'mechanic', 'admin'), getServiceRequestPayments);
+router.post('/:id/payments', authorize('customer'), createServiceRequestPayment);
+router.post('/:id/payments/:paymentId/verify', authorize('customer'), verifyServiceRequestPayment);
 
 // Cancel service request
-router.put('/:id/cancel', cancelServiceRequest);
+router.put('/:id/cancel', authorize('customer'), cancelServiceRequest);
 
 // Complete service request
-router.put('/:id/complete', completeServiceRequest);
+router.put('/:id/complete', authorize('customer'), completeServiceRequest);
+
+// Disputes: either party reports a problem, settlement waits for an admin to resolve it
+router.get('/:id/dispute', authorize('customer', 'mechanic', 'admin'), getServiceRequestDispute);
+router.post('/:id/dispute', authorize('customer', 'mechanic'), openServiceRequestDispute);
+router.post('/:id/dispute/messages', authorize('customer', 'mechanic', 'admin'), addServiceRequestDisputeMessage);
+
+// Review the other party once the work is done (customer or mechanic)
+router.post('/:id/reviews', authorize('customer', 'mechanic'), createServiceRequestReview);
+
+// Invoice for a completed job (customers get their receipt, mechanics their copy)
+router.get('/:id/invoice', authorize('customer', 'mechanic', 'admin'), getServiceRequestInvoice);
+router.get('/:id/invoice/document', authorize('customer', 'mechanic', 'admin'), getServiceRequestInvoiceDocument);
+router.post('/:id/invoice/email', authorize('customer', 'mechanic'), emailServiceRequestInvoice);
+router.post('/:id/invoice/link', authorize('customer', 'mechanic', 'admin'), createServiceRequestInvoiceLink);
 
 export default router;
 
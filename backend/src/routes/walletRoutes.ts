@@ -1,14 +1,35 @@
 import { Router } from 'express';
-import { getWallet, withdrawFromWallet } from '../controllers/walletController';
-import { authenticate } from '../middleware/auth';
+import {
+  getWallet,
+  withdrawFromWallet,
+  settleCommissionDebt,
+  verifyWalletTopUp,
+  getPayoutBanks,
+  getBankAccounts,
+  createBankAccount,
+  makeDefaultBankAccount,
+  deleteBankAccount,
+} from '../controllers/walletController';
+import { authenticate, authorize } from '../middleware/auth';
 
 const router = Router();
 
-// Get wallet balance and transactions (requires authentication)
-router.get('/wallet', authenticate, getWallet);
+// Get wallet balance and transactions (mechanics only)
+router.get('/wallet', authenticate, authorize('mechanic'), getWallet);
 
-// Withdraw from wallet (requires authentication)
-router.post('/wallet/withdraw', authenticate, withdrawFromWallet);
+// Withdraw from wallet (mechanics only)
+router.post('/wallet/withdraw', authenticate, authorize('mechanic'), withdrawFromWallet);
+
+// Pay off commission owed on cash jobs, then confirm once paid (mechanics only)
+router.post('/wallet/settle', authenticate, authorize('mechanic'), settleCommissionDebt);
+router.post('/wallet/top-ups/:topUpId/verify', authenticate, authorize('mechanic'), verifyWalletTopUp);
+
+// Saved bank accounts for withdrawals (mechanics only)
+router.get('/banks', authenticate, authorize('mechanic'), getPayoutBanks);
+router.get('/bank-accounts', authenticate, authorize('mechanic'), getBankAccounts);
+router.post('/bank-accounts', authenticate, authorize('mechanic'), createBankAccount);
+router.put('/bank-accounts/:accountId/default', authenticate, authorize('mechanic'), makeDefaultBankAccount);
+router.delete('/bank-accounts/:accountId', authenticate, authorize('mechanic'), deleteBankAccount);
 
 export default router;
 
@@ -0,0 +1,119 @@
+import { supabaseAdmin } from '../config/supabase';
+import { env } from '../config/env';
+import { CustomError } from '../middleware/errorHandler';
+import { getAccountBalance, PLATFORM_ACCOUNTS, postLedgerTransaction, walletAccount } from './ledgerService';
+import { startTopUp } from './customerWalletService';
+import { PaymentChannel } from './paymentGatewayService';
+
+/**
+ * Cash jobs are paid to the mechanic directly, so the platform's commission is
+ * charged to their wallet instead. A negative balance is what they owe; later
+ * earnings pay it down first and withdrawals stay blocked until it's cleared.
+ */
+
+export interface CommissionDebt {
+  owed: number;
+  limit: number;
+  over_limit: boolean;
+}
+
+const roundMoney = (value: number) => Math.round(value * 100) / 100;
+
+export const getCommissionDebt = async (userId: string): Promise<CommissionDebt> => {
+  const balance = await getAccountBalance(walletAccount(userId));
+  const owed = balance < 0 ? roundMoney(-balance) : 0;
+
+  return {
+    owed,
+    limit: env.cashJobs.debtLimit,
+    over_limit: owed > env.cashJobs.debtLimit,
+  };
+};
+
+/**
+ * Mechanics owing more than the limit can't go online until they settle
+ */
+export const assertWithinDebtLimit = async (userId: string) => {
+  const debt = await getCommissionDebt(userId);
+
+  if (debt.over_limit) {
+    throw new CustomError(
+      `You owe ₦${debt.owed.toFixed(2)} in commission. Settle at least ₦${(debt.owed - debt.limit).toFixed(2)} from your wallet to go online`,
+      409
+    );
+  }
+
+  return debt;
+};
+
+/**
+ * Charge a cash job's commission to the mechanic's wallet. Takes them offline if
+ * this puts them over the debt limit.
+ */
+export const chargeCashJobCommission = async (
+  serviceRequest: { id: string; mechanic_id: string },
+  commission: number
+) => {
+  if (commission <= 0) {
+    return null;
+  }
+
+  const posting = await postLedgerTransaction({
+    kind: 'cash_commission',
+    idempotencyKey: `cash_commission:${serviceRequest.id}`,
+    description: `Commission owed on cash job ${serviceRequest.id}`,
+    referenceType: 'service_request',
+    referenceId: serviceRequest.id,
+    entries: [
+      { account: walletAccount(serviceRequest.mechanic_id), amount: -commission, allowOverdraft: true },
+      { account: PLATFORM_ACCOUNTS.commissionRevenue, amount: commission },
+    ],
+  });
+
+  if (!posting.created) {
+    return posting;
+  }
+
+  const debt = await getCommissionDebt(serviceRequest.mechanic_id);
+
+  if (debt.over_limit) {
+    await supabaseAdmin
+      .from('mechanic_profiles')
+      .update({ is_available: false })
+      .eq('user_id', serviceRequest.mechanic_id);
+
+    await supabaseAdmin.from('notifications').insert({
+      user_id: serviceRequest.mechanic_id,
+      title: 'Commission Owed',
+      body: `You owe ₦${debt.owed.toFixed(2)} in commission on cash jobs, over the ₦${debt.limit.toFixed(2)} limit. You've been taken offline until you settle from your wallet.`,
+      type: 'wallet',
+    });
+  }
+
+  return posting;
+};
+
+/**
+ * Start paying off commission owed through the payment gateway. The amount
+ * defaults to everything owed and can't be more than that.
+ */
+export const createDebtSettlement = async (
+  userId: string,
+  email: string,
+  amount: number | null,
+  channel: PaymentChannel
+) => {
+  const debt = await getCommissionDebt(userId);
+
+  if (debt.owed === 0) {
+    throw new CustomError("You don't owe any commission", 409);
+  }
+
+  const settleAmount = amount === null ? debt.owed : roundMoney(amount);
+
+  if (settleAmount <= 0 || settleAmount > debt.owed) {
+    throw new CustomError(`You can settle between ₦0 and ₦${debt.owed.toFixed(2)}`, 400);
+  }
+
+  return startTopUp(userId, email, settleAmount, channel, 'debt_settlement');
+};
@@ -0,0 +1,338 @@
+import { supabaseAdmin } from '../config/supabase';
+import { CustomError } from '../middleware/errorHandler';
+
+export type MechanicTier = 'standard' | 'silver' | 'gold';
+
+export const MECHANIC_TIERS: MechanicTier[] = ['standard', 'silver', 'gold'];
+
+// Charged when no rule matches, and the rate jobs were charged before rules existed
+export const DEFAULT_COMMISSION_RATE = 0.15;
+
+export interface CommissionRule {
+  id: string;
+  rule_key: string;
+  version: number;
+  name: string;
+  category_id: string | null;
+  mechanic_tier: MechanicTier | null;
+  rate: number;
+  min_fee: number | null;
+  max_fee: number | null;
+  priority: number;
+  starts_at: string | null;
+  ends_at: string | null;
+  is_active: boolean;
+  superseded_at: string | null;
+}
+
+export interface CommissionCharge {
+  rule_id: string | null;
+  rate: number;
+  amount: number;
+}
+
+export interface CommissionRuleInput {
+  name: string;
+  category_id: string | null;
+  mechanic_tier: MechanicTier | null;
+  rate: number;
+  min_fee: number | null;
+  max_fee: number | null;
+  priority: number;
+  starts_at: string | null;
+  ends_at: string | null;
+}
+
+const roundMoney = (value: number) => Math.round(value * 100) / 100;
+
+const parseOptionalAmount = (value: unknown, field: string): number | null => {
+  if (value === undefined || value === null || value === '') {
+    return null;
+  }
+
+  const amount = parseFloat(value as string);
+  if (isNaN(amount) || amount < 0) {
+    throw new CustomError(`${field} cannot be negative`, 400);
+  }
+
+  return roundMoney(amount);
+};
+
+const parseOptionalDate = (value: unknown, field: string): string | null => {
+  if (value === undefined || value === null || value === '') {
+    return null;
+  }
+
+  const date = new Date(value as string);
+  if (isNaN(date.getTime())) {
+    throw new CustomError(`${field} must be a valid date`, 400);
+  }
+
+  return date.toISOString();
+};
+
+/**
+ * Validate a rule from a request body. Category and tier left empty match any job.
+ */
+export const parseCommissionRuleInput = (body: unknown): CommissionRuleInput => {
+  const fields: Record<string, unknown> = body && typeof body === 'object' ? { ...body } : {};
+  const name = typeof fields.name === 'string' ? fields.name.trim() : '';
+  const rate = parseFloat(fields.rate as string);
+  const priority = fields.priority === undefined ? 0 : parseInt(fields.priority as string);
+  const categoryId = fields.category_id || null;
+  const mechanicTier = (fields.mechanic_tier || null) as MechanicTier | null;
+
+  if (!name || name.length > 100) {
+    throw new CustomError('Name is required (100 characters max)', 400);
+  }
+
+  if (isNaN(rate) || rate < 0 || rate > 1) {
+    throw new CustomError('Rate must be between 0 and 1', 400);
+  }
+
+  if (categoryId !== null && typeof categoryId !== 'string') {
+    throw new CustomError('Category must be a category id', 400);
+  }
+
+  if (mechanicTier && !MECHANIC_TIERS.includes(mechanicTier)) {
+    throw new CustomError(`Mechanic tier must be one of ${MECHANIC_TIERS.join(', ')}`, 400);
+  }
+
+  if (isNaN(priority)) {
+    throw new CustomError('Priority must be a whole number', 400);
+  }
+
+  const minFee = parseOptionalAmount(fields.min_fee, 'Minimum fee');
+  const maxFee = parseOptionalAmount(fields.max_fee, 'Maximum fee');
+  const startsAt = parseOptionalDate(fields.starts_at, 'Start date');
+  const endsAt = parseOptionalDate(fields.ends_at, 'End date');
+
+  if (minFee !== null && maxFee !== null && minFee > maxFee) {
+    throw new CustomError('Minimum fee cannot be more than the maximum fee', 400);
+  }
+
+  if (startsAt && endsAt && startsAt >= endsAt) {
+    throw new CustomError('End date must be after the start date', 400);
+  }
+
+  return {
+    name,
+    category_id: categoryId,
+    mechanic_tier: mechanicTier,
+    rate,
+    min_fee: minFee,
+    max_fee: maxFee,
+    priority,
+    starts_at: startsAt,
+    ends_at: endsAt,
+  };
+};
+
+/**
+ * Current version of every rule. Pass includeHistory for superseded and retired versions too.
+ */
+export const listCommissionRules = async (includeHistory = false): Promise<CommissionRule[]> => {
+  let query = supabaseAdmin
+    .from('commission_rules')
+    .select('*')
+    .order('priority', { ascending: false })
+    .order('version', { ascending: false });
+
+  if (!includeHistory) {
+    query = query.eq('is_active', true).is('superseded_at', null);
+  }
+
+  const { data: rules, error } = await query;
+
+  if (error) {
+    throw new CustomError('Failed to fetch commission rules', 500);
+  }
+
+  return (rules || []) as CommissionRule[];
+};
+
+const getCurrentRule = async (id: string): Promise<CommissionRule> => {
+  const { data: rule, error } = await supabaseAdmin
+    .from('commission_rules')
+    .select('*')
+    .eq('id', id)
+    .maybeSingle();
+
+  if (error) {
+    throw new CustomError('Failed to fetch commission rule', 500);
+  }
+
+  if (!rule) {
+    throw new CustomError('Commission rule not found', 404);
+  }
+
+  if (rule.superseded_at || !rule.is_active) {
+    throw new CustomError('Only the current version of an active rule can be changed', 409);
+  }
+
+  return rule as CommissionRule;
+};
+
+export const createCommissionRule = async (input: CommissionRuleInput, adminId: string) => {
+  const { data: rule, error } = await supabaseAdmin
+    .from('commission_rules')
+    .insert({ ...input, version: 1, created_by: adminId })
+    .select()
+    .single();
+
+  if (error) {
+    throw new CustomError('Failed to create commission rule', 500);
+  }
+
+  return rule as CommissionRule;
+};
+
+/**
+ * Rules are never edited in place: a change adds the next version and supersedes
+ * the current one, so jobs keep pointing at the version they were charged under.
+ */
+export const reviseCommissionRule = async (
+  id: string,
+  input: CommissionRuleInput,
+  adminId: string
+) => {
+  const current = await getCurrentRule(id);
+
+  const { data: superseded, error: supersedeError } = await supabaseAdmin
+    .from('commission_rules')
+    .update({ superseded_at: new Date().toISOString() })
+    .eq('id', current.id)
+    .is('superseded_at', null)
+    .select('id')
+    .maybeSingle();
+
+  if (supersedeError) {
+    throw new CustomError('Failed to update commission rule', 500);
+  }
+
+  if (!superseded) {
+    throw new CustomError('The rule was changed meanwhile, please refresh', 409);
+  }
+
+  const { data: rule, error } = await supabaseAdmin
+    .from('commission_rules')
+    .insert({
+      ...input,
+      rule_key: current.rule_key,
+      version: current.version + 1,
+      created_by: adminId,
+    })
+    .select()
+    .single();
+
+  if (error) {
+    throw new CustomError('Failed to update commission rule', 500);
+  }
+
+  return rule as CommissionRule;
+};
+
+export const retireCommissionRule = async (id: string) => {
+  const current = await getCurrentRule(id);
+
+  const { data: rule, error } = await supabaseAdmin
+    .from('commission_rules')
+    .update({ is_active: false })
+    .eq('id', current.id)
+    .select()
+    .single();
+
+  if (error) {
+    throw new CustomError('Failed to retire commission rule', 500);
+  }
+
+  return rule as CommissionRule;
+};
+
+const specificity = (rule: CommissionRule) =>
+  (rule.category_id ? 1 : 0) + (rule.mechanic_tier ? 1 : 0);
+
+/**
+ * Pick the rule for a job: the highest priority among rules that match its category,
+ * the mechanic's tier and the date, then the most specific, then the newest.
+ */
+export const findCommissionRule = async (job: {
+  category_id: string | null;
+  mechanic_tier: MechanicTier | null;
+  at: Date;
+}): Promise<CommissionRule | null> => {
+  const rules = await listCommissionRules();
+  const at = job.at.getTime();
+
+  const matching = rules.filter(
+    (rule) =>
+      (!rule.category_id || rule.category_id === job.category_id) &&
+      (!rule.mechanic_tier || rule.mechanic_tier === job.mechanic_tier) &&
+      (!rule.starts_at || new Date(rule.starts_at).getTime() <= at) &&
+      (!rule.ends_at || new Date(rule.ends_at).getTime() > at)
+  );
+
+  matching.sort(
+    (a, b) =>
+      b.priority - a.priority ||
+      specificity(b) - specificity(a) ||
+      b.version - a.version
+  );
+
+  return matching[0] || null;
+};
+
+/**
+ * The commission on a job's labour under a rule (or the default rate), kept within
+ * the rule's minimum and maximum fee and never more than the labour itself.
+ */
+export const calculateCommission = (
+  laborCost: number,
+  rule: CommissionRule | null
+): CommissionCharge => {
+  const rate = rule ? Number(rule.rate) : DEFAULT_COMMISSION_RATE;
+
+  if (laborCost <= 0) {
+    return { rule_id: rule?.id || null, rate, amount: 0 };
+  }
+
+  let amount = laborCost * rate;
+
+  if (rule?.min_fee !== null && rule?.min_fee !== undefined) {
+    amount = Math.max(amount, Number(rule.min_fee));
+  }
+
+  if (rule?.max_fee !== null && rule?.max_fee !== undefined) {
+    amount = Math.min(amount, Number(rule.max_fee));
+  }
+
+  return {
+    rule_id: rule?.id || null,
+    rate,
+    amount: roundMoney(Math.min(amount, laborCost)),
+  };
+};
+
+/**
+ * Work out the commission for a completed job from the rules in force when it completed
+ */
+export const quoteJobCommission = async (serviceRequest: {
+  mechanic_id: string;
+  category_id: string | null;
+  labor_cost: number | string | null;
+  completed_at?: string | null;
+}): Promise<CommissionCharge> => {
+  const { data: profile } = await supabaseAdmin
+    .from('mechanic_profiles')
+    .select('tier')
+    .eq('user_id', serviceRequest.mechanic_id)
+    .maybeSingle();
+
+  const rule = await findCommissionRule({
+    category_id: serviceRequest.category_id,
+    mechanic_tier: profile?.tier || null,
+    at: serviceRequest.completed_at ? new Date(serviceRequest.completed_at) : new Date(),
+  });
+
+  return calculateCommission(Number(serviceRequest.labor_cost) || 0, rule);
+};
@@ -0,0 +1,338 @@
+import { supabaseAdmin } from '../config/supabase';
+import { CustomError } from '../middleware/errorHandler';
+import { PLATFORM_ACCOUNTS, postLedgerTransaction, walletAccount } from './ledgerService';
+import {
+  getPaymentGateway,
+  PAYMENT_CHANNELS,
+  PaymentChannel,
+  PaymentWebhookEvent,
+} from './paymentGatewayService';
+
+export const MIN_TOP_UP = 100;
+export const MAX_TOP_UP = 500000;
+export const MAX_PROMO_CREDIT = 50000;
+
+export type TopUpStatus = 'pending' | 'paid' | 'failed' | 'cancelled';
+
+// Mechanics pay off commission owed on cash jobs through the same checkout
+export type TopUpPurpose = 'top_up' | 'debt_settlement';
+
+export interface WalletTopUp {
+  id: string;
+  user_id: string;
+  amount: number;
+  status: TopUpStatus;
+  purpose: TopUpPurpose;
+  channel: PaymentChannel;
+  gateway: string;
+  gateway_reference: string | null;
+  authorization_url: string | null;
+}
+
+// What a customer's wallet money can be spent on
+export type WalletSpendReference = 'service_request' | 'product_order';
+
+const roundMoney = (value: number) => Math.round(value * 100) / 100;
+
+export const getTopUp = async (userId: string, topUpId: string): Promise<WalletTopUp> => {
+  const { data: topUp, error } = await supabaseAdmin
+    .from('wallet_topups')
+    .select('*')
+    .eq('id', topUpId)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) {
+    throw new CustomError('Failed to fetch top-up', 500);
+  }
+
+  if (!topUp) {
+    throw new CustomError('Top-up not found', 404);
+  }
+
+  return topUp as WalletTopUp;
+};
+
+/**
+ * Open a gateway checkout that credits the wallet once paid. Callers check the amount.
+ */
+export const startTopUp = async (
+  userId: string,
+  email: string,
+  amount: number,
+  channel: PaymentChannel,
+  purpose: TopUpPurpose
+) => {
+  if (!PAYMENT_CHANNELS.includes(channel)) {
+    throw new CustomError(`Channel must be one of ${PAYMENT_CHANNELS.join(', ')}`, 400);
+  }
+
+  const gateway = getPaymentGateway();
+
+  const { data: topUp, error } = await supabaseAdmin
+    .from('wallet_topups')
+    .insert({
+      user_id: userId,
+      amount: roundMoney(amount),
+      status: 'pending',
+      purpose,
+      channel,
+      gateway: gateway.name,
+    })
+    .select()
+    .single();
+
+  if (error) {
+    throw new CustomError('Failed to start top-up', 500);
+  }
+
+  let checkout;
+  try {
+    checkout = await gateway.initialize({
+      reference: topUp.id,
+      amount: roundMoney(amount),
+      email,
+      channel,
+    });
+  } catch (gatewayError) {
+    console.error('Error initializing top-up:', gatewayError);
+    await supabaseAdmin.from('wallet_topups').update({ status: 'failed' }).eq('id', topUp.id);
+    throw new CustomError('Top-up could not be started, please try again', 502);
+  }
+
+  const { data: started, error: updateError } = await supabaseAdmin
+    .from('wallet_topups')
+    .update({
+      gateway_reference: checkout.gateway_reference,
+      authorization_url: checkout.authorization_url,
+    })
+    .eq('id', topUp.id)
+    .select()
+    .single();
+
+  if (updateError) {
+    throw new CustomError('Failed to start top-up', 500);
+  }
+
+  return started as WalletTopUp;
+};
+
+/**
+ * Start adding money to a customer's wallet through the payment gateway
+ */
+export const createTopUp = async (
+  userId: string,
+  email: string,
+  amount: number,
+  channel: PaymentChannel
+) => {
+  if (amount < MIN_TOP_UP || amount > MAX_TOP_UP) {
+    throw new CustomError(`Top-ups must be between ₦${MIN_TOP_UP} and ₦${MAX_TOP_UP}`, 400);
+  }
+
+  return startTopUp(userId, email, amount, channel, 'top_up');
+};
+
+/**
+ * Credit a successful top-up to the wallet. Returns null if it was already credited.
+ */
+const postTopUpCredit = (topUp: WalletTopUp, amount: number) => {
+  const settlesDebt = topUp.purpose === 'debt_settlement';
+
+  return postLedgerTransaction({
+    kind: settlesDebt ? 'debt_settlement' : 'wallet_topup',
+    idempotencyKey: `wallet_topup:${topUp.id}`,
+    description: settlesDebt ? 'Commission owed paid' : 'Wallet top-up',
+    referenceType: 'topup',
+    referenceId: topUp.id,
+    entries: [
+      { account: PLATFORM_ACCOUNTS.gatewayClearing, amount: -amount },
+      { account: walletAccount(topUp.user_id), amount },
+    ],
+    activity: { transaction_type: settlesDebt ? 'debt_settlement' : 'top_up' },
+  });
+};
+
+const creditTopUp = async (topUp: WalletTopUp, paidAmount: number) => {
+  const { data: paid, error } = await supabaseAdmin
+    .from('wallet_topups')
+    .update({
+      status: 'paid',
+      amount: roundMoney(paidAmount),
+      paid_at: new Date().toISOString(),
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', topUp.id)
+    .eq('status', 'pending')
+    .select()
+    .maybeSingle();
+
+  if (error) {
+    throw new CustomError('Failed to update top-up', 500);
+  }
+
+  if (!paid) {
+    // Finish an earlier attempt that stopped before the ledger; a no-op if it didn't
+    const { data: current } = await supabaseAdmin
+      .from('wallet_topups')
+      .select('status, amount')
+      .eq('id', topUp.id)
+      .single();
+
+    if (current?.status === 'paid') {
+      await postTopUpCredit(topUp, Number(current.amount));
+    }
+    return null;
+  }
+
+  await postTopUpCredit(topUp, paidAmount);
+
+  return paid as WalletTopUp;
+};
+
+const failTopUp = async (topUp: WalletTopUp) => {
+  const { data: failed } = await supabaseAdmin
+    .from('wallet_topups')
+    .update({ status: 'failed', updated_at: new Date().toISOString() })
+    .eq('id', topUp.id)
+    .eq('status', 'pending')
+    .select()
+    .maybeSingle();
+
+  return failed as WalletTopUp | null;
+};
+
+/**
+ * Ask the gateway how a top-up went, after the customer returns from checkout
+ */
+export const confirmTopUp = async (topUp: WalletTopUp): Promise<WalletTopUp> => {
+  if (topUp.status !== 'pending') {
+    return topUp;
+  }
+
+  const gateway = getPaymentGateway();
+
+  let result;
+  try {
+    result = await gateway.verify(topUp.gateway_reference || topUp.id);
+  } catch (gatewayError) {
+    console.error('Error verifying top-up:', gatewayError);
+    throw new CustomError('Could not check the top-up, please try again', 502);
+  }
+
+  if (result.status === 'success') {
+    await creditTopUp(topUp, result.amount);
+  } else if (result.status === 'failed') {
+    await failTopUp(topUp);
+  }
+
+  return getTopUp(topUp.user_id, topUp.id);
+};
+
+/**
+ * Apply a gateway charge event to the matching top-up. Returns null if the
+ * reference isn't a top-up.
+ */
+export const applyTopUpWebhookEvent = async (gatewayName: string, event: PaymentWebhookEvent) => {
+  const { data: topUp } = await supabaseAdmin
+    .from('wallet_topups')
+    .select('*')
+    .eq('gateway', gatewayName)
+    .eq('gateway_reference', event.reference)
+    .maybeSingle();
+
+  if (!topUp) {
+    return null;
+  }
+
+  const updated =
+    event.status === 'success'
+      ? await creditTopUp(topUp as WalletTopUp, event.amount)
+      : await failTopUp(topUp as WalletTopUp);
+
+  return { topUp: topUp as WalletTopUp, handled: Boolean(updated) };
+};
+
+/**
+ * Pay for something from a customer's wallet. Throws 400 if the balance is too low;
+ * the same key never charges twice.
+ */
+export const spendFromWallet = async (input: {
+  userId: string;
+  amount: number;
+  // Platform account the money moves to (escrow for jobs)
+  account: string;
+  referenceType: WalletSpendReference;
+  referenceId: string;
+  idempotencyKey: string;
+  description: string;
+}) => {
+  try {
+    return await postLedgerTransaction({
+      kind: 'wallet_payment',
+      idempotencyKey: input.idempotencyKey,
+      description: input.description,
+      referenceType: input.referenceType,
+      referenceId: input.referenceId,
+      entries: [
+        { account: walletAccount(input.userId), amount: -input.amount },
+        { account: input.account, amount: input.amount },
+      ],
+    });
+  } catch (error) {
+    if (error instanceof CustomError && error.statusCode === 400) {
+      throw new CustomError('Your wallet balance is too low, please top up first', 400);
+    }
+    throw error;
+  }
+};
+
+/**
+ * Give a customer wallet credit from the platform (promotions, goodwill). The key
+ * stops the same grant from being credited twice.
+ */
+export const grantPromoCredit = async (
+  userId: string,
+  amount: number,
+  reason: string,
+  grantKey: string
+) => {
+  if (amount <= 0 || amount > MAX_PROMO_CREDIT) {
+    throw new CustomError(`Credit must be between ₦0 and ₦${MAX_PROMO_CREDIT}`, 400);
+  }
+
+  const { data: customer, error } = await supabaseAdmin
+    .from('users')
+    .select('id, user_type')
+    .eq('id', userId)
+    .single();
+
+  if (error || !customer) {
+    throw new CustomError('Customer not found', 404);
+  }
+
+  if (customer.user_type !== 'customer') {
+    throw new CustomError('Credit can only be given to customers', 400);
+  }
+
+  const posting = await postLedgerTransaction({
+    kind: 'promo_credit',
+    idempotencyKey: `promo_credit:${userId}:${grantKey}`,
+    description: reason,
+    entries: [
+      { account: PLATFORM_ACCOUNTS.promotions, amount: -amount },
+      { account: walletAccount(userId), amount },
+    ],
+  });
+
+  if (posting.created) {
+    await supabaseAdmin.from('notifications').insert({
+      user_id: userId,
+      title: 'Wallet Credit',
+      body: `₦${amount.toFixed(2)} has been added to your wallet: ${reason}`,
+      type: 'wallet',
+    });
+  }
+
+  return posting;
+};
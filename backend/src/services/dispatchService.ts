@@ -0,0 +1,468 @@
+import { supabaseAdmin } from '../config/supabase';
+import { CustomError } from '../middleware/errorHandler';
+import { findNearbyMechanics, NearbyMechanic } from './mechanicSearchService';
+import {
+  SYSTEM_ACTOR,
+  transitionServiceRequest,
+  tryTransition,
+} from './serviceRequestStateMachine';
+
+// Number of mechanics offered the job at once
+export const DISPATCH_WAVE_SIZE = 3;
+// Search radius for broadcast requests (km)
+export const DISPATCH_RADIUS_KM = 15;
+// How long a mechanic has to respond to an offer (matches the app countdown)
+export const OFFER_TTL_SECONDS = 60;
+// How often unanswered offers are checked for expiry
+export const OFFER_EXPIRY_CHECK_INTERVAL_MS = 15000;
+// Pending requests older than this are expired outright
+export const MAX_PENDING_MINUTES = 30;
+
+export type OfferStatus = 'offered' | 'accepted' | 'declined' | 'withdrawn' | 'expired';
+
+export interface DispatchableRequest {
+  id: string;
+  customer_id: string;
+  mechanic_id?: string | null;
+  category_id: string;
+  customer_location_lat: number;
+  customer_location_lng: number;
+  status: string;
+  dispatch_mode: 'direct' | 'broadcast';
+  dispatch_wave: number;
+}
+
+const offerExpiry = (): string =>
+  new Date(Date.now() + OFFER_TTL_SECONDS * 1000).toISOString();
+
+/**
+ * Mechanic user ids that have already been offered this request in any wave,
+ * including those who declined or let the offer expire
+ */
+const getOfferedMechanicIds = async (serviceRequestId: string): Promise<string[]> => {
+  const { data: offers } = await supabaseAdmin
+    .from('service_request_offers')
+    .select('mechanic_id')
+    .eq('service_request_id', serviceRequestId);
+
+  return (offers || []).map((offer) => offer.mechanic_id);
+};
+
+/**
+ * Find the best-ranked available mechanics for a request's category and location
+ */
+export const findDispatchCandidates = async (
+  categoryId: string,
+  location: { lat: number; lng: number },
+  excludeUserIds: string[] = [],
+  limit: number = DISPATCH_WAVE_SIZE
+): Promise<NearbyMechanic[]> => {
+  const { data: category } = await supabaseAdmin
+    .from('service_categories')
+    .select('name')
+    .eq('id', categoryId)
+    .single();
+
+  const { mechanics: candidates } = await findNearbyMechanics({
+    latitude: location.lat,
+    longitude: location.lng,
+    radiusKm: DISPATCH_RADIUS_KM,
+    specializations: category?.name ? [category.name] : [],
+    excludeUserIds,
+    limit,
+  });
+
+  return candidates;
+};
+
+/**
+ * Start the response timer for a mechanic the customer picked directly
+ */
+export const openDirectOffer = async (serviceRequest: DispatchableRequest): Promise<void> => {
+  await supabaseAdmin
+    .from('service_requests')
+    .update({ dispatch_wave: 1 })
+    .eq('id', serviceRequest.id);
+
+  const { error: offerError } = await supabaseAdmin.from('service_request_offers').insert({
+    service_request_id: serviceRequest.id,
+    mechanic_id: serviceRequest.mechanic_id,
+    wave: 1,
+    status: 'offered',
+    expires_at: offerExpiry(),
+  });
+
+  if (offerError) {
+    throw new CustomError('Failed to dispatch service request', 500);
+  }
+};
+
+/**
+ * Offer the request to the given mechanics as the next wave. Direct requests
+ * are handed to a single mechanic at a time and reassigned to them.
+ * The wave counter is advanced conditionally so concurrent declines cannot
+ * open the same wave twice. Returns the number of offers created.
+ */
+export const offerWave = async (
+  serviceRequest: DispatchableRequest,
+  candidates: NearbyMechanic[]
+): Promise<number> => {
+  const isDirect = serviceRequest.dispatch_mode !== 'broadcast';
+  const offered = isDirect ? candidates.slice(0, 1) : candidates;
+
+  if (offered.length === 0) {
+    return 0;
+  }
+
+  const wave = serviceRequest.dispatch_wave + 1;
+
+  const { data: claimed } = await supabaseAdmin
+    .from('service_requests')
+    .update({
+      dispatch_wave: wave,
+      ...(isDirect ? { mechanic_id: offered[0].user_id } : {}),
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', serviceRequest.id)
+    .eq('dispatch_wave', serviceRequest.dispatch_wave)
+    .eq('status', 'pending')
+    .select('id');
+
+  if (!claimed || claimed.length === 0) {
+    return 0;
+  }
+
+  const expiresAt = offerExpiry();
+
+  const { error: offerError } = await supabaseAdmin.from('service_request_offers').insert(
+    offered.map((candidate) => ({
+      service_request_id: serviceRequest.id,
+      mechanic_id: candidate.user_id,
+      wave,
+      distance_km: candidate.distance,
+      status: 'offered',
+      expires_at: expiresAt,
+    }))
+  );
+
+  if (offerError) {
+    throw new CustomError('Failed to dispatch service request', 500);
+  }
+
+  await supabaseAdmin.from('notifications').insert(
+    offered.map((candidate) => ({
+      user_id: candidate.user_id,
+      title: isDirect ? 'New Service Request' : 'New Job Nearby',
+      body: `A customer ${candidate.distance} km away needs a mechanic`,
+      type: 'service_request',
+      reference_id: serviceRequest.id,
+    }))
+  );
+
+  return offered.length;
+};
+
+/**
+ * Cancel a pending request once every candidate has declined or timed out.
+ * Conditional on the wave so a concurrent reassignment wins.
+ */
+const cancelForNoMechanic = async (serviceRequest: DispatchableRequest): Promise<void> => {
+  const cancelled = await tryTransition(serviceRequest, 'cancelled', SYSTEM_ACTOR, {
+    updates: { cancellation_reason: 'no_mechanic_available' },
+    expected: { dispatch_wave: serviceRequest.dispatch_wave },
+    reason: 'no_mechanic_available',
+  });
+
+  if (cancelled) {
+    await supabaseAdmin.from('notifications').insert({
+      user_id: serviceRequest.customer_id,
+      title: 'No Mechanic Available',
+      body: 'No nearby mechanic was able to take your request. Please try again shortly.',
+      type: 'service_request',
+      reference_id: serviceRequest.id,
+    });
+  }
+};
+
+/**
+ * Move a pending request on to mechanics that have not seen it yet, or cancel
+ * it with a reason when there are none left
+ */
+export const reassignRequest = async (serviceRequest: DispatchableRequest): Promise<void> => {
+  const alreadyOffered = await getOfferedMechanicIds(serviceRequest.id);
+
+  const candidates = await findDispatchCandidates(
+    serviceRequest.category_id,
+    {
+      lat: serviceRequest.customer_location_lat,
+      lng: serviceRequest.customer_location_lng,
+    },
+    alreadyOffered,
+    serviceRequest.dispatch_mode === 'broadcast' ? DISPATCH_WAVE_SIZE : 1
+  );
+
+  if (candidates.length === 0) {
+    await cancelForNoMechanic(serviceRequest);
+    return;
+  }
+
+  await offerWave(serviceRequest, candidates);
+};
+
+const countOpenOffers = async (serviceRequestId: string): Promise<number> => {
+  const { count } = await supabaseAdmin
+    .from('service_request_offers')
+    .select('id', { count: 'exact', head: true })
+    .eq('service_request_id', serviceRequestId)
+    .eq('status', 'offered');
+
+  return count || 0;
+};
+
+/**
+ * Get the mechanic's live offer for a request, if any. Offers past their expiry
+ * count as gone even before the expiry job marks them.
+ */
+export const getOpenOffer = async (serviceRequestId: string, mechanicId: string) => {
+  const { data: offer } = await supabaseAdmin
+    .from('service_request_offers')
+    .select('*')
+    .eq('service_request_id', serviceRequestId)
+    .eq('mechanic_id', mechanicId)
+    .eq('status', 'offered')
+    .gt('expires_at', new Date().toISOString())
+    .maybeSingle();
+
+  return offer;
+};
+
+/**
+ * Withdraw every outstanding offer for a request, e.g. once it has been taken
+ * or cancelled. Mechanics see the status change over Realtime.
+ */
+export const withdrawOpenOffers = async (serviceRequestId: string): Promise<void> => {
+  await supabaseAdmin
+    .from('service_request_offers')
+    .update({ status: 'withdrawn', responded_at: new Date().toISOString() })
+    .eq('service_request_id', serviceRequestId)
+    .eq('status', 'offered');
+};
+
+/**
+ * Assign a broadcast request to the first mechanic to accept their offer.
+ * Throws 409 if another mechanic got there first.
+ */
+export const claimBroadcastRequest = async (
+  serviceRequest: DispatchableRequest,
+  mechanicId: string
+) => {
+  const offer = await getOpenOffer(serviceRequest.id, mechanicId);
+
+  if (!offer) {
+    throw new CustomError('This job is no longer available', 409);
+  }
+
+  // Take the offer first, and only while it is unexpired, so one that runs out
+  // between reading it and accepting can't be used
+  const now = new Date().toISOString();
+  const { data: accepted } = await supabaseAdmin
+    .from('service_request_offers')
+    .update({ status: 'accepted', responded_at: now })
+    .eq('id', offer.id)
+    .eq('status', 'offered')
+    .gt('expires_at', now)
+    .select('id')
+    .maybeSingle();
+
+  if (!accepted) {
+    throw new CustomError('This job is no longer available', 409);
+  }
+
+  // Only succeeds while the request is still unassigned; the winner withdraws
+  // every other open offer below
+  let claimed;
+  try {
+    claimed = await transitionServiceRequest(
+      serviceRequest,
+      'accepted',
+      { id: mechanicId, type: 'mechanic' },
+      {
+        updates: { mechanic_id: mechanicId },
+        expected: { mechanic_id: null },
+        metadata: { wave: offer.wave },
+      },
+      'Another mechanic has already accepted this job'
+    );
+  } catch (error) {
+    await supabaseAdmin
+      .from('service_request_offers')
+      .update({ status: 'withdrawn' })
+      .eq('id', offer.id);
+    throw error;
+  }
+
+  await withdrawOpenOffers(serviceRequest.id);
+
+  return claimed;
+};
+
+/**
+ * Accept a request the mechanic was directly assigned. Throws 409 if the offer
+ * timed out and the job has already moved on.
+ */
+export const claimDirectRequest = async (
+  serviceRequest: DispatchableRequest,
+  mechanicId: string
+) => {
+  const claimed = await transitionServiceRequest(
+    serviceRequest,
+    'accepted',
+    { id: mechanicId, type: 'mechanic' },
+    { expected: { mechanic_id: mechanicId } },
+    'This job is no longer available'
+  );
+
+  await supabaseAdmin
+    .from('service_request_offers')
+    .update({ status: 'accepted', responded_at: new Date().toISOString() })
+    .eq('service_request_id', serviceRequest.id)
+    .eq('mechanic_id', mechanicId)
+    .eq('status', 'offered');
+
+  return claimed;
+};
+
+/**
+ * Record a mechanic declining their offer. Once nobody is left to answer the
+ * current wave, the request is reassigned to the next candidates.
+ */
+export const declineOffer = async (
+  serviceRequest: DispatchableRequest,
+  mechanicId: string
+): Promise<void> => {
+  const now = new Date().toISOString();
+
+  const { data: declined } = await supabaseAdmin
+    .from('service_request_offers')
+    .update({ status: 'declined', responded_at: now })
+    .eq('service_request_id', serviceRequest.id)
+    .eq('mechanic_id', mechanicId)
+    .eq('status', 'offered')
+    .select('id');
+
+  if (!declined || declined.length === 0) {
+    // Requests assigned before offers were tracked have no offer row
+    const isAssigned =
+      serviceRequest.dispatch_mode !== 'broadcast' &&
+      serviceRequest.mechanic_id === mechanicId &&
+      serviceRequest.status === 'pending';
+
+    if (!isAssigned) {
+      throw new CustomError('This job is no longer available', 409);
+    }
+
+    await supabaseAdmin.from('service_request_offers').insert({
+      service_request_id: serviceRequest.id,
+      mechanic_id: mechanicId,
+      wave: serviceRequest.dispatch_wave,
+      status: 'declined',
+      expires_at: now,
+      responded_at: now,
+    });
+  }
+
+  if ((await countOpenOffers(serviceRequest.id)) > 0) {
+    return;
+  }
+
+  await reassignRequest(serviceRequest);
+};
+
+/**
+ * Expire offers nobody answered in time and reassign the affected requests
+ */
+export const expireStaleOffers = async (): Promise<void> => {
+  const now = new Date().toISOString();
+
+  const { data: expired, error } = await supabaseAdmin
+    .from('service_request_offers')
+    .update({ status: 'expired', responded_at: now })
+    .eq('status', 'offered')
+    .lt('expires_at', now)
+    .select('service_request_id');
+
+  if (error || !expired || expired.length === 0) {
+    return;
+  }
+
+  const requestIds = [...new Set(expired.map((offer) => offer.service_request_id))];
+
+  for (const requestId of requestIds) {
+    const { data: serviceRequest } = await supabaseAdmin
+      .from('service_requests')
+      .select('*')
+      .eq('id', requestId)
+      .single();
+
+    if (!serviceRequest || serviceRequest.status !== 'pending') {
+      continue;
+    }
+
+    if ((await countOpenOffers(requestId)) > 0) {
+      continue;
+    }
+
+    await reassignRequest(serviceRequest);
+  }
+};
+
+/**
+ * Expire requests left pending far longer than any dispatch round should take,
+ * e.g. ones created before offers were tracked
+ */
+export const expireStalePendingRequests = async (): Promise<void> => {
+  const cutoff = new Date(Date.now() - MAX_PENDING_MINUTES * 60 * 1000).toISOString();
+
+  const { data: staleRequests, error } = await supabaseAdmin
+    .from('service_requests')
+    .select('id, status, customer_id')
+    .eq('status', 'pending')
+    .lt('created_at', cutoff);
+
+  if (error || !staleRequests) {
+    return;
+  }
+
+  for (const serviceRequest of staleRequests) {
+    const expired = await tryTransition(serviceRequest, 'expired', SYSTEM_ACTOR, {
+      reason: 'pending_timeout',
+    });
+
+    if (!expired) {
+      continue;
+    }
+
+    await withdrawOpenOffers(serviceRequest.id);
+
+    await supabaseAdmin.from('notifications').insert({
+      user_id: serviceRequest.customer_id,
+      title: 'Request Expired',
+      body: 'Your service request expired before a mechanic could take it. Please try again.',
+      type: 'service_request',
+      reference_id: serviceRequest.id,
+    });
+  }
+};
+
+/**
+ * Periodically expire unanswered offers and stale requests so pending
+ * requests never stall
+ */
+export const startOfferExpiryJob = (): NodeJS.Timeout =>
+  setInterval(() => {
+    expireStaleOffers()
+      .then(() => expireStalePendingRequests())
+      .catch((error) => {
+        console.error('Error expiring service request offers:', error);
+      });
+  }, OFFER_EXPIRY_CHECK_INTERVAL_MS);
@@ -0,0 +1,496 @@
+import { supabaseAdmin } from '../config/supabase';
+import { CustomError } from '../middleware/errorHandler';
+import { uploadFile } from './storageService';
+import { getApprovedQuote } from './quoteService';
+import { getEscrowSummary, PaymentMethod, refundEscrow } from './paymentService';
+import { settleCompletedJob } from './settlementService';
+import {
+  ServiceRequestStatus,
+  TransitionActor,
+  recordServiceRequestEvent,
+  transitionServiceRequest,
+} from './serviceRequestStateMachine';
+
+export type DisputeReason =
+  | 'work_not_done'
+  | 'poor_quality'
+  | 'overcharged'
+  | 'customer_unresponsive'
+  | 'payment_issue'
+  | 'other';
+
+export type DisputeStatus = 'open' | 'resolved';
+
+// refund: cancel and hand back what was paid; release: complete at the agreed price;
+// adjust: complete at a price the admin sets (any excess paid is refunded)
+export type DisputeOutcome = 'refund' | 'release' | 'adjust';
+
+export const DISPUTE_REASONS: DisputeReason[] = [
+  'work_not_done',
+  'poor_quality',
+  'overcharged',
+  'customer_unresponsive',
+  'payment_issue',
+  'other',
+];
+
+export const DISPUTE_OUTCOMES: DisputeOutcome[] = ['refund', 'release', 'adjust'];
+
+export const DISPUTE_MESSAGE_MAX_LENGTH = 1000;
+export const MAX_EVIDENCE_PHOTOS = 5;
+
+export interface EvidencePhoto {
+  uri: string;
+  type?: string;
+  name?: string;
+}
+
+interface DisputedServiceRequest {
+  id: string;
+  customer_id: string;
+  mechanic_id: string | null;
+  status: string;
+}
+
+const roundMoney = (value: number) => Math.round(value * 100) / 100;
+
+const parseMessageBody = (value: unknown, required: boolean) => {
+  const body = typeof value === 'string' ? value.trim() : '';
+
+  if (required && !body) {
+    throw new CustomError('Please describe the problem', 400);
+  }
+
+  if (body.length > DISPUTE_MESSAGE_MAX_LENGTH) {
+    throw new CustomError(`Messages must be ${DISPUTE_MESSAGE_MAX_LENGTH} characters or fewer`, 400);
+  }
+
+  return body;
+};
+
+const parseEvidencePhotos = (value: unknown): EvidencePhoto[] => {
+  if (value === undefined || value === null) {
+    return [];
+  }
+
+  if (!Array.isArray(value) || value.some((photo) => !photo?.uri)) {
+    throw new CustomError('Photos must each have a uri', 400);
+  }
+
+  if (value.length > MAX_EVIDENCE_PHOTOS) {
+    throw new CustomError(`You can attach at most ${MAX_EVIDENCE_PHOTOS} photos`, 400);
+  }
+
+  return value;
+};
+
+const uploadEvidence = async (disputeId: string, photos: EvidencePhoto[]) => {
+  try {
+    return await Promise.all(
+      photos.map((photo) =>
+        uploadFile({
+          file: {
+            uri: photo.uri,
+            type: photo.type || 'image/jpeg',
+            name: photo.name || 'evidence.jpg',
+          },
+          bucket: 'dispute-evidence',
+          folder: disputeId,
+        })
+      )
+    );
+  } catch (uploadError: any) {
+    throw new CustomError(`File upload failed: ${uploadError.message}`, 500);
+  }
+};
+
+// Everyone on the request except whoever just acted
+const notifyParties = async (
+  serviceRequest: DisputedServiceRequest,
+  actorId: string | null,
+  title: string,
+  body: string
+) => {
+  const recipients = [serviceRequest.customer_id, serviceRequest.mechanic_id].filter(
+    (userId): userId is string => !!userId && userId !== actorId
+  );
+
+  if (recipients.length === 0) {
+    return;
+  }
+
+  await supabaseAdmin.from('notifications').insert(
+    recipients.map((userId) => ({
+      user_id: userId,
+      title,
+      body,
+      type: 'service_request',
+      reference_id: serviceRequest.id,
+    }))
+  );
+};
+
+const insertMessage = async (
+  disputeId: string,
+  sender: TransitionActor,
+  body: string,
+  photos: EvidencePhoto[]
+) => {
+  const photoUrls = await uploadEvidence(disputeId, photos);
+
+  const { data: message, error } = await supabaseAdmin
+    .from('dispute_messages')
+    .insert({
+      dispute_id: disputeId,
+      sender_id: sender.id,
+      sender_type: sender.type,
+      body: body || null,
+      photo_urls: photoUrls,
+    })
+    .select()
+    .single();
+
+  if (error || !message) {
+    throw new CustomError('Failed to save message', 500);
+  }
+
+  return message;
+};
+
+/**
+ * The request's most recent dispute with its messages, oldest first, or null
+ */
+export const getDispute = async (serviceRequestId: string) => {
+  const { data: dispute, error } = await supabaseAdmin
+    .from('service_request_disputes')
+    .select('*')
+    .eq('service_request_id', serviceRequestId)
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    throw new CustomError('Failed to fetch dispute', 500);
+  }
+
+  if (!dispute) {
+    return null;
+  }
+
+  const { data: messages, error: messagesError } = await supabaseAdmin
+    .from('dispute_messages')
+    .select('id, sender_id, sender_type, body, photo_urls, created_at')
+    .eq('dispute_id', dispute.id)
+    .order('created_at', { ascending: true });
+
+  if (messagesError) {
+    throw new CustomError('Failed to fetch dispute messages', 500);
+  }
+
+  return { ...dispute, messages: messages || [] };
+};
+
+const getOpenDispute = async (serviceRequestId: string) => {
+  const dispute = await getDispute(serviceRequestId);
+
+  if (!dispute || dispute.status !== 'open') {
+    throw new CustomError('This request has no open dispute', 409);
+  }
+
+  return dispute;
+};
+
+/**
+ * Disputes waiting for an admin (or all of them), oldest first
+ */
+export const listDisputes = async (status: DisputeStatus | null) => {
+  let query = supabaseAdmin
+    .from('service_request_disputes')
+    .select(`
+      *,
+      service_request:service_requests (
+        id,
+        status,
+        customer_id,
+        mechanic_id,
+        payment_method,
+        total_cost
+      )
+    `)
+    .order('created_at', { ascending: true });
+
+  if (status) {
+    query = query.eq('status', status);
+  }
+
+  const { data: disputes, error } = await query;
+
+  if (error) {
+    throw new CustomError('Failed to fetch disputes', 500);
+  }
+
+  return disputes || [];
+};
+
+/**
+ * Put a request on hold while an admin looks at what went wrong. Settlement only
+ * happens on completion, so nothing is paid out until the dispute is resolved.
+ */
+export const openDispute = async (
+  serviceRequest: DisputedServiceRequest,
+  actor: TransitionActor,
+  input: { reason: unknown; description: unknown; photos?: unknown }
+) => {
+  if (!DISPUTE_REASONS.includes(input.reason as DisputeReason)) {
+    throw new CustomError(`Reason must be one of ${DISPUTE_REASONS.join(', ')}`, 400);
+  }
+
+  const description = parseMessageBody(input.description, true);
+  const photos = parseEvidencePhotos(input.photos);
+
+  const { data: dispute, error } = await supabaseAdmin
+    .from('service_request_disputes')
+    .insert({
+      service_request_id: serviceRequest.id,
+      opened_by: actor.id,
+      opened_by_type: actor.type,
+      reason: input.reason,
+      previous_status: serviceRequest.status,
+      status: 'open',
+    })
+    .select()
+    .single();
+
+  if (error || !dispute) {
+    // The partial unique index allows one open dispute per request
+    if (error?.code === '23505') {
+      throw new CustomError('A dispute is already open for this request', 409);
+    }
+    throw new CustomError('Failed to open dispute', 500);
+  }
+
+  try {
+    await transitionServiceRequest(serviceRequest, 'disputed', actor, {
+      reason: description,
+      metadata: { dispute_id: dispute.id, dispute_reason: input.reason },
+    });
+  } catch (transitionError) {
+    await supabaseAdmin.from('service_request_disputes').delete().eq('id', dispute.id);
+    throw transitionError;
+  }
+
+  await insertMessage(dispute.id, actor, description, photos);
+
+  await notifyParties(
+    serviceRequest,
+    actor.id,
+    'Dispute Opened',
+    'A problem was reported on your service request. Our team will review it and payment is on hold until then.'
+  );
+
+  return getDispute(serviceRequest.id);
+};
+
+/**
+ * Add a message or more evidence to an open dispute
+ */
+export const addDisputeMessage = async (
+  serviceRequest: DisputedServiceRequest,
+  actor: TransitionActor,
+  input: { body: unknown; photos?: unknown }
+) => {
+  const body = parseMessageBody(input.body, false);
+  const photos = parseEvidencePhotos(input.photos);
+
+  if (!body && photos.length === 0) {
+    throw new CustomError('Add a message or a photo', 400);
+  }
+
+  const dispute = await getOpenDispute(serviceRequest.id);
+  const message = await insertMessage(dispute.id, actor, body, photos);
+
+  await recordServiceRequestEvent(
+    serviceRequest.id,
+    'disputed',
+    'disputed',
+    actor,
+    photos.length > 0 ? 'Evidence added to the dispute' : 'Message added to the dispute',
+    { dispute_id: dispute.id, message_id: message.id, photo_count: photos.length }
+  );
+
+  await notifyParties(
+    serviceRequest,
+    actor.id,
+    'New Dispute Message',
+    actor.type === 'admin'
+      ? 'Our team replied on your disputed service request'
+      : 'There is a new message on your disputed service request'
+  );
+
+  return message;
+};
+
+// Price the job is completed at: the admin's figures, or what the customer agreed to
+const resolveCosts = async (
+  serviceRequest: DisputedServiceRequest & {
+    material_cost?: number | string | null;
+    labor_cost?: number | string | null;
+  },
+  outcome: DisputeOutcome,
+  input: { material_cost?: unknown; labor_cost?: unknown }
+) => {
+  if (outcome === 'adjust') {
+    const materialCost = parseFloat(input.material_cost as string);
+    const laborCost = parseFloat(input.labor_cost as string);
+
+    if (isNaN(materialCost) || isNaN(laborCost) || materialCost < 0 || laborCost < 0) {
+      throw new CustomError('Material and labour costs are required and cannot be negative', 400);
+    }
+
+    return { material_cost: roundMoney(materialCost), labor_cost: roundMoney(laborCost) };
+  }
+
+  const approvedQuote = await getApprovedQuote(serviceRequest.id);
+
+  if (approvedQuote) {
+    return {
+      material_cost: Number(approvedQuote.material_cost),
+      labor_cost: Number(approvedQuote.labor_cost),
+    };
+  }
+
+  if (serviceRequest.labor_cost === null || serviceRequest.labor_cost === undefined) {
+    throw new CustomError('This job has no agreed price, adjust the costs instead', 409);
+  }
+
+  return {
+    material_cost: Number(serviceRequest.material_cost) || 0,
+    labor_cost: Number(serviceRequest.labor_cost),
+  };
+};
+
+/**
+ * Close a dispute. A refund cancels the job and hands back everything held; release
+ * and adjust complete it, which runs the normal settlement at the final price.
+ * The dispute is closed as soon as the job moves on, so if the money step fails it
+ * is retried through the admin refund or settle endpoint rather than by resolving again.
+ */
+export const resolveDispute = async (
+  serviceRequest: DisputedServiceRequest & {
+    payment_method: PaymentMethod;
+    material_cost?: number | string | null;
+    labor_cost?: number | string | null;
+  },
+  admin: TransitionActor,
+  input: {
+    outcome: unknown;
+    notes: unknown;
+    material_cost?: unknown;
+    labor_cost?: unknown;
+    refund_to_wallet?: unknown;
+  }
+) => {
+  const outcome = input.outcome as DisputeOutcome;
+
+  if (!DISPUTE_OUTCOMES.includes(outcome)) {
+    throw new CustomError(`Outcome must be one of ${DISPUTE_OUTCOMES.join(', ')}`, 400);
+  }
+
+  const notes = typeof input.notes === 'string' ? input.notes.trim() : '';
+  if (!notes) {
+    throw new CustomError('Resolution notes are required', 400);
+  }
+
+  const dispute = await getOpenDispute(serviceRequest.id);
+  const escrow = await getEscrowSummary(serviceRequest);
+  const held = escrow ? escrow.held : 0;
+  const metadata = { dispute_id: dispute.id, outcome };
+
+  let nextStatus: ServiceRequestStatus;
+  let refunded = 0;
+  let moveMoney: () => Promise<unknown>;
+
+  if (outcome === 'refund') {
+    nextStatus = 'cancelled';
+    refunded = held;
+
+    await transitionServiceRequest(serviceRequest, 'cancelled', admin, {
+      updates: { cancellation_reason: 'dispute_refunded' },
+      reason: notes,
+      metadata,
+    });
+
+    moveMoney = async () => {
+      if (held > 0) {
+        await refundEscrow(
+          serviceRequest.id,
+          null,
+          'the dispute was resolved in your favour',
+          input.refund_to_wallet === true
+        );
+      }
+    };
+  } else {
+    nextStatus = 'completed';
+    const costs = await resolveCosts(serviceRequest, outcome, input);
+    const totalCost = roundMoney(costs.material_cost + costs.labor_cost);
+
+    if (escrow && held < totalCost) {
+      throw new CustomError(`Only ₦${held.toFixed(2)} is held for this job`, 409);
+    }
+
+    if (held > totalCost) {
+      refunded = roundMoney(held - totalCost);
+    }
+
+    const completed = await transitionServiceRequest(serviceRequest, 'completed', admin, {
+      updates: { ...costs, total_cost: totalCost },
+      reason: notes,
+      metadata: { ...metadata, ...costs, total_cost: totalCost },
+    });
+
+    moveMoney = () => settleCompletedJob(completed);
+  }
+
+  const { data: resolved, error } = await supabaseAdmin
+    .from('service_request_disputes')
+    .update({
+      status: 'resolved',
+      outcome,
+      resolution_notes: notes,
+      refunded_amount: refunded,
+      resolved_by: admin.id,
+      resolved_at: new Date().toISOString(),
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', dispute.id)
+    .select()
+    .single();
+
+  if (error) {
+    throw new CustomError('Failed to update dispute', 500);
+  }
+
+  await notifyParties(
+    serviceRequest,
+    admin.id,
+    'Dispute Resolved',
+    nextStatus === 'cancelled'
+      ? `Your dispute was resolved and the job was cancelled: ${notes}`
+      : `Your dispute was resolved and the job was completed: ${notes}`
+  );
+
+  try {
+    await moveMoney();
+  } catch (moneyError) {
+    console.error('Error settling resolved dispute:', moneyError);
+    throw new CustomError(
+      nextStatus === 'cancelled'
+        ? 'The dispute was resolved but the refund failed, retry it from the refund endpoint'
+        : 'The dispute was resolved but settlement failed, retry it from the settle endpoint',
+      502
+    );
+  }
+
+  return resolved;
+};
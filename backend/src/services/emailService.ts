@@ -1,5 +1,6 @@
 import nodemailer from 'nodemailer';
 import { env } from '../config/env';
+import { escapeHtml } from '../utils/html';
 
 // Create reusable transporter
 let transporter: nodemailer.Transporter | null = null;
@@ -27,15 +28,22 @@ function getTransporter(): nodemailer.Transporter | null {
   return transporter;
 }
 
+export interface EmailAttachment {
+  filename: string;
+  content: Buffer;
+  contentType?: string;
+}
+
 export interface SendEmailOptions {
   to: string;
   subject: string;
   html: string;
   text?: string;
+  attachments?: EmailAttachment[];
 }
 
 export async function sendEmail(options: SendEmailOptions): Promise<boolean> {
-  const { to, subject, html, text } = options;
+  const { to, subject, html, text, attachments } = options;
 
   const emailTransporter = getTransporter();
 
@@ -46,6 +54,9 @@ export async function sendEmail(options: SendEmailOptions): Promise<boolean> {
     console.log('To:', to);
     console.log('Subject:', subject);
     console.log('Body:', text || html);
+    if (attachments?.length) {
+      console.log('Attachments:', attachments.map((attachment) => attachment.filename).join(', '));
+    }
     console.log('='.repeat(60));
     return true; // Return true so the flow continues
   }
@@ -57,6 +68,7 @@ export async function sendEmail(options: SendEmailOptions): Promise<boolean> {
       subject,
       html,
       text: text || html.replace(/<[^>]*>/g, ''), // Strip HTML tags for text version
+      attachments,
     };
 
     const info = await emailTransporter.sendMail(mailOptions);
@@ -137,3 +149,107 @@ This is an automated message from Mekofix. Please do not reply to this email.
   });
 }
 
+
+export async function sendVerificationStatusEmail(
+  email: string,
+  name: string,
+  status: 'approved' | 'rejected' | 'resubmission_required',
+  reason?: string,
+  document?: string
+): Promise<boolean> {
+  const subjects = {
+    approved: 'Your Mekofix application has been approved',
+    rejected: 'Update on your Mekofix application',
+    resubmission_required: 'Action required on your Mekofix application',
+  };
+
+  const messages = (documentName: string) => ({
+    approved: 'Great news! Your application has been reviewed and approved. You can now log in and start using Mekofix.',
+    rejected: 'Thank you for applying to Mekofix. Unfortunately, we were unable to approve your application at this time.',
+    resubmission_required: `We need you to resubmit your ${documentName} before we can complete the review of your application.`,
+  });
+
+  const subject = subjects[status];
+
+  // The reason and document name are typed by an admin and the name by the applicant,
+  // so they're escaped in the HTML version
+  const html = `
+    <!DOCTYPE html>
+    <html>
+    <head>
+      <meta charset="utf-8">
+      <meta name="viewport" content="width=device-width, initial-scale=1.0">
+      <title>${subject}</title>
+    </head>
+    <body style="font-family: Arial, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
+      <div style="background-color: #4CAF50; color: white; padding: 20px; text-align: center; border-radius: 5px 5px 0 0;">
+        <h1 style="margin: 0;">Mekofix</h1>
+      </div>
+      <div style="background-color: #f9f9f9; padding: 30px; border-radius: 0 0 5px 5px;">
+        <p>Hello ${escapeHtml(name)},</p>
+        <p>${messages(escapeHtml(document || 'document'))[status]}</p>
+        ${reason ? `<p><strong>Reason:</strong> ${escapeHtml(reason)}</p>` : ''}
+        <hr style="border: none; border-top: 1px solid #ddd; margin: 30px 0;">
+        <p style="color: #666; font-size: 12px; margin: 0;">This is an automated message from Mekofix. Please do not reply to this email.</p>
+      </div>
+    </body>
+    </html>
+  `;
+
+  const text = `
+Hello ${name || ''},
+
+${messages(document || 'document')[status]}
+${reason ? `\nReason: ${reason}\n` : ''}
+---
+This is an automated message from Mekofix. Please do not reply to this email.
+  `;
+
+  return sendEmail({
+    to: email,
+    subject,
+    html,
+    text,
+  });
+}
+
+export async function sendInvoiceEmail(
+  email: string,
+  name: string,
+  invoiceNumber: string,
+  copy: 'customer' | 'mechanic',
+  html: string,
+  pdf: Buffer
+): Promise<boolean> {
+  const subject =
+    copy === 'customer'
+      ? `Your Mekofix receipt ${invoiceNumber}`
+      : `Mekofix invoice ${invoiceNumber} (your copy)`;
+
+  const text = `
+Hello ${name || ''},
+
+${copy === 'customer'
+  ? 'Thank you for using Mekofix. Your receipt for the completed job is attached.'
+  : 'The job is complete. Your copy of the invoice, including the platform commission, is attached.'}
+
+Invoice number: ${invoiceNumber}
+
+---
+This is an automated message from Mekofix. Please do not reply to this email.
+  `;
+
+  return sendEmail({
+    to: email,
+    subject,
+    html,
+    text,
+    attachments: [
+      {
+        filename: `${invoiceNumber}.pdf`,
+        content: pdf,
+        contentType: 'application/pdf',
+      },
+    ],
+  });
+}
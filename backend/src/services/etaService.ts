@@ -0,0 +1,168 @@
+import { env } from '../config/env';
+import { calculateDistance } from './mechanicSearchService';
+
+export interface Coordinates {
+  latitude: number;
+  longitude: number;
+}
+
+export interface RouteEstimate {
+  distance_km: number; // road distance
+  duration_minutes: number;
+  provider: string;
+}
+
+/**
+ * Estimates road distance and travel time from many origins (mechanics) to one
+ * destination (the customer). Results are returned in the same order as the origins.
+ */
+export interface EtaProvider {
+  name: string;
+  estimate(origins: Coordinates[], destination: Coordinates): Promise<RouteEstimate[]>;
+}
+
+// Roads are rarely straight; typical urban detour over the straight-line distance
+const ROAD_DETOUR_FACTOR = 1.4;
+// Average city driving speed including traffic, in km/h
+const AVERAGE_SPEED_KMH = 25;
+// Time to get going (parking, walking to the car)
+const DEPARTURE_OVERHEAD_MINUTES = 2;
+
+const GOOGLE_MAX_ORIGINS = 25;
+
+// The parts of a Distance Matrix response read below; values are metres and seconds
+interface DistanceMatrixElement {
+  status: string;
+  distance: { value: number };
+  duration: { value: number };
+  duration_in_traffic?: { value: number };
+}
+
+interface DistanceMatrixResponse {
+  status?: string;
+  rows: { elements: DistanceMatrixElement[] }[];
+}
+
+const round = (value: number, decimals: number) => {
+  const factor = Math.pow(10, decimals);
+  return Math.round(value * factor) / factor;
+};
+
+/**
+ * Heuristic driving time in minutes for a straight-line distance
+ */
+export const estimateDriveMinutes = (straightLineKm: number): number => {
+  const roadDistance = straightLineKm * ROAD_DETOUR_FACTOR;
+  return roadDistance < 0.05
+    ? 0
+    : (roadDistance / AVERAGE_SPEED_KMH) * 60 + DEPARTURE_OVERHEAD_MINUTES;
+};
+
+/**
+ * Offline estimate from straight-line distance. Deterministic, no network calls.
+ */
+export const heuristicEtaProvider: EtaProvider = {
+  name: 'heuristic',
+  async estimate(origins, destination) {
+    return origins.map((origin) => {
+      const straightLine = calculateDistance(
+        origin.latitude,
+        origin.longitude,
+        destination.latitude,
+        destination.longitude
+      );
+
+      return {
+        distance_km: round(straightLine * ROAD_DETOUR_FACTOR, 1),
+        duration_minutes: Math.ceil(estimateDriveMinutes(straightLine)),
+        provider: 'heuristic',
+      };
+    });
+  },
+};
+
+/**
+ * Google Distance Matrix provider, uses live traffic where available
+ */
+export const createGoogleEtaProvider = (apiKey: string): EtaProvider => ({
+  name: 'google',
+  async estimate(origins, destination) {
+    // Distance Matrix accepts at most 25 origins per request
+    if (origins.length > GOOGLE_MAX_ORIGINS) {
+      const results: RouteEstimate[] = [];
+      for (let i = 0; i < origins.length; i += GOOGLE_MAX_ORIGINS) {
+        results.push(...(await this.estimate(origins.slice(i, i + GOOGLE_MAX_ORIGINS), destination)));
+      }
+      return results;
+    }
+
+    const params = new URLSearchParams({
+      origins: origins.map((o) => `${o.latitude},${o.longitude}`).join('|'),
+      destinations: `${destination.latitude},${destination.longitude}`,
+      departure_time: 'now',
+      key: apiKey,
+    });
+
+    const response = await fetch(
+      `https://maps.googleapis.com/maps/api/distancematrix/json?${params.toString()}`
+    );
+    const body = (await response.json()) as DistanceMatrixResponse;
+
+    if (!response.ok || body.status !== 'OK') {
+      throw new Error(`Distance Matrix request failed: ${body.status || response.status}`);
+    }
+
+    return body.rows.map((row) => {
+      const element = row.elements[0];
+      if (element.status !== 'OK') {
+        throw new Error(`No route found: ${element.status}`);
+      }
+      const duration = element.duration_in_traffic || element.duration;
+      return {
+        distance_km: round(element.distance.value / 1000, 1),
+        duration_minutes: Math.ceil(duration.value / 60),
+        provider: 'google',
+      };
+    });
+  },
+});
+
+let activeProvider: EtaProvider =
+  env.eta.provider === 'google' && env.eta.googleMapsApiKey
+    ? createGoogleEtaProvider(env.eta.googleMapsApiKey)
+    : heuristicEtaProvider;
+
+/**
+ * Swap the provider at runtime (e.g. the heuristic one in tests)
+ */
+export const setEtaProvider = (provider: EtaProvider): void => {
+  activeProvider = provider;
+};
+
+/**
+ * Estimate routes with the configured provider, falling back to the heuristic
+ * if the provider fails so callers always get an answer
+ */
+export const estimateEtas = async (
+  origins: Coordinates[],
+  destination: Coordinates
+): Promise<RouteEstimate[]> => {
+  if (origins.length === 0) {
+    return [];
+  }
+
+  try {
+    return await activeProvider.estimate(origins, destination);
+  } catch (error) {
+    console.error(`ETA provider ${activeProvider.name} failed:`, error);
+    return heuristicEtaProvider.estimate(origins, destination);
+  }
+};
+
+export const estimateEta = async (
+  origin: Coordinates,
+  destination: Coordinates
+): Promise<RouteEstimate> => {
+  const [estimate] = await estimateEtas([origin], destination);
+  return estimate;
+};
@@ -0,0 +1,479 @@
+import PDFDocument from 'pdfkit';
+import jwt from 'jsonwebtoken';
+import { supabaseAdmin } from '../config/supabase';
+import { env } from '../config/env';
+import { CustomError } from '../middleware/errorHandler';
+import { escapeHtml } from '../utils/html';
+import { sendInvoiceEmail } from './emailService';
+import { DEFAULT_COMMISSION_RATE } from './commissionService';
+import { getApprovedQuote } from './quoteService';
+
+/**
+ * Which party a rendered invoice is for. The customer copy is their receipt;
+ * the mechanic copy also shows the platform commission and their earnings.
+ */
+export type InvoiceCopy = 'customer' | 'mechanic';
+
+export const INVOICE_COPIES: InvoiceCopy[] = ['customer', 'mechanic'];
+
+// Signed download links let the app open a PDF without sending the access token
+const DOWNLOAD_TOKEN_TTL = '10m';
+
+export interface InvoiceLineItem {
+  type: 'part' | 'labour';
+  description: string;
+  quantity: number;
+  unit_price: number;
+  total: number;
+}
+
+export interface InvoiceParty {
+  id: string;
+  full_name: string | null;
+  email: string | null;
+  phone: string | null;
+}
+
+export interface InvoiceDetails {
+  customer: InvoiceParty;
+  mechanic: InvoiceParty;
+  vehicle: { car_name: string | null; car_model: string | null; car_year: number | null } | null;
+  category: string | null;
+  address: string | null;
+  completed_at: string | null;
+  quote_version: number | null;
+}
+
+export interface Invoice {
+  id: string;
+  invoice_number: string;
+  service_request_id: string;
+  customer_id: string;
+  mechanic_id: string;
+  line_items: InvoiceLineItem[];
+  subtotal: number;
+  vat_rate: number;
+  vat_amount: number;
+  total: number;
+  commission_rate: number;
+  commission: number;
+  mechanic_earnings: number;
+  details: InvoiceDetails;
+  issued_at: string;
+  emailed_at: string | null;
+}
+
+// The completed request an invoice is issued from, with its parties, vehicle and category
+interface InvoiceSourceRequest {
+  id: string;
+  status: string;
+  customer_id: string;
+  mechanic_id: string | null;
+  material_cost: number | null;
+  labor_cost: number | null;
+  total_cost: number | null;
+  commission_rate: number | null;
+  commission_amount: number | null;
+  customer_location_address: string | null;
+  completed_at: string | null;
+  customer: InvoiceParty;
+  mechanic: InvoiceParty;
+  vehicle: InvoiceDetails['vehicle'];
+  category: { name: string } | null;
+}
+
+const roundMoney = (value: number) => Math.round(value * 100) / 100;
+
+const formatMoney = (value: number) =>
+  `NGN ${Number(value).toLocaleString('en-NG', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const formatDate = (value: string | null) =>
+  value
+    ? new Date(value).toLocaleDateString('en-NG', { day: 'numeric', month: 'short', year: 'numeric' })
+    : '';
+
+const describeVehicle = (vehicle: InvoiceDetails['vehicle']) =>
+  vehicle
+    ? [vehicle.car_name, vehicle.car_model, vehicle.car_year].filter(Boolean).join(' ')
+    : '';
+
+const getInvoiceByRequest = async (serviceRequestId: string): Promise<Invoice | null> => {
+  const { data: invoice, error } = await supabaseAdmin
+    .from('invoices')
+    .select('*')
+    .eq('service_request_id', serviceRequestId)
+    .maybeSingle();
+
+  if (error) {
+    throw new CustomError('Failed to fetch invoice', 500);
+  }
+
+  return invoice;
+};
+
+/**
+ * Issue the invoice for a completed job, or return the one already issued.
+ * Amounts, parties and vehicle are copied onto the invoice so it never changes afterwards.
+ */
+export const issueInvoice = async (serviceRequestId: string): Promise<Invoice> => {
+  const existing = await getInvoiceByRequest(serviceRequestId);
+  if (existing) {
+    return existing;
+  }
+
+  const { data: serviceRequest, error } = await supabaseAdmin
+    .from('service_requests')
+    .select(`
+      id,
+      status,
+      customer_id,
+      mechanic_id,
+      material_cost,
+      labor_cost,
+      total_cost,
+      commission_rate,
+      commission_amount,
+      customer_location_address,
+      completed_at,
+      customer:users!service_requests_customer_id_fkey (id, full_name, email, phone),
+      mechanic:users!service_requests_mechanic_id_fkey (id, full_name, email, phone),
+      vehicle:customer_vehicles (car_name, car_model, car_year),
+      category:service_categories (name)
+    `)
+    .eq('id', serviceRequestId)
+    .single()
+    .overrideTypes<InvoiceSourceRequest, { merge: false }>();
+
+  if (error || !serviceRequest) {
+    throw new CustomError('Service request not found', 404);
+  }
+
+  if (serviceRequest.status !== 'completed' || !serviceRequest.mechanic_id) {
+    throw new CustomError('Invoices are only available for completed jobs', 409);
+  }
+
+  const materialCost = Number(serviceRequest.material_cost) || 0;
+  const laborCost = Number(serviceRequest.labor_cost) || 0;
+  const quote = await getApprovedQuote(serviceRequestId);
+
+  // Quoted jobs keep the mechanic's lines; older jobs only have the two totals
+  const lineItems: InvoiceLineItem[] = quote
+    ? quote.items
+    : [
+        {
+          type: 'part' as const,
+          description: 'Parts and materials',
+          quantity: 1,
+          unit_price: materialCost,
+          total: materialCost,
+        },
+        {
+          type: 'labour' as const,
+          description: 'Labour',
+          quantity: 1,
+          unit_price: laborCost,
+          total: laborCost,
+        },
+      ].filter((item) => item.total > 0);
+
+  const total = roundMoney(Number(serviceRequest.total_cost) || materialCost + laborCost);
+  const vatRate = env.invoice.vatRate;
+  const vatAmount = roundMoney((total * vatRate) / (1 + vatRate));
+  // The commission recorded at settlement; jobs settled before rules existed paid the default rate
+  const commissionRate =
+    serviceRequest.commission_rate !== null
+      ? Number(serviceRequest.commission_rate)
+      : DEFAULT_COMMISSION_RATE;
+  const commission =
+    serviceRequest.commission_amount !== null
+      ? Number(serviceRequest.commission_amount)
+      : roundMoney(laborCost * DEFAULT_COMMISSION_RATE);
+
+  const details: InvoiceDetails = {
+    customer: serviceRequest.customer,
+    mechanic: serviceRequest.mechanic,
+    vehicle: serviceRequest.vehicle || null,
+    category: serviceRequest.category?.name || null,
+    address: serviceRequest.customer_location_address || null,
+    completed_at: serviceRequest.completed_at || null,
+    quote_version: quote?.version || null,
+  };
+
+  const { data: invoice, error: insertError } = await supabaseAdmin
+    .from('invoices')
+    .insert({
+      service_request_id: serviceRequestId,
+      customer_id: serviceRequest.customer_id,
+      mechanic_id: serviceRequest.mechanic_id,
+      line_items: lineItems,
+      subtotal: roundMoney(total - vatAmount),
+      vat_rate: vatRate,
+      vat_amount: vatAmount,
+      total,
+      commission_rate: commissionRate,
+      commission,
+      mechanic_earnings: roundMoney(laborCost - commission),
+      details,
+    })
+    .select()
+    .single();
+
+  if (insertError) {
+    // Issued concurrently by the other party's confirmation
+    if (insertError.code === '23505') {
+      const concurrent = await getInvoiceByRequest(serviceRequestId);
+      if (concurrent) {
+        return concurrent;
+      }
+    }
+    throw new CustomError('Failed to issue invoice', 500);
+  }
+
+  return invoice;
+};
+
+/**
+ * The parts of an invoice a party may see. Customers don't see the commission.
+ */
+export const formatInvoice = (invoice: Invoice, copy: InvoiceCopy) => {
+  const { commission_rate, commission, mechanic_earnings, ...shared } = invoice;
+
+  return copy === 'mechanic'
+    ? { ...invoice, copy }
+    : { ...shared, copy };
+};
+
+export const renderInvoiceHtml = (invoice: Invoice, copy: InvoiceCopy): string => {
+  const { details } = invoice;
+  const title = copy === 'customer' ? 'Receipt' : 'Invoice (mechanic copy)';
+
+  const rows = invoice.line_items
+    .map(
+      (item) => `
+        <tr>
+          <td style="padding: 8px; border-bottom: 1px solid #eee;">${escapeHtml(item.description)}<br><span style="color: #888; font-size: 12px;">${item.type === 'part' ? 'Part' : 'Labour'}</span></td>
+          <td style="padding: 8px; border-bottom: 1px solid #eee; text-align: right;">${escapeHtml(item.quantity)}</td>
+          <td style="padding: 8px; border-bottom: 1px solid #eee; text-align: right;">${formatMoney(item.unit_price)}</td>
+          <td style="padding: 8px; border-bottom: 1px solid #eee; text-align: right;">${formatMoney(item.total)}</td>
+        </tr>`
+    )
+    .join('');
+
+  const mechanicRows =
+    copy === 'mechanic'
+      ? `
+        <tr><td colspan="3" style="padding: 4px 8px; text-align: right;">Platform commission (${Math.round(invoice.commission_rate * 100)}% of labour)</td><td style="padding: 4px 8px; text-align: right;">-${formatMoney(invoice.commission)}</td></tr>
+        <tr><td colspan="3" style="padding: 4px 8px; text-align: right;"><strong>Your labour earnings</strong></td><td style="padding: 4px 8px; text-align: right;"><strong>${formatMoney(invoice.mechanic_earnings)}</strong></td></tr>`
+      : '';
+
+  return `
+    <!DOCTYPE html>
+    <html>
+    <head>
+      <meta charset="utf-8">
+      <meta name="viewport" content="width=device-width, initial-scale=1.0">
+      <title>${title} ${escapeHtml(invoice.invoice_number)}</title>
+    </head>
+    <body style="font-family: Arial, sans-serif; line-height: 1.5; color: #333; max-width: 700px; margin: 0 auto; padding: 20px;">
+      <div style="background-color: #4CAF50; color: white; padding: 20px; border-radius: 5px 5px 0 0;">
+        <h1 style="margin: 0;">Mekofix</h1>
+        <p style="margin: 4px 0 0;">${title}</p>
+      </div>
+      <div style="background-color: #f9f9f9; padding: 24px; border-radius: 0 0 5px 5px;">
+        <p style="margin: 0;"><strong>No:</strong> ${escapeHtml(invoice.invoice_number)}<br>
+        <strong>Issued:</strong> ${formatDate(invoice.issued_at)}<br>
+        <strong>Job completed:</strong> ${formatDate(details.completed_at)}
+        ${env.invoice.vatNumber ? `<br><strong>VAT No:</strong> ${escapeHtml(env.invoice.vatNumber)}` : ''}</p>
+        <table style="width: 100%; margin: 16px 0;">
+          <tr>
+            <td style="vertical-align: top;"><strong>Customer</strong><br>${escapeHtml(details.customer?.full_name)}<br>${escapeHtml(details.customer?.email)}<br>${escapeHtml(details.customer?.phone)}</td>
+            <td style="vertical-align: top;"><strong>Mechanic</strong><br>${escapeHtml(details.mechanic?.full_name)}<br>${escapeHtml(details.mechanic?.email)}<br>${escapeHtml(details.mechanic?.phone)}</td>
+          </tr>
+        </table>
+        <p><strong>Vehicle:</strong> ${escapeHtml(describeVehicle(details.vehicle)) || 'N/A'}<br>
+        <strong>Service:</strong> ${escapeHtml(details.category) || 'N/A'}
+        ${details.address ? `<br><strong>Location:</strong> ${escapeHtml(details.address)}` : ''}</p>
+        <table style="width: 100%; border-collapse: collapse; background-color: white;">
+          <tr style="background-color: #eee;">
+            <th style="padding: 8px; text-align: left;">Item</th>
+            <th style="padding: 8px; text-align: right;">Qty</th>
+            <th style="padding: 8px; text-align: right;">Unit price</th>
+            <th style="padding: 8px; text-align: right;">Amount</th>
+          </tr>
+          ${rows}
+          <tr><td colspan="3" style="padding: 4px 8px; text-align: right;">Subtotal (excl. VAT)</td><td style="padding: 4px 8px; text-align: right;">${formatMoney(invoice.subtotal)}</td></tr>
+          <tr><td colspan="3" style="padding: 4px 8px; text-align: right;">VAT (${(invoice.vat_rate * 100).toFixed(1)}%)</td><td style="padding: 4px 8px; text-align: right;">${formatMoney(invoice.vat_amount)}</td></tr>
+          <tr><td colspan="3" style="padding: 4px 8px; text-align: right;"><strong>Total${copy === 'customer' ? ' paid' : ''}</strong></td><td style="padding: 4px 8px; text-align: right;"><strong>${formatMoney(invoice.total)}</strong></td></tr>
+          ${mechanicRows}
+        </table>
+        <hr style="border: none; border-top: 1px solid #ddd; margin: 30px 0;">
+        <p style="color: #666; font-size: 12px; margin: 0;">Prices include VAT. This document was generated by Mekofix.</p>
+      </div>
+    </body>
+    </html>
+  `;
+};
+
+export const renderInvoicePdf = (invoice: Invoice, copy: InvoiceCopy): Promise<Buffer> => {
+  return new Promise((resolve, reject) => {
+    const doc = new PDFDocument({ size: 'A4', margin: 50 });
+    const chunks: Buffer[] = [];
+    const { details } = invoice;
+
+    doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+
+    doc.fontSize(22).text('Mekofix', { continued: false });
+    doc.fontSize(12).fillColor('#666666').text(copy === 'customer' ? 'Receipt' : 'Invoice (mechanic copy)');
+    doc.moveDown();
+
+    doc.fillColor('#000000').fontSize(10);
+    doc.text(`No: ${invoice.invoice_number}`);
+    doc.text(`Issued: ${formatDate(invoice.issued_at)}`);
+    doc.text(`Job completed: ${formatDate(details.completed_at)}`);
+    if (env.invoice.vatNumber) {
+      doc.text(`VAT No: ${env.invoice.vatNumber}`);
+    }
+    doc.moveDown();
+
+    const partiesTop = doc.y;
+    doc.font('Helvetica-Bold').text('Customer', 50, partiesTop);
+    doc.font('Helvetica').text(
+      [details.customer?.full_name, details.customer?.email, details.customer?.phone].filter(Boolean).join('\n')
+    );
+    doc.font('Helvetica-Bold').text('Mechanic', 300, partiesTop);
+    doc.font('Helvetica').text(
+      [details.mechanic?.full_name, details.mechanic?.email, details.mechanic?.phone].filter(Boolean).join('\n'),
+      300
+    );
+    doc.x = 50;
+    doc.moveDown(2);
+
+    doc.text(`Vehicle: ${describeVehicle(details.vehicle) || 'N/A'}`, 50);
+    doc.text(`Service: ${details.category || 'N/A'}`);
+    if (details.address) {
+      doc.text(`Location: ${details.address}`);
+    }
+    doc.moveDown();
+
+    const columns = { item: 50, qty: 320, unit: 370, amount: 460 };
+    const row = (item: string, qty: string, unit: string, amount: string, bold = false) => {
+      const top = doc.y;
+      doc.font(bold ? 'Helvetica-Bold' : 'Helvetica');
+      doc.text(item, columns.item, top, { width: 260 });
+      const bottom = doc.y;
+      doc.text(qty, columns.qty, top, { width: 40, align: 'right' });
+      doc.text(unit, columns.unit, top, { width: 80, align: 'right' });
+      doc.text(amount, columns.amount, top, { width: 85, align: 'right' });
+      doc.x = 50;
+      doc.y = Math.max(bottom, doc.y) + 4;
+    };
+
+    row('Item', 'Qty', 'Unit price', 'Amount', true);
+    invoice.line_items.forEach((item) => {
+      row(
+        `${item.description} (${item.type === 'part' ? 'part' : 'labour'})`,
+        String(item.quantity),
+        formatMoney(item.unit_price),
+        formatMoney(item.total)
+      );
+    });
+    doc.moveDown();
+
+    row('Subtotal (excl. VAT)', '', '', formatMoney(invoice.subtotal));
+    row(`VAT (${(invoice.vat_rate * 100).toFixed(1)}%)`, '', '', formatMoney(invoice.vat_amount));
+    row(copy === 'customer' ? 'Total paid' : 'Total', '', '', formatMoney(invoice.total), true);
+
+    if (copy === 'mechanic') {
+      row(
+        `Platform commission (${Math.round(invoice.commission_rate * 100)}% of labour)`,
+        '',
+        '',
+        `-${formatMoney(invoice.commission)}`
+      );
+      row('Your labour earnings', '', '', formatMoney(invoice.mechanic_earnings), true);
+    }
+
+    doc.moveDown(2);
+    doc.fontSize(8).fillColor('#666666').text('Prices include VAT. This document was generated by Mekofix.', 50);
+
+    doc.end();
+  });
+};
+
+/**
+ * Email each party their copy with the PDF attached
+ */
+export const emailInvoice = async (invoice: Invoice, copies: InvoiceCopy[] = INVOICE_COPIES) => {
+  for (const copy of copies) {
+    const party = copy === 'customer' ? invoice.details.customer : invoice.details.mechanic;
+
+    if (!party?.email) {
+      continue;
+    }
+
+    const pdf = await renderInvoicePdf(invoice, copy);
+    await sendInvoiceEmail(
+      party.email,
+      party.full_name || '',
+      invoice.invoice_number,
+      copy,
+      renderInvoiceHtml(invoice, copy),
+      pdf
+    );
+  }
+
+  await supabaseAdmin
+    .from('invoices')
+    .update({ emailed_at: new Date().toISOString() })
+    .eq('id', invoice.id);
+};
+
+/**
+ * Issue and email the invoice once a job completes. Failures are logged so they
+ * never undo the completion; the invoice is issued on first request instead.
+ */
+export const sendJobInvoice = async (serviceRequestId: string) => {
+  try {
+    const invoice = await issueInvoice(serviceRequestId);
+    await emailInvoice(invoice);
+  } catch (error) {
+    console.error('Error issuing invoice:', error);
+  }
+};
+
+export const createInvoiceDownloadToken = (invoiceId: string, copy: InvoiceCopy) => {
+  return jwt.sign({ invoice_id: invoiceId, copy, purpose: 'invoice_download' }, env.jwt.secret, {
+    expiresIn: DOWNLOAD_TOKEN_TTL,
+  });
+};
+
+/**
+ * Look up the invoice and copy a signed download link was created for
+ */
+export const getInvoiceFromDownloadToken = async (token: string) => {
+  let decoded: { invoice_id: string; copy: InvoiceCopy; purpose: string };
+
+  try {
+    decoded = jwt.verify(token, env.jwt.secret) as typeof decoded;
+  } catch (error) {
+    throw new CustomError('This download link is invalid or has expired', 401);
+  }
+
+  if (decoded.purpose !== 'invoice_download' || !INVOICE_COPIES.includes(decoded.copy)) {
+    throw new CustomError('This download link is invalid or has expired', 401);
+  }
+
+  const { data: invoice, error } = await supabaseAdmin
+    .from('invoices')
+    .select('*')
+    .eq('id', decoded.invoice_id)
+    .single();
+
+  if (error || !invoice) {
+    throw new CustomError('Invoice not found', 404);
+  }
+
+  return { invoice: invoice as Invoice, copy: decoded.copy };
+};
@@ -0,0 +1,239 @@
+import { supabaseAdmin } from '../config/supabase';
+import { CustomError } from '../middleware/errorHandler';
+
+/**
+ * Every money movement is one balanced ledger transaction: its entries add up to
+ * zero, and a positive amount increases the account's balance. Postings go
+ * through the post_ledger_transaction RPC, which locks the accounts, rejects
+ * overdrafts and writes the entries, balances and wallet activity atomically.
+ */
+export type LedgerTransactionKind =
+  | 'job_earning'
+  | 'cash_commission'
+  | 'payment_received'
+  | 'escrow_release'
+  | 'payment_refund'
+  | 'wallet_topup'
+  | 'debt_settlement'
+  | 'wallet_payment'
+  | 'promo_credit'
+  | 'withdrawal'
+  | 'payout_paid'
+  | 'payout_refund'
+  | 'opening_balance';
+
+export interface LedgerEntryInput {
+  account: string;
+  amount: number;
+  // Lets this entry take a wallet below zero (commission owed on cash jobs)
+  allowOverdraft?: boolean;
+}
+
+export interface PostLedgerTransactionInput {
+  kind: LedgerTransactionKind;
+  // Posting the same key twice returns the first posting instead of moving money again
+  idempotencyKey: string;
+  entries: LedgerEntryInput[];
+  description?: string;
+  referenceType?: string;
+  referenceId?: string;
+  // Shown on the wallet activity rows written for wallet entries
+  activity?: {
+    transaction_type?: string;
+    status?: 'pending' | 'processing' | 'completed' | 'failed' | 'reversed';
+    bank_details?: unknown;
+  };
+}
+
+export interface LedgerPostingResult {
+  transaction_id: string;
+  created: boolean;
+  balances?: Record<string, number>;
+}
+
+export interface LedgerDrift {
+  check_name: 'account_balance' | 'unbalanced_transaction' | 'wallet_balance';
+  reference: string;
+  expected: number;
+  actual: number;
+}
+
+// Platform-side accounts; these may go negative, wallets may not
+export const PLATFORM_ACCOUNTS = {
+  // Customer money collected for jobs, before it is split between mechanic and platform
+  jobClearing: 'platform:job_clearing',
+  commissionRevenue: 'platform:commission_revenue',
+  // Customer payments collected by the gateway, and refunds sent back through it
+  gatewayClearing: 'platform:gateway_clearing',
+  // In-app payments held until both sides confirm the job
+  escrow: 'platform:escrow',
+  // Credits the platform gives customers (promotions, goodwill)
+  promotions: 'platform:promotions',
+  // Withdrawals requested but not yet paid out to a bank
+  payoutsPending: 'platform:payouts_pending',
+  // Withdrawals the payout provider has paid
+  payoutsSent: 'platform:payouts_sent',
+  openingBalances: 'platform:opening_balances',
+};
+
+const LEDGER_RECONCILIATION_INTERVAL_MS = 60 * 60 * 1000; // 1 hour
+
+export const walletAccount = (userId: string) => `wallet:${userId}`;
+
+const toCents = (value: number) => Math.round(value * 100);
+
+/**
+ * Post a balanced transaction. Throws 400 if a wallet would be overdrawn.
+ */
+export const postLedgerTransaction = async (
+  input: PostLedgerTransactionInput
+): Promise<LedgerPostingResult> => {
+  const entries = input.entries
+    .map((entry) => ({
+      account: entry.account,
+      amount: toCents(entry.amount) / 100,
+      ...(entry.allowOverdraft ? { allow_overdraft: true } : {}),
+    }))
+    .filter((entry) => entry.amount !== 0);
+
+  if (entries.length < 2 || entries.reduce((sum, entry) => sum + toCents(entry.amount), 0) !== 0) {
+    throw new CustomError('Ledger transaction does not balance', 500);
+  }
+
+  const { data, error } = await supabaseAdmin.rpc('post_ledger_transaction', {
+    p_kind: input.kind,
+    p_idempotency_key: input.idempotencyKey,
+    p_entries: entries,
+    p_description: input.description || null,
+    p_reference_type: input.referenceType || null,
+    p_reference_id: input.referenceId || null,
+    p_activity: input.activity || {},
+  });
+
+  if (error) {
+    if (error.message?.includes('insufficient_funds')) {
+      throw new CustomError('Insufficient balance', 400);
+    }
+    // A concurrent posting with the same key won the race
+    if (error.code === '23505') {
+      return { transaction_id: '', created: false };
+    }
+    console.error('Error posting ledger transaction:', error);
+    throw new CustomError('Failed to record transaction', 500);
+  }
+
+  return data as LedgerPostingResult;
+};
+
+/**
+ * The transaction already posted under a key, if any
+ */
+export const findLedgerTransaction = async (idempotencyKey: string) => {
+  const { data: transaction, error } = await supabaseAdmin
+    .from('ledger_transactions')
+    .select('id')
+    .eq('idempotency_key', idempotencyKey)
+    .maybeSingle();
+
+  if (error) {
+    throw new CustomError('Failed to fetch transaction', 500);
+  }
+
+  return transaction as { id: string } | null;
+};
+
+export const getAccountBalance = async (code: string): Promise<number> => {
+  const { data: account, error } = await supabaseAdmin
+    .from('ledger_accounts')
+    .select('balance')
+    .eq('code', code)
+    .maybeSingle();
+
+  if (error) {
+    throw new CustomError('Failed to fetch balance', 500);
+  }
+
+  return Number(account?.balance) || 0;
+};
+
+/**
+ * Split a completed job's labour between the mechanic's wallet and the platform's
+ * commission. Safe to call from both confirmation paths; only the first posts.
+ */
+export const settleJobEarnings = async (
+  serviceRequest: { id: string; mechanic_id: string; labor_cost: number | string | null },
+  commission: number
+) => {
+  const laborCost = Number(serviceRequest.labor_cost) || 0;
+
+  if (laborCost <= 0) {
+    return null;
+  }
+
+  return postLedgerTransaction({
+    kind: 'job_earning',
+    idempotencyKey: `job_earning:${serviceRequest.id}`,
+    description: `Earnings for service request ${serviceRequest.id} (less commission)`,
+    referenceType: 'service_request',
+    referenceId: serviceRequest.id,
+    entries: [
+      { account: PLATFORM_ACCOUNTS.jobClearing, amount: -laborCost },
+      { account: walletAccount(serviceRequest.mechanic_id), amount: laborCost - commission },
+      { account: PLATFORM_ACCOUNTS.commissionRevenue, amount: commission },
+    ],
+  });
+};
+
+/**
+ * Compare cached balances with their entries and check every transaction balances.
+ * Each run is recorded; any drift is also logged.
+ */
+export const reconcileLedger = async () => {
+  const { data, error } = await supabaseAdmin.rpc('reconcile_ledger');
+
+  if (error) {
+    throw new CustomError('Failed to reconcile ledger', 500);
+  }
+
+  const drift = (data || []) as LedgerDrift[];
+
+  const { data: run, error: runError } = await supabaseAdmin
+    .from('ledger_reconciliation_runs')
+    .insert({ drift_count: drift.length, drift })
+    .select()
+    .single();
+
+  if (runError) {
+    console.error('Error recording ledger reconciliation:', runError);
+  }
+
+  if (drift.length > 0) {
+    console.error(`Ledger reconciliation found ${drift.length} discrepancies:`, drift);
+  }
+
+  return { run, drift };
+};
+
+export const listReconciliationRuns = async (limit: number) => {
+  const { data: runs, error } = await supabaseAdmin
+    .from('ledger_reconciliation_runs')
+    .select('*')
+    .order('checked_at', { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    throw new CustomError('Failed to fetch reconciliation runs', 500);
+  }
+
+  return runs || [];
+};
+
+/**
+ * Periodically reconcile the ledger so drift is noticed without waiting for a report
+ */
+export const startLedgerReconciliationJob = (): NodeJS.Timeout =>
+  setInterval(() => {
+    reconcileLedger().catch((error) => {
+      console.error('Error reconciling ledger:', error);
+    });
+  }, LEDGER_RECONCILIATION_INTERVAL_MS);
@@ -0,0 +1,149 @@
+import { supabaseAdmin } from '../config/supabase';
+import { CustomError } from '../middleware/errorHandler';
+import { estimateEta } from './etaService';
+
+// Statuses during which the mechanic's position is shared with the customer
+export const LIVE_TRACKING_STATUSES = ['accepted', 'en_route'];
+
+export interface LiveLocationUpdate {
+  latitude: number;
+  longitude: number;
+  heading?: number | null;
+  speed?: number | null;
+  accuracy?: number | null;
+}
+
+export const isLiveTrackingActive = (status: string): boolean =>
+  LIVE_TRACKING_STATUSES.includes(status);
+
+/**
+ * Store the mechanic's latest position for a request. Customers receive it via
+ * Supabase Realtime on service_request_locations (one row per request).
+ */
+export const publishMechanicLocation = async (
+  serviceRequest: { id: string; mechanic_id: string; status: string },
+  update: LiveLocationUpdate
+) => {
+  if (!isLiveTrackingActive(serviceRequest.status)) {
+    throw new CustomError('Location sharing has ended for this job', 409);
+  }
+
+  const { data: location, error } = await supabaseAdmin
+    .from('service_request_locations')
+    .upsert(
+      {
+        service_request_id: serviceRequest.id,
+        mechanic_id: serviceRequest.mechanic_id,
+        latitude: update.latitude,
+        longitude: update.longitude,
+        heading: update.heading ?? null,
+        speed: update.speed ?? null,
+        accuracy: update.accuracy ?? null,
+        recorded_at: new Date().toISOString(),
+      },
+      { onConflict: 'service_request_id' }
+    )
+    .select()
+    .single();
+
+  if (error) {
+    throw new CustomError('Failed to update location', 500);
+  }
+
+  // Keep the mechanic's profile location fresh for nearby search as well
+  const { error: userError } = await supabaseAdmin
+    .from('users')
+    .update({
+      location_lat: update.latitude,
+      location_lng: update.longitude,
+    })
+    .eq('id', serviceRequest.mechanic_id);
+
+  if (userError) {
+    console.error('Error updating mechanic location:', userError);
+  }
+
+  return location;
+};
+
+/**
+ * Get the mechanic's last shared position, or null once tracking has ended
+ */
+export const getMechanicLocation = async (serviceRequest: { id: string; status: string }) => {
+  if (!isLiveTrackingActive(serviceRequest.status)) {
+    return null;
+  }
+
+  const { data: location, error } = await supabaseAdmin
+    .from('service_request_locations')
+    .select('*')
+    .eq('service_request_id', serviceRequest.id)
+    .maybeSingle();
+
+  if (error) {
+    throw new CustomError('Failed to fetch mechanic location', 500);
+  }
+
+  return location;
+};
+
+/**
+ * Estimate the assigned mechanic's arrival from their last shared position,
+ * falling back to their profile location before streaming has started
+ */
+export const getMechanicEta = async (serviceRequest: {
+  id: string;
+  mechanic_id: string | null;
+  status: string;
+  customer_location_lat: number | null;
+  customer_location_lng: number | null;
+}) => {
+  if (
+    !isLiveTrackingActive(serviceRequest.status) ||
+    !serviceRequest.mechanic_id ||
+    !serviceRequest.customer_location_lat ||
+    !serviceRequest.customer_location_lng
+  ) {
+    return null;
+  }
+
+  let origin: { latitude: number; longitude: number; recorded_at: string | null } | null = null;
+
+  const liveLocation = await getMechanicLocation(serviceRequest);
+  if (liveLocation) {
+    origin = {
+      latitude: liveLocation.latitude,
+      longitude: liveLocation.longitude,
+      recorded_at: liveLocation.recorded_at,
+    };
+  } else {
+    const { data: mechanic } = await supabaseAdmin
+      .from('users')
+      .select('location_lat, location_lng')
+      .eq('id', serviceRequest.mechanic_id)
+      .single();
+
+    if (mechanic?.location_lat && mechanic?.location_lng) {
+      origin = {
+        latitude: mechanic.location_lat,
+        longitude: mechanic.location_lng,
+        recorded_at: null,
+      };
+    }
+  }
+
+  if (!origin) {
+    return null;
+  }
+
+  const estimate = await estimateEta(origin, {
+    latitude: serviceRequest.customer_location_lat,
+    longitude: serviceRequest.customer_location_lng,
+  });
+
+  return {
+    ...estimate,
+    arrival_at: new Date(Date.now() + estimate.duration_minutes * 60 * 1000).toISOString(),
+    location_recorded_at: origin.recorded_at,
+  };
+};
@@ -0,0 +1,107 @@
+import { supabaseAdmin } from '../config/supabase';
+import { CustomError } from '../middleware/errorHandler';
+import { getRatingSummary, listReviews } from './reviewService';
+
+export const RECENT_REVIEWS_LIMIT = 5;
+export const PORTFOLIO_PHOTO_LIMIT = 20;
+
+// The profile columns shown publicly, with the mechanic's name and account photo
+interface PublicMechanicRow {
+  id: string;
+  user_id: string;
+  bio: string | null;
+  years_of_experience: number | null;
+  rating: number | null;
+  total_jobs: number | null;
+  is_available: boolean;
+  profile_photo_url: string | null;
+  verification_status: string;
+  background_check_status: string | null;
+  verified_at: string | null;
+  created_at: string;
+  users: { full_name: string; profile_picture_url: string | null };
+}
+
+/**
+ * Public profile of an approved mechanic, by their user id
+ */
+export const getPublicMechanicProfile = async (userId: string) => {
+  const { data: mechanic, error } = await supabaseAdmin
+    .from('mechanic_profiles')
+    .select(`
+      id,
+      user_id,
+      bio,
+      years_of_experience,
+      rating,
+      total_jobs,
+      is_available,
+      profile_photo_url,
+      verification_status,
+      background_check_status,
+      verified_at,
+      created_at,
+      users!inner (
+        full_name,
+        profile_picture_url
+      )
+    `)
+    .eq('user_id', userId)
+    .maybeSingle()
+    .overrideTypes<PublicMechanicRow | null, { merge: false }>();
+
+  if (error) {
+    throw new CustomError('Failed to fetch mechanic profile', 500);
+  }
+
+  // Mechanics who are not approved are not publicly visible
+  if (!mechanic || mechanic.verification_status !== 'approved') {
+    throw new CustomError('Mechanic not found', 404);
+  }
+
+  const user = mechanic.users;
+
+  const [specializationsResult, portfolioResult, ratingSummary, recentReviews] = await Promise.all([
+    supabaseAdmin
+      .from('mechanic_specializations')
+      .select('specialization')
+      .eq('mechanic_id', mechanic.id),
+    supabaseAdmin
+      .from('mechanic_portfolio_photos')
+      .select('id, image_url, caption, created_at')
+      .eq('mechanic_id', mechanic.id)
+      .order('created_at', { ascending: false })
+      .limit(PORTFOLIO_PHOTO_LIMIT),
+    getRatingSummary(userId, 'mechanic'),
+    listReviews(userId, 'customer', { limit: RECENT_REVIEWS_LIMIT }),
+  ]);
+
+  if (specializationsResult.error || portfolioResult.error) {
+    console.error(
+      'Error fetching mechanic profile details:',
+      specializationsResult.error || portfolioResult.error
+    );
+  }
+
+  return {
+    id: mechanic.id,
+    user_id: mechanic.user_id,
+    name: user.full_name,
+    profile_photo: mechanic.profile_photo_url || user.profile_picture_url || null,
+    bio: mechanic.bio || null,
+    years_of_experience: mechanic.years_of_experience ?? null,
+    rating: mechanic.rating || 0,
+    total_jobs: mechanic.total_jobs || 0,
+    is_available: mechanic.is_available,
+    member_since: mechanic.created_at,
+    specializations: (specializationsResult.data || []).map((s) => s.specialization),
+    badges: {
+      identity_verified: true,
+      verified_at: mechanic.verified_at,
+      background_checked: mechanic.background_check_status === 'passed',
+    },
+    rating_breakdown: ratingSummary,
+    recent_reviews: recentReviews.reviews,
+    portfolio: portfolioResult.data || [],
+  };
+};
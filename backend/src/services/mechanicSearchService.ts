@@ -0,0 +1,240 @@
+import { supabaseAdmin } from '../config/supabase';
+import { CustomError } from '../middleware/errorHandler';
+import {
+  applyEtaScore,
+  explainRanking,
+  getRankingWeights,
+  NearbySort,
+  RankingComponent,
+  RankingExplanation,
+  RankingWeights,
+} from './rankingService';
+import { estimateDriveMinutes, estimateEtas } from './etaService';
+
+export interface NearbyMechanicQuery {
+  latitude: number;
+  longitude: number;
+  radiusKm: number;
+  specializations?: string[]; // matches mechanics with any of them
+  minRating?: number;
+  verifiedOnly?: boolean; // background check passed
+  gender?: string;
+  minPrice?: number; // typical labour cost per job
+  maxPrice?: number;
+  excludeUserIds?: string[];
+  limit?: number;
+  offset?: number;
+  sort?: NearbySort;
+}
+
+export interface NearbyMechanic {
+  id: string;
+  user_id: string;
+  name: string;
+  profile_photo: string | null;
+  rating: number;
+  total_jobs: number;
+  specializations: string[];
+  distance: number;
+  route_distance: number | null; // road distance from the ETA provider
+  eta_minutes: number | null;
+  is_available: boolean;
+  latitude: number;
+  longitude: number;
+  gender: string | null;
+  background_checked: boolean;
+  typical_price: number | null;
+  acceptance_rate: number;
+  cancellation_rate: number;
+  last_active_at: string | null;
+  ranking: RankingExplanation;
+}
+
+export interface NearbyMechanicPage {
+  mechanics: NearbyMechanic[];
+  total: number;
+}
+
+// A row returned by nearby_mechanics; DECIMAL columns may arrive as strings
+type NearbyMechanicRow = Record<`${RankingComponent}_score`, number> & {
+  id: string;
+  user_id: string;
+  name: string;
+  profile_photo: string | null;
+  rating: number | string | null;
+  total_jobs: number | null;
+  is_available: boolean;
+  latitude: number | string;
+  longitude: number | string;
+  distance_km: number;
+  specializations: string[] | null;
+  gender: string | null;
+  background_checked: boolean | null;
+  typical_price: number | string | null;
+  acceptance_rate: number;
+  cancellation_rate: number;
+  last_active_at: string | null;
+  score: number | null;
+  total_count: number | string;
+};
+
+export const NEARBY_DEFAULT_LIMIT = 20;
+export const NEARBY_MAX_LIMIT = 50;
+export const NEARBY_MAX_RADIUS_KM = 50;
+// 'best' and 'distance' depend on travel time, which Postgres can't see: this many of
+// its top candidates are ranked by ETA before paging. Later pages are paged by
+// Postgres and only re-sorted within the page.
+export const ETA_RANKING_CANDIDATES = 100;
+export const NEARBY_GENDERS = ['male', 'female'];
+
+// Calculate distance between two coordinates (Haversine formula)
+export function calculateDistance(
+  lat1: number,
+  lon1: number,
+  lat2: number,
+  lon2: number
+): number {
+  const R = 6371; // Earth's radius in km
+  const dLat = ((lat2 - lat1) * Math.PI) / 180;
+  const dLon = ((lon2 - lon1) * Math.PI) / 180;
+  const a =
+    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
+    Math.cos((lat1 * Math.PI) / 180) *
+      Math.cos((lat2 * Math.PI) / 180) *
+      Math.sin(dLon / 2) *
+      Math.sin(dLon / 2);
+  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+  return R * c;
+}
+
+/**
+ * Postgres can only score straight-line distance, so it picks the candidates that
+ * way. They are then re-scored and re-sorted by travel time from the ETA provider;
+ * mechanics without an estimate keep their distance score.
+ */
+const rankByTravelTime = async (
+  mechanics: NearbyMechanic[],
+  destination: { latitude: number; longitude: number },
+  radiusKm: number,
+  sort: NearbySort,
+  weights: RankingWeights
+) => {
+  const etas = await estimateEtas(
+    mechanics.map((m) => ({ latitude: m.latitude, longitude: m.longitude })),
+    destination
+  );
+  // Driving to the edge of the search radius scores 0
+  const longestDrive = estimateDriveMinutes(radiusKm);
+
+  mechanics.forEach((mechanic, index) => {
+    const eta = etas[index];
+    if (!eta) {
+      return;
+    }
+
+    mechanic.route_distance = eta.distance_km;
+    mechanic.eta_minutes = eta.duration_minutes;
+
+    if (longestDrive > 0) {
+      mechanic.ranking = applyEtaScore(
+        mechanic.ranking,
+        Math.max(0, 1 - eta.duration_minutes / longestDrive),
+        weights
+      );
+    }
+  });
+
+  const travelMinutes = (mechanic: NearbyMechanic) =>
+    mechanic.eta_minutes ?? estimateDriveMinutes(mechanic.distance);
+
+  if (sort === 'best') {
+    mechanics.sort((a, b) => b.ranking.score - a.ranking.score || travelMinutes(a) - travelMinutes(b));
+  } else if (sort === 'distance') {
+    mechanics.sort((a, b) => travelMinutes(a) - travelMinutes(b));
+  }
+};
+
+/**
+ * Find verified, available mechanics within the radius, best ranked first
+ * unless another sort is requested. Runs in Postgres (nearby_mechanics, PostGIS), which
+ * loads one page, or the ETA_RANKING_CANDIDATES window for travel time sorts.
+ * Shared by the nearby listing and request dispatch.
+ */
+export const findNearbyMechanics = async ({
+  latitude,
+  longitude,
+  radiusKm,
+  specializations = [],
+  minRating,
+  verifiedOnly = false,
+  gender,
+  minPrice,
+  maxPrice,
+  excludeUserIds = [],
+  limit = NEARBY_DEFAULT_LIMIT,
+  offset = 0,
+  sort = 'best',
+}: NearbyMechanicQuery): Promise<NearbyMechanicPage> => {
+  const weights = getRankingWeights();
+  const pageLimit = Math.min(Math.max(limit, 1), NEARBY_MAX_LIMIT);
+  const pageOffset = Math.max(offset, 0);
+  const rankBeforePaging =
+    (sort === 'best' || sort === 'distance') && pageOffset + pageLimit <= ETA_RANKING_CANDIDATES;
+
+  const { data, error } = await supabaseAdmin.rpc('nearby_mechanics', {
+    p_lat: latitude,
+    p_lng: longitude,
+    p_radius_km: radiusKm,
+    p_specializations: specializations.length > 0 ? specializations : null,
+    p_exclude_user_ids: excludeUserIds,
+    p_limit: rankBeforePaging ? ETA_RANKING_CANDIDATES : pageLimit,
+    p_offset: rankBeforePaging ? 0 : pageOffset,
+    p_sort: sort,
+    p_weights: weights,
+    p_min_rating: minRating ?? null,
+    p_verified_only: verifiedOnly,
+    p_gender: gender || null,
+    p_min_price: minPrice ?? null,
+    p_max_price: maxPrice ?? null,
+  });
+
+  if (error) {
+    throw new CustomError('Failed to fetch mechanics', 500);
+  }
+
+  const rows = data as NearbyMechanicRow[] | null;
+
+  if (!rows || rows.length === 0) {
+    return { mechanics: [], total: 0 };
+  }
+
+  const mechanics: NearbyMechanic[] = rows.map((row) => ({
+    id: row.id,
+    user_id: row.user_id,
+    name: row.name,
+    profile_photo: row.profile_photo || null,
+    rating: Number(row.rating) || 0,
+    total_jobs: row.total_jobs || 0,
+    specializations: row.specializations || [],
+    distance: Math.round(row.distance_km * 10) / 10, // Round to 1 decimal
+    route_distance: null,
+    eta_minutes: null,
+    is_available: row.is_available,
+    latitude: Number(row.latitude),
+    longitude: Number(row.longitude),
+    gender: row.gender || null,
+    background_checked: !!row.background_checked,
+    typical_price: row.typical_price === null ? null : Number(row.typical_price),
+    acceptance_rate: Math.round(Number(row.acceptance_rate) * 100) / 100,
+    cancellation_rate: Math.round(Number(row.cancellation_rate) * 100) / 100,
+    last_active_at: row.last_active_at || null,
+    ranking: explainRanking(row, weights),
+  }));
+
+  await rankByTravelTime(mechanics, { latitude, longitude }, radiusKm, sort, weights);
+
+  return {
+    mechanics: rankBeforePaging ? mechanics.slice(pageOffset, pageOffset + pageLimit) : mechanics,
+    total: Number(rows[0].total_count) || mechanics.length,
+  };
+};
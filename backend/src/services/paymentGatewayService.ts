@@ -0,0 +1,228 @@
+import { env } from '../config/env';
+import { CustomError } from '../middleware/errorHandler';
+import { verifyHmacSignature } from '../utils/signature';
+
+export type PaymentChannel = 'card' | 'bank_transfer' | 'ussd';
+
+export const PAYMENT_CHANNELS: PaymentChannel[] = ['card', 'bank_transfer', 'ussd'];
+
+export interface PaymentCheckout {
+  // Page where the customer completes the payment; null when nothing needs to be shown
+  authorization_url: string | null;
+  gateway_reference: string;
+}
+
+export interface PaymentVerification {
+  status: 'success' | 'failed' | 'pending';
+  amount: number;
+  channel?: string;
+}
+
+export interface PaymentWebhookEvent {
+  event_id: string;
+  reference: string; // the reference we sent when initializing
+  status: 'success' | 'failed';
+  amount: number;
+  channel?: string;
+}
+
+/**
+ * Collects customer payments. Payments carry our payment id as the reference so
+ * verification and webhooks can be matched back to the payment.
+ */
+export interface PaymentGateway {
+  name: string;
+  signatureHeader: string;
+  initialize(input: {
+    reference: string;
+    amount: number;
+    email: string;
+    channel: PaymentChannel;
+  }): Promise<PaymentCheckout>;
+  verify(reference: string): Promise<PaymentVerification>;
+  refund(input: { reference: string; amount: number }): Promise<{ refund_reference: string }>;
+  verifyWebhook(rawBody: Buffer, signature: string | undefined): boolean;
+  // null for events that aren't about payments
+  parseWebhook(body: unknown): PaymentWebhookEvent | null;
+}
+
+const asRecord = (value: unknown): Record<string, unknown> =>
+  value && typeof value === 'object' ? { ...value } : {};
+
+// Amounts initialized with the fake gateway, so verification can report them
+const fakeCheckouts = new Map<string, number>();
+
+/**
+ * Local gateway for development and tests; no money moves. Every payment succeeds
+ * once verified. Failures can be sent as webhooks signed with PAYMENT_WEBHOOK_SECRET.
+ */
+export const fakePaymentGateway: PaymentGateway = {
+  name: 'fake',
+  signatureHeader: 'x-payment-signature',
+  async initialize(input) {
+    fakeCheckouts.set(input.reference, input.amount);
+    return { authorization_url: null, gateway_reference: input.reference };
+  },
+  async verify(reference) {
+    const amount = fakeCheckouts.get(reference);
+    if (amount === undefined) {
+      return { status: 'pending', amount: 0 };
+    }
+    return { status: 'success', amount, channel: 'card' };
+  },
+  async refund(input) {
+    return { refund_reference: `FAKE_RFD_${input.reference}` };
+  },
+  verifyWebhook(rawBody, signature) {
+    return verifyHmacSignature(env.payment.webhookSecret, rawBody, signature);
+  },
+  parseWebhook(body) {
+    const fields = asRecord(body);
+    const status = fields.status as PaymentWebhookEvent['status'];
+
+    if (!fields.event_id || !fields.reference || !['success', 'failed'].includes(status)) {
+      return null;
+    }
+    return {
+      event_id: String(fields.event_id),
+      reference: String(fields.reference),
+      status,
+      amount: Number(fields.amount) || 0,
+      channel: typeof fields.channel === 'string' ? fields.channel : undefined,
+    };
+  },
+};
+
+const PAYSTACK_BASE_URL = 'https://api.paystack.co';
+
+const PAYSTACK_CHARGE_EVENTS: Record<string, PaymentWebhookEvent['status']> = {
+  'charge.success': 'success',
+  'charge.failed': 'failed',
+};
+
+// The parts of Paystack responses read below
+interface PaystackResponse<T> {
+  status: boolean;
+  message?: string;
+  data: T;
+}
+
+interface PaystackCheckout {
+  authorization_url: string;
+  reference: string;
+}
+
+interface PaystackTransaction {
+  id: number;
+  reference: string;
+  status: string;
+  amount: number; // kobo
+  channel?: string;
+}
+
+/**
+ * Paystack Transactions. Amounts are in kobo; the customer pays on Paystack's checkout
+ * page, limited to the channel they picked.
+ */
+export const createPaystackPaymentGateway = (secretKey: string): PaymentGateway => {
+  const request = async <T>(path: string, init: { method?: string; body?: unknown } = {}) => {
+    const response = await fetch(`${PAYSTACK_BASE_URL}${path}`, {
+      method: init.method || 'GET',
+      headers: {
+        Authorization: `Bearer ${secretKey}`,
+        'Content-Type': 'application/json',
+      },
+      body: init.body ? JSON.stringify(init.body) : undefined,
+    });
+    const body = (await response.json()) as PaystackResponse<T>;
+
+    if (!response.ok || !body.status) {
+      throw new Error(`Paystack request failed: ${body.message || response.status}`);
+    }
+
+    return body.data;
+  };
+
+  return {
+    name: 'paystack',
+    signatureHeader: 'x-paystack-signature',
+    async initialize(input) {
+      const transaction = await request<PaystackCheckout>('/transaction/initialize', {
+        method: 'POST',
+        body: {
+          email: input.email,
+          amount: Math.round(input.amount * 100),
+          reference: input.reference,
+          channels: [input.channel],
+          currency: 'NGN',
+        },
+      });
+      return {
+        authorization_url: transaction.authorization_url,
+        gateway_reference: transaction.reference,
+      };
+    },
+    async verify(reference) {
+      const transaction = await request<PaystackTransaction>(
+        `/transaction/verify/${encodeURIComponent(reference)}`
+      );
+      const status =
+        transaction.status === 'success'
+          ? 'success'
+          : transaction.status === 'failed' || transaction.status === 'abandoned'
+            ? 'failed'
+            : 'pending';
+      return { status, amount: transaction.amount / 100, channel: transaction.channel };
+    },
+    async refund(input) {
+      const refund = await request<{ id: number }>('/refund', {
+        method: 'POST',
+        body: { transaction: input.reference, amount: Math.round(input.amount * 100) },
+      });
+      return { refund_reference: String(refund.id) };
+    },
+    verifyWebhook(rawBody, signature) {
+      return verifyHmacSignature(secretKey, rawBody, signature);
+    },
+    parseWebhook(body) {
+      const { event, data } = asRecord(body) as { event?: string; data?: PaystackTransaction };
+      const status = event ? PAYSTACK_CHARGE_EVENTS[event] : undefined;
+      if (!status || !data?.reference) {
+        return null;
+      }
+      return {
+        event_id: `${event}:${data.id}`,
+        reference: data.reference,
+        status,
+        amount: (Number(data.amount) || 0) / 100,
+        channel: data.channel,
+      };
+    },
+  };
+};
+
+// env.ts refuses to start with paystack and no key, or with fake in production
+let activeGateway: PaymentGateway =
+  env.payment.gateway === 'paystack'
+    ? createPaystackPaymentGateway(env.payment.paystackSecretKey!)
+    : fakePaymentGateway;
+
+/**
+ * Swap the gateway at runtime (e.g. the fake one in tests)
+ */
+export const setPaymentGateway = (gateway: PaymentGateway): void => {
+  activeGateway = gateway;
+};
+
+/**
+ * The gateway to charge, refund or verify with. The fake one reports every checkout as
+ * paid, so it must never move money in production: env.ts already refuses it there, and
+ * this also covers a gateway swapped at runtime.
+ */
+export const getPaymentGateway = (): PaymentGateway => {
+  if (activeGateway.name === 'fake' && env.nodeEnv === 'production') {
+    throw new CustomError('Payments are unavailable right now', 503);
+  }
+
+  return activeGateway;
+};
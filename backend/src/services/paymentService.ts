@@ -0,0 +1,763 @@
+import { supabaseAdmin } from '../config/supabase';
+import { CustomError } from '../middleware/errorHandler';
+import {
+  findLedgerTransaction,
+  LedgerPostingResult,
+  PLATFORM_ACCOUNTS,
+  postLedgerTransaction,
+  walletAccount,
+} from './ledgerService';
+import {
+  getPaymentGateway,
+  PAYMENT_CHANNELS,
+  PaymentChannel,
+  PaymentWebhookEvent,
+} from './paymentGatewayService';
+import { getApprovedQuote } from './quoteService';
+import { applyTopUpWebhookEvent, spendFromWallet } from './customerWalletService';
+
+export type PaymentMethod = 'in_app' | 'cash';
+
+export const PAYMENT_METHODS: PaymentMethod[] = ['in_app', 'cash'];
+
+// Customers pay through the gateway, or from their prepaid wallet
+export type PaymentSource = PaymentChannel | 'wallet';
+
+const WALLET_GATEWAY = 'wallet';
+
+export type PaymentStatus = 'pending' | 'held' | 'released' | 'refunded' | 'failed' | 'cancelled';
+
+// Customers pay once they have approved a quote, and top up if a revision costs more
+const PAYABLE_STATUSES = ['arrived', 'in_progress', 'awaiting_confirmation'];
+
+export interface Payment {
+  id: string;
+  service_request_id: string;
+  customer_id: string;
+  amount: number;
+  refunded_amount: number;
+  status: PaymentStatus;
+  channel: PaymentSource;
+  gateway: string;
+  gateway_reference: string | null;
+  authorization_url: string | null;
+}
+
+// pending until the gateway confirms it, sent once it has (wallet refunds start there),
+// completed once posted to the ledger
+export type RefundStatus = 'pending' | 'sent' | 'completed' | 'failed';
+
+export interface PaymentRefund {
+  id: string;
+  payment_id: string;
+  service_request_id: string;
+  customer_id: string;
+  amount: number;
+  to_wallet: boolean;
+  reason: string;
+  status: RefundStatus;
+  gateway_refund_reference: string | null;
+}
+
+export interface EscrowSummary {
+  required: number; // total of the approved quote
+  held: number;
+  amount_due: number;
+  payments: Payment[];
+}
+
+const roundMoney = (value: number) => Math.round(value * 100) / 100;
+
+// What is still held from a payment after partial refunds
+const heldBalance = (payment: Payment) =>
+  payment.status === 'held' ? roundMoney(Number(payment.amount) - Number(payment.refunded_amount)) : 0;
+
+export const getPayments = async (serviceRequestId: string): Promise<Payment[]> => {
+  const { data: payments, error } = await supabaseAdmin
+    .from('payments')
+    .select('*')
+    .eq('service_request_id', serviceRequestId)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    throw new CustomError('Failed to fetch payments', 500);
+  }
+
+  return (payments || []) as Payment[];
+};
+
+export const getPayment = async (serviceRequestId: string, paymentId: string): Promise<Payment> => {
+  const { data: payment, error } = await supabaseAdmin
+    .from('payments')
+    .select('*')
+    .eq('id', paymentId)
+    .eq('service_request_id', serviceRequestId)
+    .maybeSingle();
+
+  if (error) {
+    throw new CustomError('Failed to fetch payment', 500);
+  }
+
+  if (!payment) {
+    throw new CustomError('Payment not found', 404);
+  }
+
+  return payment as Payment;
+};
+
+/**
+ * How much of the approved price is held in escrow. null for cash jobs.
+ */
+export const getEscrowSummary = async (serviceRequest: {
+  id: string;
+  payment_method: PaymentMethod;
+}): Promise<EscrowSummary | null> => {
+  if (serviceRequest.payment_method !== 'in_app') {
+    return null;
+  }
+
+  const [payments, quote] = await Promise.all([
+    getPayments(serviceRequest.id),
+    getApprovedQuote(serviceRequest.id),
+  ]);
+
+  const required = quote ? Number(quote.total_cost) : 0;
+  const held = roundMoney(payments.reduce((sum, payment) => sum + heldBalance(payment), 0));
+
+  return {
+    required,
+    held,
+    amount_due: Math.max(roundMoney(required - held), 0),
+    payments,
+  };
+};
+
+/**
+ * Throw 409 unless an in-app job's approved price is fully held in escrow
+ */
+export const assertEscrowFunded = async (
+  serviceRequest: { id: string; payment_method: PaymentMethod },
+  message: string
+) => {
+  const escrow = await getEscrowSummary(serviceRequest);
+
+  if (escrow && (escrow.required === 0 || escrow.amount_due > 0)) {
+    throw new CustomError(message, 409);
+  }
+};
+
+/**
+ * Start a payment for whatever the customer still owes into escrow. Any earlier
+ * checkout left open is cancelled, so only the newest one is offered.
+ */
+export const createPayment = async (
+  serviceRequest: { id: string; customer_id: string; status: string; payment_method: PaymentMethod },
+  customerEmail: string,
+  channel: PaymentSource
+) => {
+  if (serviceRequest.payment_method !== 'in_app') {
+    throw new CustomError('This job is paid in cash', 409);
+  }
+
+  if (channel !== 'wallet' && !PAYMENT_CHANNELS.includes(channel)) {
+    throw new CustomError(`Channel must be one of ${[...PAYMENT_CHANNELS, 'wallet'].join(', ')}`, 400);
+  }
+
+  if (!PAYABLE_STATUSES.includes(serviceRequest.status)) {
+    throw new CustomError('This job cannot be paid for right now', 409);
+  }
+
+  const escrow = (await getEscrowSummary(serviceRequest))!;
+
+  if (escrow.required === 0) {
+    throw new CustomError("Approve the mechanic's quote before paying", 409);
+  }
+
+  if (escrow.amount_due === 0) {
+    throw new CustomError('This job is already paid for', 409);
+  }
+
+  await supabaseAdmin
+    .from('payments')
+    .update({ status: 'cancelled', updated_at: new Date().toISOString() })
+    .eq('service_request_id', serviceRequest.id)
+    .eq('status', 'pending');
+
+  if (channel === 'wallet') {
+    return payFromWallet(serviceRequest, escrow.amount_due);
+  }
+
+  const gateway = getPaymentGateway();
+
+  const { data: payment, error } = await supabaseAdmin
+    .from('payments')
+    .insert({
+      service_request_id: serviceRequest.id,
+      customer_id: serviceRequest.customer_id,
+      amount: escrow.amount_due,
+      status: 'pending',
+      channel,
+      gateway: gateway.name,
+    })
+    .select()
+    .single();
+
+  if (error) {
+    throw new CustomError('Failed to start payment', 500);
+  }
+
+  let checkout;
+  try {
+    checkout = await gateway.initialize({
+      reference: payment.id,
+      amount: escrow.amount_due,
+      email: customerEmail,
+      channel,
+    });
+  } catch (gatewayError) {
+    console.error('Error initializing payment:', gatewayError);
+    await supabaseAdmin.from('payments').update({ status: 'failed' }).eq('id', payment.id);
+    throw new CustomError('Payment could not be started, please try again', 502);
+  }
+
+  const { data: started, error: updateError } = await supabaseAdmin
+    .from('payments')
+    .update({
+      gateway_reference: checkout.gateway_reference,
+      authorization_url: checkout.authorization_url,
+    })
+    .eq('id', payment.id)
+    .select()
+    .single();
+
+  if (updateError) {
+    throw new CustomError('Failed to start payment', 500);
+  }
+
+  return started as Payment;
+};
+
+/**
+ * Pay what is due straight from the customer's wallet; held at once
+ */
+const payFromWallet = async (
+  serviceRequest: { id: string; customer_id: string },
+  amount: number
+): Promise<Payment> => {
+  const { data: payment, error } = await supabaseAdmin
+    .from('payments')
+    .insert({
+      service_request_id: serviceRequest.id,
+      customer_id: serviceRequest.customer_id,
+      amount,
+      status: 'pending',
+      channel: 'wallet',
+      gateway: WALLET_GATEWAY,
+    })
+    .select()
+    .single();
+
+  if (error) {
+    throw new CustomError('Failed to start payment', 500);
+  }
+
+  try {
+    await spendFromWallet({
+      userId: serviceRequest.customer_id,
+      amount,
+      account: PLATFORM_ACCOUNTS.escrow,
+      referenceType: 'service_request',
+      referenceId: serviceRequest.id,
+      idempotencyKey: `wallet_payment:${payment.id}`,
+      description: `Payment for service request ${serviceRequest.id}`,
+    });
+  } catch (spendError) {
+    await supabaseAdmin.from('payments').delete().eq('id', payment.id);
+    throw spendError;
+  }
+
+  await holdPayment(payment as Payment, amount);
+
+  return getPayment(serviceRequest.id, payment.id);
+};
+
+const postPaymentReceived = (payment: Payment, amount: number) =>
+  postLedgerTransaction({
+    kind: 'payment_received',
+    idempotencyKey: `payment_received:${payment.id}`,
+    description: `Payment for service request ${payment.service_request_id}`,
+    referenceType: 'service_request',
+    referenceId: payment.service_request_id,
+    entries: [
+      { account: PLATFORM_ACCOUNTS.gatewayClearing, amount: -amount },
+      { account: PLATFORM_ACCOUNTS.escrow, amount },
+    ],
+  });
+
+/**
+ * Hold a successful payment in escrow. A late payment for a cancelled checkout is
+ * still held (and refunded as excess if it isn't needed). Returns null if already held.
+ */
+const holdPayment = async (payment: Payment, paidAmount: number, channel?: string) => {
+  const { data: held, error } = await supabaseAdmin
+    .from('payments')
+    .update({
+      status: 'held',
+      // Hold what actually arrived; any shortfall stays due
+      amount: roundMoney(paidAmount),
+      channel: PAYMENT_CHANNELS.includes(channel as PaymentChannel) ? channel : payment.channel,
+      paid_at: new Date().toISOString(),
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', payment.id)
+    .in('status', ['pending', 'cancelled'])
+    .select()
+    .maybeSingle();
+
+  if (error) {
+    throw new CustomError('Failed to update payment', 500);
+  }
+
+  if (!held) {
+    // An earlier attempt may have stopped between the status update and the ledger
+    // (a webhook retry lands here); finish it. The idempotency key makes this a no-op
+    // when the ledger was already posted.
+    if (payment.gateway !== WALLET_GATEWAY) {
+      const { data: current } = await supabaseAdmin
+        .from('payments')
+        .select('status, amount')
+        .eq('id', payment.id)
+        .single();
+
+      if (current?.status === 'held') {
+        await postPaymentReceived(payment, Number(current.amount));
+      }
+    }
+    return null;
+  }
+
+  // Wallet payments moved into escrow when they were taken
+  if (payment.gateway !== WALLET_GATEWAY) {
+    await postPaymentReceived(payment, paidAmount);
+  }
+
+  const { data: serviceRequest } = await supabaseAdmin
+    .from('service_requests')
+    .select('mechanic_id')
+    .eq('id', payment.service_request_id)
+    .single();
+
+  if (serviceRequest?.mechanic_id) {
+    await supabaseAdmin.from('notifications').insert({
+      user_id: serviceRequest.mechanic_id,
+      title: 'Payment Secured',
+      body: `The customer has paid ₦${roundMoney(paidAmount).toFixed(2)} into escrow. It is released to you once the job is confirmed.`,
+      type: 'service_request',
+      reference_id: payment.service_request_id,
+    });
+  }
+
+  return held as Payment;
+};
+
+const failPayment = async (payment: Payment) => {
+  const { data: failed } = await supabaseAdmin
+    .from('payments')
+    .update({ status: 'failed', updated_at: new Date().toISOString() })
+    .eq('id', payment.id)
+    .in('status', ['pending', 'cancelled'])
+    .select()
+    .maybeSingle();
+
+  return failed as Payment | null;
+};
+
+/**
+ * Ask the gateway how a payment went, after the customer returns from checkout
+ */
+export const confirmPayment = async (payment: Payment): Promise<Payment> => {
+  if (payment.status !== 'pending' && payment.status !== 'cancelled') {
+    return payment;
+  }
+
+  let result;
+  try {
+    result = await getPaymentGateway().verify(payment.gateway_reference || payment.id);
+  } catch (gatewayError) {
+    console.error('Error verifying payment:', gatewayError);
+    throw new CustomError('Could not check the payment, please try again', 502);
+  }
+
+  if (result.status === 'success') {
+    await holdPayment(payment, result.amount, result.channel);
+  } else if (result.status === 'failed') {
+    await failPayment(payment);
+  }
+
+  return getPayment(payment.service_request_id, payment.id);
+};
+
+/**
+ * Post a sent refund to the ledger and mark it completed. Keyed by the gateway's refund
+ * reference (the refund's own id for wallet refunds), so finishing it twice is harmless.
+ */
+const completeRefund = async (refund: PaymentRefund) => {
+  await postLedgerTransaction({
+    kind: 'payment_refund',
+    idempotencyKey: `payment_refund:${refund.gateway_refund_reference || refund.id}`,
+    description: `Refund for service request ${refund.service_request_id}: ${refund.reason}`,
+    referenceType: 'service_request',
+    referenceId: refund.service_request_id,
+    entries: [
+      { account: PLATFORM_ACCOUNTS.escrow, amount: -refund.amount },
+      {
+        account: refund.to_wallet
+          ? walletAccount(refund.customer_id)
+          : PLATFORM_ACCOUNTS.gatewayClearing,
+        amount: refund.amount,
+      },
+    ],
+  });
+
+  const { error } = await supabaseAdmin
+    .from('payment_refunds')
+    .update({ status: 'completed', completed_at: new Date().toISOString() })
+    .eq('id', refund.id);
+
+  if (error) {
+    console.error(`Error completing refund ${refund.id}:`, error);
+  }
+};
+
+/**
+ * Post refunds the gateway sent whose ledger posting didn't happen (e.g. the posting
+ * failed after the gateway answered). Refunds still pending never got an answer from
+ * the gateway, so they are left to be checked with it by hand.
+ */
+export const completeSentRefunds = async (serviceRequestId: string) => {
+  const { data: refunds, error } = await supabaseAdmin
+    .from('payment_refunds')
+    .select('*')
+    .eq('service_request_id', serviceRequestId)
+    .eq('status', 'sent')
+    .overrideTypes<PaymentRefund[], { merge: false }>();
+
+  if (error) {
+    throw new CustomError('Failed to fetch refunds', 500);
+  }
+
+  for (const refund of refunds || []) {
+    await completeRefund(refund);
+  }
+};
+
+/**
+ * Send held money back to the customer, newest payment first. Pass null to refund
+ * everything still held. Wallet payments always go back to the wallet; toWallet
+ * sends gateway payments there too. Each portion is recorded as a refund before the
+ * gateway is called, and refunds an earlier call left unposted are finished first.
+ * Returns the amount refunded.
+ */
+export const refundEscrow = async (
+  serviceRequestId: string,
+  amount: number | null,
+  reason: string,
+  toWallet: boolean = false
+): Promise<number> => {
+  await completeSentRefunds(serviceRequestId);
+
+  const payments = (await getPayments(serviceRequestId))
+    .filter((payment) => heldBalance(payment) > 0)
+    .reverse();
+
+  let remaining =
+    amount === null ? payments.reduce((sum, payment) => sum + heldBalance(payment), 0) : amount;
+  remaining = roundMoney(remaining);
+  let refunded = 0;
+  let refundedToWallet = 0;
+
+  for (const payment of payments) {
+    const portion = roundMoney(Math.min(heldBalance(payment), remaining));
+    if (portion <= 0) {
+      break;
+    }
+
+    const refundedAmount = roundMoney(Number(payment.refunded_amount) + portion);
+    const fullyRefunded = refundedAmount >= Number(payment.amount);
+
+    // Claim the portion first, so overlapping refunds can't both send it
+    const { data: claimed } = await supabaseAdmin
+      .from('payments')
+      .update({
+        refunded_amount: refundedAmount,
+        status: fullyRefunded ? 'refunded' : 'held',
+        refunded_at: new Date().toISOString(),
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', payment.id)
+      .eq('status', 'held')
+      .eq('refunded_amount', payment.refunded_amount)
+      .select('id')
+      .maybeSingle();
+
+    if (!claimed) {
+      continue;
+    }
+
+    const releaseClaim = () =>
+      supabaseAdmin
+        .from('payments')
+        .update({ refunded_amount: payment.refunded_amount, status: 'held' })
+        .eq('id', payment.id);
+
+    const refundToWallet = toWallet || payment.gateway === WALLET_GATEWAY;
+
+    const { data: recorded, error: refundError } = await supabaseAdmin
+      .from('payment_refunds')
+      .insert({
+        payment_id: payment.id,
+        service_request_id: serviceRequestId,
+        customer_id: payment.customer_id,
+        amount: portion,
+        to_wallet: refundToWallet,
+        reason,
+        // Nothing to wait for when the money stays with us
+        status: refundToWallet ? 'sent' : 'pending',
+      })
+      .select()
+      .single();
+
+    if (refundError || !recorded) {
+      await releaseClaim();
+      throw new CustomError('Failed to record refund', 500);
+    }
+
+    const refund = recorded as PaymentRefund;
+
+    if (!refundToWallet) {
+      try {
+        const sent = await getPaymentGateway().refund({
+          reference: payment.gateway_reference || payment.id,
+          amount: portion,
+        });
+        refund.gateway_refund_reference = sent.refund_reference;
+        refund.status = 'sent';
+      } catch (gatewayError) {
+        console.error('Error refunding payment:', gatewayError);
+        await supabaseAdmin.from('payment_refunds').update({ status: 'failed' }).eq('id', refund.id);
+        await releaseClaim();
+        throw new CustomError('The refund could not be sent, please try again', 502);
+      }
+
+      const { error: sentError } = await supabaseAdmin
+        .from('payment_refunds')
+        .update({ status: 'sent', gateway_refund_reference: refund.gateway_refund_reference })
+        .eq('id', refund.id);
+
+      if (sentError) {
+        console.error(`Error saving gateway reference for refund ${refund.id}:`, sentError);
+      }
+    }
+
+    await completeRefund(refund);
+
+    remaining = roundMoney(remaining - portion);
+    refunded = roundMoney(refunded + portion);
+    if (refundToWallet) {
+      refundedToWallet = roundMoney(refundedToWallet + portion);
+    }
+  }
+
+  if (refunded > 0) {
+    const destination =
+      refundedToWallet === refunded
+        ? 'your wallet'
+        : refundedToWallet > 0
+          ? 'your wallet and original payment method'
+          : 'your original payment method';
+
+    await supabaseAdmin.from('notifications').insert({
+      user_id: payments[0].customer_id,
+      title: 'Refund Issued',
+      body: `₦${refunded.toFixed(2)} has been refunded to ${destination} (${reason})`,
+      type: 'service_request',
+      reference_id: serviceRequestId,
+    });
+  }
+
+  return refunded;
+};
+
+const markPaymentsReleased = async (serviceRequestId: string) => {
+  await supabaseAdmin
+    .from('payments')
+    .update({ status: 'released', released_at: new Date().toISOString() })
+    .eq('service_request_id', serviceRequestId)
+    .eq('status', 'held');
+};
+
+/**
+ * Pay a confirmed in-app job out of escrow: anything held beyond the final price goes
+ * back to the customer, the rest is split between the mechanic and the commission.
+ * A job already released returns its earlier release (finishing the payments if
+ * that call stopped part way); null when there was nothing to release.
+ */
+export const releaseEscrow = async (
+  serviceRequest: {
+    id: string;
+    mechanic_id: string;
+    total_cost: number | string | null;
+    payment_method: PaymentMethod;
+  },
+  commission: number
+): Promise<LedgerPostingResult | null> => {
+  const idempotencyKey = `escrow_release:${serviceRequest.id}`;
+  const existing = await findLedgerTransaction(idempotencyKey);
+
+  if (existing) {
+    await markPaymentsReleased(serviceRequest.id);
+    return { transaction_id: existing.id, created: false };
+  }
+
+  const escrow = await getEscrowSummary(serviceRequest);
+  const total = roundMoney(Number(serviceRequest.total_cost) || 0);
+
+  if (!escrow || escrow.held < total) {
+    throw new CustomError('The job is not fully paid for yet', 409);
+  }
+
+  if (escrow.held > total) {
+    await refundEscrow(serviceRequest.id, escrow.held - total, 'the final price was below what you paid');
+  }
+
+  let release: LedgerPostingResult | null = null;
+
+  if (total > 0) {
+    release = await postLedgerTransaction({
+      kind: 'escrow_release',
+      idempotencyKey,
+      description: `Payment released for service request ${serviceRequest.id} (less commission)`,
+      referenceType: 'service_request',
+      referenceId: serviceRequest.id,
+      entries: [
+        { account: PLATFORM_ACCOUNTS.escrow, amount: -total },
+        { account: walletAccount(serviceRequest.mechanic_id), amount: total - commission },
+        { account: PLATFORM_ACCOUNTS.commissionRevenue, amount: commission },
+      ],
+    });
+  }
+
+  await markPaymentsReleased(serviceRequest.id);
+
+  return release;
+};
+
+/**
+ * Record a webhook event, or pick up the earlier delivery's row. Returns null when
+ * that delivery was already processed; otherwise the gateway is retrying one that
+ * failed part way, and it's processed again (holds, failures and top-ups are
+ * idempotent).
+ */
+const recordPaymentWebhookEvent = async (
+  gatewayName: string,
+  event: PaymentWebhookEvent,
+  body: unknown
+): Promise<{ id: string } | null> => {
+  const { data: recorded, error: recordError } = await supabaseAdmin
+    .from('payment_webhook_events')
+    .insert({
+      gateway: gatewayName,
+      event_id: event.event_id,
+      event_type: event.status,
+      payload: body,
+    })
+    .select('id')
+    .single();
+
+  if (!recordError) {
+    return recorded;
+  }
+
+  if (recordError.code !== '23505') {
+    throw new CustomError('Failed to record webhook', 500);
+  }
+
+  const { data: existing, error: existingError } = await supabaseAdmin
+    .from('payment_webhook_events')
+    .select('id, processed_at')
+    .eq('gateway', gatewayName)
+    .eq('event_id', event.event_id)
+    .single();
+
+  if (existingError || !existing) {
+    throw new CustomError('Failed to record webhook', 500);
+  }
+
+  return existing.processed_at ? null : { id: existing.id };
+};
+
+/**
+ * Apply a gateway webhook. Events are recorded by id and marked processed once
+ * applied, so redeliveries of applied events are ignored and failed ones retried.
+ * recognised is false for events that aren't about payments.
+ */
+export const handlePaymentWebhook = async (
+  gatewayName: string,
+  rawBody: Buffer | undefined,
+  signature: string | undefined,
+  body: unknown
+) => {
+  const gateway = getPaymentGateway();
+
+  if (gatewayName !== gateway.name || !rawBody || !gateway.verifyWebhook(rawBody, signature)) {
+    throw new CustomError('Invalid webhook signature', 401);
+  }
+
+  const event = gateway.parseWebhook(body);
+
+  if (!event) {
+    return { recognised: false, handled: false };
+  }
+
+  const recorded = await recordPaymentWebhookEvent(gateway.name, event, body);
+
+  if (!recorded) {
+    return { recognised: true, handled: false };
+  }
+
+  const { data: payment } = await supabaseAdmin
+    .from('payments')
+    .select('*')
+    .eq('gateway', gateway.name)
+    .eq('gateway_reference', event.reference)
+    .maybeSingle();
+
+  if (!payment) {
+    // Not a job payment; it may be a wallet top-up
+    const topUpResult = await applyTopUpWebhookEvent(gateway.name, event);
+
+    if (!topUpResult) {
+      console.error(`Payment webhook for unknown reference ${event.reference}`);
+      return { recognised: true, handled: false };
+    }
+
+    await supabaseAdmin
+      .from('payment_webhook_events')
+      .update({ topup_id: topUpResult.topUp.id, processed_at: new Date().toISOString() })
+      .eq('id', recorded.id);
+
+    return { recognised: true, handled: topUpResult.handled };
+  }
+
+  const updated =
+    event.status === 'success'
+      ? await holdPayment(payment as Payment, event.amount, event.channel)
+      : await failPayment(payment as Payment);
+
+  await supabaseAdmin
+    .from('payment_webhook_events')
+    .update({ payment_id: payment.id, processed_at: new Date().toISOString() })
+    .eq('id', recorded.id);
+
+  return { recognised: true, handled: Boolean(updated) };
+};
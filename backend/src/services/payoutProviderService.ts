@@ -0,0 +1,280 @@
+import { env } from '../config/env';
+import { verifyHmacSignature } from '../utils/signature';
+
+export interface PayoutBank {
+  code: string;
+  name: string;
+}
+
+export interface PayoutTransferResult {
+  // 'processing' means the provider will confirm later through a webhook
+  status: 'processing' | 'paid' | 'failed';
+  provider_reference: string;
+  failure_reason?: string;
+}
+
+export interface PayoutWebhookEvent {
+  event_id: string;
+  reference: string; // the reference we sent with the transfer
+  status: 'paid' | 'failed' | 'reversed';
+  failure_reason?: string;
+}
+
+/**
+ * Sends withdrawals to mechanics' bank accounts. Transfers carry our payout id as
+ * the reference so webhooks can be matched back to the payout.
+ */
+export interface PayoutProvider {
+  name: string;
+  signatureHeader: string;
+  listBanks(): Promise<PayoutBank[]>;
+  // Returns the account holder's name; throws if the account doesn't exist
+  resolveAccount(accountNumber: string, bankCode: string): Promise<string>;
+  createRecipient(account: {
+    account_name: string;
+    account_number: string;
+    bank_code: string;
+  }): Promise<string>;
+  transfer(input: {
+    amount: number;
+    recipient_code: string;
+    reference: string;
+    reason: string;
+  }): Promise<PayoutTransferResult>;
+  // The transfer sent with this reference, or null if the provider never received one
+  findTransfer(reference: string): Promise<PayoutTransferResult | null>;
+  verifyWebhook(rawBody: Buffer, signature: string | undefined): boolean;
+  // null for events that aren't about transfers
+  parseWebhook(body: unknown): PayoutWebhookEvent | null;
+}
+
+/**
+ * Provider errors carry a message that is safe to show the mechanic
+ */
+export class PayoutProviderError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PayoutProviderError';
+  }
+}
+
+const asRecord = (value: unknown): Record<string, unknown> =>
+  value && typeof value === 'object' ? { ...value } : {};
+
+const FAKE_BANKS: PayoutBank[] = [
+  { code: '044', name: 'Access Bank' },
+  { code: '058', name: 'Guaranty Trust Bank' },
+  { code: '011', name: 'First Bank of Nigeria' },
+  { code: '033', name: 'United Bank for Africa' },
+  { code: '057', name: 'Zenith Bank' },
+];
+
+// Transfers the fake provider has answered, by reference
+const fakeTransfers = new Map<string, PayoutTransferResult>();
+
+/**
+ * Local provider for development and tests; no money moves. Account numbers starting
+ * with 000 don't resolve, transfers to accounts ending in 9 fail, everything else is
+ * paid straight away. Webhooks are signed with PAYOUT_WEBHOOK_SECRET.
+ */
+export const fakePayoutProvider: PayoutProvider = {
+  name: 'fake',
+  signatureHeader: 'x-payout-signature',
+  async listBanks() {
+    return FAKE_BANKS;
+  },
+  async resolveAccount(accountNumber, bankCode) {
+    if (accountNumber.startsWith('000') || !FAKE_BANKS.some((bank) => bank.code === bankCode)) {
+      throw new PayoutProviderError('Account not found, please check the details');
+    }
+    return `Test Account ${accountNumber.slice(-4)}`;
+  },
+  async createRecipient(account) {
+    return `FAKE_RCP_${account.bank_code}_${account.account_number}`;
+  },
+  async transfer(input) {
+    const result: PayoutTransferResult = input.recipient_code.endsWith('9')
+      ? {
+          status: 'failed',
+          provider_reference: input.reference,
+          failure_reason: 'Account could not be credited',
+        }
+      : { status: 'paid', provider_reference: input.reference };
+
+    fakeTransfers.set(input.reference, result);
+    return result;
+  },
+  async findTransfer(reference) {
+    return fakeTransfers.get(reference) || null;
+  },
+  verifyWebhook(rawBody, signature) {
+    return verifyHmacSignature(env.payout.webhookSecret, rawBody, signature);
+  },
+  parseWebhook(body) {
+    const fields = asRecord(body);
+    const status = fields.status as PayoutWebhookEvent['status'];
+
+    if (!fields.event_id || !fields.reference || !['paid', 'failed', 'reversed'].includes(status)) {
+      return null;
+    }
+    return {
+      event_id: String(fields.event_id),
+      reference: String(fields.reference),
+      status,
+      failure_reason: typeof fields.failure_reason === 'string' ? fields.failure_reason : undefined,
+    };
+  },
+};
+
+const PAYSTACK_BASE_URL = 'https://api.paystack.co';
+
+const PAYSTACK_TRANSFER_EVENTS: Record<string, PayoutWebhookEvent['status']> = {
+  'transfer.success': 'paid',
+  'transfer.failed': 'failed',
+  'transfer.reversed': 'reversed',
+};
+
+// The parts of Paystack responses read below
+interface PaystackResponse<T> {
+  status: boolean;
+  message?: string;
+  data: T;
+}
+
+interface PaystackTransfer {
+  id: number;
+  reference: string;
+  status: string;
+  reason?: string | null;
+  gateway_response?: string | null;
+}
+
+const toTransferResult = (transfer: PaystackTransfer): PayoutTransferResult => {
+  if (transfer.status === 'success') {
+    return { status: 'paid', provider_reference: transfer.reference };
+  }
+  // A transfer reversed before we heard it was paid never reached the mechanic
+  if (['failed', 'abandoned', 'reversed'].includes(transfer.status)) {
+    return {
+      status: 'failed',
+      provider_reference: transfer.reference,
+      failure_reason: transfer.reason || 'Transfer failed',
+    };
+  }
+  return { status: 'processing', provider_reference: transfer.reference };
+};
+
+/**
+ * Paystack Transfers. Amounts are sent in kobo; pending transfers are confirmed by webhook.
+ */
+export const createPaystackPayoutProvider = (secretKey: string): PayoutProvider => {
+  const send = async <T>(path: string, init: { method?: string; body?: unknown } = {}) => {
+    const response = await fetch(`${PAYSTACK_BASE_URL}${path}`, {
+      method: init.method || 'GET',
+      headers: {
+        Authorization: `Bearer ${secretKey}`,
+        'Content-Type': 'application/json',
+      },
+      body: init.body ? JSON.stringify(init.body) : undefined,
+    });
+    return { response, body: (await response.json()) as PaystackResponse<T> };
+  };
+
+  const readData = <T>({ response, body }: { response: Response; body: PaystackResponse<T> }) => {
+    if (!response.ok || !body.status) {
+      // 4xx answers are about the request (bad account, low balance), not the connection
+      if (response.status >= 400 && response.status < 500) {
+        throw new PayoutProviderError(body.message || 'Payout provider rejected the request');
+      }
+      throw new Error(`Paystack request failed: ${body.message || response.status}`);
+    }
+
+    return body.data;
+  };
+
+  const request = async <T>(path: string, init: { method?: string; body?: unknown } = {}) =>
+    readData(await send<T>(path, init));
+
+  return {
+    name: 'paystack',
+    signatureHeader: 'x-paystack-signature',
+    async listBanks() {
+      const banks = await request<PayoutBank[]>('/bank?country=nigeria&currency=NGN');
+      return banks.map((bank) => ({ code: bank.code, name: bank.name }));
+    },
+    async resolveAccount(accountNumber, bankCode) {
+      const params = new URLSearchParams({ account_number: accountNumber, bank_code: bankCode });
+      const account = await request<{ account_name: string }>(`/bank/resolve?${params.toString()}`);
+      return account.account_name;
+    },
+    async createRecipient(account) {
+      const recipient = await request<{ recipient_code: string }>('/transferrecipient', {
+        method: 'POST',
+        body: {
+          type: 'nuban',
+          name: account.account_name,
+          account_number: account.account_number,
+          bank_code: account.bank_code,
+          currency: 'NGN',
+        },
+      });
+      return recipient.recipient_code;
+    },
+    async transfer(input) {
+      const transfer = await request<PaystackTransfer>('/transfer', {
+        method: 'POST',
+        body: {
+          source: 'balance',
+          amount: Math.round(input.amount * 100),
+          recipient: input.recipient_code,
+          reference: input.reference,
+          reason: input.reason,
+        },
+      });
+
+      return toTransferResult(transfer);
+    },
+    async findTransfer(reference) {
+      const answer = await send<PaystackTransfer>(
+        `/transfer/verify/${encodeURIComponent(reference)}`
+      );
+
+      // Paystack answers 404 for references it never received
+      if (answer.response.status === 404) {
+        return null;
+      }
+      return toTransferResult(readData(answer));
+    },
+    verifyWebhook(rawBody, signature) {
+      return verifyHmacSignature(secretKey, rawBody, signature);
+    },
+    parseWebhook(body) {
+      const { event, data } = asRecord(body) as { event?: string; data?: PaystackTransfer };
+      const status = event ? PAYSTACK_TRANSFER_EVENTS[event] : undefined;
+      if (!status || !data?.reference) {
+        return null;
+      }
+      return {
+        event_id: `${event}:${data.id}`,
+        reference: data.reference,
+        status,
+        failure_reason: data.reason || data.gateway_response || undefined,
+      };
+    },
+  };
+};
+
+// env.ts refuses to start with paystack and no key, or with fake in production
+let activeProvider: PayoutProvider =
+  env.payout.provider === 'paystack'
+    ? createPaystackPayoutProvider(env.payout.paystackSecretKey!)
+    : fakePayoutProvider;
+
+/**
+ * Swap the provider at runtime (e.g. the fake one in tests)
+ */
+export const setPayoutProvider = (provider: PayoutProvider): void => {
+  activeProvider = provider;
+};
+
+export const getPayoutProvider = (): PayoutProvider => activeProvider;
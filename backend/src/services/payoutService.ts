@@ -0,0 +1,822 @@
+import { env } from '../config/env';
+import { supabaseAdmin } from '../config/supabase';
+import { CustomError } from '../middleware/errorHandler';
+import { PLATFORM_ACCOUNTS, postLedgerTransaction, walletAccount } from './ledgerService';
+import {
+  getPayoutProvider,
+  PayoutProvider,
+  PayoutProviderError,
+  PayoutTransferResult,
+  PayoutWebhookEvent,
+} from './payoutProviderService';
+
+export type PayoutStatus = 'pending' | 'processing' | 'paid' | 'failed' | 'reversed';
+
+export const PAYOUT_STATUSES: PayoutStatus[] = ['pending', 'processing', 'paid', 'failed', 'reversed'];
+
+// processing -> pending puts a payout back in the queue after a connection error
+const PAYOUT_TRANSITIONS: Record<PayoutStatus, PayoutStatus[]> = {
+  pending: ['processing', 'failed'],
+  processing: ['pending', 'paid', 'failed', 'reversed'],
+  paid: ['reversed'],
+  failed: [],
+  reversed: [],
+};
+
+const PAYOUT_TIMESTAMPS: Partial<Record<PayoutStatus, string>> = {
+  processing: 'processing_at',
+  paid: 'paid_at',
+  failed: 'failed_at',
+  reversed: 'reversed_at',
+};
+
+// Status shown on the withdrawal's wallet activity row
+const WALLET_ACTIVITY_STATUS: Record<PayoutStatus, string> = {
+  pending: 'pending',
+  processing: 'processing',
+  paid: 'completed',
+  failed: 'failed',
+  reversed: 'reversed',
+};
+
+export const MAX_BANK_ACCOUNTS = 5;
+// Connection errors are retried by later runs; after this many the payout fails
+const MAX_PAYOUT_ATTEMPTS = 3;
+const PAYOUT_PROCESSING_INTERVAL_MS = 10 * 60 * 1000; // 10 minutes
+// Payouts processing for longer than this are checked with the provider, in case the
+// webhook never came or the run sending them stopped part way
+const STALE_PROCESSING_MS = 60 * 60 * 1000; // 1 hour
+
+export interface Payout {
+  id: string;
+  user_id: string;
+  bank_account_id: string;
+  amount: number;
+  status: PayoutStatus;
+  provider: string;
+  provider_reference: string | null;
+  ledger_transaction_id: string | null;
+  attempts: number;
+  failure_reason: string | null;
+  paid_at: string | null;
+}
+
+const maskAccountNumber = (accountNumber: string) => `******${accountNumber.slice(-4)}`;
+
+const providerErrorMessage = (error: unknown, fallback: string) =>
+  error instanceof PayoutProviderError ? error.message : fallback;
+
+export const listBankAccounts = async (userId: string) => {
+  const { data: accounts, error } = await supabaseAdmin
+    .from('payout_bank_accounts')
+    .select('id, bank_code, bank_name, account_number, account_name, is_default, created_at')
+    .eq('user_id', userId)
+    .is('deleted_at', null)
+    .order('is_default', { ascending: false })
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    throw new CustomError('Failed to fetch bank accounts', 500);
+  }
+
+  return accounts || [];
+};
+
+const getBankAccount = async (userId: string, id: string) => {
+  const { data: account, error } = await supabaseAdmin
+    .from('payout_bank_accounts')
+    .select('*')
+    .eq('id', id)
+    .eq('user_id', userId)
+    .is('deleted_at', null)
+    .maybeSingle();
+
+  if (error) {
+    throw new CustomError('Failed to fetch bank account', 500);
+  }
+
+  if (!account) {
+    throw new CustomError('Bank account not found', 404);
+  }
+
+  return account;
+};
+
+/**
+ * Save a bank account after the provider confirms it exists. The holder's name comes
+ * from the bank, not the mechanic, so payouts can't be pointed at a mistyped account.
+ */
+export const addBankAccount = async (
+  userId: string,
+  input: { bank_code?: unknown; account_number?: unknown }
+) => {
+  const bankCode = typeof input.bank_code === 'string' ? input.bank_code.trim() : '';
+  const accountNumber = typeof input.account_number === 'string' ? input.account_number.trim() : '';
+
+  if (!bankCode) {
+    throw new CustomError('Bank is required', 400);
+  }
+
+  // NUBAN account numbers are 10 digits
+  if (!/^\d{10}$/.test(accountNumber)) {
+    throw new CustomError('Account number must be 10 digits', 400);
+  }
+
+  const existing = await listBankAccounts(userId);
+
+  if (existing.length >= MAX_BANK_ACCOUNTS) {
+    throw new CustomError(`You can save at most ${MAX_BANK_ACCOUNTS} bank accounts`, 400);
+  }
+
+  if (existing.some((account) => account.bank_code === bankCode && account.account_number === accountNumber)) {
+    throw new CustomError('This bank account is already saved', 409);
+  }
+
+  const provider = getPayoutProvider();
+  let bankName: string;
+  let accountName: string;
+  let recipientCode: string;
+
+  try {
+    const bank = (await provider.listBanks()).find((candidate) => candidate.code === bankCode);
+    if (!bank) {
+      throw new PayoutProviderError('Bank not supported');
+    }
+
+    bankName = bank.name;
+    accountName = await provider.resolveAccount(accountNumber, bankCode);
+    recipientCode = await provider.createRecipient({
+      account_name: accountName,
+      account_number: accountNumber,
+      bank_code: bankCode,
+    });
+  } catch (error) {
+    if (!(error instanceof PayoutProviderError)) {
+      console.error('Error verifying bank account:', error);
+    }
+    throw new CustomError(providerErrorMessage(error, 'Could not verify the bank account'), 400);
+  }
+
+  const { data: account, error } = await supabaseAdmin
+    .from('payout_bank_accounts')
+    .insert({
+      user_id: userId,
+      bank_code: bankCode,
+      bank_name: bankName,
+      account_number: accountNumber,
+      account_name: accountName,
+      provider: provider.name,
+      recipient_code: recipientCode,
+      // The first account becomes the default
+      is_default: existing.length === 0,
+    })
+    .select('id, bank_code, bank_name, account_number, account_name, is_default, created_at')
+    .single();
+
+  if (error) {
+    if (error.code === '23505') {
+      throw new CustomError('This bank account is already saved', 409);
+    }
+    throw new CustomError('Failed to save bank account', 500);
+  }
+
+  return account;
+};
+
+export const setDefaultBankAccount = async (userId: string, id: string) => {
+  const account = await getBankAccount(userId, id);
+
+  await supabaseAdmin
+    .from('payout_bank_accounts')
+    .update({ is_default: false })
+    .eq('user_id', userId)
+    .neq('id', account.id);
+
+  const { error } = await supabaseAdmin
+    .from('payout_bank_accounts')
+    .update({ is_default: true })
+    .eq('id', account.id);
+
+  if (error) {
+    throw new CustomError('Failed to update bank account', 500);
+  }
+
+  return listBankAccounts(userId);
+};
+
+/**
+ * Accounts are only hidden, since past payouts point at them
+ */
+export const removeBankAccount = async (userId: string, id: string) => {
+  const account = await getBankAccount(userId, id);
+
+  const { error } = await supabaseAdmin
+    .from('payout_bank_accounts')
+    .update({ deleted_at: new Date().toISOString(), is_default: false })
+    .eq('id', account.id);
+
+  if (error) {
+    throw new CustomError('Failed to remove bank account', 500);
+  }
+
+  const remaining = await listBankAccounts(userId);
+
+  if (account.is_default && remaining.length > 0) {
+    return setDefaultBankAccount(userId, remaining[0].id);
+  }
+
+  return remaining;
+};
+
+export const listPayoutBanks = async () => {
+  try {
+    return await getPayoutProvider().listBanks();
+  } catch (error) {
+    console.error('Error fetching banks:', error);
+    throw new CustomError('Failed to fetch banks', 502);
+  }
+};
+
+/**
+ * Queue a withdrawal to a saved bank account (the default one if none is given).
+ * The amount leaves the wallet straight away and waits in pending payouts until the
+ * next payout run sends it. requestKey makes retries of the same request harmless.
+ */
+export const requestPayout = async (
+  userId: string,
+  amount: number,
+  bankAccountId?: string,
+  requestKey?: string
+) => {
+  amount = Math.round(amount * 100) / 100;
+
+  let account;
+  if (bankAccountId) {
+    account = await getBankAccount(userId, bankAccountId);
+  } else {
+    const accounts = await listBankAccounts(userId);
+    account = accounts.find((candidate) => candidate.is_default) || accounts[0];
+  }
+
+  if (!account) {
+    throw new CustomError('Add a bank account before withdrawing', 400);
+  }
+
+  const { data: payout, error } = await supabaseAdmin
+    .from('payouts')
+    .insert({
+      user_id: userId,
+      bank_account_id: account.id,
+      amount,
+      status: 'pending',
+      provider: getPayoutProvider().name,
+      request_key: requestKey || null,
+    })
+    .select()
+    .single();
+
+  if (error) {
+    if (error.code === '23505') {
+      throw new CustomError('This withdrawal has already been requested', 409);
+    }
+    throw new CustomError('Failed to request withdrawal', 500);
+  }
+
+  let posting;
+  try {
+    posting = await postLedgerTransaction({
+      kind: 'withdrawal',
+      idempotencyKey: `payout:${payout.id}`,
+      description: `Withdrawal to ${account.bank_name} ${maskAccountNumber(account.account_number)}`,
+      referenceType: 'payout',
+      referenceId: payout.id,
+      entries: [
+        { account: walletAccount(userId), amount: -amount },
+        { account: PLATFORM_ACCOUNTS.payoutsPending, amount },
+      ],
+      activity: {
+        transaction_type: 'withdrawal',
+        status: 'pending',
+        bank_details: {
+          bank_name: account.bank_name,
+          account_name: account.account_name,
+          account_number: maskAccountNumber(account.account_number),
+        },
+      },
+    });
+  } catch (postingError) {
+    // Nothing left the wallet (e.g. insufficient balance), so drop the payout
+    await supabaseAdmin.from('payouts').delete().eq('id', payout.id);
+    throw postingError;
+  }
+
+  const { data: queued, error: queueError } = await supabaseAdmin
+    .from('payouts')
+    .update({ ledger_transaction_id: posting.transaction_id })
+    .eq('id', payout.id)
+    .select()
+    .single();
+
+  if (queueError) {
+    console.error('Error queueing payout:', queueError);
+  }
+
+  return { payout: (queued || payout) as Payout, posting };
+};
+
+/**
+ * Move a payout to a new status. Like service requests, the update only applies while
+ * the payout is still in the status it was read in. Returns null if it is no longer
+ * allowed or someone else got there first.
+ */
+const tryTransitionPayout = async (
+  payout: Payout,
+  to: PayoutStatus,
+  updates: Record<string, unknown> = {}
+): Promise<Payout | null> => {
+  if (!PAYOUT_TRANSITIONS[payout.status].includes(to)) {
+    return null;
+  }
+
+  const now = new Date().toISOString();
+  const timestampColumn = PAYOUT_TIMESTAMPS[to];
+
+  const { data: updated, error } = await supabaseAdmin
+    .from('payouts')
+    .update({
+      ...updates,
+      ...(timestampColumn ? { [timestampColumn]: now } : {}),
+      status: to,
+      updated_at: now,
+    })
+    .eq('id', payout.id)
+    .eq('status', payout.status)
+    .select()
+    .maybeSingle();
+
+  if (error) {
+    throw new CustomError('Failed to update payout', 500);
+  }
+
+  if (updated && payout.ledger_transaction_id) {
+    await supabaseAdmin
+      .from('wallet_transactions')
+      .update({ status: WALLET_ACTIVITY_STATUS[to] })
+      .eq('ledger_transaction_id', payout.ledger_transaction_id)
+      .eq('user_id', payout.user_id);
+  }
+
+  return updated as Payout | null;
+};
+
+const PAYOUT_NOTIFICATIONS: Record<'paid' | 'failed' | 'reversed', { title: string; body: string }> = {
+  paid: {
+    title: 'Withdrawal Paid',
+    body: 'has been paid to your bank account',
+  },
+  failed: {
+    title: 'Withdrawal Failed',
+    body: 'could not be paid and has been returned to your wallet',
+  },
+  reversed: {
+    title: 'Withdrawal Reversed',
+    body: 'was reversed by the bank and has been returned to your wallet',
+  },
+};
+
+const getPayout = async (id: string) => {
+  const { data: payout, error } = await supabaseAdmin
+    .from('payouts')
+    .select('*')
+    .eq('id', id)
+    .maybeSingle();
+
+  if (error) {
+    throw new CustomError('Failed to fetch payout', 500);
+  }
+
+  return payout as Payout | null;
+};
+
+/**
+ * Post the ledger side of a payout's outcome. Both postings are idempotent, so this
+ * can run again for a payout whose status was updated before the posting failed.
+ */
+const postPayoutOutcome = async (
+  payout: Payout,
+  outcome: 'paid' | 'failed' | 'reversed',
+  wasPaid: boolean
+) => {
+  const amount = Number(payout.amount);
+
+  if (outcome === 'paid' || wasPaid) {
+    await postLedgerTransaction({
+      kind: 'payout_paid',
+      idempotencyKey: `payout_paid:${payout.id}`,
+      description: 'Withdrawal paid out',
+      referenceType: 'payout',
+      referenceId: payout.id,
+      entries: [
+        { account: PLATFORM_ACCOUNTS.payoutsPending, amount: -amount },
+        { account: PLATFORM_ACCOUNTS.payoutsSent, amount },
+      ],
+    });
+  }
+
+  if (outcome !== 'paid') {
+    // A reversal after payment takes the money back from what was sent
+    await postLedgerTransaction({
+      kind: 'payout_refund',
+      idempotencyKey: `payout_refund:${payout.id}`,
+      description: outcome === 'failed' ? 'Refund for failed withdrawal' : 'Refund for reversed withdrawal',
+      referenceType: 'payout',
+      referenceId: payout.id,
+      entries: [
+        {
+          account: wasPaid ? PLATFORM_ACCOUNTS.payoutsSent : PLATFORM_ACCOUNTS.payoutsPending,
+          amount: -amount,
+        },
+        { account: walletAccount(payout.user_id), amount },
+      ],
+      activity: { transaction_type: 'payout_refund' },
+    });
+  }
+};
+
+/**
+ * Apply the final answer for a payout, from the provider's transfer response or a
+ * webhook. Failed and reversed payouts are refunded to the wallet. Returns null if
+ * the payout had already reached that outcome; its ledger postings are completed
+ * in case the earlier attempt stopped part way.
+ */
+export const settlePayout = async (
+  payout: Payout,
+  outcome: 'paid' | 'failed' | 'reversed',
+  reason?: string | null
+) => {
+  const updated = await tryTransitionPayout(payout, outcome, {
+    failure_reason: outcome === 'paid' ? null : reason || null,
+  });
+
+  if (!updated) {
+    const current = await getPayout(payout.id);
+    if (current?.status === outcome) {
+      await postPayoutOutcome(current, outcome, outcome !== 'paid' && Boolean(current.paid_at));
+    }
+    return null;
+  }
+
+  await postPayoutOutcome(updated, outcome, payout.status === 'paid');
+
+  const amount = Number(payout.amount);
+  const notification = PAYOUT_NOTIFICATIONS[outcome];
+  await supabaseAdmin.from('notifications').insert({
+    user_id: payout.user_id,
+    title: notification.title,
+    body: `Your withdrawal of ₦${amount.toFixed(2)} ${notification.body}`,
+    type: 'wallet',
+    reference_id: payout.id,
+  });
+
+  return updated;
+};
+
+/**
+ * Ask the provider what happened to a payout's transfer. undefined if it couldn't say.
+ */
+const lookUpTransfer = async (payout: Payout, provider: PayoutProvider) => {
+  try {
+    return await provider.findTransfer(payout.id);
+  } catch (error) {
+    console.error(`Error looking up transfer for payout ${payout.id}:`, error);
+    return undefined;
+  }
+};
+
+/**
+ * Record what the provider said about a payout's transfer, settling it if final
+ */
+const applyTransferResult = async (payout: Payout, result: PayoutTransferResult) => {
+  const { error } = await supabaseAdmin
+    .from('payouts')
+    .update({ provider_reference: result.provider_reference })
+    .eq('id', payout.id);
+
+  if (error) {
+    console.error(`Error saving provider reference for payout ${payout.id}:`, error);
+  }
+
+  if (result.status !== 'processing') {
+    await settlePayout(payout, result.status, result.failure_reason);
+  }
+
+  return result.status;
+};
+
+/**
+ * Send one claimed payout to the provider. A transfer can go through even when the
+ * request errors (e.g. a timeout), so after any error the provider is asked about the
+ * payout's reference first: only a transfer it never received is failed and refunded
+ * (on a rejection or the last attempt) or put back in the queue. If the provider
+ * can't be asked either, the payout stays processing for checkStalePayouts.
+ */
+const sendPayout = async (payout: Payout, provider: PayoutProvider): Promise<PayoutStatus> => {
+  const { data: account, error } = await supabaseAdmin
+    .from('payout_bank_accounts')
+    .select('recipient_code')
+    .eq('id', payout.bank_account_id)
+    .single();
+
+  if (error || !account) {
+    await settlePayout(payout, 'failed', 'Bank account not found');
+    return 'failed';
+  }
+
+  let result: PayoutTransferResult;
+  try {
+    result = await provider.transfer({
+      amount: Number(payout.amount),
+      recipient_code: account.recipient_code,
+      reference: payout.id,
+      reason: 'Mekofix wallet withdrawal',
+    });
+  } catch (transferError) {
+    const sent = await lookUpTransfer(payout, provider);
+
+    if (sent === undefined) {
+      return 'processing';
+    }
+
+    if (sent) {
+      return applyTransferResult(payout, sent);
+    }
+
+    if (transferError instanceof PayoutProviderError || payout.attempts >= MAX_PAYOUT_ATTEMPTS) {
+      await settlePayout(
+        payout,
+        'failed',
+        providerErrorMessage(transferError, 'Payout provider unavailable')
+      );
+      return 'failed';
+    }
+
+    console.error(`Error sending payout ${payout.id}, will retry:`, transferError);
+    await tryTransitionPayout(payout, 'pending');
+    return 'pending';
+  }
+
+  return applyTransferResult(payout, result);
+};
+
+/**
+ * Send the oldest queued withdrawals to the payout provider as one batch
+ */
+export const processPayoutBatch = async (limit: number = env.payout.batchSize) => {
+  const provider = getPayoutProvider();
+
+  const { data: queued, error } = await supabaseAdmin
+    .from('payouts')
+    .select('*')
+    .eq('status', 'pending')
+    .not('ledger_transaction_id', 'is', null)
+    .order('created_at', { ascending: true })
+    .limit(limit);
+
+  if (error) {
+    throw new CustomError('Failed to fetch queued payouts', 500);
+  }
+
+  if (!queued || queued.length === 0) {
+    return null;
+  }
+
+  const { data: batch, error: batchError } = await supabaseAdmin
+    .from('payout_batches')
+    .insert({ provider: provider.name })
+    .select()
+    .single();
+
+  if (batchError) {
+    throw new CustomError('Failed to start payout batch', 500);
+  }
+
+  const counts: Record<PayoutStatus, number> = {
+    pending: 0,
+    processing: 0,
+    paid: 0,
+    failed: 0,
+    reversed: 0,
+  };
+
+  for (const payout of queued as Payout[]) {
+    // Claim it, so an overlapping run can't send it twice
+    const claimed = await tryTransitionPayout(payout, 'processing', {
+      batch_id: batch.id,
+      provider: provider.name,
+      attempts: (payout.attempts || 0) + 1,
+    });
+
+    if (claimed) {
+      counts[await sendPayout(claimed, provider)] += 1;
+    }
+  }
+
+  const { data: finished } = await supabaseAdmin
+    .from('payout_batches')
+    .update({
+      payout_count: counts.processing + counts.paid + counts.failed + counts.pending,
+      paid_count: counts.paid,
+      failed_count: counts.failed,
+      completed_at: new Date().toISOString(),
+    })
+    .eq('id', batch.id)
+    .select()
+    .single();
+
+  return finished || batch;
+};
+
+/**
+ * Check payouts stuck in processing with the provider. Final transfers are settled;
+ * ones the provider never received go back in the queue, or fail and are refunded
+ * after the last attempt.
+ */
+export const checkStalePayouts = async (limit: number = env.payout.batchSize) => {
+  const provider = getPayoutProvider();
+  const cutoff = new Date(Date.now() - STALE_PROCESSING_MS).toISOString();
+
+  const { data: stale, error } = await supabaseAdmin
+    .from('payouts')
+    .select('*')
+    .eq('status', 'processing')
+    .eq('provider', provider.name)
+    .lt('processing_at', cutoff)
+    .order('processing_at', { ascending: true })
+    .limit(limit);
+
+  if (error) {
+    throw new CustomError('Failed to fetch processing payouts', 500);
+  }
+
+  let resolved = 0;
+
+  for (const payout of (stale || []) as Payout[]) {
+    const sent = await lookUpTransfer(payout, provider);
+
+    if (sent === undefined || sent?.status === 'processing') {
+      continue;
+    }
+
+    if (sent) {
+      await applyTransferResult(payout, sent);
+    } else if (payout.attempts >= MAX_PAYOUT_ATTEMPTS) {
+      await settlePayout(payout, 'failed', 'Payout provider unavailable');
+    } else {
+      await tryTransitionPayout(payout, 'pending');
+    }
+    resolved += 1;
+  }
+
+  return { checked: stale?.length || 0, resolved };
+};
+
+/**
+ * Record a webhook event by id. Returns null if it was already applied; an event
+ * recorded before but never applied is returned again so it can be retried.
+ */
+const recordPayoutWebhookEvent = async (
+  providerName: string,
+  event: PayoutWebhookEvent,
+  body: unknown
+): Promise<{ id: string } | null> => {
+  const { data: recorded, error: recordError } = await supabaseAdmin
+    .from('payout_webhook_events')
+    .insert({
+      provider: providerName,
+      event_id: event.event_id,
+      event_type: event.status,
+      payload: body,
+    })
+    .select('id')
+    .single();
+
+  if (!recordError) {
+    return recorded;
+  }
+
+  if (recordError.code !== '23505') {
+    throw new CustomError('Failed to record webhook', 500);
+  }
+
+  const { data: existing, error: existingError } = await supabaseAdmin
+    .from('payout_webhook_events')
+    .select('id, processed_at')
+    .eq('provider', providerName)
+    .eq('event_id', event.event_id)
+    .single();
+
+  if (existingError || !existing) {
+    throw new CustomError('Failed to record webhook', 500);
+  }
+
+  return existing.processed_at ? null : { id: existing.id };
+};
+
+/**
+ * Apply a provider webhook. Events are recorded by id and marked processed once
+ * applied, so redeliveries of applied events are ignored and failed ones retried.
+ * Transfers are sent with the payout id as their reference.
+ */
+export const handlePayoutWebhook = async (
+  providerName: string,
+  rawBody: Buffer | undefined,
+  signature: string | undefined,
+  body: unknown
+) => {
+  const provider = getPayoutProvider();
+
+  if (providerName !== provider.name || !rawBody || !provider.verifyWebhook(rawBody, signature)) {
+    throw new CustomError('Invalid webhook signature', 401);
+  }
+
+  const event = provider.parseWebhook(body);
+
+  if (!event) {
+    return { handled: false };
+  }
+
+  const recorded = await recordPayoutWebhookEvent(provider.name, event, body);
+
+  if (!recorded) {
+    return { handled: false };
+  }
+
+  const { data: payout } = await supabaseAdmin
+    .from('payouts')
+    .select('*')
+    .eq('provider', provider.name)
+    .eq('id', event.reference)
+    .maybeSingle();
+
+  if (!payout) {
+    console.error(`Payout webhook for unknown reference ${event.reference}`);
+    return { handled: false };
+  }
+
+  const updated = await settlePayout(payout as Payout, event.status, event.failure_reason);
+
+  await supabaseAdmin
+    .from('payout_webhook_events')
+    .update({ payout_id: payout.id, processed_at: new Date().toISOString() })
+    .eq('id', recorded.id);
+
+  return { handled: Boolean(updated) };
+};
+
+export const listPayouts = async (filters: {
+  status?: PayoutStatus;
+  page: number;
+  limit: number;
+}) => {
+  const offset = (filters.page - 1) * filters.limit;
+
+  let query = supabaseAdmin
+    .from('payouts')
+    .select(
+      `
+      *,
+      user:users (id, full_name, email),
+      bank_account:payout_bank_accounts (bank_name, account_number, account_name)
+    `,
+      { count: 'exact' }
+    )
+    .order('created_at', { ascending: false })
+    .range(offset, offset + filters.limit - 1);
+
+  if (filters.status) {
+    query = query.eq('status', filters.status);
+  }
+
+  const { data: payouts, count, error } = await query;
+
+  if (error) {
+    throw new CustomError('Failed to fetch payouts', 500);
+  }
+
+  return { payouts: payouts || [], total: count || 0 };
+};
+
+/**
+ * Periodically check stuck payouts, then send queued withdrawals
+ */
+export const startPayoutProcessingJob = (): NodeJS.Timeout =>
+  setInterval(() => {
+    checkStalePayouts()
+      .catch((error) => {
+        console.error('Error checking processing payouts:', error);
+      })
+      .then(() => processPayoutBatch())
+      .catch((error) => {
+        console.error('Error processing payouts:', error);
+      });
+  }, PAYOUT_PROCESSING_INTERVAL_MS);
@@ -0,0 +1,263 @@
+import { supabaseAdmin } from '../config/supabase';
+import { CustomError } from '../middleware/errorHandler';
+
+export type QuoteItemType = 'part' | 'labour';
+
+export type QuoteStatus = 'pending' | 'approved' | 'rejected' | 'superseded';
+
+export const QUOTE_ITEM_TYPES: QuoteItemType[] = ['part', 'labour'];
+
+// Quotes are sent once the mechanic has seen the car, and revised if the scope changes
+export const QUOTABLE_STATUSES = ['arrived', 'in_progress'];
+
+export const MAX_QUOTE_ITEMS = 50;
+export const QUOTE_NOTE_MAX_LENGTH = 500;
+
+export interface QuoteItem {
+  type: QuoteItemType;
+  description: string;
+  quantity: number;
+  unit_price: number;
+  total: number;
+}
+
+const roundMoney = (value: number) => Math.round(value * 100) / 100;
+
+// Amounts may arrive as numbers or numeric strings
+const parseAmount = (value: unknown) =>
+  typeof value === 'number' ? value : typeof value === 'string' ? parseFloat(value) : NaN;
+
+/**
+ * Validate quote lines from a request body and work out each line's total
+ */
+export const parseQuoteItems = (value: unknown): QuoteItem[] => {
+  if (!Array.isArray(value) || value.length === 0) {
+    throw new CustomError('A quote needs at least one item', 400);
+  }
+
+  if (value.length > MAX_QUOTE_ITEMS) {
+    throw new CustomError(`A quote can have at most ${MAX_QUOTE_ITEMS} items`, 400);
+  }
+
+  return value.map((item: unknown, index) => {
+    const line = `Item ${index + 1}`;
+    const fields: Record<string, unknown> = item && typeof item === 'object' ? { ...item } : {};
+    const type = fields.type as QuoteItemType;
+    const description = typeof fields.description === 'string' ? fields.description.trim() : '';
+    const quantity = parseAmount(fields.quantity);
+    const unitPrice = parseAmount(fields.unit_price);
+
+    if (!QUOTE_ITEM_TYPES.includes(type)) {
+      throw new CustomError(`${line}: type must be one of ${QUOTE_ITEM_TYPES.join(', ')}`, 400);
+    }
+
+    if (!description || description.length > 200) {
+      throw new CustomError(`${line}: description is required (200 characters max)`, 400);
+    }
+
+    if (isNaN(quantity) || quantity <= 0) {
+      throw new CustomError(`${line}: quantity must be greater than 0`, 400);
+    }
+
+    if (isNaN(unitPrice) || unitPrice < 0) {
+      throw new CustomError(`${line}: unit price cannot be negative`, 400);
+    }
+
+    return {
+      type,
+      description,
+      quantity,
+      unit_price: roundMoney(unitPrice),
+      total: roundMoney(quantity * unitPrice),
+    };
+  });
+};
+
+/**
+ * Every version of a request's quote, oldest first
+ */
+export const getQuotes = async (serviceRequestId: string) => {
+  const { data: quotes, error } = await supabaseAdmin
+    .from('service_request_quotes')
+    .select('*')
+    .eq('service_request_id', serviceRequestId)
+    .order('version', { ascending: true });
+
+  if (error) {
+    throw new CustomError('Failed to fetch quotes', 500);
+  }
+
+  return quotes || [];
+};
+
+export const getLatestQuote = async (serviceRequestId: string) => {
+  const { data: quote, error } = await supabaseAdmin
+    .from('service_request_quotes')
+    .select('*')
+    .eq('service_request_id', serviceRequestId)
+    .order('version', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    throw new CustomError('Failed to fetch quote', 500);
+  }
+
+  return quote;
+};
+
+/**
+ * The quote the customer last agreed to, if any
+ */
+export const getApprovedQuote = async (serviceRequestId: string) => {
+  const { data: quote, error } = await supabaseAdmin
+    .from('service_request_quotes')
+    .select('*')
+    .eq('service_request_id', serviceRequestId)
+    .eq('status', 'approved')
+    .order('version', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    throw new CustomError('Failed to fetch quote', 500);
+  }
+
+  return quote;
+};
+
+/**
+ * Send the customer a new quote, or a revision of the current one. A revision
+ * replaces any quote still waiting for an answer; approved versions stay on record.
+ */
+export const submitQuote = async (
+  serviceRequest: { id: string; customer_id: string; mechanic_id: string; status: string },
+  input: { items: unknown; note?: string | null }
+) => {
+  if (!QUOTABLE_STATUSES.includes(serviceRequest.status)) {
+    throw new CustomError('Quotes can only be sent after arriving and before the job is done', 409);
+  }
+
+  const items = parseQuoteItems(input.items);
+  const note = input.note?.trim() || null;
+
+  if (note && note.length > QUOTE_NOTE_MAX_LENGTH) {
+    throw new CustomError(`Note must be ${QUOTE_NOTE_MAX_LENGTH} characters or fewer`, 400);
+  }
+
+  const materialCost = roundMoney(
+    items.filter((item) => item.type === 'part').reduce((sum, item) => sum + item.total, 0)
+  );
+  const laborCost = roundMoney(
+    items.filter((item) => item.type === 'labour').reduce((sum, item) => sum + item.total, 0)
+  );
+
+  const latest = await getLatestQuote(serviceRequest.id);
+
+  if (latest?.status === 'pending') {
+    await supabaseAdmin
+      .from('service_request_quotes')
+      .update({ status: 'superseded' })
+      .eq('id', latest.id)
+      .eq('status', 'pending');
+  }
+
+  const { data: quote, error } = await supabaseAdmin
+    .from('service_request_quotes')
+    .insert({
+      service_request_id: serviceRequest.id,
+      mechanic_id: serviceRequest.mechanic_id,
+      version: (latest?.version || 0) + 1,
+      status: 'pending',
+      items,
+      material_cost: materialCost,
+      labor_cost: laborCost,
+      total_cost: roundMoney(materialCost + laborCost),
+      note,
+    })
+    .select()
+    .single();
+
+  if (error) {
+    // Another revision was sent at the same time
+    if (error.code === '23505') {
+      throw new CustomError('The quote was updated meanwhile, please refresh', 409);
+    }
+    throw new CustomError('Failed to send quote', 500);
+  }
+
+  await supabaseAdmin.from('notifications').insert({
+    user_id: serviceRequest.customer_id,
+    title: quote.version > 1 ? 'Quote Updated' : 'Quote Received',
+    body:
+      quote.version > 1
+        ? 'The mechanic has revised the quote for your job. Please review it.'
+        : 'The mechanic has sent a quote for your job. Please review it.',
+    type: 'service_request',
+    reference_id: serviceRequest.id,
+  });
+
+  return quote;
+};
+
+/**
+ * Customer approves or rejects the pending quote. Approval fixes the job's costs.
+ */
+export const respondToQuote = async (
+  serviceRequest: { id: string; mechanic_id: string | null },
+  quoteId: string,
+  decision: 'approved' | 'rejected',
+  reason?: string | null
+) => {
+  const { data: quote, error } = await supabaseAdmin
+    .from('service_request_quotes')
+    .update({
+      status: decision,
+      rejection_reason: decision === 'rejected' ? reason?.trim() || null : null,
+      responded_at: new Date().toISOString(),
+    })
+    .eq('id', quoteId)
+    .eq('service_request_id', serviceRequest.id)
+    .eq('status', 'pending')
+    .select()
+    .maybeSingle();
+
+  if (error) {
+    throw new CustomError('Failed to update quote', 500);
+  }
+
+  if (!quote) {
+    throw new CustomError('This quote is no longer waiting for your answer', 409);
+  }
+
+  if (decision === 'approved') {
+    const { error: costError } = await supabaseAdmin
+      .from('service_requests')
+      .update({
+        material_cost: quote.material_cost,
+        labor_cost: quote.labor_cost,
+        total_cost: quote.total_cost,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', serviceRequest.id);
+
+    if (costError) {
+      console.error('Error applying approved quote:', costError);
+    }
+  }
+
+  if (serviceRequest.mechanic_id) {
+    await supabaseAdmin.from('notifications').insert({
+      user_id: serviceRequest.mechanic_id,
+      title: decision === 'approved' ? 'Quote Approved' : 'Quote Rejected',
+      body:
+        decision === 'approved'
+          ? 'The customer approved your quote'
+          : 'The customer rejected your quote',
+      type: 'service_request',
+      reference_id: serviceRequest.id,
+    });
+  }
+
+  return quote;
+};
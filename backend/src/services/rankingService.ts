@@ -0,0 +1,119 @@
+import { env } from '../config/env';
+
+export type RankingComponent =
+  | 'distance'
+  | 'rating'
+  | 'experience'
+  | 'acceptance'
+  | 'reliability'
+  | 'activity';
+
+export type RankingWeights = Record<RankingComponent, number>;
+
+export type NearbySort = 'best' | 'distance' | 'rating' | 'jobs';
+
+export const NEARBY_SORTS: NearbySort[] = ['best', 'distance', 'rating', 'jobs'];
+
+export interface RankingExplanation {
+  score: number;
+  components: Record<RankingComponent, { value: number; weight: number }>;
+  explanation: string;
+}
+
+export const DEFAULT_RANKING_WEIGHTS: RankingWeights = {
+  distance: 0.35, // travel time from the ETA provider (straight-line distance without one)
+  rating: 0.25,
+  experience: 0.1, // total_jobs on a log scale
+  acceptance: 0.1, // share of offers accepted in the last 90 days
+  reliability: 0.1, // 1 - share of accepted jobs that were cancelled
+  activity: 0.1, // decays with days since last response or completed job
+};
+
+const parseWeightOverrides = (raw?: string): Partial<RankingWeights> => {
+  if (!raw) {
+    return {};
+  }
+
+  try {
+    const parsed = JSON.parse(raw);
+    const overrides: Partial<RankingWeights> = {};
+    (Object.keys(DEFAULT_RANKING_WEIGHTS) as RankingComponent[]).forEach((key) => {
+      if (typeof parsed[key] === 'number' && parsed[key] >= 0) {
+        overrides[key] = parsed[key];
+      }
+    });
+    return overrides;
+  } catch (error) {
+    console.error('Invalid RANKING_WEIGHTS, using defaults:', error);
+    return {};
+  }
+};
+
+const rankingWeights: RankingWeights = {
+  ...DEFAULT_RANKING_WEIGHTS,
+  ...parseWeightOverrides(env.ranking.weights),
+};
+
+export const getRankingWeights = (): RankingWeights => ({ ...rankingWeights });
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+const describeRanking = (
+  components: RankingExplanation['components'],
+  score: number
+): RankingExplanation => {
+  const parts = (Object.keys(components) as RankingComponent[])
+    .filter((key) => components[key].weight > 0)
+    .sort(
+      (a, b) =>
+        components[b].value * components[b].weight - components[a].value * components[a].weight
+    )
+    .map((key) => `${key} ${components[key].value} (weight ${components[key].weight})`);
+
+  return {
+    score,
+    components,
+    explanation: `score ${score} from ${parts.join(', ')}`,
+  };
+};
+
+/**
+ * Break a mechanic's score into its weighted components, strongest first, so
+ * it is clear why they rank where they do
+ */
+export const explainRanking = (
+  row: Record<`${RankingComponent}_score`, number> & { score: number | null },
+  weights: RankingWeights
+): RankingExplanation => {
+  const components = {} as RankingExplanation['components'];
+  (Object.keys(weights) as RankingComponent[]).forEach((key) => {
+    components[key] = { value: round(Number(row[`${key}_score`]) || 0), weight: weights[key] };
+  });
+
+  return describeRanking(components, round(Number(row.score) || 0));
+};
+
+/**
+ * Swap the distance component for a travel time score (0..1, 1 is right there)
+ * and recompute the weighted score
+ */
+export const applyEtaScore = (
+  ranking: RankingExplanation,
+  etaScore: number,
+  weights: RankingWeights
+): RankingExplanation => {
+  const components = {
+    ...ranking.components,
+    distance: { value: round(etaScore), weight: weights.distance },
+  };
+
+  const keys = Object.keys(components) as RankingComponent[];
+  const totalWeight = keys.reduce((sum, key) => sum + components[key].weight, 0);
+  const score =
+    totalWeight > 0
+      ? keys.reduce((sum, key) => sum + components[key].value * components[key].weight, 0) /
+        totalWeight
+      : 0;
+
+  return describeRanking(components, round(score));
+};
@@ -0,0 +1,576 @@
+import { supabaseAdmin } from '../config/supabase';
+import { CustomError } from '../middleware/errorHandler';
+
+export type ReviewerRole = 'customer' | 'mechanic';
+
+export type ReviewDimension = 'punctuality' | 'quality' | 'price_fairness';
+
+export const REVIEW_DIMENSIONS: ReviewDimension[] = ['punctuality', 'quality', 'price_fairness'];
+
+export type ReviewReportReason = 'abusive' | 'spam' | 'fake' | 'personal_info' | 'other';
+
+export const REVIEW_REPORT_REASONS: ReviewReportReason[] = [
+  'abusive',
+  'spam',
+  'fake',
+  'personal_info',
+  'other',
+];
+
+// Behaviour flags mechanics can attach when reviewing a customer
+export type CustomerFlag = 'no_show' | 'abusive';
+
+export const CUSTOMER_FLAGS: CustomerFlag[] = ['no_show', 'abusive'];
+
+// Jobs can be reviewed once the work is done (either side may confirm first)
+export const REVIEWABLE_STATUSES = ['awaiting_confirmation', 'completed'];
+
+// Set when the mechanic cancels because the customer never showed up
+export const NO_SHOW_CANCELLATION_REASON = 'customer_no_show';
+
+export const REVIEWS_DEFAULT_LIMIT = 10;
+export const REVIEWS_MAX_LIMIT = 50;
+export const REVIEW_COMMENT_MAX_LENGTH = 1000;
+export const REVIEW_REPLY_MAX_LENGTH = 500;
+
+// Distinct reporters needed to hide a review until an admin looks at it
+export const REVIEW_REPORT_HIDE_THRESHOLD = 3;
+
+// Straight from the request body; createReview validates each field
+export interface ReviewInput {
+  rating: unknown;
+  comment?: unknown;
+  dimensions?: Partial<Record<ReviewDimension, unknown>>;
+  flags?: unknown;
+}
+
+// A review row as selected with PUBLIC_REVIEW_FIELDS
+interface PublicReviewRow {
+  id: string;
+  service_request_id: string;
+  reviewer_role: ReviewerRole;
+  rating: number;
+  punctuality: number | null;
+  quality: number | null;
+  price_fairness: number | null;
+  flags: CustomerFlag[] | null;
+  comment: string | null;
+  reply: string | null;
+  replied_at: string | null;
+  created_at: string;
+  reviewer: { full_name: string | null } | null;
+  service_request: { category: { name: string } | null } | null;
+}
+
+interface ReviewReportRow {
+  id: string;
+  reporter_id: string;
+  reason: ReviewReportReason;
+  details: string | null;
+  status: string;
+  created_at: string;
+}
+
+const PUBLIC_REVIEW_FIELDS = `
+  id,
+  service_request_id,
+  reviewer_role,
+  rating,
+  punctuality,
+  quality,
+  price_fairness,
+  flags,
+  comment,
+  reply,
+  replied_at,
+  created_at,
+  reviewer:users!reviews_reviewer_id_fkey (
+    full_name
+  ),
+  service_request:service_requests (
+    category:service_categories (
+      name
+    )
+  )
+`;
+
+/**
+ * Only show the reviewer's first name and last initial publicly
+ */
+export const toPublicName = (fullName?: string | null, fallback: string = 'Customer'): string => {
+  if (!fullName) {
+    return fallback;
+  }
+  const [first, ...rest] = fullName.trim().split(/\s+/);
+  const last = rest.pop();
+  return last ? `${first} ${last.charAt(0)}.` : first;
+};
+
+const isStarValue = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value >= 1 && value <= 5;
+
+/**
+ * Parse a 1-5 star value from a request body, allowing numeric strings
+ */
+export const parseStars = (value: unknown, field: string, required: boolean = false) => {
+  if (value === undefined || value === null || value === '') {
+    if (required) {
+      throw new CustomError(`${field} is required`, 400);
+    }
+    return null;
+  }
+
+  const stars = typeof value === 'string' ? Number(value) : value;
+  if (!isStarValue(stars)) {
+    throw new CustomError(`${field} must be a whole number between 1 and 5`, 400);
+  }
+  return stars;
+};
+
+/**
+ * Apply (+1) or remove (-1) a review's contribution to the reviewee's aggregate
+ * in one atomic update, instead of re-reading every review
+ */
+const adjustAggregate = async (reviewId: string, direction: 1 | -1) => {
+  const { error } = await supabaseAdmin.rpc('adjust_rating_aggregate', {
+    p_review_id: reviewId,
+    p_direction: direction,
+  });
+
+  if (error) {
+    console.error('Error updating rating aggregate:', error);
+  }
+};
+
+const formatReview = (review: PublicReviewRow) => ({
+  id: review.id,
+  service_request_id: review.service_request_id,
+  rating: review.rating,
+  dimensions:
+    review.reviewer_role === 'customer'
+      ? {
+          punctuality: review.punctuality,
+          quality: review.quality,
+          price_fairness: review.price_fairness,
+        }
+      : null,
+  flags: review.reviewer_role === 'mechanic' ? review.flags || [] : null,
+  comment: review.comment,
+  reviewer_name: toPublicName(
+    review.reviewer?.full_name,
+    review.reviewer_role === 'customer' ? 'Customer' : 'Mechanic'
+  ),
+  category: review.service_request?.category?.name || null,
+  reply: review.reply,
+  replied_at: review.replied_at,
+  created_at: review.created_at,
+});
+
+/**
+ * Validate behaviour flags on a mechanic's review of a customer. 'no_show' only
+ * applies to jobs cancelled because the customer never turned up, and is always set there.
+ */
+export const parseCustomerFlags = (value: unknown, isNoShowJob: boolean): CustomerFlag[] => {
+  if (value !== undefined && value !== null && !Array.isArray(value)) {
+    throw new CustomError('flags must be a list', 400);
+  }
+
+  const flags = new Set<CustomerFlag>();
+  ((value as unknown[]) || []).forEach((flag) => {
+    if (!CUSTOMER_FLAGS.includes(flag as CustomerFlag)) {
+      throw new CustomError(`flags must be any of ${CUSTOMER_FLAGS.join(', ')}`, 400);
+    }
+    flags.add(flag as CustomerFlag);
+  });
+
+  if (flags.has('no_show') && !isNoShowJob) {
+    throw new CustomError('Report a no-show from the job instead of flagging it in a review', 400);
+  }
+
+  if (isNoShowJob) {
+    flags.add('no_show');
+  }
+
+  return Array.from(flags);
+};
+
+/**
+ * Record a review of the other party on a job. Customers review the mechanic
+ * (with optional punctuality/quality/price fairness), mechanics review the customer
+ * and may flag abusive behaviour.
+ */
+export const createReview = async (
+  serviceRequest: {
+    id: string;
+    customer_id: string;
+    mechanic_id: string | null;
+    status: string;
+    cancellation_reason?: string | null;
+  },
+  reviewerId: string,
+  input: ReviewInput
+) => {
+  let reviewerRole: ReviewerRole;
+  let revieweeId: string | null;
+
+  if (reviewerId === serviceRequest.customer_id) {
+    reviewerRole = 'customer';
+    revieweeId = serviceRequest.mechanic_id;
+  } else if (serviceRequest.mechanic_id && reviewerId === serviceRequest.mechanic_id) {
+    reviewerRole = 'mechanic';
+    revieweeId = serviceRequest.customer_id;
+  } else {
+    throw new CustomError('Only the customer or the assigned mechanic can review this job', 403);
+  }
+
+  // Mechanics can also review customers who did not show up
+  const isNoShowJob =
+    serviceRequest.status === 'cancelled' &&
+    serviceRequest.cancellation_reason === NO_SHOW_CANCELLATION_REASON;
+
+  if (
+    !revieweeId ||
+    !(REVIEWABLE_STATUSES.includes(serviceRequest.status) ||
+      (reviewerRole === 'mechanic' && isNoShowJob))
+  ) {
+    throw new CustomError('This job cannot be reviewed yet', 409);
+  }
+
+  const rating = parseStars(input.rating, 'rating', true);
+
+  if (input.comment !== undefined && input.comment !== null && typeof input.comment !== 'string') {
+    throw new CustomError('Review must be text', 400);
+  }
+  const comment = input.comment?.trim() || null;
+
+  if (comment && comment.length > REVIEW_COMMENT_MAX_LENGTH) {
+    throw new CustomError(
+      `Review must be ${REVIEW_COMMENT_MAX_LENGTH} characters or fewer`,
+      400
+    );
+  }
+
+  const dimensions: Partial<Record<ReviewDimension, number | null>> = {};
+  if (reviewerRole === 'customer') {
+    REVIEW_DIMENSIONS.forEach((dimension) => {
+      dimensions[dimension] = parseStars(input.dimensions?.[dimension], dimension);
+    });
+  }
+
+  const flags = reviewerRole === 'mechanic' ? parseCustomerFlags(input.flags, isNoShowJob) : [];
+
+  const { data: review, error } = await supabaseAdmin
+    .from('reviews')
+    .insert({
+      service_request_id: serviceRequest.id,
+      reviewer_id: reviewerId,
+      reviewee_id: revieweeId,
+      reviewer_role: reviewerRole,
+      rating,
+      ...dimensions,
+      flags,
+      comment,
+    })
+    .select()
+    .single();
+
+  if (error) {
+    if (error.code === '23505') {
+      throw new CustomError('You have already reviewed this job', 409);
+    }
+    throw new CustomError('Failed to save review', 500);
+  }
+
+  await adjustAggregate(review.id, 1);
+
+  return review;
+};
+
+/**
+ * Published reviews of a user, newest first, with the total for pagination
+ */
+export const listReviews = async (
+  revieweeId: string,
+  reviewerRole: ReviewerRole,
+  { limit = REVIEWS_DEFAULT_LIMIT, offset = 0 }: { limit?: number; offset?: number } = {}
+) => {
+  const { data: reviews, count, error } = await supabaseAdmin
+    .from('reviews')
+    .select(PUBLIC_REVIEW_FIELDS, { count: 'exact' })
+    .eq('reviewee_id', revieweeId)
+    .eq('reviewer_role', reviewerRole)
+    .eq('status', 'published')
+    .order('created_at', { ascending: false })
+    .range(offset, offset + limit - 1)
+    .overrideTypes<PublicReviewRow[], { merge: false }>();
+
+  if (error) {
+    throw new CustomError('Failed to fetch reviews', 500);
+  }
+
+  return {
+    reviews: (reviews || []).map(formatReview),
+    total: count || 0,
+  };
+};
+
+/**
+ * A user's rating summary from the incrementally maintained aggregate
+ */
+export const getRatingSummary = async (userId: string, role: 'mechanic' | 'customer') => {
+  const { data: aggregate, error } = await supabaseAdmin
+    .from('rating_aggregates')
+    .select('*')
+    .eq('user_id', userId)
+    .eq('role', role)
+    .maybeSingle();
+
+  if (error) {
+    throw new CustomError('Failed to fetch rating summary', 500);
+  }
+
+  const average = (sum?: number, count?: number) =>
+    count ? Math.round((sum! / count) * 10) / 10 : null;
+
+  const starCounts: number[] = aggregate?.star_counts || [0, 0, 0, 0, 0];
+  const counts: Record<string, number> = {};
+  starCounts.forEach((value, index) => {
+    counts[String(index + 1)] = value;
+  });
+
+  return {
+    average: average(aggregate?.rating_sum, aggregate?.review_count) ?? 0,
+    total: aggregate?.review_count || 0,
+    counts,
+    dimensions:
+      role === 'mechanic'
+        ? {
+            punctuality: average(aggregate?.punctuality_sum, aggregate?.punctuality_count),
+            quality: average(aggregate?.quality_sum, aggregate?.quality_count),
+            price_fairness: average(aggregate?.price_fairness_sum, aggregate?.price_fairness_count),
+          }
+        : null,
+    // How often mechanics flagged this customer
+    flags:
+      role === 'customer'
+        ? {
+            no_show: aggregate?.no_show_count || 0,
+            abusive: aggregate?.abusive_count || 0,
+          }
+        : null,
+  };
+};
+
+/**
+ * Public reply from the reviewed user. Replying again replaces the reply.
+ */
+export const replyToReview = async (reviewId: string, userId: string, reply: string) => {
+  const text = reply?.trim();
+
+  if (!text) {
+    throw new CustomError('Reply is required', 400);
+  }
+
+  if (text.length > REVIEW_REPLY_MAX_LENGTH) {
+    throw new CustomError(`Reply must be ${REVIEW_REPLY_MAX_LENGTH} characters or fewer`, 400);
+  }
+
+  const { data: review, error: fetchError } = await supabaseAdmin
+    .from('reviews')
+    .select('id, reviewer_id, reviewee_id, service_request_id')
+    .eq('id', reviewId)
+    .maybeSingle();
+
+  if (fetchError || !review) {
+    throw new CustomError('Review not found', 404);
+  }
+
+  if (review.reviewee_id !== userId) {
+    throw new CustomError('You can only reply to reviews about you', 403);
+  }
+
+  const { data: updatedReview, error } = await supabaseAdmin
+    .from('reviews')
+    .update({
+      reply: text,
+      replied_at: new Date().toISOString(),
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', reviewId)
+    .select()
+    .single();
+
+  if (error) {
+    throw new CustomError('Failed to save reply', 500);
+  }
+
+  await supabaseAdmin.from('notifications').insert({
+    user_id: review.reviewer_id,
+    title: 'Reply To Your Review',
+    body: 'Your review has received a reply',
+    type: 'service_request',
+    reference_id: review.service_request_id,
+  });
+
+  return updatedReview;
+};
+
+/**
+ * Hide or restore a review, keeping the aggregate in step. Only the call that
+ * actually changes the status adjusts the aggregate.
+ */
+const setReviewStatus = async (reviewId: string, status: 'published' | 'hidden') => {
+  const { data: changed, error } = await supabaseAdmin
+    .from('reviews')
+    .update({ status, updated_at: new Date().toISOString() })
+    .eq('id', reviewId)
+    .neq('status', status)
+    .select('id');
+
+  if (error) {
+    throw new CustomError('Failed to update review', 500);
+  }
+
+  if (changed && changed.length > 0) {
+    await adjustAggregate(reviewId, status === 'published' ? 1 : -1);
+  }
+
+  return !!changed?.length;
+};
+
+/**
+ * Flag a review for moderation. Enough distinct reports hide it until an admin decides.
+ */
+export const reportReview = async (
+  reviewId: string,
+  reporterId: string,
+  reason: string,
+  details?: string | null
+) => {
+  if (!REVIEW_REPORT_REASONS.includes(reason as ReviewReportReason)) {
+    throw new CustomError(`reason must be one of ${REVIEW_REPORT_REASONS.join(', ')}`, 400);
+  }
+
+  const { data: review, error: fetchError } = await supabaseAdmin
+    .from('reviews')
+    .select('id, reviewer_id')
+    .eq('id', reviewId)
+    .maybeSingle();
+
+  if (fetchError || !review) {
+    throw new CustomError('Review not found', 404);
+  }
+
+  if (review.reviewer_id === reporterId) {
+    throw new CustomError('You cannot report your own review', 400);
+  }
+
+  const { data: report, error } = await supabaseAdmin
+    .from('review_reports')
+    .insert({
+      review_id: reviewId,
+      reporter_id: reporterId,
+      reason,
+      details: details?.trim() || null,
+    })
+    .select()
+    .single();
+
+  if (error) {
+    if (error.code === '23505') {
+      throw new CustomError('You have already reported this review', 409);
+    }
+    throw new CustomError('Failed to report review', 500);
+  }
+
+  const { count } = await supabaseAdmin
+    .from('review_reports')
+    .select('id', { count: 'exact', head: true })
+    .eq('review_id', reviewId)
+    .eq('status', 'open');
+
+  const openReports = count || 0;
+
+  await supabaseAdmin.from('reviews').update({ report_count: openReports }).eq('id', reviewId);
+
+  if (openReports >= REVIEW_REPORT_HIDE_THRESHOLD) {
+    await setReviewStatus(reviewId, 'hidden');
+  }
+
+  return report;
+};
+
+/**
+ * Reviews with open reports, most reported first
+ */
+export const listReportedReviews = async () => {
+  const { data: reviews, error } = await supabaseAdmin
+    .from('reviews')
+    .select(`
+      *,
+      reports:review_reports (
+        id,
+        reporter_id,
+        reason,
+        details,
+        status,
+        created_at
+      )
+    `)
+    .gt('report_count', 0)
+    .order('report_count', { ascending: false })
+    .overrideTypes<{ reports: ReviewReportRow[] | null }[]>();
+
+  if (error) {
+    throw new CustomError('Failed to fetch reported reviews', 500);
+  }
+
+  return (reviews || []).map((review) => ({
+    ...review,
+    reports: (review.reports || []).filter((report) => report.status === 'open'),
+  }));
+};
+
+/**
+ * Resolve every open report on a review: 'hide' upholds them, 'restore' dismisses them
+ */
+export const moderateReview = async (
+  reviewId: string,
+  adminId: string,
+  action: 'hide' | 'restore'
+) => {
+  const { data: review, error: fetchError } = await supabaseAdmin
+    .from('reviews')
+    .select('id')
+    .eq('id', reviewId)
+    .maybeSingle();
+
+  if (fetchError || !review) {
+    throw new CustomError('Review not found', 404);
+  }
+
+  await setReviewStatus(reviewId, action === 'hide' ? 'hidden' : 'published');
+
+  const { error } = await supabaseAdmin
+    .from('review_reports')
+    .update({
+      status: action === 'hide' ? 'upheld' : 'dismissed',
+      resolved_by: adminId,
+      resolved_at: new Date().toISOString(),
+    })
+    .eq('review_id', reviewId)
+    .eq('status', 'open');
+
+  if (error) {
+    throw new CustomError('Failed to resolve reports', 500);
+  }
+
+  const { data: updatedReview } = await supabaseAdmin
+    .from('reviews')
+    .update({ report_count: 0 })
+    .eq('id', reviewId)
+    .select()
+    .single();
+
+  return updatedReview;
+};
@@ -0,0 +1,238 @@
+import { supabaseAdmin } from '../config/supabase';
+import { CustomError } from '../middleware/errorHandler';
+import { UserRole } from '../types';
+
+export type ServiceRequestStatus =
+  | 'pending'
+  | 'accepted'
+  | 'en_route'
+  | 'arrived'
+  | 'in_progress'
+  | 'awaiting_confirmation'
+  | 'completed'
+  | 'cancelled'
+  | 'disputed'
+  | 'expired';
+
+export type ActorType = UserRole | 'system';
+
+export interface TransitionActor {
+  id: string | null;
+  type: ActorType;
+}
+
+export interface TransitionOptions {
+  // Extra columns written together with the status change
+  updates?: Record<string, unknown>;
+  // Extra conditions the row must still meet (null means IS NULL)
+  expected?: Record<string, string | number | boolean | null>;
+  reason?: string;
+  metadata?: Record<string, unknown>;
+}
+
+export const SYSTEM_ACTOR: TransitionActor = { id: null, type: 'system' };
+
+/**
+ * Allowed transitions and who may trigger each of them
+ */
+const TRANSITIONS: Record<
+  ServiceRequestStatus,
+  Partial<Record<ServiceRequestStatus, ActorType[]>>
+> = {
+  pending: {
+    accepted: ['mechanic'],
+    cancelled: ['customer', 'admin', 'system'],
+    expired: ['system'],
+  },
+  accepted: {
+    en_route: ['mechanic'],
+    arrived: ['mechanic'],
+    cancelled: ['customer', 'admin'],
+  },
+  en_route: {
+    arrived: ['mechanic'],
+    cancelled: ['customer', 'admin'],
+  },
+  arrived: {
+    in_progress: ['mechanic'],
+    cancelled: ['mechanic', 'admin'], // mechanic: customer no-show
+    disputed: ['customer', 'mechanic'],
+  },
+  in_progress: {
+    awaiting_confirmation: ['customer', 'mechanic'],
+    disputed: ['customer', 'mechanic'],
+  },
+  awaiting_confirmation: {
+    completed: ['customer', 'mechanic'],
+    disputed: ['customer', 'mechanic'],
+  },
+  disputed: {
+    completed: ['admin'],
+    cancelled: ['admin'],
+  },
+  completed: {},
+  cancelled: {},
+  expired: {},
+};
+
+// Timestamp column stamped when a request enters the status
+const STATUS_TIMESTAMPS: Partial<Record<ServiceRequestStatus, string>> = {
+  accepted: 'accepted_at',
+  arrived: 'arrived_at',
+  in_progress: 'started_at',
+  completed: 'completed_at',
+  cancelled: 'cancelled_at',
+};
+
+export const actorFromUser = (user: { id: string; user_type: string }): TransitionActor => ({
+  id: user.id,
+  type: user.user_type as UserRole,
+});
+
+export const canTransition = (
+  from: ServiceRequestStatus,
+  to: ServiceRequestStatus,
+  actorType?: ActorType
+): boolean => {
+  const actors = TRANSITIONS[from]?.[to];
+  if (!actors) {
+    return false;
+  }
+  return actorType ? actors.includes(actorType) : true;
+};
+
+/**
+ * Throw unless the actor may move the request from one status to another
+ */
+export const assertTransition = (
+  from: ServiceRequestStatus,
+  to: ServiceRequestStatus,
+  actor: TransitionActor
+): void => {
+  if (!canTransition(from, to)) {
+    throw new CustomError(
+      `Cannot move service request from ${from.replace('_', ' ')} to ${to.replace('_', ' ')}`,
+      400
+    );
+  }
+
+  if (!canTransition(from, to, actor.type)) {
+    throw new CustomError(`A ${actor.type} cannot mark this request as ${to.replace('_', ' ')}`, 403);
+  }
+};
+
+/**
+ * Append an entry to the request's immutable event log
+ */
+export const recordServiceRequestEvent = async (
+  serviceRequestId: string,
+  from: ServiceRequestStatus | null,
+  to: ServiceRequestStatus,
+  actor: TransitionActor,
+  reason?: string,
+  metadata?: Record<string, unknown>
+): Promise<void> => {
+  const { error } = await supabaseAdmin.from('service_request_events').insert({
+    service_request_id: serviceRequestId,
+    from_status: from,
+    to_status: to,
+    actor_id: actor.id,
+    actor_type: actor.type,
+    reason: reason || null,
+    metadata: metadata || null,
+  });
+
+  if (error) {
+    console.error('Error recording service request event:', error);
+  }
+};
+
+/**
+ * Move a request to a new status. The update only applies while the request is
+ * still in the status it was read in (plus any expected values), so concurrent
+ * changes cannot both win. Returns null if the request changed meanwhile.
+ */
+export const tryTransition = async (
+  serviceRequest: { id: string; status: string },
+  to: ServiceRequestStatus,
+  actor: TransitionActor,
+  options: TransitionOptions = {}
+) => {
+  const from = serviceRequest.status as ServiceRequestStatus;
+  assertTransition(from, to, actor);
+
+  const now = new Date().toISOString();
+  const timestampColumn = STATUS_TIMESTAMPS[to];
+
+  let query = supabaseAdmin
+    .from('service_requests')
+    .update({
+      ...options.updates,
+      ...(timestampColumn ? { [timestampColumn]: now } : {}),
+      status: to,
+      updated_at: now,
+    })
+    .eq('id', serviceRequest.id)
+    .eq('status', from);
+
+  Object.entries(options.expected || {}).forEach(([column, value]) => {
+    query = value === null ? query.is(column, null) : query.eq(column, value);
+  });
+
+  const { data: updated, error } = await query.select().maybeSingle();
+
+  if (error) {
+    throw new CustomError('Failed to update service request', 500);
+  }
+
+  if (!updated) {
+    return null;
+  }
+
+  await recordServiceRequestEvent(
+    serviceRequest.id,
+    from,
+    to,
+    actor,
+    options.reason,
+    options.metadata
+  );
+
+  return updated;
+};
+
+/**
+ * Same as tryTransition, but throws 409 if the request changed meanwhile
+ */
+export const transitionServiceRequest = async (
+  serviceRequest: { id: string; status: string },
+  to: ServiceRequestStatus,
+  actor: TransitionActor,
+  options: TransitionOptions = {},
+  conflictMessage: string = 'Service request was updated by someone else, please refresh'
+) => {
+  const updated = await tryTransition(serviceRequest, to, actor, options);
+
+  if (!updated) {
+    throw new CustomError(conflictMessage, 409);
+  }
+
+  return updated;
+};
+
+/**
+ * Get the request's status history, oldest first
+ */
+export const getServiceRequestTimeline = async (serviceRequestId: string) => {
+  const { data: events, error } = await supabaseAdmin
+    .from('service_request_events')
+    .select('id, from_status, to_status, actor_id, actor_type, reason, metadata, created_at')
+    .eq('service_request_id', serviceRequestId)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    throw new CustomError('Failed to fetch service request timeline', 500);
+  }
+
+  return events || [];
+};
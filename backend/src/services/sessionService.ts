@@ -0,0 +1,276 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import { env } from '../config/env';
+import { supabaseAdmin } from '../config/supabase';
+import { CustomError } from '../middleware/errorHandler';
+
+export interface SessionUser {
+  id: string;
+  user_type: string;
+  email?: string;
+}
+
+export interface DeviceInfo {
+  device_id?: string;
+  device_name?: string;
+  platform?: string;
+}
+
+export interface SessionTokens {
+  token: string;
+  refresh_token: string;
+  session_id: string;
+}
+
+// Active sessions are remembered for this long, so authenticated requests don't each
+// read user_sessions. Revocations on this server apply at once; ones made by another
+// server take up to this long to reach it.
+const ACTIVE_SESSION_CACHE_MS = 30 * 1000;
+const MAX_CACHED_SESSIONS = 10000;
+
+// session id -> when the cached "active" answer stops being trusted
+const activeSessions = new Map<string, number>();
+
+const forgetSessions = (sessions: { id: string }[] | null) => {
+  (sessions || []).forEach((session) => activeSessions.delete(session.id));
+};
+
+const hashToken = (secret: string): string =>
+  crypto.createHash('sha256').update(secret).digest('hex');
+
+const refreshExpiry = (): string => {
+  const expiresAt = new Date();
+  expiresAt.setDate(expiresAt.getDate() + env.jwt.refreshTokenTtlDays);
+  return expiresAt.toISOString();
+};
+
+/**
+ * Sign a short-lived access token bound to a session
+ */
+export const signAccessToken = (user: SessionUser, sessionId: string): string =>
+  jwt.sign(
+    {
+      id: user.id,
+      user_type: user.user_type,
+      email: user.email,
+      sid: sessionId,
+    },
+    env.jwt.secret,
+    { expiresIn: env.jwt.accessTokenExpiresIn } as jwt.SignOptions
+  );
+
+/**
+ * Create a new device session and issue its first token pair.
+ * Refresh tokens have the form `<session_id>.<secret>`; only a hash of the
+ * secret is stored.
+ */
+export const createSession = async (
+  user: SessionUser,
+  device: DeviceInfo = {}
+): Promise<SessionTokens> => {
+  const secret = crypto.randomBytes(48).toString('hex');
+
+  // Logging in again from the same device replaces its previous session
+  if (device.device_id) {
+    const { data: replaced } = await supabaseAdmin
+      .from('user_sessions')
+      .update({ revoked_at: new Date().toISOString() })
+      .eq('user_id', user.id)
+      .eq('device_id', device.device_id)
+      .is('revoked_at', null)
+      .select('id');
+
+    forgetSessions(replaced);
+  }
+
+  const { data: session, error } = await supabaseAdmin
+    .from('user_sessions')
+    .insert({
+      user_id: user.id,
+      device_id: device.device_id || null,
+      device_name: device.device_name || null,
+      platform: device.platform || null,
+      refresh_token_hash: hashToken(secret),
+      expires_at: refreshExpiry(),
+      last_used_at: new Date().toISOString(),
+    })
+    .select('id')
+    .single();
+
+  if (error || !session) {
+    throw new CustomError('Failed to create session', 500);
+  }
+
+  return {
+    token: signAccessToken(user, session.id),
+    refresh_token: `${session.id}.${secret}`,
+    session_id: session.id,
+  };
+};
+
+/**
+ * Exchange a refresh token for a new token pair, rotating the refresh token.
+ * Presenting an already-rotated token revokes the whole session, since it
+ * means the token was copied.
+ */
+export const rotateSession = async (
+  refreshToken: string
+): Promise<SessionTokens & { user: SessionUser }> => {
+  const [sessionId, secret] = refreshToken.split('.');
+
+  if (!sessionId || !secret) {
+    throw new CustomError('Invalid refresh token', 401);
+  }
+
+  const { data: session } = await supabaseAdmin
+    .from('user_sessions')
+    .select('*')
+    .eq('id', sessionId)
+    .maybeSingle();
+
+  if (!session || session.revoked_at) {
+    throw new CustomError('Session has been revoked. Please log in again.', 401);
+  }
+
+  if (new Date(session.expires_at) < new Date()) {
+    throw new CustomError('Session has expired. Please log in again.', 401);
+  }
+
+  if (session.refresh_token_hash !== hashToken(secret)) {
+    await revokeSession(session.id);
+    throw new CustomError('Refresh token reuse detected. Please log in again.', 401);
+  }
+
+  const { data: user } = await supabaseAdmin
+    .from('users')
+    .select('id, user_type, email, is_active')
+    .eq('id', session.user_id)
+    .single();
+
+  if (!user || user.is_active === false) {
+    await revokeSession(session.id);
+    throw new CustomError('Account is not active', 401);
+  }
+
+  const newSecret = crypto.randomBytes(48).toString('hex');
+
+  // Conditional on the old hash so two concurrent refreshes cannot both win
+  const { data: rotated } = await supabaseAdmin
+    .from('user_sessions')
+    .update({
+      refresh_token_hash: hashToken(newSecret),
+      expires_at: refreshExpiry(),
+      last_used_at: new Date().toISOString(),
+    })
+    .eq('id', session.id)
+    .eq('refresh_token_hash', session.refresh_token_hash)
+    .select('id')
+    .maybeSingle();
+
+  if (!rotated) {
+    throw new CustomError('Refresh token has already been used', 401);
+  }
+
+  const sessionUser = { id: user.id, user_type: user.user_type, email: user.email };
+
+  return {
+    user: sessionUser,
+    token: signAccessToken(sessionUser, session.id),
+    refresh_token: `${session.id}.${newSecret}`,
+    session_id: session.id,
+  };
+};
+
+/**
+ * Check that the session an access token belongs to is still active. Active answers
+ * are cached briefly (see ACTIVE_SESSION_CACHE_MS); inactive ones are never cached.
+ */
+export const isSessionActive = async (sessionId: string): Promise<boolean> => {
+  const now = Date.now();
+  const cachedUntil = activeSessions.get(sessionId);
+
+  if (cachedUntil !== undefined) {
+    if (cachedUntil > now) {
+      return true;
+    }
+    activeSessions.delete(sessionId);
+  }
+
+  const { data: session } = await supabaseAdmin
+    .from('user_sessions')
+    .select('id, revoked_at, expires_at')
+    .eq('id', sessionId)
+    .maybeSingle();
+
+  const expiresAt = session ? new Date(session.expires_at).getTime() : 0;
+
+  if (!session || session.revoked_at || expiresAt <= now) {
+    return false;
+  }
+
+  if (activeSessions.size >= MAX_CACHED_SESSIONS) {
+    activeSessions.clear();
+  }
+  activeSessions.set(sessionId, Math.min(now + ACTIVE_SESSION_CACHE_MS, expiresAt));
+
+  return true;
+};
+
+export const revokeSession = async (sessionId: string, userId?: string): Promise<void> => {
+  let query = supabaseAdmin
+    .from('user_sessions')
+    .update({ revoked_at: new Date().toISOString() })
+    .eq('id', sessionId)
+    .is('revoked_at', null);
+
+  if (userId) {
+    query = query.eq('user_id', userId);
+  }
+
+  const { data: revoked } = await query.select('id');
+
+  forgetSessions(revoked);
+};
+
+/**
+ * Revoke every active session for a user (log out all devices)
+ * @param exceptSessionId Optional session to keep signed in
+ */
+export const revokeAllSessions = async (
+  userId: string,
+  exceptSessionId?: string
+): Promise<void> => {
+  let query = supabaseAdmin
+    .from('user_sessions')
+    .update({ revoked_at: new Date().toISOString() })
+    .eq('user_id', userId)
+    .is('revoked_at', null);
+
+  if (exceptSessionId) {
+    query = query.neq('id', exceptSessionId);
+  }
+
+  const { data: revoked, error } = await query.select('id');
+
+  if (error) {
+    throw new CustomError('Failed to revoke sessions', 500);
+  }
+
+  forgetSessions(revoked);
+};
+
+export const listSessions = async (userId: string) => {
+  const { data: sessions, error } = await supabaseAdmin
+    .from('user_sessions')
+    .select('id, device_id, device_name, platform, created_at, last_used_at, expires_at')
+    .eq('user_id', userId)
+    .is('revoked_at', null)
+    .gt('expires_at', new Date().toISOString())
+    .order('last_used_at', { ascending: false });
+
+  if (error) {
+    throw new CustomError('Failed to fetch sessions', 500);
+  }
+
+  return sessions || [];
+};
@@ -0,0 +1,118 @@
+import { supabaseAdmin } from '../config/supabase';
+import { env } from '../config/env';
+import { CustomError } from '../middleware/errorHandler';
+import { chargeCashJobCommission } from './commissionDebtService';
+import { CommissionCharge, quoteJobCommission } from './commissionService';
+import { sendJobInvoice } from './invoiceService';
+import { settleJobEarnings } from './ledgerService';
+import { PaymentMethod, releaseEscrow } from './paymentService';
+
+interface CompletedServiceRequest {
+  id: string;
+  mechanic_id: string;
+  category_id: string | null;
+  labor_cost: number | string | null;
+  total_cost: number | string | null;
+  payment_method: PaymentMethod;
+  completed_at?: string | null;
+  commission_rule_id?: string | null;
+  commission_rate?: number | string | null;
+  commission_amount?: number | string | null;
+}
+
+/**
+ * Record the commission a job is charged under. The first caller fixes it on the
+ * request; later calls (or a concurrent confirmation) reuse what was recorded.
+ */
+const recordJobCommission = async (
+  serviceRequest: CompletedServiceRequest
+): Promise<CommissionCharge> => {
+  if (serviceRequest.commission_amount !== null && serviceRequest.commission_amount !== undefined) {
+    return {
+      rule_id: serviceRequest.commission_rule_id || null,
+      rate: Number(serviceRequest.commission_rate),
+      amount: Number(serviceRequest.commission_amount),
+    };
+  }
+
+  const charge = await quoteJobCommission(serviceRequest);
+
+  const { data: recorded, error } = await supabaseAdmin
+    .from('service_requests')
+    .update({
+      commission_rule_id: charge.rule_id,
+      commission_rate: charge.rate,
+      commission_amount: charge.amount,
+    })
+    .eq('id', serviceRequest.id)
+    .is('commission_amount', null)
+    .select('id')
+    .maybeSingle();
+
+  if (error) {
+    throw new CustomError('Failed to record commission', 500);
+  }
+
+  if (recorded) {
+    return charge;
+  }
+
+  const { data: current, error: fetchError } = await supabaseAdmin
+    .from('service_requests')
+    .select('commission_rule_id, commission_rate, commission_amount')
+    .eq('id', serviceRequest.id)
+    .single();
+
+  if (fetchError || !current) {
+    throw new CustomError('Failed to record commission', 500);
+  }
+
+  return {
+    rule_id: current.commission_rule_id,
+    rate: Number(current.commission_rate),
+    amount: Number(current.commission_amount),
+  };
+};
+
+/**
+ * The one settlement path for a job both parties have confirmed: fix its commission,
+ * credit the mechanic and the platform in the ledger, then send both invoices.
+ * In-app jobs are paid out of escrow. The mechanic already holds cash job money, so
+ * the commission is charged to their wallet (or, with that off, the labour is credited).
+ */
+export const settleCompletedJob = async (serviceRequest: CompletedServiceRequest) => {
+  const commission = await recordJobCommission(serviceRequest);
+
+  if (serviceRequest.payment_method === 'in_app') {
+    await releaseEscrow(serviceRequest, commission.amount);
+  } else if (env.cashJobs.commissionDebt) {
+    await chargeCashJobCommission(serviceRequest, commission.amount);
+  } else {
+    await settleJobEarnings(serviceRequest, commission.amount);
+  }
+  await sendJobInvoice(serviceRequest.id);
+
+  return commission;
+};
+
+/**
+ * Run settlement again for a completed job, e.g. after it failed part way through
+ * resolving a dispute. Every step is idempotent, so repeating it is safe.
+ */
+export const settleServiceRequest = async (serviceRequestId: string) => {
+  const { data: serviceRequest, error } = await supabaseAdmin
+    .from('service_requests')
+    .select('*')
+    .eq('id', serviceRequestId)
+    .single();
+
+  if (error || !serviceRequest) {
+    throw new CustomError('Service request not found', 404);
+  }
+
+  if (serviceRequest.status !== 'completed') {
+    throw new CustomError('Only completed jobs can be settled', 409);
+  }
+
+  return settleCompletedJob(serviceRequest);
+};
@@ -76,7 +76,7 @@ export const uploadFile = async (params: UploadFileParams): Promise<string> => {
     }
 
     // Upload to Supabase Storage
-    const { data, error } = await supabaseAdmin.storage
+    const { error } = await supabaseAdmin.storage
       .from(bucket)
       .upload(filePath, fileBuffer, {
         contentType: file.type || 'image/jpeg',
@@ -10,3 +10,5 @@ export interface ApiResponse<T = any> {
   };
 }
 
+
+export type UserRole = 'customer' | 'mechanic' | 'vendor' | 'admin';
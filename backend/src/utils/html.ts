@@ -0,0 +1,10 @@
+/**
+ * Escape text for interpolating into HTML (emails, invoice documents)
+ */
+export const escapeHtml = (value: string | number | null | undefined): string =>
+  String(value ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
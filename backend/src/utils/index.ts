@@ -1,3 +1,3 @@
 // Export all utility functions from here
-// Utility functions will be added as they are implemented
-
+export * from './ownership';
+export * from './html';
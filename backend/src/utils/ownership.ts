@@ -0,0 +1,48 @@
+import { CustomError } from '../middleware/errorHandler';
+
+interface ServiceRequestParties {
+  customer_id: string;
+  mechanic_id?: string | null;
+}
+
+/**
+ * Throw 403 unless the user is the customer who created the request
+ */
+export const assertServiceRequestCustomer = (
+  serviceRequest: ServiceRequestParties,
+  userId: string,
+  message: string = 'Only the customer can perform this action'
+): void => {
+  if (serviceRequest.customer_id !== userId) {
+    throw new CustomError(message, 403);
+  }
+};
+
+/**
+ * Throw 403 unless the request is assigned to the mechanic
+ */
+export const assertServiceRequestMechanic = (
+  serviceRequest: ServiceRequestParties,
+  userId: string,
+  message: string = 'Service request not assigned to this mechanic'
+): void => {
+  if (!serviceRequest.mechanic_id || serviceRequest.mechanic_id !== userId) {
+    throw new CustomError(message, 403);
+  }
+};
+
+/**
+ * Throw 403 unless the user is the customer, the assigned mechanic or an admin
+ */
+export const assertServiceRequestParticipant = (
+  serviceRequest: ServiceRequestParties,
+  user: { id: string; user_type: string }
+): void => {
+  if (user.user_type === 'admin') {
+    return;
+  }
+
+  if (serviceRequest.customer_id !== user.id && serviceRequest.mechanic_id !== user.id) {
+    throw new CustomError('Unauthorized', 403);
+  }
+};
@@ -0,0 +1,22 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+
+/**
+ * Check a webhook body against its hex HMAC-SHA512 signature, as Paystack and our
+ * fake providers send them
+ */
+export const verifyHmacSignature = (
+  secret: string,
+  rawBody: Buffer,
+  signature: string | undefined
+): boolean => {
+  if (!signature) {
+    return false;
+  }
+
+  const expected = createHmac('sha512', secret).update(rawBody).digest('hex');
+
+  return (
+    expected.length === signature.length &&
+    timingSafeEqual(Buffer.from(expected), Buffer.from(signature))
+  );
+};
@@ -7,9 +7,11 @@ import {
   TouchableOpacity,
   TouchableWithoutFeedback,
   SafeAreaView,
+  Alert,
 } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 import { useAuthStore } from '../../store/authStore';
+import { authService } from '../../services/authService';
 import { useNavigation, CommonActions } from '@react-navigation/native';
 import { StackNavigationProp } from '@react-navigation/stack';
 import { BottomTabNavigationProp } from '@react-navigation/bottom-tabs';
@@ -28,12 +30,45 @@ export const DrawerMenu: React.FC<DrawerMenuProps> = ({ visible, onClose }) => {
   const { logout, user } = useAuthStore();
   const navigation = useNavigation<any>();
 
-  const handleLogout = () => {
+  const handleLogout = async () => {
+    try {
+      // Revoke this device's session on the server
+      await authService.logout();
+    } catch {
+      // The local session is cleared below either way
+    }
     logout();
     onClose();
     // Navigation will automatically redirect to auth screen
   };
 
+  const handleLogoutAllDevices = () => {
+    Alert.alert(
+      'Log Out All Devices',
+      'You will be signed out on every device, including this one.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Log Out',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await authService.logoutAllDevices();
+            } catch (error: any) {
+              Alert.alert(
+                'Error',
+                error.response?.data?.error?.message || 'Failed to log out other devices'
+              );
+              return;
+            }
+            logout();
+            onClose();
+          },
+        },
+      ]
+    );
+  };
+
   const handleNavigateToHistory = () => {
     onClose();
     if (user?.user_type === 'customer') {
@@ -78,6 +113,18 @@ export const DrawerMenu: React.FC<DrawerMenuProps> = ({ visible, onClose }) => {
     }
   };
 
+  const handleNavigateToWallet = () => {
+    onClose();
+    const parent = navigation.getParent();
+    if (parent) {
+      parent.navigate('Wallet');
+    } else {
+      navigation.navigate('Customer', {
+        screen: 'Wallet',
+      });
+    }
+  };
+
   const menuItems = [
     {
       id: 'history',
@@ -91,6 +138,17 @@ export const DrawerMenu: React.FC<DrawerMenuProps> = ({ visible, onClose }) => {
       label: 'Payments',
       onPress: handleNavigateToPayments,
     },
+    // Mechanics reach their wallet through Payments
+    ...(user?.user_type === 'customer'
+      ? [
+          {
+            id: 'wallet',
+            icon: 'wallet-outline' as keyof typeof Ionicons.glyphMap,
+            label: 'Wallet',
+            onPress: handleNavigateToWallet,
+          },
+        ]
+      : []),
     {
       id: 'support',
       icon: 'help-circle-outline' as keyof typeof Ionicons.glyphMap,
@@ -109,6 +167,13 @@ export const DrawerMenu: React.FC<DrawerMenuProps> = ({ visible, onClose }) => {
         // Navigate to about
       },
     },
+    {
+      id: 'logout-all',
+      icon: 'phone-portrait-outline' as keyof typeof Ionicons.glyphMap,
+      label: 'Log Out All Devices',
+      onPress: handleLogoutAllDevices,
+      isDestructive: true,
+    },
     {
       id: 'logout',
       icon: 'log-out-outline' as keyof typeof Ionicons.glyphMap,
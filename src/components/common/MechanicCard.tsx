@@ -57,7 +57,12 @@ export const MechanicCard: React.FC<MechanicCardProps> = ({
           )}
           {mechanic.distance && (
             <Text style={styles.distance}>
-              {' '}• {mechanic.distance} km away
+              {' '}• {mechanic.route_distance ?? mechanic.distance} km away
+            </Text>
+          )}
+          {mechanic.eta_minutes !== undefined && (
+            <Text style={styles.distance}>
+              {' '}• {mechanic.eta_minutes} min
             </Text>
           )}
         </View>
@@ -0,0 +1,261 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  TouchableOpacity,
+  ScrollView,
+  Image,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { Button, Input } from '../common';
+import { useImagePicker, ImagePickerResult } from '../../hooks/useImagePicker';
+import { MAX_EVIDENCE_PHOTOS, OpenDisputeData } from '../../services/disputeService';
+import { DisputeReason } from '../../types';
+
+interface DisputeModalProps {
+  visible: boolean;
+  // Which reasons are offered depends on who is reporting
+  role: 'customer' | 'mechanic';
+  loading?: boolean;
+  onSubmit: (data: OpenDisputeData) => void;
+  onClose: () => void;
+}
+
+export const disputeReasonLabels: Record<DisputeReason, string> = {
+  work_not_done: 'Work not done',
+  poor_quality: 'Poor quality work',
+  overcharged: 'Price is wrong',
+  customer_unresponsive: 'Customer unresponsive',
+  payment_issue: 'Payment problem',
+  other: 'Something else',
+};
+
+const reasonsByRole: Record<DisputeModalProps['role'], DisputeReason[]> = {
+  customer: ['work_not_done', 'poor_quality', 'overcharged', 'payment_issue', 'other'],
+  mechanic: ['customer_unresponsive', 'payment_issue', 'overcharged', 'other'],
+};
+
+export const DisputeModal: React.FC<DisputeModalProps> = ({
+  visible,
+  role,
+  loading,
+  onSubmit,
+  onClose,
+}) => {
+  const [reason, setReason] = useState<DisputeReason | null>(null);
+  const [description, setDescription] = useState('');
+  const [photos, setPhotos] = useState<ImagePickerResult[]>([]);
+  const { pickImage, loading: picking } = useImagePicker();
+
+  useEffect(() => {
+    if (visible) {
+      setReason(null);
+      setDescription('');
+      setPhotos([]);
+    }
+  }, [visible]);
+
+  const handleAddPhoto = async () => {
+    const photo = await pickImage();
+    if (photo) {
+      setPhotos((prev) => [...prev, photo]);
+    }
+  };
+
+  const canSubmit = reason !== null && description.trim().length > 0;
+
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={onClose}>
+      <KeyboardAvoidingView
+        behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+        style={styles.overlay}
+      >
+        <View style={styles.modalContainer}>
+          <View style={styles.header}>
+            <Text style={styles.headerTitle}>Report a Problem</Text>
+            <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+              <Ionicons name="close" size={24} color="#000000" />
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView style={styles.content} keyboardShouldPersistTaps="handled">
+            <Text style={styles.hint}>
+              Payment is held while our team looks into it. We'll message you here.
+            </Text>
+
+            <Text style={styles.sectionTitle}>What went wrong?</Text>
+            <View style={styles.reasons}>
+              {reasonsByRole[role].map((option) => {
+                const selected = reason === option;
+                return (
+                  <TouchableOpacity
+                    key={option}
+                    style={[styles.reason, selected && styles.reasonSelected]}
+                    onPress={() => setReason(option)}
+                  >
+                    <Text style={[styles.reasonText, selected && styles.reasonTextSelected]}>
+                      {disputeReasonLabels[option]}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+
+            <Input
+              value={description}
+              onChangeText={setDescription}
+              placeholder="Describe what happened"
+              multiline
+              numberOfLines={4}
+              maxLength={1000}
+              style={styles.descriptionInput}
+            />
+
+            <Text style={styles.sectionTitle}>Photos (optional)</Text>
+            <View style={styles.photos}>
+              {photos.map((photo, index) => (
+                <View key={`${photo.uri}-${index}`} style={styles.photo}>
+                  <Image source={{ uri: photo.uri }} style={styles.photoImage} />
+                  <TouchableOpacity
+                    style={styles.removePhoto}
+                    onPress={() => setPhotos((prev) => prev.filter((_, i) => i !== index))}
+                  >
+                    <Ionicons name="close-circle" size={20} color="#FF3B30" />
+                  </TouchableOpacity>
+                </View>
+              ))}
+              {photos.length < MAX_EVIDENCE_PHOTOS && (
+                <TouchableOpacity
+                  style={styles.addPhoto}
+                  onPress={handleAddPhoto}
+                  disabled={picking}
+                >
+                  <Ionicons name="camera-outline" size={24} color="#8E8E93" />
+                </TouchableOpacity>
+              )}
+            </View>
+
+            <Button
+              title="Open Dispute"
+              onPress={() =>
+                reason && onSubmit({ reason, description: description.trim(), photos })
+              }
+              loading={loading}
+              disabled={!canSubmit}
+            />
+          </ScrollView>
+        </View>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'flex-end',
+  },
+  modalContainer: {
+    backgroundColor: '#FFFFFF',
+    borderTopLeftRadius: 24,
+    borderTopRightRadius: 24,
+    paddingBottom: 20,
+    maxHeight: '90%',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E5EA',
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#000000',
+  },
+  closeButton: {
+    padding: 4,
+  },
+  content: {
+    padding: 16,
+  },
+  hint: {
+    fontSize: 14,
+    color: '#8E8E93',
+    marginBottom: 16,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#000000',
+    marginBottom: 12,
+  },
+  reasons: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 16,
+  },
+  reason: {
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#C6C6C8',
+  },
+  reasonSelected: {
+    backgroundColor: '#000000',
+    borderColor: '#000000',
+  },
+  reasonText: {
+    fontSize: 13,
+    fontWeight: '500',
+    color: '#000000',
+  },
+  reasonTextSelected: {
+    color: '#FFFFFF',
+  },
+  descriptionInput: {
+    minHeight: 100,
+    textAlignVertical: 'top',
+  },
+  photos: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 20,
+  },
+  photo: {
+    width: 64,
+    height: 64,
+  },
+  photoImage: {
+    width: 64,
+    height: 64,
+    borderRadius: 8,
+  },
+  removePhoto: {
+    position: 'absolute',
+    top: -6,
+    right: -6,
+    backgroundColor: '#FFFFFF',
+    borderRadius: 10,
+  },
+  addPhoto: {
+    width: 64,
+    height: 64,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderStyle: 'dashed',
+    borderColor: '#C6C6C8',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+});
@@ -0,0 +1,242 @@
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Image, Linking } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { Button, Input } from '../common';
+import { useImagePicker, ImagePickerResult } from '../../hooks/useImagePicker';
+import { DisputeMessageData, MAX_EVIDENCE_PHOTOS } from '../../services/disputeService';
+import { DisputeMessage, ServiceRequestDispute } from '../../types';
+import { disputeReasonLabels } from './DisputeModal';
+
+interface DisputeThreadProps {
+  dispute: ServiceRequestDispute;
+  // Messages from this user are shown as "You"
+  userId?: string;
+  sending?: boolean;
+  // Resolves once the message is saved, so the draft can be cleared
+  onSend: (data: DisputeMessageData) => Promise<boolean>;
+}
+
+const outcomeLabels: Record<string, string> = {
+  refund: 'Refunded and cancelled',
+  release: 'Completed at the agreed price',
+  adjust: 'Completed at an adjusted price',
+};
+
+const senderLabel = (message: DisputeMessage, userId?: string) => {
+  if (message.sender_id && message.sender_id === userId) return 'You';
+  if (message.sender_type === 'admin') return 'MekoFix Support';
+  return message.sender_type === 'customer' ? 'Customer' : 'Mechanic';
+};
+
+const formatMessageTime = (dateString: string) =>
+  new Date(dateString).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+
+export const DisputeThread: React.FC<DisputeThreadProps> = ({
+  dispute,
+  userId,
+  sending,
+  onSend,
+}) => {
+  const [body, setBody] = useState('');
+  const [photos, setPhotos] = useState<ImagePickerResult[]>([]);
+  const { pickImage, loading: picking } = useImagePicker();
+  const isOpen = dispute.status === 'open';
+
+  const handleAddPhoto = async () => {
+    const photo = await pickImage();
+    if (photo) {
+      setPhotos((prev) => [...prev, photo]);
+    }
+  };
+
+  const handleSend = async () => {
+    const sent = await onSend({ body: body.trim() || undefined, photos });
+    if (sent) {
+      setBody('');
+      setPhotos([]);
+    }
+  };
+
+  return (
+    <View>
+      <View style={styles.header}>
+        <Ionicons
+          name={isOpen ? 'alert-circle' : 'checkmark-circle'}
+          size={20}
+          color={isOpen ? '#FF9500' : '#34C759'}
+        />
+        <Text style={styles.headerText}>
+          {isOpen ? 'Under review' : 'Resolved'} · {disputeReasonLabels[dispute.reason]}
+        </Text>
+      </View>
+
+      {isOpen ? (
+        <Text style={styles.hint}>Payment is on hold until our team resolves this.</Text>
+      ) : (
+        <View style={styles.resolution}>
+          {dispute.outcome && (
+            <Text style={styles.resolutionTitle}>{outcomeLabels[dispute.outcome]}</Text>
+          )}
+          {dispute.resolution_notes && (
+            <Text style={styles.resolutionNotes}>{dispute.resolution_notes}</Text>
+          )}
+          {Number(dispute.refunded_amount) > 0 && (
+            <Text style={styles.resolutionNotes}>
+              ₦{Number(dispute.refunded_amount).toFixed(2)} refunded
+            </Text>
+          )}
+        </View>
+      )}
+
+      {dispute.messages.map((message) => (
+        <View key={message.id} style={styles.message}>
+          <View style={styles.messageHeader}>
+            <Text style={styles.messageSender}>{senderLabel(message, userId)}</Text>
+            <Text style={styles.messageTime}>{formatMessageTime(message.created_at)}</Text>
+          </View>
+          {message.body ? <Text style={styles.messageBody}>{message.body}</Text> : null}
+          {message.photo_urls.length > 0 && (
+            <View style={styles.photos}>
+              {message.photo_urls.map((url) => (
+                <TouchableOpacity key={url} onPress={() => Linking.openURL(url)}>
+                  <Image source={{ uri: url }} style={styles.photoImage} />
+                </TouchableOpacity>
+              ))}
+            </View>
+          )}
+        </View>
+      ))}
+
+      {isOpen && (
+        <View style={styles.reply}>
+          {photos.length > 0 && (
+            <View style={styles.photos}>
+              {photos.map((photo, index) => (
+                <TouchableOpacity
+                  key={`${photo.uri}-${index}`}
+                  onPress={() => setPhotos((prev) => prev.filter((_, i) => i !== index))}
+                >
+                  <Image source={{ uri: photo.uri }} style={styles.photoImage} />
+                </TouchableOpacity>
+              ))}
+            </View>
+          )}
+          <View style={styles.replyRow}>
+            <Input
+              value={body}
+              onChangeText={setBody}
+              placeholder="Add a message"
+              multiline
+              maxLength={1000}
+              containerStyle={styles.replyInput}
+            />
+            {photos.length < MAX_EVIDENCE_PHOTOS && (
+              <TouchableOpacity
+                style={styles.attachButton}
+                onPress={handleAddPhoto}
+                disabled={picking}
+              >
+                <Ionicons name="camera-outline" size={22} color="#000000" />
+              </TouchableOpacity>
+            )}
+          </View>
+          <Button
+            title="Send"
+            variant="outline"
+            onPress={handleSend}
+            loading={sending}
+            disabled={!body.trim() && photos.length === 0}
+          />
+        </View>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 8,
+  },
+  headerText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#000000',
+  },
+  hint: {
+    fontSize: 13,
+    color: '#8E8E93',
+    marginBottom: 12,
+  },
+  resolution: {
+    backgroundColor: '#F2F2F7',
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 12,
+  },
+  resolutionTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#000000',
+    marginBottom: 4,
+  },
+  resolutionNotes: {
+    fontSize: 13,
+    color: '#3C3C43',
+  },
+  message: {
+    paddingVertical: 10,
+    borderTopWidth: 0.5,
+    borderTopColor: '#E5E5EA',
+  },
+  messageHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: 4,
+  },
+  messageSender: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#000000',
+  },
+  messageTime: {
+    fontSize: 12,
+    color: '#8E8E93',
+  },
+  messageBody: {
+    fontSize: 14,
+    color: '#000000',
+  },
+  photos: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginTop: 8,
+  },
+  photoImage: {
+    width: 56,
+    height: 56,
+    borderRadius: 6,
+  },
+  reply: {
+    marginTop: 8,
+  },
+  replyRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  replyInput: {
+    flex: 1,
+  },
+  attachButton: {
+    padding: 8,
+  },
+});
@@ -0,0 +1,3 @@
+// Dispute components shared by the customer and mechanic screens
+export { DisputeModal, disputeReasonLabels } from './DisputeModal';
+export { DisputeThread } from './DisputeThread';
@@ -21,10 +21,31 @@ interface FilterBottomSheetProps {
   initialFilters?: FilterState;
 }
 
+export type GenderPreference = 'any' | 'male' | 'female';
+
+export type PriceBand = 'any' | 'budget' | 'standard' | 'premium';
+
+// Typical labour cost per job, in naira
+export const priceBands: Record<PriceBand, { label: string; min?: number; max?: number }> = {
+  any: { label: 'Any' },
+  budget: { label: 'Under ₦10k', max: 10000 },
+  standard: { label: '₦10k - ₦25k', min: 10000, max: 25000 },
+  premium: { label: 'Over ₦25k', min: 25000 },
+};
+
+const genderOptions: { value: GenderPreference; label: string }[] = [
+  { value: 'any', label: 'Any' },
+  { value: 'male', label: 'Male' },
+  { value: 'female', label: 'Female' },
+];
+
 export interface FilterState {
   selectedCategories: string[];
   distance: number;
   minRating: number;
+  verifiedOnly: boolean;
+  gender: GenderPreference;
+  priceBand: PriceBand;
 }
 
 export const FilterBottomSheet: React.FC<FilterBottomSheetProps> = ({
@@ -43,6 +64,15 @@ export const FilterBottomSheet: React.FC<FilterBottomSheetProps> = ({
   const [minRating, setMinRating] = useState<number>(
     initialFilters?.minRating || 0
   );
+  const [verifiedOnly, setVerifiedOnly] = useState<boolean>(
+    initialFilters?.verifiedOnly || false
+  );
+  const [gender, setGender] = useState<GenderPreference>(
+    initialFilters?.gender || 'any'
+  );
+  const [priceBand, setPriceBand] = useState<PriceBand>(
+    initialFilters?.priceBand || 'any'
+  );
   const [loading, setLoading] = useState(false);
 
   useEffect(() => {
@@ -52,6 +82,9 @@ export const FilterBottomSheet: React.FC<FilterBottomSheetProps> = ({
         setSelectedCategories(initialFilters.selectedCategories);
         setDistance(initialFilters.distance);
         setMinRating(initialFilters.minRating);
+        setVerifiedOnly(initialFilters.verifiedOnly);
+        setGender(initialFilters.gender);
+        setPriceBand(initialFilters.priceBand);
       }
     }
   }, [visible, initialFilters]);
@@ -85,6 +118,9 @@ export const FilterBottomSheet: React.FC<FilterBottomSheetProps> = ({
       selectedCategories,
       distance,
       minRating,
+      verifiedOnly,
+      gender,
+      priceBand,
     });
     onClose();
   };
@@ -93,6 +129,9 @@ export const FilterBottomSheet: React.FC<FilterBottomSheetProps> = ({
     setSelectedCategories([]);
     setDistance(10);
     setMinRating(0);
+    setVerifiedOnly(false);
+    setGender('any');
+    setPriceBand('any');
   };
 
   return (
@@ -200,6 +239,73 @@ export const FilterBottomSheet: React.FC<FilterBottomSheetProps> = ({
                   </View>
                 </View>
 
+                {/* Typical Price Section */}
+                <View style={styles.section}>
+                  <Text style={styles.sectionTitle}>Typical Price</Text>
+                  <View style={styles.categoriesContainer}>
+                    {(Object.keys(priceBands) as PriceBand[]).map((band) => (
+                      <TouchableOpacity
+                        key={band}
+                        style={[
+                          styles.categoryChip,
+                          priceBand === band && styles.categoryChipSelected,
+                        ]}
+                        onPress={() => setPriceBand(band)}
+                      >
+                        <Text
+                          style={[
+                            styles.categoryText,
+                            priceBand === band && styles.categoryTextSelected,
+                          ]}
+                        >
+                          {priceBands[band].label}
+                        </Text>
+                      </TouchableOpacity>
+                    ))}
+                  </View>
+                </View>
+
+                {/* Gender Preference Section */}
+                <View style={styles.section}>
+                  <Text style={styles.sectionTitle}>Mechanic Gender</Text>
+                  <View style={styles.categoriesContainer}>
+                    {genderOptions.map((option) => (
+                      <TouchableOpacity
+                        key={option.value}
+                        style={[
+                          styles.categoryChip,
+                          gender === option.value && styles.categoryChipSelected,
+                        ]}
+                        onPress={() => setGender(option.value)}
+                      >
+                        <Text
+                          style={[
+                            styles.categoryText,
+                            gender === option.value && styles.categoryTextSelected,
+                          ]}
+                        >
+                          {option.label}
+                        </Text>
+                      </TouchableOpacity>
+                    ))}
+                  </View>
+                </View>
+
+                {/* Verified Only Section */}
+                <View style={[styles.section, styles.switchRow]}>
+                  <View style={styles.switchLabel}>
+                    <Text style={styles.sectionTitle}>Background-checked only</Text>
+                    <Text style={styles.switchHint}>
+                      Only show mechanics who passed a background check
+                    </Text>
+                  </View>
+                  <Switch
+                    value={verifiedOnly}
+                    onValueChange={setVerifiedOnly}
+                    trackColor={{ false: '#E5E5EA', true: '#000000' }}
+                  />
+                </View>
+
                 {/* Action Buttons */}
                 <View style={styles.actions}>
                   <Button
@@ -312,6 +418,20 @@ const styles = StyleSheet.create({
     fontSize: 14,
     color: '#8E8E93',
   },
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  switchLabel: {
+    flex: 1,
+    marginRight: 12,
+  },
+  switchHint: {
+    fontSize: 12,
+    color: '#8E8E93',
+    marginTop: -8,
+  },
   slider: {
     width: '100%',
     height: 40,
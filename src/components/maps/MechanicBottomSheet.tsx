@@ -18,6 +18,7 @@ interface MechanicBottomSheetProps {
   mechanic: Mechanic | null;
   onClose: () => void;
   onRequestService: (mechanic: Mechanic) => void;
+  onViewProfile?: (mechanic: Mechanic) => void;
 }
 
 export const MechanicBottomSheet: React.FC<MechanicBottomSheetProps> = ({
@@ -25,6 +26,7 @@ export const MechanicBottomSheet: React.FC<MechanicBottomSheetProps> = ({
   mechanic,
   onClose,
   onRequestService,
+  onViewProfile,
 }) => {
   if (!mechanic) return null;
 
@@ -33,6 +35,11 @@ export const MechanicBottomSheet: React.FC<MechanicBottomSheetProps> = ({
     onRequestService(mechanic);
   };
 
+  const handleViewProfile = () => {
+    onClose();
+    onViewProfile?.(mechanic);
+  };
+
   return (
     <Modal
       visible={visible}
@@ -77,6 +84,20 @@ export const MechanicBottomSheet: React.FC<MechanicBottomSheetProps> = ({
                   </TouchableOpacity>
                 </View>
 
+                {mechanic.eta_minutes !== undefined && (
+                  <View style={styles.etaContainer}>
+                    <Ionicons name="car-outline" size={20} color="#000000" />
+                    <Text style={styles.etaText}>
+                      About {mechanic.eta_minutes} min away
+                    </Text>
+                    {mechanic.route_distance !== undefined && (
+                      <Text style={styles.etaDistance}>
+                        {' '}• {mechanic.route_distance} km by road
+                      </Text>
+                    )}
+                  </View>
+                )}
+
                 <View style={styles.section}>
                   <Text style={styles.sectionTitle}>Specializations</Text>
                   <View style={styles.specializationsContainer}>
@@ -97,6 +118,14 @@ export const MechanicBottomSheet: React.FC<MechanicBottomSheetProps> = ({
                   </View>
                 )}
 
+                {onViewProfile && (
+                  <Button
+                    title="View Full Profile"
+                    onPress={handleViewProfile}
+                    variant="outline"
+                  />
+                )}
+
                 <Button
                   title="Request Service"
                   onPress={handleRequestService}
@@ -194,6 +223,24 @@ const styles = StyleSheet.create({
   closeButton: {
     padding: 4,
   },
+  etaContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#F2F2F7',
+    padding: 12,
+    borderRadius: 8,
+    marginBottom: 24,
+  },
+  etaText: {
+    fontSize: 14,
+    color: '#000000',
+    fontWeight: '500',
+    marginLeft: 8,
+  },
+  etaDistance: {
+    fontSize: 14,
+    color: '#8E8E93',
+  },
   section: {
     marginBottom: 24,
   },
@@ -0,0 +1,214 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  TouchableOpacity,
+  Switch,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { Button, Input } from '../common';
+import { CustomerReviewData } from '../../services/serviceRequestService';
+
+interface CustomerRatingModalProps {
+  visible: boolean;
+  customerName: string;
+  title: string;
+  submitLabel: string;
+  // No-show jobs are flagged automatically, so only abuse can be toggled
+  noShow?: boolean;
+  loading?: boolean;
+  onSubmit: (review: CustomerReviewData) => void;
+  onClose: () => void;
+}
+
+export const CustomerRatingModal: React.FC<CustomerRatingModalProps> = ({
+  visible,
+  customerName,
+  title,
+  submitLabel,
+  noShow = false,
+  loading = false,
+  onSubmit,
+  onClose,
+}) => {
+  const [rating, setRating] = useState(0);
+  const [comment, setComment] = useState('');
+  const [abusive, setAbusive] = useState(false);
+
+  // Start fresh each time the modal opens
+  useEffect(() => {
+    if (visible) {
+      setRating(0);
+      setComment('');
+      setAbusive(false);
+    }
+  }, [visible]);
+
+  const handleSubmit = () => {
+    if (rating === 0) return;
+    onSubmit({
+      rating,
+      comment: comment.trim() || undefined,
+      flags: abusive ? ['abusive'] : undefined,
+    });
+  };
+
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={onClose}>
+      <KeyboardAvoidingView
+        behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+        style={styles.overlay}
+      >
+        <View style={styles.modalContainer}>
+          <View style={styles.header}>
+            <Text style={styles.headerTitle}>{title}</Text>
+            <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+              <Ionicons name="close" size={24} color="#000000" />
+            </TouchableOpacity>
+          </View>
+
+          <View style={styles.content}>
+            {noShow && (
+              <View style={styles.noShowBanner}>
+                <Ionicons name="alert-circle" size={16} color="#FF9500" />
+                <Text style={styles.noShowText}>
+                  The job will be cancelled and {customerName} flagged as a no-show.
+                </Text>
+              </View>
+            )}
+
+            <Text style={styles.label}>How was {customerName}?</Text>
+            <View style={styles.ratingContainer}>
+              {[1, 2, 3, 4, 5].map((star) => (
+                <TouchableOpacity
+                  key={star}
+                  onPress={() => setRating(star)}
+                  style={styles.starButton}
+                >
+                  <Ionicons
+                    name={star <= rating ? 'star' : 'star-outline'}
+                    size={36}
+                    color={star <= rating ? '#FF9500' : '#C6C6C8'}
+                  />
+                </TouchableOpacity>
+              ))}
+            </View>
+
+            <View style={styles.switchRow}>
+              <View style={styles.switchText}>
+                <Text style={styles.switchLabel}>Abusive behaviour</Text>
+                <Text style={styles.switchHint}>Rude, threatening or unsafe</Text>
+              </View>
+              <Switch value={abusive} onValueChange={setAbusive} />
+            </View>
+
+            <Input
+              value={comment}
+              onChangeText={setComment}
+              multiline
+              numberOfLines={3}
+              placeholder="Anything other mechanics should know? (optional)"
+              style={styles.commentInput}
+            />
+
+            <Button
+              title={submitLabel}
+              onPress={handleSubmit}
+              loading={loading}
+              disabled={rating === 0}
+            />
+          </View>
+        </View>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'flex-end',
+  },
+  modalContainer: {
+    backgroundColor: '#FFFFFF',
+    borderTopLeftRadius: 24,
+    borderTopRightRadius: 24,
+    paddingBottom: 20,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E5EA',
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#000000',
+  },
+  closeButton: {
+    padding: 4,
+  },
+  content: {
+    padding: 16,
+  },
+  noShowBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#FFF4E5',
+    padding: 10,
+    borderRadius: 8,
+    marginBottom: 16,
+  },
+  noShowText: {
+    flex: 1,
+    fontSize: 13,
+    color: '#000000',
+    marginLeft: 8,
+  },
+  label: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#000000',
+    textAlign: 'center',
+    marginBottom: 8,
+  },
+  ratingContainer: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    marginBottom: 16,
+  },
+  starButton: {
+    padding: 4,
+  },
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 16,
+  },
+  switchText: {
+    flex: 1,
+  },
+  switchLabel: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#000000',
+  },
+  switchHint: {
+    fontSize: 12,
+    color: '#8E8E93',
+    marginTop: 2,
+  },
+  commentInput: {
+    minHeight: 80,
+    textAlignVertical: 'top',
+  },
+});
@@ -106,6 +106,15 @@ export const IncomingRequestModal: React.FC<IncomingRequestModalProps> = ({
       }
     } catch (error: any) {
       console.error('Error accepting request:', error);
+      // Broadcast job was taken by another mechanic or withdrawn
+      if (error.response?.status === 409) {
+        Alert.alert(
+          'Job Taken',
+          error.response?.data?.error?.message || 'This job is no longer available'
+        );
+        onClose();
+        return;
+      }
       Alert.alert(
         'Error',
         error.response?.data?.error?.message || 'Failed to accept request'
@@ -125,6 +134,11 @@ export const IncomingRequestModal: React.FC<IncomingRequestModalProps> = ({
       onClose();
     } catch (error: any) {
       console.error('Error declining request:', error);
+      // Offer already withdrawn, nothing left to decline
+      if (error.response?.status === 409) {
+        onClose();
+        return;
+      }
       Alert.alert(
         'Error',
         error.response?.data?.error?.message || 'Failed to decline request'
@@ -165,6 +179,9 @@ export const IncomingRequestModal: React.FC<IncomingRequestModalProps> = ({
   // Get customer info (assuming it's in the request object)
   const customerName = (request as any).customer?.full_name || 'Customer';
   const customerPhoto = (request as any).customer?.profile_picture_url;
+  const customerScore = request.customer_score;
+  const noShows = customerScore?.flags?.no_show || 0;
+  const abuseReports = customerScore?.flags?.abusive || 0;
 
   return (
     <Modal
@@ -187,6 +204,16 @@ export const IncomingRequestModal: React.FC<IncomingRequestModalProps> = ({
           </View>
 
           <View style={styles.content}>
+            {/* Broadcast offer notice */}
+            {request.dispatch_mode === 'broadcast' && (
+              <View style={styles.broadcastBanner}>
+                <Ionicons name="flash" size={16} color="#FF9500" />
+                <Text style={styles.broadcastText}>
+                  Sent to several mechanics nearby. First to accept gets the job.
+                </Text>
+              </View>
+            )}
+
             {/* Customer Info */}
             <View style={styles.customerSection}>
               <View style={styles.customerInfo}>
@@ -202,6 +229,21 @@ export const IncomingRequestModal: React.FC<IncomingRequestModalProps> = ({
                 )}
                 <View style={styles.customerDetails}>
                   <Text style={styles.customerName}>{customerName}</Text>
+                  {customerScore && (
+                    <View style={styles.customerScore}>
+                      {customerScore.total > 0 ? (
+                        <>
+                          <Ionicons name="star" size={14} color="#FF9500" />
+                          <Text style={styles.customerScoreText}>
+                            {customerScore.average.toFixed(1)} ({customerScore.total}{' '}
+                            {customerScore.total === 1 ? 'rating' : 'ratings'})
+                          </Text>
+                        </>
+                      ) : (
+                        <Text style={styles.customerScoreText}>New customer</Text>
+                      )}
+                    </View>
+                  )}
                   {distance !== null && (
                     <Text style={styles.distanceText}>
                       {distance.toFixed(1)} km away
@@ -211,6 +253,28 @@ export const IncomingRequestModal: React.FC<IncomingRequestModalProps> = ({
               </View>
             </View>
 
+            {/* Warnings from other mechanics */}
+            {(noShows > 0 || abuseReports > 0) && (
+              <View style={styles.flagsRow}>
+                {noShows > 0 && (
+                  <View style={styles.flagChip}>
+                    <Ionicons name="alert-circle" size={14} color="#FF3B30" />
+                    <Text style={styles.flagText}>
+                      {noShows} {noShows === 1 ? 'no-show' : 'no-shows'}
+                    </Text>
+                  </View>
+                )}
+                {abuseReports > 0 && (
+                  <View style={styles.flagChip}>
+                    <Ionicons name="warning" size={14} color="#FF3B30" />
+                    <Text style={styles.flagText}>
+                      {abuseReports} abuse {abuseReports === 1 ? 'report' : 'reports'}
+                    </Text>
+                  </View>
+                )}
+              </View>
+            )}
+
             {/* Vehicle Info */}
             {request.vehicle && (
               <View style={styles.vehicleSection}>
@@ -368,6 +432,20 @@ const styles = StyleSheet.create({
   content: {
     padding: 16,
   },
+  broadcastBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#FFF4E5',
+    padding: 10,
+    borderRadius: 8,
+    marginBottom: 16,
+  },
+  broadcastText: {
+    flex: 1,
+    fontSize: 13,
+    color: '#000000',
+    marginLeft: 8,
+  },
   customerSection: {
     marginBottom: 16,
   },
@@ -403,6 +481,35 @@ const styles = StyleSheet.create({
     fontSize: 14,
     color: '#8E8E93',
   },
+  customerScore: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 2,
+  },
+  customerScoreText: {
+    fontSize: 14,
+    color: '#000000',
+    marginLeft: 4,
+  },
+  flagsRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 12,
+  },
+  flagChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#FFEBEA',
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 12,
+  },
+  flagText: {
+    fontSize: 12,
+    color: '#FF3B30',
+    marginLeft: 4,
+  },
   vehicleSection: {
     flexDirection: 'row',
     alignItems: 'center',
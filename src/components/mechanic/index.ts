@@ -1,3 +1,4 @@
 // Mechanic-specific components
 export { IncomingRequestModal } from './IncomingRequestModal';
 
+export { CustomerRatingModal } from './CustomerRatingModal';
@@ -0,0 +1,341 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  TouchableOpacity,
+  ScrollView,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { Button, Input } from '../common';
+import { QuoteItem, QuoteItemType, ServiceRequestQuote } from '../../types';
+import { SubmitQuoteData } from '../../services/serviceRequestService';
+
+interface QuoteEditorModalProps {
+  visible: boolean;
+  // Revisions start from the previous version's lines
+  previousQuote?: ServiceRequestQuote | null;
+  loading?: boolean;
+  onSubmit: (data: SubmitQuoteData) => void;
+  onClose: () => void;
+}
+
+interface DraftLine {
+  type: QuoteItemType;
+  description: string;
+  quantity: string;
+  unit_price: string;
+}
+
+const emptyLine = (type: QuoteItemType): DraftLine => ({
+  type,
+  description: '',
+  quantity: '1',
+  unit_price: '',
+});
+
+const toDraftLine = (item: QuoteItem): DraftLine => ({
+  type: item.type,
+  description: item.description,
+  quantity: String(item.quantity),
+  unit_price: String(item.unit_price),
+});
+
+const lineTotal = (line: DraftLine) => {
+  const quantity = parseFloat(line.quantity);
+  const unitPrice = parseFloat(line.unit_price);
+  return isNaN(quantity) || isNaN(unitPrice) ? 0 : quantity * unitPrice;
+};
+
+const isLineValid = (line: DraftLine) =>
+  line.description.trim().length > 0 &&
+  parseFloat(line.quantity) > 0 &&
+  parseFloat(line.unit_price) >= 0;
+
+export const QuoteEditorModal: React.FC<QuoteEditorModalProps> = ({
+  visible,
+  previousQuote,
+  loading = false,
+  onSubmit,
+  onClose,
+}) => {
+  const [lines, setLines] = useState<DraftLine[]>([]);
+  const [note, setNote] = useState('');
+
+  // Start from the previous version (or one empty line) each time the modal opens
+  useEffect(() => {
+    if (visible) {
+      setLines(
+        previousQuote?.items.length
+          ? previousQuote.items.map(toDraftLine)
+          : [emptyLine('part'), emptyLine('labour')]
+      );
+      setNote('');
+    }
+  }, [visible, previousQuote]);
+
+  const updateLine = (index: number, changes: Partial<DraftLine>) => {
+    setLines((prev) => prev.map((line, i) => (i === index ? { ...line, ...changes } : line)));
+  };
+
+  const removeLine = (index: number) => {
+    setLines((prev) => prev.filter((_, i) => i !== index));
+  };
+
+  const total = lines.reduce((sum, line) => sum + lineTotal(line), 0);
+  const canSubmit = lines.length > 0 && lines.every(isLineValid);
+
+  const handleSubmit = () => {
+    if (!canSubmit) return;
+    onSubmit({
+      items: lines.map((line) => ({
+        type: line.type,
+        description: line.description.trim(),
+        quantity: parseFloat(line.quantity),
+        unit_price: parseFloat(line.unit_price),
+      })),
+      note: note.trim() || undefined,
+    });
+  };
+
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={onClose}>
+      <KeyboardAvoidingView
+        behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+        style={styles.overlay}
+      >
+        <View style={styles.modalContainer}>
+          <View style={styles.header}>
+            <Text style={styles.headerTitle}>
+              {previousQuote ? 'Revise Quote' : 'Send Quote'}
+            </Text>
+            <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+              <Ionicons name="close" size={24} color="#000000" />
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView style={styles.content} keyboardShouldPersistTaps="handled">
+            {lines.map((line, index) => (
+              <View key={index} style={styles.lineCard}>
+                <View style={styles.lineHeader}>
+                  <View style={styles.typeToggle}>
+                    {(['part', 'labour'] as QuoteItemType[]).map((type) => (
+                      <TouchableOpacity
+                        key={type}
+                        style={[styles.typeChip, line.type === type && styles.typeChipActive]}
+                        onPress={() => updateLine(index, { type })}
+                      >
+                        <Text
+                          style={[
+                            styles.typeChipText,
+                            line.type === type && styles.typeChipTextActive,
+                          ]}
+                        >
+                          {type === 'part' ? 'Part' : 'Labour'}
+                        </Text>
+                      </TouchableOpacity>
+                    ))}
+                  </View>
+                  <TouchableOpacity onPress={() => removeLine(index)}>
+                    <Ionicons name="trash-outline" size={20} color="#FF3B30" />
+                  </TouchableOpacity>
+                </View>
+
+                <Input
+                  value={line.description}
+                  onChangeText={(description) => updateLine(index, { description })}
+                  placeholder={line.type === 'part' ? 'e.g. Brake pads' : 'e.g. Fitting brake pads'}
+                  maxLength={200}
+                />
+                <View style={styles.amountRow}>
+                  <Input
+                    value={line.quantity}
+                    onChangeText={(quantity) => updateLine(index, { quantity })}
+                    placeholder={line.type === 'part' ? 'Qty' : 'Hours'}
+                    keyboardType="decimal-pad"
+                    containerStyle={styles.quantityInput}
+                  />
+                  <Input
+                    value={line.unit_price}
+                    onChangeText={(unit_price) => updateLine(index, { unit_price })}
+                    placeholder="Unit price (₦)"
+                    keyboardType="decimal-pad"
+                    containerStyle={styles.priceInput}
+                  />
+                </View>
+                <Text style={styles.lineTotal}>₦{lineTotal(line).toFixed(2)}</Text>
+              </View>
+            ))}
+
+            <View style={styles.addRow}>
+              <TouchableOpacity
+                style={styles.addButton}
+                onPress={() => setLines((prev) => [...prev, emptyLine('part')])}
+              >
+                <Ionicons name="add" size={18} color="#000000" />
+                <Text style={styles.addText}>Part</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={styles.addButton}
+                onPress={() => setLines((prev) => [...prev, emptyLine('labour')])}
+              >
+                <Ionicons name="add" size={18} color="#000000" />
+                <Text style={styles.addText}>Labour</Text>
+              </TouchableOpacity>
+            </View>
+
+            <Input
+              value={note}
+              onChangeText={setNote}
+              multiline
+              numberOfLines={3}
+              maxLength={500}
+              placeholder={
+                previousQuote ? 'Why has the scope changed?' : 'Note for the customer (optional)'
+              }
+              style={styles.noteInput}
+            />
+
+            <View style={styles.totalRow}>
+              <Text style={styles.totalLabel}>Total</Text>
+              <Text style={styles.totalValue}>₦{total.toFixed(2)}</Text>
+            </View>
+
+            <Button
+              title={previousQuote ? 'Send Revised Quote' : 'Send Quote'}
+              onPress={handleSubmit}
+              loading={loading}
+              disabled={!canSubmit}
+            />
+          </ScrollView>
+        </View>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'flex-end',
+  },
+  modalContainer: {
+    backgroundColor: '#FFFFFF',
+    borderTopLeftRadius: 24,
+    borderTopRightRadius: 24,
+    paddingBottom: 20,
+    maxHeight: '90%',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E5EA',
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#000000',
+  },
+  closeButton: {
+    padding: 4,
+  },
+  content: {
+    padding: 16,
+  },
+  lineCard: {
+    backgroundColor: '#F2F2F7',
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 12,
+  },
+  lineHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  typeToggle: {
+    flexDirection: 'row',
+  },
+  typeChip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#C6C6C8',
+    marginRight: 8,
+    backgroundColor: '#FFFFFF',
+  },
+  typeChipActive: {
+    backgroundColor: '#000000',
+    borderColor: '#000000',
+  },
+  typeChipText: {
+    fontSize: 13,
+    color: '#000000',
+  },
+  typeChipTextActive: {
+    color: '#FFFFFF',
+  },
+  amountRow: {
+    flexDirection: 'row',
+  },
+  quantityInput: {
+    flex: 1,
+    marginRight: 8,
+  },
+  priceInput: {
+    flex: 2,
+  },
+  lineTotal: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#000000',
+    textAlign: 'right',
+  },
+  addRow: {
+    flexDirection: 'row',
+    marginBottom: 16,
+  },
+  addButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#C6C6C8',
+    marginRight: 8,
+  },
+  addText: {
+    fontSize: 14,
+    color: '#000000',
+    marginLeft: 4,
+  },
+  noteInput: {
+    minHeight: 70,
+    textAlignVertical: 'top',
+  },
+  totalRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: 16,
+  },
+  totalLabel: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#000000',
+  },
+  totalValue: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#000000',
+  },
+});
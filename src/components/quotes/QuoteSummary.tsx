@@ -0,0 +1,151 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { ServiceRequestQuote } from '../../types';
+
+interface QuoteSummaryProps {
+  quote: ServiceRequestQuote;
+}
+
+const STATUS_LABELS: Record<ServiceRequestQuote['status'], { label: string; color: string }> = {
+  pending: { label: 'Awaiting approval', color: '#FF9500' },
+  approved: { label: 'Approved', color: '#34C759' },
+  rejected: { label: 'Rejected', color: '#FF3B30' },
+  superseded: { label: 'Replaced by a revision', color: '#8E8E93' },
+};
+
+const formatMoney = (value: number) => `₦${Number(value).toFixed(2)}`;
+
+export const QuoteSummary: React.FC<QuoteSummaryProps> = ({ quote }) => {
+  const status = STATUS_LABELS[quote.status];
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <Text style={styles.title}>
+          Quote{quote.version > 1 ? ` (revision ${quote.version - 1})` : ''}
+        </Text>
+        <Text style={[styles.status, { color: status.color }]}>{status.label}</Text>
+      </View>
+
+      {quote.items.map((item, index) => (
+        <View key={`${item.description}-${index}`} style={styles.itemRow}>
+          <View style={styles.itemInfo}>
+            <Text style={styles.itemDescription}>{item.description}</Text>
+            <Text style={styles.itemMeta}>
+              {item.type === 'part' ? 'Part' : 'Labour'} · {item.quantity} ×{' '}
+              {formatMoney(item.unit_price)}
+            </Text>
+          </View>
+          <Text style={styles.itemTotal}>
+            {formatMoney(item.total ?? item.quantity * item.unit_price)}
+          </Text>
+        </View>
+      ))}
+
+      <View style={styles.divider} />
+
+      <View style={styles.totalRow}>
+        <Text style={styles.subtotalLabel}>Parts</Text>
+        <Text style={styles.subtotalValue}>{formatMoney(quote.material_cost)}</Text>
+      </View>
+      <View style={styles.totalRow}>
+        <Text style={styles.subtotalLabel}>Labour</Text>
+        <Text style={styles.subtotalValue}>{formatMoney(quote.labor_cost)}</Text>
+      </View>
+      <View style={styles.totalRow}>
+        <Text style={styles.totalLabel}>Total</Text>
+        <Text style={styles.totalValue}>{formatMoney(quote.total_cost)}</Text>
+      </View>
+
+      {quote.note ? <Text style={styles.note}>{quote.note}</Text> : null}
+      {quote.status === 'rejected' && quote.rejection_reason ? (
+        <Text style={styles.rejection}>Reason: {quote.rejection_reason}</Text>
+      ) : null}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: '#F2F2F7',
+    borderRadius: 12,
+    padding: 12,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#000000',
+  },
+  status: {
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  itemRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'flex-start',
+    paddingVertical: 6,
+  },
+  itemInfo: {
+    flex: 1,
+    marginRight: 8,
+  },
+  itemDescription: {
+    fontSize: 14,
+    color: '#000000',
+  },
+  itemMeta: {
+    fontSize: 12,
+    color: '#8E8E93',
+    marginTop: 2,
+  },
+  itemTotal: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#000000',
+  },
+  divider: {
+    height: 1,
+    backgroundColor: '#E5E5EA',
+    marginVertical: 8,
+  },
+  totalRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: 4,
+  },
+  subtotalLabel: {
+    fontSize: 14,
+    color: '#8E8E93',
+  },
+  subtotalValue: {
+    fontSize: 14,
+    color: '#000000',
+  },
+  totalLabel: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#000000',
+  },
+  totalValue: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#000000',
+  },
+  note: {
+    fontSize: 13,
+    color: '#000000',
+    marginTop: 8,
+  },
+  rejection: {
+    fontSize: 13,
+    color: '#FF3B30',
+    marginTop: 8,
+  },
+});
@@ -0,0 +1,3 @@
+// Itemized quote components shared by the mechanic and customer screens
+export { QuoteSummary } from './QuoteSummary';
+export { QuoteEditorModal } from './QuoteEditorModal';
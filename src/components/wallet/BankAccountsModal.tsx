@@ -0,0 +1,284 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  TouchableOpacity,
+  ScrollView,
+  KeyboardAvoidingView,
+  Platform,
+  Alert,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { Picker } from '@react-native-picker/picker';
+import { Button, Input } from '../common';
+import { walletService, Bank, BankAccount } from '../../services/walletService';
+
+interface BankAccountsModalProps {
+  visible: boolean;
+  accounts: BankAccount[];
+  onChange: (accounts: BankAccount[]) => void;
+  onClose: () => void;
+}
+
+const maskAccountNumber = (accountNumber: string) => `•••• ${accountNumber.slice(-4)}`;
+
+export const BankAccountsModal: React.FC<BankAccountsModalProps> = ({
+  visible,
+  accounts,
+  onChange,
+  onClose,
+}) => {
+  const [banks, setBanks] = useState<Bank[]>([]);
+  const [bankCode, setBankCode] = useState('');
+  const [accountNumber, setAccountNumber] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (visible) {
+      setBankCode('');
+      setAccountNumber('');
+      if (banks.length === 0) {
+        loadBanks();
+      }
+    }
+  }, [visible]);
+
+  const loadBanks = async () => {
+    try {
+      const response = await walletService.getBanks();
+      if (response.success) {
+        setBanks(response.data);
+      }
+    } catch (error: any) {
+      Alert.alert('Error', error.response?.data?.error?.message || 'Failed to load banks');
+    }
+  };
+
+  const canSave = bankCode !== '' && /^\d{10}$/.test(accountNumber);
+
+  const handleAdd = async () => {
+    if (!canSave) return;
+    try {
+      setSaving(true);
+      const response = await walletService.addBankAccount({
+        bank_code: bankCode,
+        account_number: accountNumber,
+      });
+      if (response.success) {
+        Alert.alert('Account Added', `${response.data.account_name} has been saved.`);
+        onChange(
+          response.data.is_default ? [response.data, ...accounts] : [...accounts, response.data]
+        );
+        setBankCode('');
+        setAccountNumber('');
+      }
+    } catch (error: any) {
+      Alert.alert(
+        'Error',
+        error.response?.data?.error?.message || 'Failed to add bank account'
+      );
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleMakeDefault = async (account: BankAccount) => {
+    try {
+      const response = await walletService.setDefaultBankAccount(account.id);
+      if (response.success) {
+        onChange(response.data);
+      }
+    } catch (error: any) {
+      Alert.alert(
+        'Error',
+        error.response?.data?.error?.message || 'Failed to update bank account'
+      );
+    }
+  };
+
+  const handleRemove = (account: BankAccount) => {
+    Alert.alert(
+      'Remove Account',
+      `Remove ${account.bank_name} ${maskAccountNumber(account.account_number)}?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Remove',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              const response = await walletService.removeBankAccount(account.id);
+              if (response.success) {
+                onChange(response.data);
+              }
+            } catch (error: any) {
+              Alert.alert(
+                'Error',
+                error.response?.data?.error?.message || 'Failed to remove bank account'
+              );
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={onClose}>
+      <KeyboardAvoidingView
+        behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+        style={styles.overlay}
+      >
+        <View style={styles.modalContainer}>
+          <View style={styles.header}>
+            <Text style={styles.headerTitle}>Bank Accounts</Text>
+            <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+              <Ionicons name="close" size={24} color="#000000" />
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView style={styles.content} keyboardShouldPersistTaps="handled">
+            {accounts.map((account) => (
+              <View key={account.id} style={styles.accountRow}>
+                <Ionicons name="business-outline" size={22} color="#000000" />
+                <View style={styles.accountInfo}>
+                  <Text style={styles.accountName}>{account.account_name}</Text>
+                  <Text style={styles.accountDetails}>
+                    {account.bank_name} {maskAccountNumber(account.account_number)}
+                  </Text>
+                </View>
+                {account.is_default ? (
+                  <Text style={styles.defaultTag}>Default</Text>
+                ) : (
+                  <TouchableOpacity onPress={() => handleMakeDefault(account)}>
+                    <Text style={styles.linkText}>Make default</Text>
+                  </TouchableOpacity>
+                )}
+                <TouchableOpacity onPress={() => handleRemove(account)} style={styles.removeButton}>
+                  <Ionicons name="trash-outline" size={20} color="#FF3B30" />
+                </TouchableOpacity>
+              </View>
+            ))}
+
+            <Text style={styles.sectionTitle}>Add an account</Text>
+            <View style={styles.pickerContainer}>
+              <Picker selectedValue={bankCode} onValueChange={(value) => setBankCode(value)}>
+                <Picker.Item label="Select Bank" value="" />
+                {banks.map((bank) => (
+                  <Picker.Item key={bank.code} label={bank.name} value={bank.code} />
+                ))}
+              </Picker>
+            </View>
+            <Input
+              value={accountNumber}
+              onChangeText={(value) => setAccountNumber(value.replace(/\D/g, ''))}
+              placeholder="Account number (10 digits)"
+              keyboardType="number-pad"
+              maxLength={10}
+            />
+            <Text style={styles.hint}>
+              We check the account with your bank and show the name it is registered to.
+            </Text>
+
+            <Button
+              title="Verify & Save Account"
+              onPress={handleAdd}
+              loading={saving}
+              disabled={!canSave}
+            />
+          </ScrollView>
+        </View>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'flex-end',
+  },
+  modalContainer: {
+    backgroundColor: '#FFFFFF',
+    borderTopLeftRadius: 24,
+    borderTopRightRadius: 24,
+    paddingBottom: 20,
+    maxHeight: '90%',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E5EA',
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#000000',
+  },
+  closeButton: {
+    padding: 4,
+  },
+  content: {
+    padding: 16,
+  },
+  accountRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#F2F2F7',
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 12,
+  },
+  accountInfo: {
+    flex: 1,
+    marginLeft: 12,
+  },
+  accountName: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#000000',
+  },
+  accountDetails: {
+    fontSize: 13,
+    color: '#8E8E93',
+    marginTop: 2,
+  },
+  defaultTag: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#34C759',
+  },
+  linkText: {
+    fontSize: 13,
+    fontWeight: '500',
+    color: '#0A84FF',
+  },
+  removeButton: {
+    marginLeft: 12,
+    padding: 4,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#000000',
+    marginTop: 8,
+    marginBottom: 12,
+  },
+  pickerContainer: {
+    borderWidth: 1,
+    borderColor: '#C6C6C8',
+    borderRadius: 8,
+    marginBottom: 12,
+  },
+  hint: {
+    fontSize: 12,
+    color: '#8E8E93',
+    marginBottom: 16,
+  },
+});
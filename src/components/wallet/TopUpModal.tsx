@@ -0,0 +1,269 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  TouchableOpacity,
+  ScrollView,
+  KeyboardAvoidingView,
+  Platform,
+  Alert,
+  Linking,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { Button, Input } from '../common';
+import {
+  customerWalletService,
+  MAX_TOP_UP,
+  MIN_TOP_UP,
+  WalletTopUp,
+} from '../../services/customerWalletService';
+import { PaymentChannel } from '../../types';
+
+interface TopUpModalProps {
+  visible: boolean;
+  onToppedUp: (balance: number) => void;
+  onClose: () => void;
+}
+
+const QUICK_AMOUNTS = [1000, 5000, 10000, 20000];
+
+const channelOptions: { channel: PaymentChannel; label: string; icon: keyof typeof Ionicons.glyphMap }[] = [
+  { channel: 'card', label: 'Card', icon: 'card-outline' },
+  { channel: 'bank_transfer', label: 'Transfer', icon: 'business-outline' },
+  { channel: 'ussd', label: 'USSD', icon: 'keypad-outline' },
+];
+
+export const TopUpModal: React.FC<TopUpModalProps> = ({ visible, onToppedUp, onClose }) => {
+  const [amount, setAmount] = useState('');
+  const [channel, setChannel] = useState<PaymentChannel>('card');
+  const [checkout, setCheckout] = useState<WalletTopUp | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (visible) {
+      setAmount('');
+      setChannel('card');
+      setCheckout(null);
+    }
+  }, [visible]);
+
+  const topUpAmount = parseFloat(amount);
+  const canTopUp = !isNaN(topUpAmount) && topUpAmount >= MIN_TOP_UP && topUpAmount <= MAX_TOP_UP;
+
+  const verifyTopUp = async (topUp: WalletTopUp) => {
+    try {
+      setSaving(true);
+      const response = await customerWalletService.verifyTopUp(topUp.id);
+      if (response.success) {
+        const { status, amount: paidAmount } = response.data.top_up;
+        if (status === 'paid') {
+          Alert.alert('Wallet Topped Up', `₦${Number(paidAmount).toFixed(2)} has been added.`);
+          onToppedUp(response.data.balance);
+        } else if (status === 'failed') {
+          setCheckout(null);
+          Alert.alert('Top-Up Failed', 'Your payment did not go through. Please try again.');
+        } else {
+          Alert.alert(
+            'Not Confirmed Yet',
+            "We haven't received your payment yet. If you have paid, check again in a moment."
+          );
+        }
+      }
+    } catch (error: any) {
+      Alert.alert('Error', error.response?.data?.error?.message || 'Failed to check top-up');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleTopUp = async () => {
+    if (!canTopUp) return;
+    try {
+      setSaving(true);
+      const response = await customerWalletService.topUp(topUpAmount, channel);
+      if (response.success) {
+        if (response.data.authorization_url) {
+          // Finish paying on the gateway's page, then come back and confirm
+          setCheckout(response.data);
+          await Linking.openURL(response.data.authorization_url);
+        } else {
+          await verifyTopUp(response.data);
+        }
+      }
+    } catch (error: any) {
+      Alert.alert('Error', error.response?.data?.error?.message || 'Failed to start top-up');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={onClose}>
+      <KeyboardAvoidingView
+        behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+        style={styles.overlay}
+      >
+        <View style={styles.modalContainer}>
+          <View style={styles.header}>
+            <Text style={styles.headerTitle}>Top Up Wallet</Text>
+            <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+              <Ionicons name="close" size={24} color="#000000" />
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView style={styles.content} keyboardShouldPersistTaps="handled">
+            {checkout ? (
+              <>
+                <Text style={styles.hint}>
+                  Finish paying ₦{Number(checkout.amount).toFixed(2)} on the payment page, then
+                  come back here to confirm.
+                </Text>
+                <Button title="I've Paid" onPress={() => verifyTopUp(checkout)} loading={saving} />
+              </>
+            ) : (
+              <>
+                <Input
+                  value={amount}
+                  onChangeText={(value) => setAmount(value.replace(/[^\d.]/g, ''))}
+                  placeholder={`Amount (₦${MIN_TOP_UP} - ₦${MAX_TOP_UP.toLocaleString()})`}
+                  keyboardType="decimal-pad"
+                />
+                <View style={styles.quickAmounts}>
+                  {QUICK_AMOUNTS.map((quickAmount) => (
+                    <TouchableOpacity
+                      key={quickAmount}
+                      style={styles.quickAmount}
+                      onPress={() => setAmount(String(quickAmount))}
+                    >
+                      <Text style={styles.quickAmountText}>₦{quickAmount.toLocaleString()}</Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+
+                <Text style={styles.sectionTitle}>Pay with</Text>
+                <View style={styles.channels}>
+                  {channelOptions.map((option) => {
+                    const selected = channel === option.channel;
+                    return (
+                      <TouchableOpacity
+                        key={option.channel}
+                        style={[styles.channel, selected && styles.channelSelected]}
+                        onPress={() => setChannel(option.channel)}
+                      >
+                        <Ionicons
+                          name={option.icon}
+                          size={20}
+                          color={selected ? '#FFFFFF' : '#000000'}
+                        />
+                        <Text style={[styles.channelText, selected && styles.channelTextSelected]}>
+                          {option.label}
+                        </Text>
+                      </TouchableOpacity>
+                    );
+                  })}
+                </View>
+
+                <Button
+                  title="Continue"
+                  onPress={handleTopUp}
+                  loading={saving}
+                  disabled={!canTopUp}
+                />
+              </>
+            )}
+          </ScrollView>
+        </View>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'flex-end',
+  },
+  modalContainer: {
+    backgroundColor: '#FFFFFF',
+    borderTopLeftRadius: 24,
+    borderTopRightRadius: 24,
+    paddingBottom: 20,
+    maxHeight: '90%',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E5EA',
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#000000',
+  },
+  closeButton: {
+    padding: 4,
+  },
+  content: {
+    padding: 16,
+  },
+  quickAmounts: {
+    flexDirection: 'row',
+    gap: 8,
+    marginBottom: 16,
+  },
+  quickAmount: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: 8,
+    borderRadius: 8,
+    backgroundColor: '#F2F2F7',
+  },
+  quickAmountText: {
+    fontSize: 13,
+    fontWeight: '500',
+    color: '#000000',
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#000000',
+    marginBottom: 12,
+  },
+  channels: {
+    flexDirection: 'row',
+    gap: 8,
+    marginBottom: 20,
+  },
+  channel: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#C6C6C8',
+    gap: 4,
+  },
+  channelSelected: {
+    backgroundColor: '#000000',
+    borderColor: '#000000',
+  },
+  channelText: {
+    fontSize: 13,
+    fontWeight: '500',
+    color: '#000000',
+  },
+  channelTextSelected: {
+    color: '#FFFFFF',
+  },
+  hint: {
+    fontSize: 14,
+    color: '#8E8E93',
+    marginBottom: 16,
+  },
+});
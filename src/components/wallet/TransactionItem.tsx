@@ -7,17 +7,36 @@ interface TransactionItemProps {
   transaction: WalletTransaction;
 }
 
+// Withdrawals show where their payout is; completed ones need no badge
+const STATUS_BADGES: Record<string, { label: string; background: string; color: string }> = {
+  pending: { label: 'Pending', background: '#FFD60A', color: '#000000' },
+  processing: { label: 'Processing', background: '#0A84FF', color: '#FFFFFF' },
+  failed: { label: 'Failed · refunded', background: '#FF3B30', color: '#FFFFFF' },
+  reversed: { label: 'Reversed · refunded', background: '#FF9500', color: '#FFFFFF' },
+};
+
 export const TransactionItem: React.FC<TransactionItemProps> = ({ transaction }) => {
   const getTransactionIcon = () => {
     switch (transaction.transaction_type) {
       case 'commission_deduction':
+      case 'cash_commission':
         return 'remove-circle-outline';
       case 'withdrawal':
         return 'cash-outline';
       case 'top_up':
+      case 'debt_settlement':
         return 'add-circle-outline';
+      case 'wallet_payment':
+        return 'card-outline';
+      case 'promo_credit':
+        return 'gift-outline';
+      case 'job_earning':
+      case 'escrow_release':
       case 'credit':
         return 'arrow-down-circle-outline';
+      case 'payout_refund':
+      case 'payment_refund':
+        return 'return-down-back-outline';
       default:
         return 'wallet-outline';
     }
@@ -56,6 +75,8 @@ export const TransactionItem: React.FC<TransactionItemProps> = ({ transaction })
     return `₦${absAmount.toFixed(2)}`;
   };
 
+  const badge = transaction.status ? STATUS_BADGES[transaction.status] : undefined;
+
   return (
     <View style={styles.container}>
       <View style={styles.iconContainer}>
@@ -70,9 +91,9 @@ export const TransactionItem: React.FC<TransactionItemProps> = ({ transaction })
           {transaction.description}
         </Text>
         <Text style={styles.date}>{formatDate(transaction.created_at)}</Text>
-        {transaction.status === 'pending' && (
-          <View style={styles.statusBadge}>
-            <Text style={styles.statusText}>Pending</Text>
+        {badge && (
+          <View style={[styles.statusBadge, { backgroundColor: badge.background }]}>
+            <Text style={[styles.statusText, { color: badge.color }]}>{badge.label}</Text>
           </View>
         )}
       </View>
@@ -127,7 +148,6 @@ const styles = StyleSheet.create({
   statusBadge: {
     marginTop: 4,
     alignSelf: 'flex-start',
-    backgroundColor: '#FFD60A',
     paddingHorizontal: 8,
     paddingVertical: 2,
     borderRadius: 4,
@@ -135,7 +155,6 @@ const styles = StyleSheet.create({
   statusText: {
     fontSize: 12,
     fontWeight: '600',
-    color: '#000000',
   },
   amountContainer: {
     alignItems: 'flex-end',
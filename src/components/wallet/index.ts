@@ -1,2 +1,3 @@
 export * from './TransactionItem';
-
+export * from './BankAccountsModal';
+export * from './TopUpModal';
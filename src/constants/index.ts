@@ -44,6 +44,7 @@ export const API_ENDPOINTS = {
     REGISTER: '/auth/register',
     VERIFY_OTP: '/auth/verify-otp',
     FORGOT_PASSWORD: '/auth/forgot-password',
+    RESET_PASSWORD: '/auth/reset-password',
   },
   CUSTOMER: {
     PROFILE: '/customer/profile',
@@ -5,3 +5,7 @@ export { useImagePicker } from './useImagePicker';
 export type { ImagePickerResult } from './useImagePicker';
 export { useMechanicLocation } from './useMechanicLocation';
 export { useIncomingRequests } from './useIncomingRequests';
+export { useJobLocationStream } from './useJobLocationStream';
+export { useMechanicLiveLocation } from './useMechanicLiveLocation';
+export { useServiceRequestQuotes } from './useServiceRequestQuotes';
+export { useServiceRequestDispute } from './useServiceRequestDispute';
@@ -1,16 +1,19 @@
 import { useEffect, useState } from 'react';
 import { supabase } from '../services/supabase';
 import { useAuthStore } from '../store/authStore';
-import { ServiceRequest } from '../types';
+import { serviceRequestService } from '../services/serviceRequestService';
+import { ServiceRequest, ServiceRequestOffer } from '../types';
 
 interface UseIncomingRequestsOptions {
   enabled: boolean;
   onNewRequest?: (request: ServiceRequest) => void;
+  onRequestWithdrawn?: (requestId: string, status: 'withdrawn' | 'expired') => void;
 }
 
 export const useIncomingRequests = ({
   enabled,
   onNewRequest,
+  onRequestWithdrawn,
 }: UseIncomingRequestsOptions) => {
   const { user } = useAuthStore();
   const [requests, setRequests] = useState<ServiceRequest[]>([]);
@@ -25,42 +28,59 @@ export const useIncomingRequests = ({
     // Set up Supabase Realtime subscription
     const channel = supabase
       .channel('mechanic-incoming-requests')
+      // Every request reaches mechanics as an offer, both when picked directly
+      // and when broadcast or reassigned
       .on(
         'postgres_changes',
         {
           event: 'INSERT',
           schema: 'public',
-          table: 'service_requests',
+          table: 'service_request_offers',
+          filter: `mechanic_id=eq.${user.id}`,
+        },
+        async (payload) => {
+          const offer = payload.new as ServiceRequestOffer;
+
+          if (offer.status !== 'offered') {
+            return;
+          }
+
+          try {
+            const response = await serviceRequestService.getServiceRequest(
+              offer.service_request_id
+            );
+            if (response.success) {
+              setRequests((prev) => [response.data, ...prev]);
+
+              if (onNewRequest) {
+                onNewRequest(response.data);
+              }
+            }
+          } catch (fetchError) {
+            console.error('Error fetching offered request:', fetchError);
+          }
+        }
+      )
+      // Offers are withdrawn once another mechanic accepts or the customer
+      // cancels, and expire when not answered in time
+      .on(
+        'postgres_changes',
+        {
+          event: 'UPDATE',
+          schema: 'public',
+          table: 'service_request_offers',
           filter: `mechanic_id=eq.${user.id}`,
         },
         (payload) => {
-          const newRequest = payload.new as any;
-          
-          // Only handle pending requests
-          if (newRequest.status === 'pending') {
-            const serviceRequest: ServiceRequest = {
-              id: newRequest.id,
-              customer_id: newRequest.customer_id,
-              mechanic_id: newRequest.mechanic_id,
-              vehicle_id: newRequest.vehicle_id,
-              category_id: newRequest.category_id,
-              problem_description: newRequest.problem_description,
-              customer_location_lat: newRequest.customer_location_lat,
-              customer_location_lng: newRequest.customer_location_lng,
-              customer_location_address: newRequest.customer_location_address,
-              status: newRequest.status,
-              material_cost: newRequest.material_cost,
-              labor_cost: newRequest.labor_cost,
-              total_cost: newRequest.total_cost,
-              created_at: newRequest.created_at,
-              updated_at: newRequest.updated_at,
-              completed_at: newRequest.completed_at,
-            };
+          const offer = payload.new as ServiceRequestOffer;
+
+          if (offer.status === 'withdrawn' || offer.status === 'expired') {
+            setRequests((prev) =>
+              prev.filter((request) => request.id !== offer.service_request_id)
+            );
 
-            setRequests((prev) => [serviceRequest, ...prev]);
-            
-            if (onNewRequest) {
-              onNewRequest(serviceRequest);
+            if (onRequestWithdrawn) {
+              onRequestWithdrawn(offer.service_request_id, offer.status);
             }
           }
         }
@@ -77,7 +97,7 @@ export const useIncomingRequests = ({
     return () => {
       supabase.removeChannel(channel);
     };
-  }, [enabled, user?.id, onNewRequest]);
+  }, [enabled, user?.id, onNewRequest, onRequestWithdrawn]);
 
   return { requests, loading, error };
 };
@@ -0,0 +1,101 @@
+import { useEffect, useRef } from 'react';
+import * as Location from 'expo-location';
+import { serviceRequestService } from '../services/serviceRequestService';
+
+interface UseJobLocationStreamOptions {
+  requestId: string;
+  enabled: boolean;
+  interval?: number; // in milliseconds, default 5000 (5 seconds)
+}
+
+/**
+ * Stream the mechanic's position to the customer while driving to a job.
+ * Stops when disabled or once the backend reports the job is no longer trackable.
+ */
+export const useJobLocationStream = ({
+  requestId,
+  enabled,
+  interval = 5000,
+}: UseJobLocationStreamOptions) => {
+  const subscriptionRef = useRef<Location.LocationSubscription | null>(null);
+  const isSendingRef = useRef(false);
+
+  useEffect(() => {
+    if (!enabled || !requestId) {
+      return;
+    }
+
+    let cancelled = false;
+
+    const stopWatching = () => {
+      if (subscriptionRef.current) {
+        subscriptionRef.current.remove();
+        subscriptionRef.current = null;
+      }
+    };
+
+    const sendLocation = async (location: Location.LocationObject) => {
+      // Skip this fix if the previous one is still being sent
+      if (isSendingRef.current) {
+        return;
+      }
+
+      try {
+        isSendingRef.current = true;
+        await serviceRequestService.updateJobLocation(requestId, {
+          lat: location.coords.latitude,
+          lng: location.coords.longitude,
+          heading: location.coords.heading,
+          speed: location.coords.speed,
+          accuracy: location.coords.accuracy,
+        });
+      } catch (error: any) {
+        // 409 means the job has moved on (arrived, cancelled, reassigned)
+        if (error.response?.status === 409) {
+          stopWatching();
+        } else {
+          console.error('Error streaming job location:', error);
+        }
+      } finally {
+        isSendingRef.current = false;
+      }
+    };
+
+    const startWatching = async () => {
+      try {
+        const { status } = await Location.requestForegroundPermissionsAsync();
+        if (status !== 'granted') {
+          console.warn('Location permission not granted');
+          return;
+        }
+
+        const subscription = await Location.watchPositionAsync(
+          {
+            accuracy: Location.Accuracy.High,
+            timeInterval: interval,
+            distanceInterval: 10,
+          },
+          sendLocation
+        );
+
+        // The effect may have been cleaned up while waiting for the subscription
+        if (cancelled) {
+          subscription.remove();
+          return;
+        }
+
+        subscriptionRef.current = subscription;
+      } catch (error) {
+        console.error('Error starting job location stream:', error);
+      }
+    };
+
+    startWatching();
+
+    // Cleanup
+    return () => {
+      cancelled = true;
+      stopWatching();
+    };
+  }, [requestId, enabled, interval]);
+};
@@ -0,0 +1,68 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '../services/supabase';
+import { serviceRequestService } from '../services/serviceRequestService';
+import { MechanicLiveLocation } from '../types';
+
+/**
+ * Follow the assigned mechanic's live position for a request while enabled
+ */
+export const useMechanicLiveLocation = (requestId: string, enabled: boolean) => {
+  const [location, setLocation] = useState<MechanicLiveLocation | null>(null);
+
+  useEffect(() => {
+    if (!requestId || !enabled) {
+      setLocation(null);
+      return;
+    }
+
+    const fetchLocation = async () => {
+      try {
+        const response = await serviceRequestService.getMechanicLocation(requestId);
+        if (response.success) {
+          setLocation(response.data);
+        }
+      } catch (error) {
+        console.error('Error fetching mechanic location:', error);
+      }
+    };
+
+    // Initial fetch for the last known position
+    fetchLocation();
+
+    // Subscribe to real-time updates only if Supabase is configured
+    if (supabase) {
+      const channel = supabase
+        .channel(`service_request_location:${requestId}`)
+        .on(
+          'postgres_changes',
+          {
+            event: '*',
+            schema: 'public',
+            table: 'service_request_locations',
+            filter: `service_request_id=eq.${requestId}`,
+          },
+          (payload) => {
+            if (payload.eventType === 'DELETE') {
+              setLocation(null);
+              return;
+            }
+            setLocation(payload.new as MechanicLiveLocation);
+          }
+        )
+        .subscribe();
+
+      return () => {
+        supabase?.removeChannel(channel);
+      };
+    } else {
+      // Poll for updates if Supabase not configured (fallback)
+      const pollInterval = setInterval(fetchLocation, 5000); // Poll every 5 seconds
+
+      return () => {
+        clearInterval(pollInterval);
+      };
+    }
+  }, [requestId, enabled]);
+
+  return { location };
+};
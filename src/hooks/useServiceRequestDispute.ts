@@ -0,0 +1,90 @@
+import { useCallback, useEffect, useState } from 'react';
+import { supabase } from '../services/supabase';
+import { disputeService } from '../services/disputeService';
+import { ServiceRequestDispute } from '../types';
+
+/**
+ * Follow a request's dispute and its messages while enabled
+ */
+export const useServiceRequestDispute = (requestId: string, enabled: boolean) => {
+  const [dispute, setDispute] = useState<ServiceRequestDispute | null>(null);
+
+  const refresh = useCallback(async () => {
+    if (!requestId) return;
+    try {
+      const response = await disputeService.getDispute(requestId);
+      if (response.success) {
+        setDispute(response.data);
+      }
+    } catch (error) {
+      console.error('Error fetching dispute:', error);
+    }
+  }, [requestId]);
+
+  useEffect(() => {
+    if (!requestId || !enabled) {
+      return;
+    }
+
+    refresh();
+
+    // Subscribe to real-time updates only if Supabase is configured
+    if (supabase) {
+      const channel = supabase
+        .channel(`service_request_dispute:${requestId}`)
+        .on(
+          'postgres_changes',
+          {
+            event: '*',
+            schema: 'public',
+            table: 'service_request_disputes',
+            filter: `service_request_id=eq.${requestId}`,
+          },
+          () => {
+            refresh();
+          }
+        )
+        .subscribe();
+
+      return () => {
+        supabase?.removeChannel(channel);
+      };
+    } else {
+      // Poll for updates if Supabase not configured (fallback)
+      const pollInterval = setInterval(refresh, 10000); // Poll every 10 seconds
+
+      return () => {
+        clearInterval(pollInterval);
+      };
+    }
+  }, [requestId, enabled, refresh]);
+
+  // New messages from the other party or an admin
+  useEffect(() => {
+    if (!supabase || !enabled || !dispute?.id) {
+      return;
+    }
+
+    const channel = supabase
+      .channel(`dispute_messages:${dispute.id}`)
+      .on(
+        'postgres_changes',
+        {
+          event: 'INSERT',
+          schema: 'public',
+          table: 'dispute_messages',
+          filter: `dispute_id=eq.${dispute.id}`,
+        },
+        () => {
+          refresh();
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase?.removeChannel(channel);
+    };
+  }, [dispute?.id, enabled, refresh]);
+
+  return { dispute, refresh };
+};
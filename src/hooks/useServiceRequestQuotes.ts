@@ -0,0 +1,68 @@
+import { useCallback, useEffect, useState } from 'react';
+import { supabase } from '../services/supabase';
+import { serviceRequestService } from '../services/serviceRequestService';
+import { ServiceRequestQuote } from '../types';
+
+/**
+ * Follow the quote versions for a request while enabled. `latest` is the one
+ * waiting for an answer or last answered; `approved` is what the customer agreed to.
+ */
+export const useServiceRequestQuotes = (requestId: string, enabled: boolean) => {
+  const [quotes, setQuotes] = useState<ServiceRequestQuote[]>([]);
+
+  const refresh = useCallback(async () => {
+    if (!requestId) return;
+    try {
+      const response = await serviceRequestService.getQuotes(requestId);
+      if (response.success) {
+        setQuotes(response.data);
+      }
+    } catch (error) {
+      console.error('Error fetching quotes:', error);
+    }
+  }, [requestId]);
+
+  useEffect(() => {
+    if (!requestId || !enabled) {
+      return;
+    }
+
+    refresh();
+
+    // Subscribe to real-time updates only if Supabase is configured
+    if (supabase) {
+      const channel = supabase
+        .channel(`service_request_quotes:${requestId}`)
+        .on(
+          'postgres_changes',
+          {
+            event: '*',
+            schema: 'public',
+            table: 'service_request_quotes',
+            filter: `service_request_id=eq.${requestId}`,
+          },
+          () => {
+            refresh();
+          }
+        )
+        .subscribe();
+
+      return () => {
+        supabase?.removeChannel(channel);
+      };
+    } else {
+      // Poll for updates if Supabase not configured (fallback)
+      const pollInterval = setInterval(refresh, 5000); // Poll every 5 seconds
+
+      return () => {
+        clearInterval(pollInterval);
+      };
+    }
+  }, [requestId, enabled, refresh]);
+
+  const latest = quotes.length > 0 ? quotes[quotes.length - 1] : null;
+  const approved =
+    [...quotes].reverse().find((quote) => quote.status === 'approved') || null;
+
+  return { quotes, latest, approved, refresh };
+};
@@ -1,4 +1,4 @@
-import { useEffect, useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import { supabase } from '../services/supabase';
 import { serviceRequestService } from '../services/serviceRequestService';
 import { ServiceRequest } from '../types';
@@ -6,48 +6,37 @@ import { ServiceRequest } from '../types';
 export const useServiceRequestSubscription = (requestId: string) => {
   const [serviceRequest, setServiceRequest] = useState<ServiceRequest | null>(null);
   const [loading, setLoading] = useState(true);
+  const latestRef = useRef<ServiceRequest | null>(null);
+
+  useEffect(() => {
+    latestRef.current = serviceRequest;
+  }, [serviceRequest]);
 
   useEffect(() => {
     if (!requestId) return;
 
-    // Initial fetch - use API if Supabase not configured
+    // Initial fetch - the API includes the mechanic, vehicle and timeline,
+    // fall back to reading Supabase directly if it fails
     const fetchRequest = async () => {
       try {
+        const response = await serviceRequestService.getServiceRequest(requestId);
+        if (response.success) {
+          setServiceRequest(response.data);
+        }
+      } catch (error) {
+        console.error('Error fetching service request:', error);
         if (supabase) {
-          // Try Supabase first
-          const { data, error } = await supabase
+          const { data, error: supabaseError } = await supabase
             .from('service_requests')
             .select('*')
             .eq('id', requestId)
             .single();
 
-          if (error) {
-            console.error('Error fetching service request from Supabase:', error);
-            // Fall back to API
-            const response = await serviceRequestService.getServiceRequest(requestId);
-            if (response.success) {
-              setServiceRequest(response.data);
-            }
+          if (supabaseError) {
+            console.error('Error fetching service request from Supabase:', supabaseError);
           } else {
             setServiceRequest(data as ServiceRequest);
           }
-        } else {
-          // Use API directly if Supabase not configured
-          const response = await serviceRequestService.getServiceRequest(requestId);
-          if (response.success) {
-            setServiceRequest(response.data);
-          }
-        }
-      } catch (error) {
-        console.error('Error fetching service request:', error);
-        // Fall back to API
-        try {
-          const response = await serviceRequestService.getServiceRequest(requestId);
-          if (response.success) {
-            setServiceRequest(response.data);
-          }
-        } catch (apiError) {
-          console.error('Error fetching from API:', apiError);
         }
       } finally {
         setLoading(false);
@@ -69,7 +58,30 @@ export const useServiceRequestSubscription = (requestId: string) => {
             filter: `id=eq.${requestId}`,
           },
           (payload) => {
-            setServiceRequest(payload.new as ServiceRequest);
+            const updated = payload.new as ServiceRequest;
+            const previous = latestRef.current;
+            const mechanicChanged = updated.mechanic_id !== previous?.mechanic_id;
+            const statusChanged = updated.status !== previous?.status;
+            setServiceRequest((prev) =>
+              prev
+                ? { ...prev, ...updated, mechanic: mechanicChanged ? undefined : prev.mechanic }
+                : updated
+            );
+
+            // Reload details when the mechanic changes (broadcast accepted or
+            // request reassigned) or the status moves, to refresh the timeline
+            if (mechanicChanged || statusChanged) {
+              serviceRequestService
+                .getServiceRequest(requestId)
+                .then((response) => {
+                  if (response.success) {
+                    setServiceRequest(response.data);
+                  }
+                })
+                .catch((error) => {
+                  console.error('Error refreshing service request:', error);
+                });
+            }
           }
         )
         .subscribe();
@@ -84,8 +96,11 @@ export const useServiceRequestSubscription = (requestId: string) => {
           const response = await serviceRequestService.getServiceRequest(requestId);
           if (response.success) {
             setServiceRequest((prev) => {
-              // Only update if status changed
-              if (prev?.status !== response.data.status) {
+              // Only update if status or assigned mechanic changed
+              if (
+                prev?.status !== response.data.status ||
+                prev?.mechanic_id !== response.data.mechanic_id
+              ) {
                 return response.data;
               }
               return prev;
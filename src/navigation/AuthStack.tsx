@@ -6,6 +6,7 @@ import {
   LoginScreen,
   CustomerSignupScreen,
   MechanicSignupScreen,
+  VendorSignupScreen,
   OTPVerificationScreen,
   ForgotPasswordScreen,
 } from '../screens/auth';
@@ -22,7 +23,7 @@ export const AuthStack: React.FC = () => {
       <Stack.Screen name="Login" component={LoginScreen} />
       <Stack.Screen name="CustomerSignup" component={CustomerSignupScreen} />
       <Stack.Screen name="MechanicSignup" component={MechanicSignupScreen} />
-      <Stack.Screen name="VendorSignup" component={CustomerSignupScreen} />
+      <Stack.Screen name="VendorSignup" component={VendorSignupScreen} />
       <Stack.Screen name="OTPVerification" component={OTPVerificationScreen} />
       <Stack.Screen name="ForgotPassword" component={ForgotPasswordScreen} />
     </Stack.Navigator>
@@ -9,10 +9,13 @@ import { CustomerHistoryTab } from '../screens/customer/CustomerHistoryTab';
 import { CustomerMarketplaceTab } from '../screens/customer/CustomerMarketplaceTab';
 import { CustomerProfileTab } from '../screens/customer/CustomerProfileTab';
 import { ServiceRequestScreen } from '../screens/customer/ServiceRequestScreen';
+import { MechanicProfileScreen } from '../screens/customer/MechanicProfileScreen';
 import { RequestTrackingScreen } from '../screens/customer/RequestTrackingScreen';
 import { TransactionCompletionScreen } from '../screens/customer/TransactionCompletionScreen';
 import { HistoryScreen } from '../screens/customer/HistoryScreen';
 import { PaymentsScreen } from '../screens/customer/PaymentsScreen';
+import { CustomerWalletScreen } from '../screens/customer/CustomerWalletScreen';
+import { ReceiptScreen } from '../screens/customer/ReceiptScreen';
 import { EditProfileScreen } from '../screens/customer/EditProfileScreen';
 
 const Stack = createStackNavigator<CustomerStackParamList>();
@@ -87,6 +90,7 @@ export const CustomerStack: React.FC = () => {
     <Stack.Navigator screenOptions={{ headerShown: false }}>
       <Stack.Screen name="CustomerTabs" component={CustomerTabs} />
       <Stack.Screen name="ServiceRequest" component={ServiceRequestScreen} />
+      <Stack.Screen name="MechanicProfile" component={MechanicProfileScreen} />
       <Stack.Screen name="RequestTracking" component={RequestTrackingScreen} />
       <Stack.Screen
         name="TransactionCompletion"
@@ -94,6 +98,8 @@ export const CustomerStack: React.FC = () => {
       />
       <Stack.Screen name="History" component={HistoryScreen} />
       <Stack.Screen name="Payments" component={PaymentsScreen} />
+      <Stack.Screen name="Wallet" component={CustomerWalletScreen} />
+      <Stack.Screen name="Receipt" component={ReceiptScreen} />
       <Stack.Screen name="EditProfile" component={EditProfileScreen} />
     </Stack.Navigator>
   );
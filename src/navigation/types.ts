@@ -17,11 +17,14 @@ export type AuthStackParamList = {
 // Customer Stack Param List
 export type CustomerStackParamList = {
   CustomerTabs: NavigatorScreenParams<CustomerTabsParamList>;
-  ServiceRequest: { mechanic: any };
+  ServiceRequest: { mechanic?: any };
+  MechanicProfile: { mechanicId: string; mechanic?: any };
   RequestTracking: { requestId: string };
   TransactionCompletion: { requestId: string };
   History: undefined;
   Payments: undefined;
+  Wallet: undefined;
+  Receipt: { requestId: string };
   EditProfile: undefined;
 };
 
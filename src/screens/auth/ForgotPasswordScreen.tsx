@@ -8,18 +8,35 @@ import {
   Platform,
   ScrollView,
   Alert,
+  TouchableOpacity,
 } from 'react-native';
 import { useForm, Controller } from 'react-hook-form';
+import { useNavigation } from '@react-navigation/native';
+import { StackNavigationProp } from '@react-navigation/stack';
 import { Button, Input } from '../../components/common';
 import { authService } from '../../services/authService';
+import { AuthStackParamList } from '../../navigation/types';
+
+type ForgotPasswordScreenNavigationProp = StackNavigationProp<
+  AuthStackParamList,
+  'ForgotPassword'
+>;
 
 interface ForgotPasswordForm {
   email: string;
 }
 
+interface ResetPasswordForm {
+  code: string;
+  new_password: string;
+  confirm_password: string;
+}
+
 export const ForgotPasswordScreen: React.FC = () => {
+  const navigation = useNavigation<ForgotPasswordScreenNavigationProp>();
   const [loading, setLoading] = useState(false);
-  const [success, setSuccess] = useState(false);
+  const [step, setStep] = useState<'request' | 'reset' | 'done'>('request');
+  const [email, setEmail] = useState('');
 
   const {
     control,
@@ -31,16 +48,33 @@ export const ForgotPasswordScreen: React.FC = () => {
     },
   });
 
+  const {
+    control: resetControl,
+    handleSubmit: handleResetSubmit,
+    watch: watchReset,
+    formState: { errors: resetErrors },
+  } = useForm<ResetPasswordForm>({
+    defaultValues: {
+      code: '',
+      new_password: '',
+      confirm_password: '',
+    },
+  });
+
+  const newPassword = watchReset('new_password');
+
   const onSubmit = async (data: ForgotPasswordForm) => {
     try {
       setLoading(true);
-      const response = await authService.forgotPassword(data);
-      
+      const trimmedEmail = data.email.trim().toLowerCase();
+      const response = await authService.forgotPassword({ email: trimmedEmail });
+
       if (response.success) {
-        setSuccess(true);
+        setEmail(trimmedEmail);
+        setStep('reset');
         Alert.alert(
-          'Success',
-          response.message || 'Password reset instructions have been sent to your email.'
+          'Check Your Email',
+          response.message || 'A password reset code has been sent to your email.'
         );
       }
     } catch (error: any) {
@@ -53,21 +87,162 @@ export const ForgotPasswordScreen: React.FC = () => {
     }
   };
 
-  if (success) {
+  const onResetSubmit = async (data: ResetPasswordForm) => {
+    try {
+      setLoading(true);
+      const response = await authService.resetPassword({
+        email,
+        code: data.code.trim(),
+        new_password: data.new_password,
+      });
+
+      if (response.success) {
+        setStep('done');
+      }
+    } catch (error: any) {
+      Alert.alert(
+        'Error',
+        error.response?.data?.error?.message || 'Failed to reset password. Please try again.'
+      );
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleResendCode = async () => {
+    try {
+      setLoading(true);
+      await authService.forgotPassword({ email });
+      Alert.alert('Success', 'A new reset code has been sent to your email');
+    } catch (error: any) {
+      Alert.alert(
+        'Error',
+        error.response?.data?.error?.message || 'Failed to resend code'
+      );
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (step === 'done') {
     return (
       <SafeAreaView style={styles.container}>
         <View style={styles.successContainer}>
           <Text style={styles.successIcon}>✓</Text>
-          <Text style={styles.successTitle}>Check Your Email</Text>
+          <Text style={styles.successTitle}>Password Reset</Text>
           <Text style={styles.successMessage}>
-            We've sent password reset instructions to your email address.
-            Please check your inbox and follow the instructions.
+            Your password has been reset. You have been signed out of all
+            devices. Please log in with your new password.
           </Text>
+          <Button
+            title="Back to Login"
+            onPress={() => navigation.navigate('Login')}
+            style={styles.submitButton}
+          />
         </View>
       </SafeAreaView>
     );
   }
 
+  if (step === 'reset') {
+    return (
+      <SafeAreaView style={styles.container}>
+        <KeyboardAvoidingView
+          behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+          style={styles.keyboardView}
+        >
+          <ScrollView
+            contentContainerStyle={styles.scrollContent}
+            showsVerticalScrollIndicator={false}
+          >
+            <Text style={styles.title}>Reset Password</Text>
+            <Text style={styles.subtitle}>
+              Enter the 6-digit code sent to {email} and choose a new password.
+            </Text>
+
+            <Controller
+              control={resetControl}
+              name="code"
+              rules={{
+                required: 'Reset code is required',
+                pattern: {
+                  value: /^[0-9]{6}$/,
+                  message: 'Code must be 6 digits',
+                },
+              }}
+              render={({ field: { onChange, value } }) => (
+                <Input
+                  label="Reset Code"
+                  value={value}
+                  onChangeText={onChange}
+                  error={resetErrors.code?.message}
+                  keyboardType="number-pad"
+                  maxLength={6}
+                  placeholder="Enter the code"
+                />
+              )}
+            />
+
+            <Controller
+              control={resetControl}
+              name="new_password"
+              rules={{
+                required: 'Password is required',
+                minLength: {
+                  value: 6,
+                  message: 'Password must be at least 6 characters',
+                },
+              }}
+              render={({ field: { onChange, value } }) => (
+                <Input
+                  label="New Password"
+                  value={value}
+                  onChangeText={onChange}
+                  error={resetErrors.new_password?.message}
+                  secureTextEntry
+                />
+              )}
+            />
+
+            <Controller
+              control={resetControl}
+              name="confirm_password"
+              rules={{
+                required: 'Please confirm your password',
+                validate: (value) =>
+                  value === newPassword || 'Passwords do not match',
+              }}
+              render={({ field: { onChange, value } }) => (
+                <Input
+                  label="Confirm New Password"
+                  value={value}
+                  onChangeText={onChange}
+                  error={resetErrors.confirm_password?.message}
+                  secureTextEntry
+                />
+              )}
+            />
+
+            <Button
+              title="Reset Password"
+              onPress={handleResetSubmit(onResetSubmit)}
+              loading={loading}
+              style={styles.submitButton}
+            />
+
+            <TouchableOpacity
+              onPress={handleResendCode}
+              disabled={loading}
+              style={styles.resendContainer}
+            >
+              <Text style={styles.resendLink}>Resend Code</Text>
+            </TouchableOpacity>
+          </ScrollView>
+        </KeyboardAvoidingView>
+      </SafeAreaView>
+    );
+  }
+
   return (
     <SafeAreaView style={styles.container}>
       <KeyboardAvoidingView
@@ -80,7 +255,7 @@ export const ForgotPasswordScreen: React.FC = () => {
         >
           <Text style={styles.title}>Forgot Password</Text>
           <Text style={styles.subtitle}>
-            Enter your email address and we'll send you instructions to reset your password.
+            Enter your email address and we'll send you a code to reset your password.
           </Text>
 
           <Controller
@@ -108,7 +283,7 @@ export const ForgotPasswordScreen: React.FC = () => {
           />
 
           <Button
-            title="Send Reset Instructions"
+            title="Send Reset Code"
             onPress={handleSubmit(onSubmit)}
             loading={loading}
             style={styles.submitButton}
@@ -170,5 +345,14 @@ const styles = StyleSheet.create({
     textAlign: 'center',
     lineHeight: 24,
   },
+  resendContainer: {
+    alignItems: 'center',
+    marginTop: 24,
+  },
+  resendLink: {
+    fontSize: 14,
+    color: '#000000',
+    fontWeight: '500',
+  },
 });
 
@@ -52,7 +52,7 @@ export const LoginScreen: React.FC = () => {
 
       if (response.success && response.data) {
         // Store auth data
-        login(response.data.user, response.data.token);
+        login(response.data.user, response.data.token, response.data.refresh_token);
 
         // Navigate based on user type
         const userType = response.data.user.user_type;
@@ -60,7 +60,7 @@ export const OTPVerificationScreen: React.FC = () => {
         });
 
         // Store auth data
-        login(response.data.user, response.data.token);
+        login(response.data.user, response.data.token, response.data.refresh_token);
 
         // Request location permission
         try {
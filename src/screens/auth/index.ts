@@ -1,6 +1,7 @@
 export { WelcomeScreen } from './WelcomeScreen';
 export { CustomerSignupScreen } from './CustomerSignupScreen';
 export { MechanicSignupScreen } from './MechanicSignupScreen';
+export { VendorSignupScreen } from './VendorSignupScreen';
 export { OTPVerificationScreen } from './OTPVerificationScreen';
 export { LoginScreen } from './LoginScreen';
 export { ForgotPasswordScreen } from './ForgotPasswordScreen';
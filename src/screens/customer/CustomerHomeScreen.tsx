@@ -19,7 +19,11 @@ import { SearchBar } from '../../components/common/SearchBar';
 import { DrawerMenu } from '../../components/common/DrawerMenu';
 import { MechanicMarker } from '../../components/maps/MechanicMarker';
 import { MechanicBottomSheet } from '../../components/maps/MechanicBottomSheet';
-import { FilterBottomSheet, FilterState } from '../../components/maps/FilterBottomSheet';
+import {
+  FilterBottomSheet,
+  FilterState,
+  priceBands,
+} from '../../components/maps/FilterBottomSheet';
 import { MechanicCard } from '../../components/common/MechanicCard';
 import { Mechanic } from '../../types';
 import { mechanicService, Category } from '../../services/mechanicService';
@@ -27,7 +31,14 @@ import { CustomerStackParamList } from '../../navigation/types';
 
 type CustomerHomeScreenNavigationProp = StackNavigationProp<CustomerStackParamList, 'CustomerTabs'>;
 
-type SortOption = 'distance' | 'rating' | 'jobs';
+type SortOption = 'best' | 'distance' | 'rating' | 'jobs';
+
+const sortLabels: Record<SortOption, string> = {
+  best: 'Best match',
+  distance: 'Distance',
+  rating: 'Rating',
+  jobs: 'Jobs',
+};
 
 export const CustomerHomeScreen: React.FC = () => {
   const navigation = useNavigation<CustomerHomeScreenNavigationProp>();
@@ -46,16 +57,22 @@ export const CustomerHomeScreen: React.FC = () => {
   const [showSearchSuggestions, setShowSearchSuggestions] = useState(false);
   const [loading, setLoading] = useState(true);
   const [mechanics, setMechanics] = useState<Mechanic[]>([]);
+  const [page, setPage] = useState(1);
+  const [hasMore, setHasMore] = useState(false);
+  const [loadingMore, setLoadingMore] = useState(false);
   const [filteredMechanics, setFilteredMechanics] = useState<Mechanic[]>([]);
   const [categories, setCategories] = useState<Category[]>([]);
   const [filters, setFilters] = useState<FilterState>({
     selectedCategories: [],
     distance: 10,
     minRating: 0,
+    verifiedOnly: false,
+    gender: 'any',
+    priceBand: 'any',
   });
   const [viewMode, setViewMode] = useState<'map' | 'list'>('list'); // Default to list since map needs native setup
   const [mapError, setMapError] = useState(false);
-  const [sortBy, setSortBy] = useState<SortOption>('distance');
+  const [sortBy, setSortBy] = useState<SortOption>('best');
   const [region, setRegion] = useState<Region>({
     latitude: 6.5244, // Default to Lagos, Nigeria
     longitude: 3.3792,
@@ -82,9 +99,16 @@ export const CustomerHomeScreen: React.FC = () => {
     }
   }, [currentLocation]);
 
+  // Filtering and sorting happen on the server, so reload from the first page
+  useEffect(() => {
+    if (currentLocation) {
+      loadMechanics();
+    }
+  }, [sortBy, filters]);
+
   useEffect(() => {
     applyFilters();
-  }, [mechanics, filters, sortBy]);
+  }, [mechanics, searchText]);
 
   const loadCategories = async () => {
     try {
@@ -97,22 +121,37 @@ export const CustomerHomeScreen: React.FC = () => {
     }
   };
 
-  const loadMechanics = async () => {
+  const loadMechanics = async (nextPage: number = 1) => {
     if (!currentLocation) return;
 
     try {
-      setLoading(true);
+      if (nextPage === 1) {
+        setLoading(true);
+      } else {
+        setLoadingMore(true);
+      }
       const response = await mechanicService.getNearbyMechanics({
         lat: currentLocation.latitude,
         lng: currentLocation.longitude,
         radius: filters.distance,
-        specialization: filters.selectedCategories.length > 0
-          ? filters.selectedCategories[0]
+        categories: filters.selectedCategories.length > 0
+          ? filters.selectedCategories.join(',')
           : undefined,
+        min_rating: filters.minRating > 0 ? filters.minRating : undefined,
+        verified_only: filters.verifiedOnly || undefined,
+        gender: filters.gender !== 'any' ? filters.gender : undefined,
+        min_price: priceBands[filters.priceBand].min,
+        max_price: priceBands[filters.priceBand].max,
+        page: nextPage,
+        sort: sortBy,
       });
 
       if (response.success) {
-        setMechanics(response.data);
+        setMechanics((prev) => (nextPage === 1 ? response.data : [...prev, ...response.data]));
+        setPage(nextPage);
+        setHasMore(
+          !!response.pagination && response.pagination.page < response.pagination.total_pages
+        );
       }
     } catch (error: any) {
       console.error('Error loading mechanics:', error);
@@ -122,26 +161,14 @@ export const CustomerHomeScreen: React.FC = () => {
       );
     } finally {
       setLoading(false);
+      setLoadingMore(false);
     }
   };
 
+  // Filters are applied by the backend; only free-text search is local
   const applyFilters = () => {
     let filtered = [...mechanics];
 
-    // Filter by selected categories
-    if (filters.selectedCategories.length > 0) {
-      filtered = filtered.filter((mechanic) =>
-        mechanic.specializations.some((spec) =>
-          filters.selectedCategories.includes(spec)
-        )
-      );
-    }
-
-    // Filter by minimum rating
-    if (filters.minRating > 0) {
-      filtered = filtered.filter((mechanic) => mechanic.rating >= filters.minRating);
-    }
-
     // Filter by search text (category name)
     if (searchText) {
       const searchLower = searchText.toLowerCase();
@@ -152,20 +179,6 @@ export const CustomerHomeScreen: React.FC = () => {
       );
     }
 
-    // Sort mechanics
-    filtered.sort((a, b) => {
-      switch (sortBy) {
-        case 'distance':
-          return (a.distance || 0) - (b.distance || 0);
-        case 'rating':
-          return (b.rating || 0) - (a.rating || 0);
-        case 'jobs':
-          return (b.total_jobs || 0) - (a.total_jobs || 0);
-        default:
-          return 0;
-      }
-    });
-
     setFilteredMechanics(filtered);
   };
 
@@ -227,9 +240,18 @@ export const CustomerHomeScreen: React.FC = () => {
     navigation.navigate('ServiceRequest', { mechanic });
   };
 
+  const handleViewProfile = (mechanic: Mechanic) => {
+    if (!mechanic.user_id) return;
+    navigation.navigate('MechanicProfile', { mechanicId: mechanic.user_id, mechanic });
+  };
+
+  // Let the backend offer the job to the best available mechanics nearby
+  const handleRequestAnyMechanic = () => {
+    navigation.navigate('ServiceRequest', {});
+  };
+
   const handleFilterApply = (newFilters: FilterState) => {
     setFilters(newFilters);
-    loadMechanics();
   };
 
   const handleSearchSuggestionSelect = (category: string) => {
@@ -246,6 +268,14 @@ export const CustomerHomeScreen: React.FC = () => {
 
   const categoryNames = categories.map((c) => c.name);
 
+  const hasActiveFilters =
+    filters.selectedCategories.length > 0 ||
+    filters.minRating > 0 ||
+    filters.distance !== 10 ||
+    filters.verifiedOnly ||
+    filters.gender !== 'any' ||
+    filters.priceBand !== 'any';
+
   if (loading && !currentLocation) {
     return (
       <SafeAreaView style={styles.container}>
@@ -356,11 +386,7 @@ export const CustomerHomeScreen: React.FC = () => {
               onPress={() => setFilterVisible(true)}
             >
               <Ionicons name="options" size={24} color="#000000" />
-              {(filters.selectedCategories.length > 0 ||
-                filters.minRating > 0 ||
-                filters.distance !== 10) && (
-                <View style={styles.filterBadge} />
-              )}
+              {hasActiveFilters && <View style={styles.filterBadge} />}
             </TouchableOpacity>
           </View>
           
@@ -381,6 +407,15 @@ export const CustomerHomeScreen: React.FC = () => {
             <Ionicons name="list" size={20} color="#000000" />
           </TouchableOpacity>
 
+          {/* Request any nearby mechanic */}
+          <TouchableOpacity
+            style={styles.anyMechanicFab}
+            onPress={handleRequestAnyMechanic}
+          >
+            <Ionicons name="flash" size={18} color="#FFFFFF" />
+            <Text style={styles.anyMechanicText}>Any nearby mechanic</Text>
+          </TouchableOpacity>
+
           {/* Floating action button to center on user */}
           <TouchableOpacity style={styles.fab} onPress={centerOnUserLocation}>
             <Ionicons name="locate" size={24} color="#FFFFFF" />
@@ -401,7 +436,7 @@ export const CustomerHomeScreen: React.FC = () => {
               <TouchableOpacity
                 style={styles.sortButton}
                 onPress={() => {
-                  const options: SortOption[] = ['distance', 'rating', 'jobs'];
+                  const options: SortOption[] = ['best', 'distance', 'rating', 'jobs'];
                   const currentIndex = options.indexOf(sortBy);
                   const nextIndex = (currentIndex + 1) % options.length;
                   setSortBy(options[nextIndex]);
@@ -414,11 +449,7 @@ export const CustomerHomeScreen: React.FC = () => {
                 onPress={() => setFilterVisible(true)}
               >
                 <Ionicons name="options" size={24} color="#000000" />
-                {(filters.selectedCategories.length > 0 ||
-                  filters.minRating > 0 ||
-                  filters.distance !== 10) && (
-                  <View style={styles.filterBadge} />
-                )}
+                {hasActiveFilters && <View style={styles.filterBadge} />}
               </TouchableOpacity>
             </View>
           </View>
@@ -426,10 +457,19 @@ export const CustomerHomeScreen: React.FC = () => {
           {/* Sort indicator */}
           <View style={styles.sortIndicator}>
             <Text style={styles.sortText}>
-              Sorted by: {sortBy === 'distance' ? 'Distance' : sortBy === 'rating' ? 'Rating' : 'Jobs'}
+              Sorted by: {sortLabels[sortBy]}
             </Text>
           </View>
 
+          {/* Request any nearby mechanic */}
+          <TouchableOpacity
+            style={styles.anyMechanicButton}
+            onPress={handleRequestAnyMechanic}
+          >
+            <Ionicons name="flash" size={18} color="#FFFFFF" />
+            <Text style={styles.anyMechanicText}>Request any nearby mechanic</Text>
+          </TouchableOpacity>
+
           {/* Mechanics list */}
           {loading ? (
             <View style={styles.loadingContainer}>
@@ -455,6 +495,19 @@ export const CustomerHomeScreen: React.FC = () => {
                   onPress={handleMechanicPress}
                 />
               ))}
+              {hasMore && (
+                <TouchableOpacity
+                  style={styles.loadMoreButton}
+                  onPress={() => loadMechanics(page + 1)}
+                  disabled={loadingMore}
+                >
+                  {loadingMore ? (
+                    <ActivityIndicator size="small" color="#000000" />
+                  ) : (
+                    <Text style={styles.loadMoreText}>Show more mechanics</Text>
+                  )}
+                </TouchableOpacity>
+              )}
             </ScrollView>
           )}
         </View>
@@ -483,6 +536,7 @@ export const CustomerHomeScreen: React.FC = () => {
           setSelectedMechanic(null);
         }}
         onRequestService={handleRequestService}
+        onViewProfile={handleViewProfile}
       />
     </SafeAreaView>
   );
@@ -589,6 +643,51 @@ const styles = StyleSheet.create({
     shadowRadius: 4,
     elevation: 8,
   },
+  anyMechanicFab: {
+    position: 'absolute',
+    bottom: 32,
+    left: 16,
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderRadius: 24,
+    backgroundColor: '#000000',
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.3,
+    shadowRadius: 4,
+    elevation: 8,
+  },
+  anyMechanicButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginHorizontal: 16,
+    marginTop: 12,
+    paddingVertical: 12,
+    borderRadius: 8,
+    backgroundColor: '#000000',
+  },
+  anyMechanicText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#FFFFFF',
+    marginLeft: 6,
+  },
+  loadMoreButton: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 14,
+    marginTop: 4,
+    borderRadius: 8,
+    backgroundColor: '#F2F2F7',
+  },
+  loadMoreText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#000000',
+  },
   userMarker: {
     width: 20,
     height: 20,
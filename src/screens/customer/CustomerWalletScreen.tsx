@@ -0,0 +1,294 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  SafeAreaView,
+  FlatList,
+  RefreshControl,
+  Alert,
+  ActivityIndicator,
+  TouchableOpacity,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useNavigation } from '@react-navigation/native';
+import { StackNavigationProp } from '@react-navigation/stack';
+import { WalletTransaction } from '../../services/walletService';
+import { customerWalletService } from '../../services/customerWalletService';
+import { TransactionItem } from '../../components/wallet/TransactionItem';
+import { TopUpModal } from '../../components/wallet/TopUpModal';
+import { CustomerStackParamList } from '../../navigation/types';
+
+type CustomerWalletScreenNavigationProp = StackNavigationProp<CustomerStackParamList, 'Wallet'>;
+
+export const CustomerWalletScreen: React.FC = () => {
+  const navigation = useNavigation<CustomerWalletScreenNavigationProp>();
+  const [balance, setBalance] = useState<number>(0);
+  const [transactions, setTransactions] = useState<WalletTransaction[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [page, setPage] = useState(1);
+  const [hasMore, setHasMore] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [showTopUp, setShowTopUp] = useState(false);
+
+  const loadWalletData = async (pageNum: number = 1, append: boolean = false) => {
+    try {
+      if (pageNum === 1) {
+        setLoading(true);
+      } else {
+        setLoadingMore(true);
+      }
+
+      const response = await customerWalletService.getWallet(pageNum, 20);
+
+      if (response.success) {
+        setBalance(response.data.balance);
+
+        if (append) {
+          setTransactions((prev) => [...prev, ...response.data.recent_transactions]);
+        } else {
+          setTransactions(response.data.recent_transactions);
+        }
+
+        setHasMore(pageNum < response.data.pagination.total_pages);
+        setPage(pageNum);
+      }
+    } catch (error: any) {
+      console.error('Error loading wallet data:', error);
+      Alert.alert(
+        'Error',
+        error.response?.data?.error?.message || 'Failed to load wallet data'
+      );
+    } finally {
+      setLoading(false);
+      setLoadingMore(false);
+      setRefreshing(false);
+    }
+  };
+
+  useEffect(() => {
+    loadWalletData();
+  }, []);
+
+  const onRefresh = useCallback(() => {
+    setRefreshing(true);
+    loadWalletData(1, false);
+  }, []);
+
+  const loadMore = () => {
+    if (!loadingMore && hasMore) {
+      loadWalletData(page + 1, true);
+    }
+  };
+
+  const handleToppedUp = (newBalance: number) => {
+    setShowTopUp(false);
+    setBalance(newBalance);
+    loadWalletData(1, false);
+  };
+
+  const formatBalance = (amount: number) => {
+    return `₦${amount.toFixed(2)}`;
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => navigation.goBack()} style={styles.backButton}>
+          <Ionicons name="arrow-back" size={24} color="#000000" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Wallet</Text>
+        <View style={styles.placeholder} />
+      </View>
+
+      {loading && transactions.length === 0 ? (
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color="#000000" />
+          <Text style={styles.loadingText}>Loading wallet...</Text>
+        </View>
+      ) : (
+        <>
+          {/* Balance Card */}
+          <View style={styles.balanceCard}>
+            <Text style={styles.balanceLabel}>Wallet Balance</Text>
+            <Text style={styles.balanceAmount}>{formatBalance(balance)}</Text>
+
+            <TouchableOpacity
+              style={styles.topUpButton}
+              onPress={() => setShowTopUp(true)}
+              activeOpacity={0.7}
+            >
+              <Ionicons name="add-circle-outline" size={20} color="#000000" />
+              <Text style={styles.topUpButtonText}>Top Up</Text>
+            </TouchableOpacity>
+
+            <Text style={styles.balanceHint}>
+              Pay for jobs from your wallet. Refunds and credits are added here.
+            </Text>
+          </View>
+
+          {/* Transaction History */}
+          <View style={styles.transactionsContainer}>
+            <Text style={styles.transactionsTitle}>Transaction History</Text>
+
+            {transactions.length === 0 ? (
+              <View style={styles.emptyContainer}>
+                <Ionicons name="wallet-outline" size={64} color="#C7C7CC" />
+                <Text style={styles.emptyText}>No transactions yet</Text>
+                <Text style={styles.emptySubtext}>
+                  Top-ups, payments and refunds will appear here
+                </Text>
+              </View>
+            ) : (
+              <FlatList
+                data={transactions}
+                renderItem={({ item }) => <TransactionItem transaction={item} />}
+                keyExtractor={(item) => item.id}
+                refreshControl={
+                  <RefreshControl refreshing={refreshing} onRefresh={onRefresh} />
+                }
+                onEndReached={loadMore}
+                onEndReachedThreshold={0.5}
+                ListFooterComponent={
+                  loadingMore ? (
+                    <View style={styles.footerLoader}>
+                      <ActivityIndicator size="small" color="#8E8E93" />
+                    </View>
+                  ) : null
+                }
+                contentContainerStyle={styles.listContent}
+              />
+            )}
+          </View>
+        </>
+      )}
+
+      <TopUpModal
+        visible={showTopUp}
+        onToppedUp={handleToppedUp}
+        onClose={() => setShowTopUp(false)}
+      />
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F2F2F7',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    padding: 16,
+    backgroundColor: '#FFFFFF',
+    borderBottomWidth: 0.5,
+    borderBottomColor: '#C6C6C8',
+  },
+  backButton: {
+    padding: 4,
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#000000',
+  },
+  placeholder: {
+    width: 32,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  loadingText: {
+    marginTop: 12,
+    fontSize: 14,
+    color: '#8E8E93',
+  },
+  balanceCard: {
+    backgroundColor: '#000000',
+    padding: 24,
+    margin: 16,
+    borderRadius: 16,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.25,
+    shadowRadius: 4,
+    elevation: 5,
+  },
+  balanceLabel: {
+    fontSize: 14,
+    color: '#8E8E93',
+    marginBottom: 8,
+    fontWeight: '500',
+  },
+  balanceAmount: {
+    fontSize: 36,
+    fontWeight: 'bold',
+    color: '#FFFFFF',
+    marginBottom: 20,
+  },
+  topUpButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#FFFFFF',
+    paddingVertical: 12,
+    paddingHorizontal: 20,
+    borderRadius: 8,
+    gap: 8,
+  },
+  topUpButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#000000',
+  },
+  balanceHint: {
+    fontSize: 13,
+    color: '#8E8E93',
+    marginTop: 16,
+  },
+  transactionsContainer: {
+    flex: 1,
+    backgroundColor: '#FFFFFF',
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    paddingTop: 20,
+  },
+  transactionsTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#000000',
+    paddingHorizontal: 16,
+    marginBottom: 12,
+  },
+  listContent: {
+    paddingBottom: 16,
+  },
+  emptyContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingVertical: 60,
+  },
+  emptyText: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#000000',
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  emptySubtext: {
+    fontSize: 14,
+    color: '#8E8E93',
+    textAlign: 'center',
+    paddingHorizontal: 40,
+  },
+  footerLoader: {
+    paddingVertical: 20,
+    alignItems: 'center',
+  },
+});
@@ -65,8 +65,12 @@ export const HistoryScreen: React.FC = () => {
       case 'completed':
         return '#34C759';
       case 'cancelled':
+      case 'expired':
         return '#FF3B30';
+      case 'disputed':
+        return '#FF9500';
       case 'in_progress':
+      case 'awaiting_confirmation':
         return '#007AFF';
       default:
         return '#8E8E93';
@@ -74,12 +78,18 @@ export const HistoryScreen: React.FC = () => {
   };
 
   const renderServiceRequest = ({ item }: { item: ServiceRequest }) => {
+    const customerReview = item.reviews?.find((review) => review.reviewer_role === 'customer');
+
     return (
       <TouchableOpacity
         style={styles.requestCard}
         onPress={() => {
           // Navigate to request tracking if not completed
-          if (item.status !== 'completed' && item.status !== 'cancelled') {
+          if (
+            item.status !== 'completed' &&
+            item.status !== 'cancelled' &&
+            item.status !== 'expired'
+          ) {
             navigation.navigate('RequestTracking', { requestId: item.id });
           }
         }}
@@ -103,7 +113,7 @@ export const HistoryScreen: React.FC = () => {
                 { color: getStatusColor(item.status) },
               ]}
             >
-              {item.status.replace('_', ' ').toUpperCase()}
+              {item.status.replace(/_/g, ' ').toUpperCase()}
             </Text>
           </View>
         </View>
@@ -132,10 +142,10 @@ export const HistoryScreen: React.FC = () => {
             </View>
           )}
 
-          {item.customer_rating && (
+          {customerReview && (
             <View style={styles.ratingRow}>
               <Ionicons name="star" size={16} color="#FF9500" />
-              <Text style={styles.ratingText}>{item.customer_rating}</Text>
+              <Text style={styles.ratingText}>{customerReview.rating}</Text>
             </View>
           )}
         </View>
@@ -0,0 +1,627 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  SafeAreaView,
+  ScrollView,
+  TouchableOpacity,
+  Image,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
+import { useNavigation, useRoute, RouteProp } from '@react-navigation/native';
+import { StackNavigationProp } from '@react-navigation/stack';
+import { Ionicons } from '@expo/vector-icons';
+import { Button } from '../../components/common';
+import { mechanicService } from '../../services/mechanicService';
+import { reviewService } from '../../services/reviewService';
+import { MechanicProfile, MechanicReview, ReviewDimension, ReviewReportReason } from '../../types';
+import { CustomerStackParamList } from '../../navigation/types';
+
+type MechanicProfileScreenRouteProp = RouteProp<CustomerStackParamList, 'MechanicProfile'>;
+type MechanicProfileScreenNavigationProp = StackNavigationProp<
+  CustomerStackParamList,
+  'MechanicProfile'
+>;
+
+// Matches the number of recent reviews the profile endpoint returns
+const REVIEWS_PAGE_SIZE = 5;
+
+const dimensionLabels: Record<ReviewDimension, string> = {
+  punctuality: 'Punctuality',
+  quality: 'Quality',
+  price_fairness: 'Fair price',
+};
+
+export const MechanicProfileScreen: React.FC = () => {
+  const navigation = useNavigation<MechanicProfileScreenNavigationProp>();
+  const route = useRoute<MechanicProfileScreenRouteProp>();
+  const { mechanicId, mechanic } = route.params;
+
+  const [profile, setProfile] = useState<MechanicProfile | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [reviews, setReviews] = useState<MechanicReview[]>([]);
+  const [reviewsPage, setReviewsPage] = useState(1);
+  const [hasMoreReviews, setHasMoreReviews] = useState(false);
+  const [loadingMoreReviews, setLoadingMoreReviews] = useState(false);
+
+  useEffect(() => {
+    loadProfile();
+  }, [mechanicId]);
+
+  const loadProfile = async () => {
+    try {
+      setLoading(true);
+      const response = await mechanicService.getMechanicProfile(mechanicId);
+      if (response.success) {
+        setProfile(response.data);
+        setReviews(response.data.recent_reviews);
+        setReviewsPage(1);
+        setHasMoreReviews(
+          response.data.recent_reviews.length < response.data.rating_breakdown.total
+        );
+      }
+    } catch (error: any) {
+      console.error('Error loading mechanic profile:', error);
+      Alert.alert(
+        'Error',
+        error.response?.data?.error?.message || 'Failed to load mechanic profile'
+      );
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const loadMoreReviews = async () => {
+    if (loadingMoreReviews) return;
+
+    try {
+      setLoadingMoreReviews(true);
+      const nextPage = reviewsPage + 1;
+      const response = await reviewService.getMechanicReviews(mechanicId, {
+        page: nextPage,
+        limit: REVIEWS_PAGE_SIZE,
+      });
+      if (response.success) {
+        setReviews((prev) => [...prev, ...response.data.reviews]);
+        setReviewsPage(nextPage);
+        setHasMoreReviews(nextPage < response.pagination.total_pages);
+      }
+    } catch (error: any) {
+      console.error('Error loading reviews:', error);
+      Alert.alert('Error', error.response?.data?.error?.message || 'Failed to load reviews');
+    } finally {
+      setLoadingMoreReviews(false);
+    }
+  };
+
+  const submitReport = async (reviewId: string, reason: ReviewReportReason) => {
+    try {
+      await reviewService.reportReview(reviewId, reason);
+      Alert.alert('Thanks', 'We will look into this review.');
+    } catch (error: any) {
+      Alert.alert(
+        'Error',
+        error.response?.data?.error?.message || 'Failed to report review'
+      );
+    }
+  };
+
+  const handleReportReview = (reviewId: string) => {
+    Alert.alert('Report Review', 'Why are you reporting this review?', [
+      { text: 'Abusive or offensive', onPress: () => submitReport(reviewId, 'abusive') },
+      { text: 'Fake or misleading', onPress: () => submitReport(reviewId, 'fake') },
+      { text: 'Cancel', style: 'cancel' },
+    ]);
+  };
+
+  const handleRequestService = () => {
+    if (!profile) return;
+    navigation.navigate('ServiceRequest', {
+      mechanic: mechanic || {
+        id: profile.id,
+        user_id: profile.user_id,
+        name: profile.name,
+        rating: profile.rating,
+        specializations: profile.specializations,
+        profile_photo: profile.profile_photo,
+        is_available: profile.is_available,
+        total_jobs: profile.total_jobs,
+      },
+    });
+  };
+
+  const formatDate = (dateString: string) =>
+    new Date(dateString).toLocaleDateString('en-US', {
+      month: 'short',
+      year: 'numeric',
+    });
+
+  if (loading || !profile) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <View style={styles.loadingContainer}>
+          {loading ? (
+            <ActivityIndicator size="large" color="#000000" />
+          ) : (
+            <Text style={styles.emptyText}>Mechanic not found</Text>
+          )}
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  const maxCount = Math.max(1, ...Object.values(profile.rating_breakdown.counts));
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <ScrollView style={styles.scrollView} showsVerticalScrollIndicator={false}>
+        {/* Header */}
+        <View style={styles.header}>
+          <TouchableOpacity onPress={() => navigation.goBack()} style={styles.backButton}>
+            <Ionicons name="arrow-back" size={24} color="#000000" />
+          </TouchableOpacity>
+          <Text style={styles.headerTitle}>Mechanic Profile</Text>
+          <View style={styles.placeholder} />
+        </View>
+
+        {/* Profile summary */}
+        <View style={styles.profileSection}>
+          {profile.profile_photo ? (
+            <Image source={{ uri: profile.profile_photo }} style={styles.profileImage} />
+          ) : (
+            <View style={styles.profilePlaceholder}>
+              <Ionicons name="person" size={48} color="#8E8E93" />
+            </View>
+          )}
+          <Text style={styles.name}>{profile.name}</Text>
+          <View style={styles.badges}>
+            {profile.badges.identity_verified && (
+              <View style={styles.badge}>
+                <Ionicons name="checkmark-circle" size={14} color="#34C759" />
+                <Text style={styles.badgeText}>ID verified</Text>
+              </View>
+            )}
+            {profile.badges.background_checked && (
+              <View style={styles.badge}>
+                <Ionicons name="shield-checkmark" size={14} color="#007AFF" />
+                <Text style={styles.badgeText}>Background checked</Text>
+              </View>
+            )}
+          </View>
+
+          <View style={styles.statsRow}>
+            <View style={styles.stat}>
+              <Text style={styles.statValue}>{profile.rating.toFixed(1)}</Text>
+              <Text style={styles.statLabel}>Rating</Text>
+            </View>
+            <View style={styles.stat}>
+              <Text style={styles.statValue}>{profile.total_jobs}</Text>
+              <Text style={styles.statLabel}>Jobs</Text>
+            </View>
+            <View style={styles.stat}>
+              <Text style={styles.statValue}>
+                {profile.years_of_experience !== null ? profile.years_of_experience : '-'}
+              </Text>
+              <Text style={styles.statLabel}>Years exp.</Text>
+            </View>
+          </View>
+          <Text style={styles.memberSince}>
+            Member since {formatDate(profile.member_since)}
+          </Text>
+        </View>
+
+        {/* About */}
+        {profile.bio && (
+          <View style={styles.card}>
+            <Text style={styles.cardTitle}>About</Text>
+            <Text style={styles.bio}>{profile.bio}</Text>
+          </View>
+        )}
+
+        {/* Specializations */}
+        {profile.specializations.length > 0 && (
+          <View style={styles.card}>
+            <Text style={styles.cardTitle}>Specializations</Text>
+            <View style={styles.specializationsContainer}>
+              {profile.specializations.map((spec, index) => (
+                <View key={index} style={styles.specializationTag}>
+                  <Text style={styles.specializationText}>{spec}</Text>
+                </View>
+              ))}
+            </View>
+          </View>
+        )}
+
+        {/* Past work */}
+        {profile.portfolio.length > 0 && (
+          <View style={styles.card}>
+            <Text style={styles.cardTitle}>Past Work</Text>
+            <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+              {profile.portfolio.map((photo) => (
+                <View key={photo.id} style={styles.portfolioItem}>
+                  <Image source={{ uri: photo.image_url }} style={styles.portfolioImage} />
+                  {photo.caption && (
+                    <Text style={styles.portfolioCaption} numberOfLines={2}>
+                      {photo.caption}
+                    </Text>
+                  )}
+                </View>
+              ))}
+            </ScrollView>
+          </View>
+        )}
+
+        {/* Rating breakdown */}
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>
+            Ratings ({profile.rating_breakdown.total})
+          </Text>
+          {['5', '4', '3', '2', '1'].map((stars) => {
+            const count = profile.rating_breakdown.counts[stars] || 0;
+            return (
+              <View key={stars} style={styles.breakdownRow}>
+                <Text style={styles.breakdownLabel}>{stars} ⭐</Text>
+                <View style={styles.breakdownTrack}>
+                  <View
+                    style={[styles.breakdownFill, { width: `${(count / maxCount) * 100}%` }]}
+                  />
+                </View>
+                <Text style={styles.breakdownCount}>{count}</Text>
+              </View>
+            );
+          })}
+          {profile.rating_breakdown.dimensions && (
+            <View style={styles.dimensions}>
+              {(Object.keys(dimensionLabels) as ReviewDimension[]).map((dimension) => {
+                const value = profile.rating_breakdown.dimensions?.[dimension];
+                return (
+                  <View key={dimension} style={styles.dimension}>
+                    <Text style={styles.dimensionValue}>
+                      {value !== null && value !== undefined ? value.toFixed(1) : '-'}
+                    </Text>
+                    <Text style={styles.dimensionLabel}>{dimensionLabels[dimension]}</Text>
+                  </View>
+                );
+              })}
+            </View>
+          )}
+        </View>
+
+        {/* Recent reviews */}
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>Recent Reviews</Text>
+          {reviews.length === 0 ? (
+            <Text style={styles.emptyText}>No reviews yet</Text>
+          ) : (
+            reviews.map((review) => (
+              <View key={review.id} style={styles.review}>
+                <View style={styles.reviewHeader}>
+                  <Text style={styles.reviewer}>{review.reviewer_name}</Text>
+                  <View style={styles.reviewRating}>
+                    <Ionicons name="star" size={14} color="#FF9500" />
+                    <Text style={styles.reviewRatingText}>{review.rating}</Text>
+                  </View>
+                </View>
+                {review.comment && <Text style={styles.reviewText}>{review.comment}</Text>}
+                <View style={styles.reviewFooter}>
+                  <Text style={styles.reviewMeta}>
+                    {[review.category, formatDate(review.created_at)].filter(Boolean).join(' • ')}
+                  </Text>
+                  <TouchableOpacity onPress={() => handleReportReview(review.id)}>
+                    <Text style={styles.reportText}>Report</Text>
+                  </TouchableOpacity>
+                </View>
+                {review.reply && (
+                  <View style={styles.reply}>
+                    <Text style={styles.replyLabel}>Reply from {profile.name}</Text>
+                    <Text style={styles.reviewText}>{review.reply}</Text>
+                  </View>
+                )}
+              </View>
+            ))
+          )}
+          {hasMoreReviews && (
+            <TouchableOpacity
+              style={styles.moreReviewsButton}
+              onPress={loadMoreReviews}
+              disabled={loadingMoreReviews}
+            >
+              {loadingMoreReviews ? (
+                <ActivityIndicator size="small" color="#000000" />
+              ) : (
+                <Text style={styles.moreReviewsText}>Show more reviews</Text>
+              )}
+            </TouchableOpacity>
+          )}
+        </View>
+
+        <View style={styles.footer}>
+          <Button
+            title={profile.is_available ? 'Request Service' : 'Currently Unavailable'}
+            onPress={handleRequestService}
+            disabled={!profile.is_available}
+          />
+        </View>
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#FFFFFF',
+  },
+  scrollView: {
+    flex: 1,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    padding: 16,
+    borderBottomWidth: 0.5,
+    borderBottomColor: '#C6C6C8',
+  },
+  backButton: {
+    padding: 4,
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#000000',
+  },
+  placeholder: {
+    width: 32,
+  },
+  profileSection: {
+    alignItems: 'center',
+    padding: 24,
+  },
+  profileImage: {
+    width: 96,
+    height: 96,
+    borderRadius: 48,
+    marginBottom: 12,
+  },
+  profilePlaceholder: {
+    width: 96,
+    height: 96,
+    borderRadius: 48,
+    backgroundColor: '#F2F2F7',
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginBottom: 12,
+  },
+  name: {
+    fontSize: 22,
+    fontWeight: 'bold',
+    color: '#000000',
+    marginBottom: 8,
+  },
+  badges: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'center',
+    gap: 8,
+    marginBottom: 16,
+  },
+  badge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#F2F2F7',
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 12,
+  },
+  badgeText: {
+    fontSize: 12,
+    color: '#000000',
+    marginLeft: 4,
+  },
+  statsRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-around',
+    alignSelf: 'stretch',
+    marginBottom: 12,
+  },
+  stat: {
+    alignItems: 'center',
+  },
+  statValue: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#000000',
+  },
+  statLabel: {
+    fontSize: 12,
+    color: '#8E8E93',
+    marginTop: 2,
+  },
+  memberSince: {
+    fontSize: 12,
+    color: '#8E8E93',
+  },
+  card: {
+    backgroundColor: '#FFFFFF',
+    marginHorizontal: 16,
+    marginBottom: 16,
+    padding: 16,
+    borderRadius: 12,
+    borderWidth: 0.5,
+    borderColor: '#E5E5EA',
+  },
+  cardTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#000000',
+    marginBottom: 12,
+  },
+  bio: {
+    fontSize: 14,
+    color: '#000000',
+    lineHeight: 20,
+  },
+  specializationsContainer: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  specializationTag: {
+    backgroundColor: '#F2F2F7',
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+  },
+  specializationText: {
+    fontSize: 14,
+    color: '#000000',
+  },
+  portfolioItem: {
+    width: 140,
+    marginRight: 12,
+  },
+  portfolioImage: {
+    width: 140,
+    height: 105,
+    borderRadius: 8,
+    backgroundColor: '#F2F2F7',
+  },
+  portfolioCaption: {
+    fontSize: 12,
+    color: '#8E8E93',
+    marginTop: 4,
+  },
+  breakdownRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  breakdownLabel: {
+    width: 40,
+    fontSize: 12,
+    color: '#000000',
+  },
+  breakdownTrack: {
+    flex: 1,
+    height: 8,
+    borderRadius: 4,
+    backgroundColor: '#F2F2F7',
+    overflow: 'hidden',
+  },
+  breakdownFill: {
+    height: 8,
+    backgroundColor: '#FF9500',
+  },
+  breakdownCount: {
+    width: 32,
+    fontSize: 12,
+    color: '#8E8E93',
+    textAlign: 'right',
+  },
+  dimensions: {
+    flexDirection: 'row',
+    justifyContent: 'space-around',
+    marginTop: 8,
+    paddingTop: 12,
+    borderTopWidth: 0.5,
+    borderTopColor: '#E5E5EA',
+  },
+  dimension: {
+    alignItems: 'center',
+  },
+  dimensionValue: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#000000',
+  },
+  dimensionLabel: {
+    fontSize: 12,
+    color: '#8E8E93',
+    marginTop: 2,
+  },
+  review: {
+    paddingVertical: 12,
+    borderTopWidth: 0.5,
+    borderTopColor: '#E5E5EA',
+  },
+  reviewHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 4,
+  },
+  reviewer: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#000000',
+  },
+  reviewRating: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  reviewRatingText: {
+    fontSize: 14,
+    color: '#000000',
+    marginLeft: 4,
+  },
+  reviewText: {
+    fontSize: 14,
+    color: '#000000',
+    lineHeight: 20,
+  },
+  reviewFooter: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  reviewMeta: {
+    fontSize: 12,
+    color: '#8E8E93',
+    marginTop: 4,
+  },
+  reportText: {
+    fontSize: 12,
+    color: '#8E8E93',
+    marginTop: 4,
+  },
+  reply: {
+    marginTop: 8,
+    marginLeft: 12,
+    paddingLeft: 12,
+    borderLeftWidth: 2,
+    borderLeftColor: '#E5E5EA',
+  },
+  replyLabel: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#8E8E93',
+    marginBottom: 2,
+  },
+  moreReviewsButton: {
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderTopWidth: 0.5,
+    borderTopColor: '#E5E5EA',
+  },
+  moreReviewsText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#000000',
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#8E8E93',
+  },
+  footer: {
+    padding: 16,
+    paddingBottom: 32,
+  },
+});
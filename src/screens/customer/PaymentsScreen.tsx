@@ -70,7 +70,7 @@ export const PaymentsScreen: React.FC = () => {
       <TouchableOpacity
         style={styles.paymentCard}
         onPress={() => {
-          navigation.navigate('RequestTracking', { requestId: item.id });
+          navigation.navigate('Receipt', { requestId: item.id });
         }}
       >
         <View style={styles.paymentHeader}>
@@ -0,0 +1,362 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  SafeAreaView,
+  ScrollView,
+  TouchableOpacity,
+  ActivityIndicator,
+  Alert,
+  Linking,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useNavigation, useRoute, RouteProp } from '@react-navigation/native';
+import { StackNavigationProp } from '@react-navigation/stack';
+import { Button } from '../../components/common';
+import { invoiceService } from '../../services/invoiceService';
+import { Invoice } from '../../types';
+import { CustomerStackParamList } from '../../navigation/types';
+
+type ReceiptScreenRouteProp = RouteProp<CustomerStackParamList, 'Receipt'>;
+type ReceiptScreenNavigationProp = StackNavigationProp<CustomerStackParamList, 'Receipt'>;
+
+const formatCurrency = (amount: number) => `₦${Number(amount).toFixed(2)}`;
+
+const formatDate = (dateString: string | null) => {
+  if (!dateString) return '';
+  return new Date(dateString).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+  });
+};
+
+export const ReceiptScreen: React.FC = () => {
+  const navigation = useNavigation<ReceiptScreenNavigationProp>();
+  const route = useRoute<ReceiptScreenRouteProp>();
+  const { requestId } = route.params;
+
+  const [invoice, setInvoice] = useState<Invoice | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [downloading, setDownloading] = useState(false);
+  const [emailing, setEmailing] = useState(false);
+
+  useEffect(() => {
+    loadInvoice();
+  }, [requestId]);
+
+  const loadInvoice = async () => {
+    try {
+      setLoading(true);
+      const response = await invoiceService.getInvoice(requestId);
+      if (response.success) {
+        setInvoice(response.data);
+      }
+    } catch (error: any) {
+      console.error('Error loading receipt:', error);
+      Alert.alert(
+        'Error',
+        error.response?.data?.error?.message || 'Failed to load receipt'
+      );
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleDownload = async () => {
+    try {
+      setDownloading(true);
+      const response = await invoiceService.getDownloadLink(requestId);
+      if (response.success) {
+        await Linking.openURL(response.data.url);
+      }
+    } catch (error: any) {
+      Alert.alert(
+        'Error',
+        error.response?.data?.error?.message || 'Failed to download receipt'
+      );
+    } finally {
+      setDownloading(false);
+    }
+  };
+
+  const handleEmail = async () => {
+    try {
+      setEmailing(true);
+      await invoiceService.emailInvoice(requestId);
+      Alert.alert('Sent', 'The receipt has been sent to your email.');
+    } catch (error: any) {
+      Alert.alert(
+        'Error',
+        error.response?.data?.error?.message || 'Failed to email receipt'
+      );
+    } finally {
+      setEmailing(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color="#000000" />
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  const vehicle = invoice?.details.vehicle;
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => navigation.goBack()} style={styles.backButton}>
+          <Ionicons name="arrow-back" size={24} color="#000000" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>
+          {invoice?.copy === 'mechanic' ? 'Invoice' : 'Receipt'}
+        </Text>
+        <View style={styles.placeholder} />
+      </View>
+
+      {!invoice ? (
+        <View style={styles.emptyContainer}>
+          <Ionicons name="receipt-outline" size={64} color="#8E8E93" />
+          <Text style={styles.emptyText}>Receipt unavailable</Text>
+        </View>
+      ) : (
+        <ScrollView contentContainerStyle={styles.content}>
+          <View style={styles.card}>
+            <Text style={styles.invoiceNumber}>{invoice.invoice_number}</Text>
+            <Text style={styles.mutedText}>Issued {formatDate(invoice.issued_at)}</Text>
+
+            <View style={styles.partiesRow}>
+              <View style={styles.party}>
+                <Text style={styles.partyLabel}>Customer</Text>
+                <Text style={styles.partyName}>{invoice.details.customer?.full_name}</Text>
+              </View>
+              <View style={styles.party}>
+                <Text style={styles.partyLabel}>Mechanic</Text>
+                <Text style={styles.partyName}>{invoice.details.mechanic?.full_name}</Text>
+              </View>
+            </View>
+
+            <View style={styles.detailRow}>
+              <Ionicons name="car-outline" size={16} color="#8E8E93" />
+              <Text style={styles.detailText}>
+                {vehicle
+                  ? [vehicle.car_name, vehicle.car_model, vehicle.car_year].filter(Boolean).join(' ')
+                  : 'N/A'}
+              </Text>
+            </View>
+            <View style={styles.detailRow}>
+              <Ionicons name="build-outline" size={16} color="#8E8E93" />
+              <Text style={styles.detailText}>{invoice.details.category || 'N/A'}</Text>
+            </View>
+          </View>
+
+          <View style={styles.card}>
+            {invoice.line_items.map((item, index) => (
+              <View key={`${item.description}-${index}`} style={styles.itemRow}>
+                <View style={styles.itemInfo}>
+                  <Text style={styles.itemDescription}>{item.description}</Text>
+                  <Text style={styles.mutedText}>
+                    {item.type === 'part' ? 'Part' : 'Labour'} · {item.quantity} ×{' '}
+                    {formatCurrency(item.unit_price)}
+                  </Text>
+                </View>
+                <Text style={styles.itemTotal}>{formatCurrency(item.total)}</Text>
+              </View>
+            ))}
+
+            <View style={styles.divider} />
+
+            <View style={styles.totalRow}>
+              <Text style={styles.mutedLabel}>Subtotal (excl. VAT)</Text>
+              <Text style={styles.value}>{formatCurrency(invoice.subtotal)}</Text>
+            </View>
+            <View style={styles.totalRow}>
+              <Text style={styles.mutedLabel}>VAT ({(invoice.vat_rate * 100).toFixed(1)}%)</Text>
+              <Text style={styles.value}>{formatCurrency(invoice.vat_amount)}</Text>
+            </View>
+            <View style={styles.totalRow}>
+              <Text style={styles.totalLabel}>
+                {invoice.copy === 'customer' ? 'Total paid' : 'Total'}
+              </Text>
+              <Text style={styles.totalValue}>{formatCurrency(invoice.total)}</Text>
+            </View>
+
+            {invoice.commission !== undefined && (
+              <>
+                <View style={styles.totalRow}>
+                  <Text style={styles.mutedLabel}>Platform commission</Text>
+                  <Text style={styles.value}>-{formatCurrency(invoice.commission)}</Text>
+                </View>
+                <View style={styles.totalRow}>
+                  <Text style={styles.totalLabel}>Your labour earnings</Text>
+                  <Text style={styles.totalValue}>
+                    {formatCurrency(invoice.mechanic_earnings || 0)}
+                  </Text>
+                </View>
+              </>
+            )}
+          </View>
+
+          <Button
+            title="Download PDF"
+            onPress={handleDownload}
+            loading={downloading}
+            style={styles.actionButton}
+          />
+          <Button
+            title="Email Me a Copy"
+            onPress={handleEmail}
+            variant="outline"
+            loading={emailing}
+          />
+        </ScrollView>
+      )}
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F2F2F7',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    padding: 16,
+    backgroundColor: '#FFFFFF',
+    borderBottomWidth: 0.5,
+    borderBottomColor: '#C6C6C8',
+  },
+  backButton: {
+    padding: 4,
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#000000',
+  },
+  placeholder: {
+    width: 32,
+  },
+  content: {
+    padding: 16,
+  },
+  card: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 16,
+  },
+  invoiceNumber: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#000000',
+    marginBottom: 4,
+  },
+  mutedText: {
+    fontSize: 12,
+    color: '#8E8E93',
+  },
+  partiesRow: {
+    flexDirection: 'row',
+    marginVertical: 16,
+  },
+  party: {
+    flex: 1,
+  },
+  partyLabel: {
+    fontSize: 12,
+    color: '#8E8E93',
+    marginBottom: 2,
+  },
+  partyName: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#000000',
+  },
+  detailRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  detailText: {
+    fontSize: 14,
+    color: '#000000',
+    marginLeft: 8,
+  },
+  itemRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'flex-start',
+    paddingVertical: 6,
+  },
+  itemInfo: {
+    flex: 1,
+    marginRight: 8,
+  },
+  itemDescription: {
+    fontSize: 14,
+    color: '#000000',
+  },
+  itemTotal: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#000000',
+  },
+  divider: {
+    height: 1,
+    backgroundColor: '#E5E5EA',
+    marginVertical: 8,
+  },
+  totalRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: 4,
+  },
+  mutedLabel: {
+    fontSize: 14,
+    color: '#8E8E93',
+  },
+  value: {
+    fontSize: 14,
+    color: '#000000',
+  },
+  totalLabel: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#000000',
+  },
+  totalValue: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#000000',
+  },
+  actionButton: {
+    marginBottom: 12,
+  },
+  emptyContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 32,
+  },
+  emptyText: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#000000',
+    marginTop: 16,
+  },
+});
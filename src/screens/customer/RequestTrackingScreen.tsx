@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import {
   View,
   Text,
@@ -8,6 +8,7 @@ import {
   TouchableOpacity,
   Alert,
   Linking,
+  ActivityIndicator,
 } from 'react-native';
 import { useNavigation, useRoute, RouteProp } from '@react-navigation/native';
 import { StackNavigationProp } from '@react-navigation/stack';
@@ -15,8 +16,26 @@ import MapView, { Marker, Region } from 'react-native-maps';
 import { Ionicons } from '@expo/vector-icons';
 import { Button } from '../../components/common';
 import { serviceRequestService } from '../../services/serviceRequestService';
+import { paymentService } from '../../services/paymentService';
+import {
+  disputeService,
+  DisputeMessageData,
+  OpenDisputeData,
+} from '../../services/disputeService';
 import { useServiceRequestSubscription } from '../../hooks/useServiceRequestSubscription';
-import { ServiceRequest } from '../../types';
+import { useMechanicLiveLocation } from '../../hooks/useMechanicLiveLocation';
+import { useServiceRequestQuotes } from '../../hooks/useServiceRequestQuotes';
+import { useServiceRequestDispute } from '../../hooks/useServiceRequestDispute';
+import { QuoteSummary } from '../../components/quotes';
+import { DisputeModal, DisputeThread } from '../../components/disputes';
+import { useAuthStore } from '../../store/authStore';
+import {
+  EscrowSummary,
+  Payment,
+  PaymentSource,
+  ServiceRequest,
+  ServiceRequestEta,
+} from '../../types';
 import { CustomerStackParamList } from '../../navigation/types';
 
 type RequestTrackingScreenRouteProp = RouteProp<CustomerStackParamList, 'RequestTracking'>;
@@ -25,10 +44,56 @@ type RequestTrackingScreenNavigationProp = StackNavigationProp<CustomerStackPara
 const statusSteps = [
   { key: 'pending', label: 'Pending', icon: 'time-outline' },
   { key: 'accepted', label: 'Accepted', icon: 'checkmark-circle-outline' },
+  { key: 'en_route', label: 'On the Way', icon: 'car-outline' },
+  { key: 'arrived', label: 'Arrived', icon: 'location-outline' },
   { key: 'in_progress', label: 'In Progress', icon: 'build-outline' },
   { key: 'completed', label: 'Completed', icon: 'checkmark-done-outline' },
 ];
 
+const timelineLabels: Record<string, string> = {
+  pending: 'Request created',
+  accepted: 'Mechanic accepted',
+  en_route: 'Mechanic on the way',
+  arrived: 'Mechanic arrived',
+  in_progress: 'Work started',
+  awaiting_confirmation: 'Awaiting confirmation',
+  completed: 'Completed',
+  cancelled: 'Cancelled',
+  disputed: 'Disputed',
+  expired: 'Expired',
+};
+
+const PAYABLE_STATUSES = ['arrived', 'in_progress', 'awaiting_confirmation'];
+
+// Problems can be reported once the mechanic has arrived, until both sides confirm
+const DISPUTABLE_STATUSES = ['arrived', 'in_progress', 'awaiting_confirmation'];
+
+const paymentChannelOptions: { channel: PaymentSource; label: string }[] = [
+  { channel: 'wallet', label: 'Wallet Balance' },
+  { channel: 'card', label: 'Card' },
+  { channel: 'bank_transfer', label: 'Bank Transfer' },
+  { channel: 'ussd', label: 'USSD' },
+];
+
+const cancellationMessages: Record<string, { title: string; body: string }> = {
+  no_mechanic_available: {
+    title: 'No mechanic available',
+    body: 'Every nearby mechanic was busy or did not respond. Please try again in a few minutes.',
+  },
+  customer_cancelled: {
+    title: 'Request cancelled',
+    body: 'You cancelled this service request.',
+  },
+  customer_no_show: {
+    title: 'Marked as a no-show',
+    body: 'The mechanic waited at your location but could not find you, so the job was cancelled.',
+  },
+  dispute_refunded: {
+    title: 'Dispute resolved',
+    body: 'Our team cancelled the job and refunded your payment.',
+  },
+};
+
 export const RequestTrackingScreen: React.FC = () => {
   const navigation = useNavigation<RequestTrackingScreenNavigationProp>();
   const route = useRoute<RequestTrackingScreenRouteProp>();
@@ -36,25 +101,95 @@ export const RequestTrackingScreen: React.FC = () => {
 
   const { serviceRequest, loading } = useServiceRequestSubscription(requestId);
   const [cancelling, setCancelling] = useState(false);
-  const [mechanicLocation, setMechanicLocation] = useState<{ lat: number; lng: number } | null>(null);
+  const isTrackingMechanic =
+    serviceRequest?.status === 'accepted' || serviceRequest?.status === 'en_route';
+  const { location: mechanicLocation } = useMechanicLiveLocation(requestId, isTrackingMechanic);
+  const [now, setNow] = useState(Date.now());
+  const [answeringQuote, setAnsweringQuote] = useState(false);
+  const { user } = useAuthStore();
+  const [showDispute, setShowDispute] = useState(false);
+  const [openingDispute, setOpeningDispute] = useState(false);
+  const [sendingDisputeMessage, setSendingDisputeMessage] = useState(false);
+  const { dispute: followedDispute, refresh: refreshDispute } = useServiceRequestDispute(
+    requestId,
+    serviceRequest?.status === 'disputed'
+  );
+  const dispute = followedDispute || serviceRequest?.dispute || null;
+  const { latest: latestQuote, refresh: refreshQuotes } = useServiceRequestQuotes(
+    requestId,
+    serviceRequest?.status === 'arrived' || serviceRequest?.status === 'in_progress'
+  );
 
+  // Tick so the "last updated" label stays current between location updates
   useEffect(() => {
-    // Mock mechanic location for demo (in real app, this would come from real-time updates)
-    if (serviceRequest?.status === 'accepted' || serviceRequest?.status === 'in_progress') {
-      // Simulate mechanic location slightly away from customer
-      if (serviceRequest.customer_location_lat && serviceRequest.customer_location_lng) {
-        setMechanicLocation({
-          lat: serviceRequest.customer_location_lat + 0.01,
-          lng: serviceRequest.customer_location_lng + 0.01,
-        });
+    if (!mechanicLocation) return;
+
+    const tick = setInterval(() => setNow(Date.now()), 5000);
+    return () => clearInterval(tick);
+  }, [mechanicLocation]);
+
+  const isPayable =
+    serviceRequest?.payment_method === 'in_app' &&
+    PAYABLE_STATUSES.includes(serviceRequest.status);
+  const [escrow, setEscrow] = useState<EscrowSummary | null>(null);
+  const [checkoutPayment, setCheckoutPayment] = useState<Payment | null>(null);
+  const [paying, setPaying] = useState(false);
+
+  // Reload what is held whenever the approved price may have changed
+  useEffect(() => {
+    if (!isPayable) return;
+
+    const fetchEscrow = async () => {
+      try {
+        const response = await paymentService.getPayments(requestId);
+        if (response.success) {
+          setEscrow(response.data);
+        }
+      } catch (error) {
+        console.error('Error fetching payments:', error);
       }
+    };
+
+    fetchEscrow();
+  }, [requestId, isPayable, serviceRequest?.status, latestQuote?.id, latestQuote?.status]);
+
+  const [eta, setEta] = useState<ServiceRequestEta | null>(null);
+  const lastEtaFetchRef = useRef(0);
+
+  // Refresh the ETA as the mechanic moves, at most every 20 seconds
+  useEffect(() => {
+    if (!isTrackingMechanic) {
+      setEta(null);
+      return;
     }
 
+    const fetchEta = async () => {
+      lastEtaFetchRef.current = Date.now();
+      try {
+        const response = await serviceRequestService.getServiceRequestEta(requestId);
+        if (response.success) {
+          setEta(response.data);
+        }
+      } catch (error) {
+        console.error('Error fetching ETA:', error);
+      }
+    };
+
+    if (Date.now() - lastEtaFetchRef.current >= 20000) {
+      fetchEta();
+    }
+
+    // Keep counting down even if no new location arrives
+    const etaInterval = setInterval(fetchEta, 60000);
+    return () => clearInterval(etaInterval);
+  }, [requestId, isTrackingMechanic, mechanicLocation?.recorded_at]);
+
+  useEffect(() => {
     // Navigate to transaction completion when mechanic confirms and customer hasn't
     if (
       serviceRequest?.mechanic_confirmed &&
       !serviceRequest?.customer_confirmed &&
-      serviceRequest?.status === 'in_progress'
+      serviceRequest?.status === 'awaiting_confirmation'
     ) {
       // Show prompt to complete transaction
       Alert.alert(
@@ -104,6 +239,146 @@ export const RequestTrackingScreen: React.FC = () => {
     );
   };
 
+  const answerQuote = async (decision: 'approve' | 'reject', reason?: string) => {
+    if (!latestQuote) return;
+
+    try {
+      setAnsweringQuote(true);
+      if (decision === 'approve') {
+        await serviceRequestService.approveQuote(requestId, latestQuote.id);
+      } else {
+        await serviceRequestService.rejectQuote(requestId, latestQuote.id, reason);
+      }
+      await refreshQuotes();
+    } catch (error: any) {
+      Alert.alert(
+        'Error',
+        error.response?.data?.error?.message || 'Failed to answer quote'
+      );
+      await refreshQuotes();
+    } finally {
+      setAnsweringQuote(false);
+    }
+  };
+
+  const handleApproveQuote = () => {
+    if (!latestQuote) return;
+
+    Alert.alert(
+      'Approve Quote',
+      `Approve ₦${Number(latestQuote.total_cost).toFixed(2)} for this job?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Approve', onPress: () => answerQuote('approve') },
+      ]
+    );
+  };
+
+  const handleRejectQuote = () => {
+    Alert.alert('Reject Quote', 'Why are you rejecting this quote?', [
+      { text: 'Too expensive', onPress: () => answerQuote('reject', 'Too expensive') },
+      { text: 'Work not needed', onPress: () => answerQuote('reject', 'Work not needed') },
+      { text: 'Other', onPress: () => answerQuote('reject') },
+      { text: 'Cancel', style: 'cancel' },
+    ]);
+  };
+
+  const verifyPayment = async (payment: Payment) => {
+    try {
+      setPaying(true);
+      const response = await paymentService.verifyPayment(requestId, payment.id);
+      if (response.success) {
+        setEscrow(response.data.escrow);
+        const { status } = response.data.payment;
+        if (status === 'held') {
+          setCheckoutPayment(null);
+          Alert.alert(
+            'Payment Secured',
+            'Your payment is held safely and only released to the mechanic once you confirm the job is done.'
+          );
+        } else if (status === 'failed') {
+          setCheckoutPayment(null);
+          Alert.alert('Payment Failed', 'Your payment did not go through. Please try again.');
+        } else {
+          Alert.alert(
+            'Not Confirmed Yet',
+            "We haven't received your payment yet. If you have paid, check again in a moment."
+          );
+        }
+      }
+    } catch (error: any) {
+      Alert.alert('Error', error.response?.data?.error?.message || 'Failed to check payment');
+    } finally {
+      setPaying(false);
+    }
+  };
+
+  const startPayment = async (channel: PaymentSource) => {
+    try {
+      setPaying(true);
+      const response = await paymentService.createPayment(requestId, channel);
+      if (response.success) {
+        const payment = response.data;
+        if (payment.authorization_url) {
+          // Finish paying on the gateway's page, then come back and confirm
+          setCheckoutPayment(payment);
+          await Linking.openURL(payment.authorization_url);
+        } else {
+          await verifyPayment(payment);
+        }
+      }
+    } catch (error: any) {
+      Alert.alert('Error', error.response?.data?.error?.message || 'Failed to start payment');
+    } finally {
+      setPaying(false);
+    }
+  };
+
+  const handlePay = () => {
+    if (!escrow) return;
+
+    Alert.alert('Pay into Escrow', `How would you like to pay ₦${escrow.amount_due.toFixed(2)}?`, [
+      ...paymentChannelOptions.map(({ channel, label }) => ({
+        text: label,
+        onPress: () => startPayment(channel),
+      })),
+      { text: 'Cancel', style: 'cancel' as const },
+    ]);
+  };
+
+  const handleOpenDispute = async (data: OpenDisputeData) => {
+    try {
+      setOpeningDispute(true);
+      const response = await disputeService.openDispute(requestId, data);
+      if (response.success) {
+        setShowDispute(false);
+        refreshDispute();
+        Alert.alert(
+          'Dispute Opened',
+          'Your payment is on hold. Our team will review what happened and reply here.'
+        );
+      }
+    } catch (error: any) {
+      Alert.alert('Error', error.response?.data?.error?.message || 'Failed to open dispute');
+    } finally {
+      setOpeningDispute(false);
+    }
+  };
+
+  const handleSendDisputeMessage = async (data: DisputeMessageData) => {
+    try {
+      setSendingDisputeMessage(true);
+      await disputeService.addMessage(requestId, data);
+      refreshDispute();
+      return true;
+    } catch (error: any) {
+      Alert.alert('Error', error.response?.data?.error?.message || 'Failed to send message');
+      return false;
+    } finally {
+      setSendingDisputeMessage(false);
+    }
+  };
+
   const handleCallMechanic = () => {
     if (serviceRequest?.mechanic?.phone) {
       Linking.openURL(`tel:${serviceRequest.mechanic.phone}`);
@@ -112,7 +387,33 @@ export const RequestTrackingScreen: React.FC = () => {
 
   const getCurrentStepIndex = () => {
     if (!serviceRequest) return 0;
-    return statusSteps.findIndex((step) => step.key === serviceRequest.status);
+    // Waiting on confirmation, or a dispute, still shows as work in progress
+    const stepKey =
+      serviceRequest.status === 'awaiting_confirmation' || serviceRequest.status === 'disputed'
+        ? 'in_progress'
+        : serviceRequest.status;
+    return statusSteps.findIndex((step) => step.key === stepKey);
+  };
+
+  const formatEventTime = (dateString: string) =>
+    new Date(dateString).toLocaleString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: '2-digit',
+    });
+
+  const formatLastUpdated = (dateString: string, nowMs: number) => {
+    const seconds = Math.max(0, Math.round((nowMs - new Date(dateString).getTime()) / 1000));
+    if (seconds < 10) return 'just now';
+    if (seconds < 60) return `${seconds}s ago`;
+    return `${Math.floor(seconds / 60)} min ago`;
+  };
+
+  const formatHeading = (heading?: number | null) => {
+    if (heading == null) return '';
+    const directions = ['N', 'NE', 'E', 'SE', 'S', 'SW', 'W', 'NW'];
+    return `Heading ${directions[Math.round(heading / 45) % 8]} · `;
   };
 
   const currentStepIndex = getCurrentStepIndex();
@@ -191,8 +492,51 @@ export const RequestTrackingScreen: React.FC = () => {
           })}
         </View>
 
+        {/* Broadcast dispatch in progress */}
+        {serviceRequest.status === 'pending' && !serviceRequest.mechanic_id && (
+          <View style={styles.searchingCard}>
+            <ActivityIndicator size="small" color="#000000" />
+            <View style={styles.searchingDetails}>
+              <Text style={styles.searchingTitle}>Finding a mechanic</Text>
+              <Text style={styles.searchingText}>
+                Your request has been sent to nearby mechanics. The first to accept will be assigned.
+              </Text>
+            </View>
+          </View>
+        )}
+
+        {/* Reassigned after the previous mechanic declined or timed out */}
+        {serviceRequest.status === 'pending' &&
+          serviceRequest.dispatch_mode !== 'broadcast' &&
+          (serviceRequest.dispatch_wave || 0) > 1 && (
+            <View style={styles.searchingCard}>
+              <Ionicons name="swap-horizontal" size={24} color="#FF9500" />
+              <View style={styles.searchingDetails}>
+                <Text style={styles.searchingTitle}>Finding another mechanic</Text>
+                <Text style={styles.searchingText}>
+                  Your previous mechanic was unavailable, so we've passed your request to the next mechanic nearby.
+                </Text>
+              </View>
+            </View>
+          )}
+
+        {/* Cancellation reason */}
+        {serviceRequest.status === 'cancelled' && serviceRequest.cancellation_reason && (
+          <View style={styles.cancelledCard}>
+            <Ionicons name="close-circle" size={24} color="#FF3B30" />
+            <View style={styles.searchingDetails}>
+              <Text style={styles.searchingTitle}>
+                {cancellationMessages[serviceRequest.cancellation_reason]?.title || 'Request cancelled'}
+              </Text>
+              <Text style={styles.searchingText}>
+                {cancellationMessages[serviceRequest.cancellation_reason]?.body}
+              </Text>
+            </View>
+          </View>
+        )}
+
         {/* Mechanic Info Card */}
-        {serviceRequest.mechanic && (
+        {serviceRequest.mechanic && serviceRequest.cancellation_reason !== 'no_mechanic_available' && (
           <View style={styles.mechanicCard}>
             <View style={styles.mechanicHeader}>
               <View style={styles.mechanicInfo}>
@@ -261,6 +605,8 @@ export const RequestTrackingScreen: React.FC = () => {
 
         {/* Map */}
         {(serviceRequest.status === 'accepted' ||
+          serviceRequest.status === 'en_route' ||
+          serviceRequest.status === 'arrived' ||
           serviceRequest.status === 'in_progress') && (
           <View style={styles.mapContainer}>
             <Text style={styles.mapTitle}>Mechanic Location</Text>
@@ -286,22 +632,56 @@ export const RequestTrackingScreen: React.FC = () => {
                   </Marker>
                 )}
 
-              {/* Mechanic location (mock) */}
+              {/* Mechanic live location */}
               {mechanicLocation && (
                 <Marker
                   coordinate={{
-                    latitude: mechanicLocation.lat,
-                    longitude: mechanicLocation.lng,
+                    latitude: mechanicLocation.latitude,
+                    longitude: mechanicLocation.longitude,
                   }}
                   title="Mechanic"
+                  rotation={mechanicLocation.heading ?? 0}
+                  flat={mechanicLocation.heading != null}
+                  anchor={{ x: 0.5, y: 0.5 }}
                 >
                   <View style={styles.mechanicMarker}>
-                    <Ionicons name="car" size={24} color="#000000" />
+                    <Ionicons
+                      name={mechanicLocation.heading != null ? 'navigate' : 'car'}
+                      size={24}
+                      color="#000000"
+                    />
                   </View>
                 </Marker>
               )}
             </MapView>
-            {serviceRequest.status === 'in_progress' && (
+            {isTrackingMechanic && eta && (
+              <View style={styles.etaBanner}>
+                <Ionicons name="time-outline" size={20} color="#FFFFFF" />
+                <Text style={styles.etaText}>
+                  {eta.duration_minutes <= 1
+                    ? 'Arriving now'
+                    : `Arriving in about ${eta.duration_minutes} min`}
+                </Text>
+                <Text style={styles.etaDistance}>{eta.distance_km} km</Text>
+              </View>
+            )}
+            {isTrackingMechanic && (
+              <View style={styles.liveLocationBar}>
+                <View
+                  style={[
+                    styles.liveDot,
+                    !mechanicLocation && styles.liveDotInactive,
+                  ]}
+                />
+                <Text style={styles.liveLocationText}>
+                  {mechanicLocation
+                    ? `${formatHeading(mechanicLocation.heading)}Updated ${formatLastUpdated(mechanicLocation.recorded_at, now)}`
+                    : 'Waiting for the mechanic\'s location...'}
+                </Text>
+              </View>
+            )}
+            {(serviceRequest.status === 'arrived' ||
+              serviceRequest.status === 'in_progress') && (
               <View style={styles.arrivedBanner}>
                 <Ionicons name="checkmark-circle" size={20} color="#34C759" />
                 <Text style={styles.arrivedText}>Mechanic has arrived</Text>
@@ -310,11 +690,119 @@ export const RequestTrackingScreen: React.FC = () => {
           </View>
         )}
 
+        {/* Quote */}
+        {latestQuote && latestQuote.status !== 'superseded' && (
+          <View style={styles.detailsCard}>
+            <Text style={styles.cardTitle}>
+              {latestQuote.status === 'pending' ? 'Review Your Quote' : 'Quote'}
+            </Text>
+            <QuoteSummary quote={latestQuote} />
+            {latestQuote.status === 'pending' && (
+              <View style={styles.quoteActions}>
+                <Button
+                  title="Reject"
+                  onPress={handleRejectQuote}
+                  variant="outline"
+                  disabled={answeringQuote}
+                  style={styles.quoteActionButton}
+                />
+                <Button
+                  title="Approve"
+                  onPress={handleApproveQuote}
+                  loading={answeringQuote}
+                  style={styles.quoteActionButton}
+                />
+              </View>
+            )}
+            {latestQuote.status === 'rejected' && (
+              <Text style={styles.quoteHint}>
+                The mechanic can send a new quote, or you can talk it through with them.
+              </Text>
+            )}
+          </View>
+        )}
+
+        {/* Escrow payment */}
+        {isPayable && escrow && escrow.required > 0 && (
+          <View style={styles.detailsCard}>
+            <Text style={styles.cardTitle}>Payment</Text>
+            <View style={styles.escrowRow}>
+              <Text style={styles.escrowLabel}>Held in escrow</Text>
+              <Text style={styles.escrowValue}>₦{escrow.held.toFixed(2)}</Text>
+            </View>
+            {escrow.amount_due > 0 ? (
+              <>
+                <Text style={styles.quoteHint}>
+                  {escrow.held > 0
+                    ? 'The revised quote costs more than you paid. Pay the difference so the mechanic can finish.'
+                    : 'Pay for the job now. We hold the money until you confirm the work is done.'}
+                </Text>
+                {checkoutPayment ? (
+                  <Button
+                    title="I've Paid"
+                    onPress={() => verifyPayment(checkoutPayment)}
+                    loading={paying}
+                    style={styles.paymentButton}
+                  />
+                ) : (
+                  <Button
+                    title={`Pay ₦${escrow.amount_due.toFixed(2)} into Escrow`}
+                    onPress={handlePay}
+                    loading={paying}
+                    style={styles.paymentButton}
+                  />
+                )}
+              </>
+            ) : (
+              <View style={styles.escrowPaid}>
+                <Ionicons name="shield-checkmark" size={18} color="#34C759" />
+                <Text style={styles.escrowPaidText}>
+                  Paid. Released to the mechanic once you confirm the job.
+                </Text>
+              </View>
+            )}
+          </View>
+        )}
+
+        {/* Dispute */}
+        {dispute && (
+          <View style={styles.detailsCard}>
+            <Text style={styles.cardTitle}>Dispute</Text>
+            <DisputeThread
+              dispute={dispute}
+              userId={user?.id}
+              sending={sendingDisputeMessage}
+              onSend={handleSendDisputeMessage}
+            />
+          </View>
+        )}
+
+        {/* Timeline */}
+        {serviceRequest.timeline && serviceRequest.timeline.length > 0 && (
+          <View style={styles.detailsCard}>
+            <Text style={styles.cardTitle}>Timeline</Text>
+            {serviceRequest.timeline.map((event) => (
+              <View key={event.id} style={styles.timelineRow}>
+                <View style={styles.timelineDot} />
+                <View style={styles.timelineContent}>
+                  <Text style={styles.timelineLabel}>
+                    {/* Dispute messages are logged without a status change */}
+                    {event.from_status === event.to_status && event.reason
+                      ? event.reason
+                      : timelineLabels[event.to_status] || event.to_status}
+                  </Text>
+                  <Text style={styles.timelineTime}>{formatEventTime(event.created_at)}</Text>
+                </View>
+              </View>
+            ))}
+          </View>
+        )}
+
         {/* Action Buttons */}
         <View style={styles.actions}>
           {serviceRequest.mechanic_confirmed &&
             !serviceRequest.customer_confirmed &&
-            serviceRequest.status === 'in_progress' && (
+            serviceRequest.status === 'awaiting_confirmation' && (
               <Button
                 title="Complete Transaction"
                 onPress={() => {
@@ -325,8 +813,16 @@ export const RequestTrackingScreen: React.FC = () => {
                 style={styles.completeButton}
               />
             )}
+          {DISPUTABLE_STATUSES.includes(serviceRequest.status) && (
+            <Button
+              title="Report a Problem"
+              onPress={() => setShowDispute(true)}
+              variant="outline"
+            />
+          )}
           {(serviceRequest.status === 'pending' ||
-            serviceRequest.status === 'accepted') && (
+            serviceRequest.status === 'accepted' ||
+            serviceRequest.status === 'en_route') && (
             <Button
               title="Cancel Request"
               onPress={handleCancel}
@@ -337,6 +833,14 @@ export const RequestTrackingScreen: React.FC = () => {
           )}
         </View>
       </ScrollView>
+
+      <DisputeModal
+        visible={showDispute}
+        role="customer"
+        loading={openingDispute}
+        onSubmit={handleOpenDispute}
+        onClose={() => setShowDispute(false)}
+      />
     </SafeAreaView>
   );
 };
@@ -484,6 +988,38 @@ const styles = StyleSheet.create({
     borderWidth: 1,
     borderColor: '#000000',
   },
+  searchingCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#F2F2F7',
+    margin: 16,
+    marginBottom: 0,
+    padding: 16,
+    borderRadius: 12,
+  },
+  cancelledCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#FFEBEA',
+    margin: 16,
+    marginBottom: 0,
+    padding: 16,
+    borderRadius: 12,
+  },
+  searchingDetails: {
+    flex: 1,
+    marginLeft: 12,
+  },
+  searchingTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#000000',
+    marginBottom: 4,
+  },
+  searchingText: {
+    fontSize: 14,
+    color: '#8E8E93',
+  },
   detailsCard: {
     backgroundColor: '#FFFFFF',
     margin: 16,
@@ -498,6 +1034,32 @@ const styles = StyleSheet.create({
     color: '#000000',
     marginBottom: 16,
   },
+  timelineRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    marginBottom: 12,
+  },
+  timelineDot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+    backgroundColor: '#000000',
+    marginTop: 4,
+    marginRight: 12,
+  },
+  timelineContent: {
+    flex: 1,
+  },
+  timelineLabel: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#000000',
+  },
+  timelineTime: {
+    fontSize: 12,
+    color: '#8E8E93',
+    marginTop: 2,
+  },
   detailRow: {
     marginBottom: 12,
   },
@@ -529,6 +1091,46 @@ const styles = StyleSheet.create({
   map: {
     height: 300,
   },
+  etaBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#000000',
+    padding: 12,
+  },
+  etaText: {
+    flex: 1,
+    fontSize: 14,
+    color: '#FFFFFF',
+    fontWeight: '600',
+    marginLeft: 8,
+  },
+  etaDistance: {
+    fontSize: 14,
+    color: '#C7C7CC',
+  },
+  liveLocationBar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#FFFFFF',
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    borderTopWidth: 0.5,
+    borderTopColor: '#E5E5EA',
+  },
+  liveDot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+    backgroundColor: '#34C759',
+    marginRight: 8,
+  },
+  liveDotInactive: {
+    backgroundColor: '#C7C7CC',
+  },
+  liveLocationText: {
+    fontSize: 13,
+    color: '#8E8E93',
+  },
   customerMarker: {
     width: 20,
     height: 20,
@@ -578,5 +1180,46 @@ const styles = StyleSheet.create({
   cancelButton: {
     borderColor: '#FF3B30',
   },
+  quoteActions: {
+    flexDirection: 'row',
+    gap: 12,
+    marginTop: 16,
+  },
+  quoteActionButton: {
+    flex: 1,
+  },
+  quoteHint: {
+    fontSize: 13,
+    color: '#8E8E93',
+    marginTop: 12,
+  },
+  escrowRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  escrowLabel: {
+    fontSize: 14,
+    color: '#8E8E93',
+  },
+  escrowValue: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#000000',
+  },
+  paymentButton: {
+    marginTop: 16,
+  },
+  escrowPaid: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 12,
+  },
+  escrowPaidText: {
+    flex: 1,
+    fontSize: 13,
+    color: '#34C759',
+    marginLeft: 8,
+  },
 });
 
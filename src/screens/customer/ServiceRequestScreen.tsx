@@ -20,7 +20,7 @@ import { serviceRequestService, CreateServiceRequestData } from '../../services/
 import { customerService } from '../../services/customerService';
 import { mechanicService, Category } from '../../services/mechanicService';
 import { useLocationStore } from '../../store/locationStore';
-import { Mechanic, Vehicle } from '../../types';
+import { Mechanic, PaymentMethod, Vehicle } from '../../types';
 import { CustomerStackParamList } from '../../navigation/types';
 import * as Location from 'expo-location';
 
@@ -33,6 +33,19 @@ interface ServiceRequestForm {
   problem_description: string;
 }
 
+const paymentMethodOptions: { value: PaymentMethod; title: string; description: string }[] = [
+  {
+    value: 'in_app',
+    title: 'Pay in app',
+    description: 'Held safely until you confirm the job is done',
+  },
+  {
+    value: 'cash',
+    title: 'Pay cash',
+    description: 'Pay the mechanic directly when the work is done',
+  },
+];
+
 export const ServiceRequestScreen: React.FC = () => {
   const navigation = useNavigation<ServiceRequestScreenNavigationProp>();
   const route = useRoute<ServiceRequestScreenRouteProp>();
@@ -43,6 +56,7 @@ export const ServiceRequestScreen: React.FC = () => {
   const [vehicles, setVehicles] = useState<Vehicle[]>([]);
   const [categories, setCategories] = useState<Category[]>([]);
   const [locationAddress, setLocationAddress] = useState<string>('');
+  const [paymentMethod, setPaymentMethod] = useState<PaymentMethod>('in_app');
 
   const {
     control,
@@ -123,10 +137,14 @@ export const ServiceRequestScreen: React.FC = () => {
     try {
       setLoading(true);
       const requestData: CreateServiceRequestData = {
-        mechanic_id: mechanic.id.toString(),
+        // Without a chosen mechanic the request is offered to nearby mechanics
+        ...(mechanic
+          ? { mechanic_id: (mechanic.user_id || mechanic.id).toString() }
+          : { dispatch_mode: 'broadcast' as const }),
         vehicle_id: data.vehicle_id,
         category_id: data.category_id,
         problem_description: data.problem_description,
+        payment_method: paymentMethod,
         location: {
           lat: currentLocation.latitude,
           lng: currentLocation.longitude,
@@ -174,31 +192,47 @@ export const ServiceRequestScreen: React.FC = () => {
           </View>
 
           {/* Mechanic Info Card */}
-          <View style={styles.mechanicCard}>
-            <View style={styles.mechanicInfo}>
-              {mechanic.profile_photo || mechanic.profile_picture_url ? (
-                <View style={styles.mechanicImageContainer}>
-                  <Text style={styles.mechanicInitial}>
-                    {mechanic.name.charAt(0).toUpperCase()}
-                  </Text>
+          {mechanic ? (
+            <View style={styles.mechanicCard}>
+              <View style={styles.mechanicInfo}>
+                {mechanic.profile_photo || mechanic.profile_picture_url ? (
+                  <View style={styles.mechanicImageContainer}>
+                    <Text style={styles.mechanicInitial}>
+                      {mechanic.name.charAt(0).toUpperCase()}
+                    </Text>
+                  </View>
+                ) : (
+                  <View style={styles.mechanicImagePlaceholder}>
+                    <Ionicons name="person" size={32} color="#8E8E93" />
+                  </View>
+                )}
+                <View style={styles.mechanicDetails}>
+                  <Text style={styles.mechanicName}>{mechanic.name}</Text>
+                  <View style={styles.ratingContainer}>
+                    <Ionicons name="star" size={16} color="#FF9500" />
+                    <Text style={styles.rating}>{mechanic.rating}</Text>
+                    {mechanic.distance && (
+                      <Text style={styles.distance}> • {mechanic.distance} km away</Text>
+                    )}
+                  </View>
                 </View>
-              ) : (
-                <View style={styles.mechanicImagePlaceholder}>
-                  <Ionicons name="person" size={32} color="#8E8E93" />
+              </View>
+            </View>
+          ) : (
+            <View style={styles.mechanicCard}>
+              <View style={styles.mechanicInfo}>
+                <View style={styles.mechanicImageContainer}>
+                  <Ionicons name="flash" size={28} color="#FFFFFF" />
                 </View>
-              )}
-              <View style={styles.mechanicDetails}>
-                <Text style={styles.mechanicName}>{mechanic.name}</Text>
-                <View style={styles.ratingContainer}>
-                  <Ionicons name="star" size={16} color="#FF9500" />
-                  <Text style={styles.rating}>{mechanic.rating}</Text>
-                  {mechanic.distance && (
-                    <Text style={styles.distance}> • {mechanic.distance} km away</Text>
-                  )}
+                <View style={styles.mechanicDetails}>
+                  <Text style={styles.mechanicName}>Any nearby mechanic</Text>
+                  <Text style={styles.distance}>
+                    We'll offer your request to the best available mechanics near you
+                  </Text>
                 </View>
               </View>
             </View>
-          </View>
+          )}
 
           {/* Form */}
           <View style={styles.form}>
@@ -308,6 +342,31 @@ export const ServiceRequestScreen: React.FC = () => {
               </View>
             </View>
 
+            {/* Payment Method */}
+            <View style={styles.locationContainer}>
+              <Text style={styles.label}>Payment</Text>
+              {paymentMethodOptions.map((option) => {
+                const selected = paymentMethod === option.value;
+                return (
+                  <TouchableOpacity
+                    key={option.value}
+                    style={[styles.paymentOption, selected && styles.paymentOptionSelected]}
+                    onPress={() => setPaymentMethod(option.value)}
+                  >
+                    <Ionicons
+                      name={selected ? 'radio-button-on' : 'radio-button-off'}
+                      size={20}
+                      color="#000000"
+                    />
+                    <View style={styles.locationText}>
+                      <Text style={styles.locationAddress}>{option.title}</Text>
+                      <Text style={styles.locationCoords}>{option.description}</Text>
+                    </View>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+
             <Button
               title="Send Request"
               onPress={handleSubmit(onSubmit)}
@@ -461,6 +520,19 @@ const styles = StyleSheet.create({
     fontSize: 12,
     color: '#8E8E93',
   },
+  paymentOption: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    borderWidth: 1,
+    borderColor: '#E5E5EA',
+    padding: 12,
+    borderRadius: 8,
+    marginBottom: 8,
+  },
+  paymentOptionSelected: {
+    borderColor: '#000000',
+    backgroundColor: '#F2F2F7',
+  },
   submitButton: {
     marginTop: 8,
   },
@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import {
   View,
   Text,
@@ -15,8 +15,12 @@ import { StackNavigationProp } from '@react-navigation/stack';
 import { Ionicons } from '@expo/vector-icons';
 import { useForm, Controller } from 'react-hook-form';
 import { Button, Input } from '../../components/common';
+import { QuoteSummary } from '../../components/quotes';
+import { DisputeModal } from '../../components/disputes';
 import { serviceRequestService } from '../../services/serviceRequestService';
+import { disputeService, OpenDisputeData } from '../../services/disputeService';
 import { CustomerStackParamList } from '../../navigation/types';
+import { ReviewDimension, ServiceRequestQuote } from '../../types';
 
 type TransactionCompletionScreenRouteProp = RouteProp<
   CustomerStackParamList,
@@ -27,6 +31,12 @@ type TransactionCompletionScreenNavigationProp = StackNavigationProp<
   'TransactionCompletion'
 >;
 
+const dimensionLabels: Record<ReviewDimension, string> = {
+  punctuality: 'Punctuality',
+  quality: 'Quality of work',
+  price_fairness: 'Fair price',
+};
+
 interface TransactionForm {
   material_cost: string;
   labor_cost: string;
@@ -40,7 +50,32 @@ export const TransactionCompletionScreen: React.FC = () => {
   const { requestId } = route.params;
 
   const [loading, setLoading] = useState(false);
+  const [showDispute, setShowDispute] = useState(false);
+  const [openingDispute, setOpeningDispute] = useState(false);
   const [selectedRating, setSelectedRating] = useState(0);
+  const [dimensionRatings, setDimensionRatings] = useState<Record<ReviewDimension, number>>({
+    punctuality: 0,
+    quality: 0,
+    price_fairness: 0,
+  });
+  // Costs are fixed by the approved quote; older jobs without one are entered here
+  const [approvedQuote, setApprovedQuote] = useState<ServiceRequestQuote | null>(null);
+
+  useEffect(() => {
+    serviceRequestService
+      .getQuotes(requestId)
+      .then((response) => {
+        if (response.success) {
+          const approved = [...response.data]
+            .reverse()
+            .find((quote) => quote.status === 'approved');
+          setApprovedQuote(approved || null);
+        }
+      })
+      .catch((error) => {
+        console.error('Error loading quotes:', error);
+      });
+  }, [requestId]);
 
   const {
     control,
@@ -74,10 +109,13 @@ export const TransactionCompletionScreen: React.FC = () => {
       const response = await serviceRequestService.completeServiceRequest(
         requestId,
         {
-          material_cost: materialCostNum,
-          labor_cost: laborCostNum,
+          material_cost: approvedQuote ? undefined : materialCostNum,
+          labor_cost: approvedQuote ? undefined : laborCostNum,
           rating: selectedRating,
           review: data.review || undefined,
+          punctuality: dimensionRatings.punctuality || undefined,
+          quality: dimensionRatings.quality || undefined,
+          price_fairness: dimensionRatings.price_fairness || undefined,
         }
       );
 
@@ -101,6 +139,26 @@ export const TransactionCompletionScreen: React.FC = () => {
     }
   };
 
+  // Instead of confirming, hold the payment and have an admin look at the job
+  const handleOpenDispute = async (data: OpenDisputeData) => {
+    try {
+      setOpeningDispute(true);
+      const response = await disputeService.openDispute(requestId, data);
+      if (response.success) {
+        setShowDispute(false);
+        Alert.alert(
+          'Dispute Opened',
+          'Your payment is on hold. Our team will review what happened and reply on the request.',
+          [{ text: 'OK', onPress: () => navigation.goBack() }]
+        );
+      }
+    } catch (error: any) {
+      Alert.alert('Error', error.response?.data?.error?.message || 'Failed to open dispute');
+    } finally {
+      setOpeningDispute(false);
+    }
+  };
+
   return (
     <SafeAreaView style={styles.container}>
       <KeyboardAvoidingView
@@ -123,53 +181,59 @@ export const TransactionCompletionScreen: React.FC = () => {
           <View style={styles.section}>
             <Text style={styles.sectionTitle}>Service Costs</Text>
 
-            <Controller
-              control={control}
-              name="material_cost"
-              rules={{
-                required: 'Material cost is required',
-                min: { value: 0, message: 'Cost must be positive' },
-              }}
-              render={({ field: { onChange, value } }) => (
-                <View style={styles.inputContainer}>
-                  <Text style={styles.label}>Material Cost (₦)</Text>
-                  <Input
-                    value={value}
-                    onChangeText={onChange}
-                    keyboardType="numeric"
-                    placeholder="0.00"
-                    error={errors.material_cost?.message}
-                  />
-                </View>
-              )}
-            />
+            {approvedQuote ? (
+              <QuoteSummary quote={approvedQuote} />
+            ) : (
+              <>
+                <Controller
+                  control={control}
+                  name="material_cost"
+                  rules={{
+                    required: 'Material cost is required',
+                    min: { value: 0, message: 'Cost must be positive' },
+                  }}
+                  render={({ field: { onChange, value } }) => (
+                    <View style={styles.inputContainer}>
+                      <Text style={styles.label}>Material Cost (₦)</Text>
+                      <Input
+                        value={value}
+                        onChangeText={onChange}
+                        keyboardType="numeric"
+                        placeholder="0.00"
+                        error={errors.material_cost?.message}
+                      />
+                    </View>
+                  )}
+                />
 
-            <Controller
-              control={control}
-              name="labor_cost"
-              rules={{
-                required: 'Labor cost is required',
-                min: { value: 0, message: 'Cost must be positive' },
-              }}
-              render={({ field: { onChange, value } }) => (
-                <View style={styles.inputContainer}>
-                  <Text style={styles.label}>Labor Cost (₦)</Text>
-                  <Input
-                    value={value}
-                    onChangeText={onChange}
-                    keyboardType="numeric"
-                    placeholder="0.00"
-                    error={errors.labor_cost?.message}
-                  />
-                </View>
-              )}
-            />
+                <Controller
+                  control={control}
+                  name="labor_cost"
+                  rules={{
+                    required: 'Labor cost is required',
+                    min: { value: 0, message: 'Cost must be positive' },
+                  }}
+                  render={({ field: { onChange, value } }) => (
+                    <View style={styles.inputContainer}>
+                      <Text style={styles.label}>Labor Cost (₦)</Text>
+                      <Input
+                        value={value}
+                        onChangeText={onChange}
+                        keyboardType="numeric"
+                        placeholder="0.00"
+                        error={errors.labor_cost?.message}
+                      />
+                    </View>
+                  )}
+                />
 
-            {/* Total Display */}
-            <View style={styles.totalContainer}>
-              <Text style={styles.totalLabel}>Total Cost</Text>
-              <Text style={styles.totalAmount}>₦{totalCost.toFixed(2)}</Text>
-            </View>
+                {/* Total Display */}
+                <View style={styles.totalContainer}>
+                  <Text style={styles.totalLabel}>Total Cost</Text>
+                  <Text style={styles.totalAmount}>₦{totalCost.toFixed(2)}</Text>
+                </View>
+              </>
+            )}
           </View>
 
           {/* Rating Section */}
@@ -193,6 +257,30 @@ export const TransactionCompletionScreen: React.FC = () => {
             {selectedRating === 0 && (
               <Text style={styles.errorText}>Please select a rating</Text>
             )}
+
+            {/* Optional detail ratings */}
+            {(Object.keys(dimensionLabels) as ReviewDimension[]).map((dimension) => (
+              <View key={dimension} style={styles.dimensionRow}>
+                <Text style={styles.dimensionLabel}>{dimensionLabels[dimension]}</Text>
+                <View style={styles.dimensionStars}>
+                  {[1, 2, 3, 4, 5].map((star) => (
+                    <TouchableOpacity
+                      key={star}
+                      onPress={() =>
+                        setDimensionRatings((prev) => ({ ...prev, [dimension]: star }))
+                      }
+                      style={styles.dimensionStarButton}
+                    >
+                      <Ionicons
+                        name={star <= dimensionRatings[dimension] ? 'star' : 'star-outline'}
+                        size={22}
+                        color={star <= dimensionRatings[dimension] ? '#FF9500' : '#C6C6C8'}
+                      />
+                    </TouchableOpacity>
+                  ))}
+                </View>
+              </View>
+            ))}
           </View>
 
           {/* Review Section */}
@@ -220,8 +308,26 @@ export const TransactionCompletionScreen: React.FC = () => {
             loading={loading}
             style={styles.submitButton}
           />
+
+          <TouchableOpacity
+            style={styles.disputeLink}
+            onPress={() => setShowDispute(true)}
+          >
+            <Ionicons name="alert-circle-outline" size={18} color="#FF3B30" />
+            <Text style={styles.disputeLinkText}>
+              Work not done or the price is wrong? Report a problem
+            </Text>
+          </TouchableOpacity>
         </ScrollView>
       </KeyboardAvoidingView>
+
+      <DisputeModal
+        visible={showDispute}
+        role="customer"
+        loading={openingDispute}
+        onSubmit={handleOpenDispute}
+        onClose={() => setShowDispute(false)}
+      />
     </SafeAreaView>
   );
 };
@@ -298,6 +404,22 @@ const styles = StyleSheet.create({
   starButton: {
     padding: 4,
   },
+  dimensionRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginTop: 12,
+  },
+  dimensionLabel: {
+    fontSize: 14,
+    color: '#000000',
+  },
+  dimensionStars: {
+    flexDirection: 'row',
+  },
+  dimensionStarButton: {
+    padding: 2,
+  },
   errorText: {
     fontSize: 12,
     color: '#FF3B30',
@@ -311,5 +433,16 @@ const styles = StyleSheet.create({
   submitButton: {
     marginTop: 8,
   },
+  disputeLink: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 6,
+    marginTop: 16,
+  },
+  disputeLinkText: {
+    fontSize: 14,
+    color: '#FF3B30',
+  },
 });
 
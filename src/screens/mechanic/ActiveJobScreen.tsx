@@ -10,6 +10,7 @@ import {
   Alert,
   Linking,
   Platform,
+  ScrollView,
 } from 'react-native';
 import MapView, {
   Marker,
@@ -22,8 +23,28 @@ import { Ionicons } from '@expo/vector-icons';
 import { useRoute, useNavigation, RouteProp } from '@react-navigation/native';
 import { StackNavigationProp } from '@react-navigation/stack';
 import { MechanicStackParamList } from '../../navigation/types';
-import { ServiceRequest } from '../../types';
-import { serviceRequestService } from '../../services/serviceRequestService';
+import { EscrowSummary, ServiceRequest } from '../../types';
+import {
+  CustomerReviewData,
+  SubmitQuoteData,
+  serviceRequestService,
+} from '../../services/serviceRequestService';
+import { paymentService } from '../../services/paymentService';
+import {
+  disputeService,
+  DisputeMessageData,
+  OpenDisputeData,
+} from '../../services/disputeService';
+import { useJobLocationStream } from '../../hooks/useJobLocationStream';
+import { useServiceRequestQuotes } from '../../hooks/useServiceRequestQuotes';
+import { useServiceRequestDispute } from '../../hooks/useServiceRequestDispute';
+import { CustomerRatingModal } from '../../components/mechanic/CustomerRatingModal';
+import { QuoteEditorModal } from '../../components/quotes';
+import { DisputeModal, DisputeThread } from '../../components/disputes';
+import { useAuthStore } from '../../store/authStore';
+
+// Problems can be reported once arrived, until both sides confirm
+const DISPUTABLE_STATUSES = ['arrived', 'in_progress', 'awaiting_confirmation'];
 
 type ActiveJobScreenRouteProp = RouteProp<MechanicStackParamList, 'ActiveJob'>;
 type ActiveJobScreenNavigationProp = StackNavigationProp<
@@ -40,24 +61,83 @@ export const ActiveJobScreen: React.FC = () => {
   const [request, setRequest] = useState<ServiceRequest | null>(null);
   const [loading, setLoading] = useState(true);
   const [processing, setProcessing] = useState(false);
+  // Which action the customer rating sheet is open for
+  const [ratingFor, setRatingFor] = useState<'complete' | 'no_show' | null>(null);
+  const [quoteEditorVisible, setQuoteEditorVisible] = useState(false);
+  const { user } = useAuthStore();
+  const [showDispute, setShowDispute] = useState(false);
+  const [sendingDisputeMessage, setSendingDisputeMessage] = useState(false);
   const [mechanicLocation, setMechanicLocation] = useState<{
     latitude: number;
     longitude: number;
   } | null>(null);
-  const [hasArrived, setHasArrived] = useState(false);
+
+  // Share live position with the customer until the mechanic arrives
+  useJobLocationStream({
+    requestId,
+    enabled: request?.status === 'accepted' || request?.status === 'en_route',
+  });
+
+  // Quotes are sent after arriving and can be revised while working
+  const canQuote = request?.status === 'arrived' || request?.status === 'in_progress';
+  const { latest: latestQuote, refresh: refreshQuotes } = useServiceRequestQuotes(
+    requestId,
+    canQuote
+  );
+  const quotePending = latestQuote?.status === 'pending';
+  const needsQuote = !latestQuote || latestQuote.status === 'rejected';
+
+  // In-app jobs start once the customer has paid the approved price into escrow
+  const [escrow, setEscrow] = useState<EscrowSummary | null>(null);
+  const tracksEscrow =
+    request?.payment_method === 'in_app' &&
+    (canQuote || request?.status === 'awaiting_confirmation');
+  const awaitingPayment = !!escrow && escrow.required > 0 && escrow.amount_due > 0;
+
+  useEffect(() => {
+    if (!tracksEscrow) return;
+
+    const fetchEscrow = async () => {
+      try {
+        const response = await paymentService.getPayments(requestId);
+        if (response.success) {
+          setEscrow(response.data);
+        }
+      } catch (error) {
+        console.error('Error fetching payments:', error);
+      }
+    };
+
+    fetchEscrow();
+    // Payments arrive without a status change, so check again while waiting
+    const escrowInterval = setInterval(fetchEscrow, 30000);
+    return () => clearInterval(escrowInterval);
+  }, [requestId, tracksEscrow, latestQuote?.id, latestQuote?.status]);
 
   useEffect(() => {
     loadRequest();
     getCurrentLocation();
   }, [requestId]);
 
+  const { dispute: followedDispute, refresh: refreshDispute } = useServiceRequestDispute(
+    requestId,
+    request?.status === 'disputed'
+  );
+  const dispute = followedDispute || request?.dispute || null;
+
+  // Pick up the job's new status once an admin resolves the dispute
+  useEffect(() => {
+    if (followedDispute?.status === 'resolved' && request?.status === 'disputed') {
+      loadRequest();
+    }
+  }, [followedDispute?.status]);
+
   const loadRequest = async () => {
     try {
       setLoading(true);
       const response = await serviceRequestService.getServiceRequest(requestId);
       if (response.success) {
         setRequest(response.data);
-        setHasArrived(response.data.status === 'in_progress');
       }
     } catch (error) {
       console.error('Error loading request:', error);
@@ -119,6 +199,27 @@ export const ActiveJobScreen: React.FC = () => {
     Linking.openURL(url);
   };
 
+  const handleEnRoute = async () => {
+    if (!request || processing) return;
+
+    try {
+      setProcessing(true);
+      const response = await serviceRequestService.markEnRoute(request.id);
+      if (response.success) {
+        setRequest({ ...request, ...response.data });
+        handleNavigate();
+      }
+    } catch (error: any) {
+      console.error('Error marking as en route:', error);
+      Alert.alert(
+        'Error',
+        error.response?.data?.error?.message || 'Failed to update job status'
+      );
+    } finally {
+      setProcessing(false);
+    }
+  };
+
   const handleArrived = async () => {
     if (!request || processing) return;
 
@@ -126,8 +227,7 @@ export const ActiveJobScreen: React.FC = () => {
       setProcessing(true);
       const response = await serviceRequestService.markArrived(request.id);
       if (response.success) {
-        setHasArrived(true);
-        setRequest(response.data);
+        setRequest({ ...request, ...response.data });
         Alert.alert('Success', 'You have marked yourself as arrived');
       }
     } catch (error: any) {
@@ -141,30 +241,102 @@ export const ActiveJobScreen: React.FC = () => {
     }
   };
 
+  const handleStartWork = async () => {
+    if (!request || processing) return;
+
+    try {
+      setProcessing(true);
+      const response = await serviceRequestService.startServiceRequest(request.id);
+      if (response.success) {
+        setRequest({ ...request, ...response.data });
+      }
+    } catch (error: any) {
+      console.error('Error starting work:', error);
+      Alert.alert(
+        'Error',
+        error.response?.data?.error?.message || 'Failed to start work'
+      );
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  const handleSubmitQuote = async (data: SubmitQuoteData) => {
+    if (!request || processing) return;
+
+    try {
+      setProcessing(true);
+      const response = await serviceRequestService.submitQuote(request.id, data);
+      if (response.success) {
+        setQuoteEditorVisible(false);
+        await refreshQuotes();
+        Alert.alert('Quote Sent', 'The customer will review your quote.');
+      }
+    } catch (error: any) {
+      console.error('Error sending quote:', error);
+      Alert.alert(
+        'Error',
+        error.response?.data?.error?.message || 'Failed to send quote'
+      );
+    } finally {
+      setProcessing(false);
+    }
+  };
+
   const handleMarkDone = () => {
-    Alert.alert(
-      'Confirm Completion',
-      'Are you sure you have completed this service?',
-      [
-        { text: 'Cancel', style: 'cancel' },
-        {
-          text: 'Confirm',
-          style: 'default',
-          onPress: handleCompleteRequest,
-        },
-      ]
-    );
+    setRatingFor('complete');
+  };
+
+  const handleReportNoShow = () => {
+    setRatingFor('no_show');
+  };
+
+  const handleRatingSubmit = (review: CustomerReviewData) => {
+    if (ratingFor === 'no_show') {
+      handleNoShow(review);
+    } else {
+      handleCompleteRequest(review);
+    }
   };
 
-  const handleCompleteRequest = async () => {
+  const handleNoShow = async (review: CustomerReviewData) => {
+    if (!request || processing) return;
+
+    try {
+      setProcessing(true);
+      const response = await serviceRequestService.markCustomerNoShow(request.id, review);
+      if (response.success) {
+        setRatingFor(null);
+        Alert.alert('Job Cancelled', 'The customer has been marked as a no-show.', [
+          {
+            text: 'OK',
+            onPress: () => navigation.goBack(),
+          },
+        ]);
+      }
+    } catch (error: any) {
+      console.error('Error reporting no-show:', error);
+      setRatingFor(null);
+      Alert.alert(
+        'Error',
+        error.response?.data?.error?.message || 'Failed to report no-show'
+      );
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  const handleCompleteRequest = async (review: CustomerReviewData) => {
     if (!request || processing) return;
 
     try {
       setProcessing(true);
       const response = await serviceRequestService.completeServiceRequestMechanic(
-        request.id
+        request.id,
+        review
       );
       if (response.success) {
+        setRatingFor(null);
         Alert.alert(
           'Success',
           'Service marked as complete. Waiting for customer confirmation.',
@@ -178,6 +350,7 @@ export const ActiveJobScreen: React.FC = () => {
       }
     } catch (error: any) {
       console.error('Error completing request:', error);
+      setRatingFor(null);
       Alert.alert(
         'Error',
         error.response?.data?.error?.message || 'Failed to complete request'
@@ -187,6 +360,39 @@ export const ActiveJobScreen: React.FC = () => {
     }
   };
 
+  const handleOpenDispute = async (data: OpenDisputeData) => {
+    try {
+      setProcessing(true);
+      const response = await disputeService.openDispute(requestId, data);
+      if (response.success) {
+        setShowDispute(false);
+        Alert.alert(
+          'Dispute Opened',
+          'Payment is on hold. Our team will review what happened and reply here.'
+        );
+        loadRequest();
+      }
+    } catch (error: any) {
+      Alert.alert('Error', error.response?.data?.error?.message || 'Failed to open dispute');
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  const handleSendDisputeMessage = async (data: DisputeMessageData) => {
+    try {
+      setSendingDisputeMessage(true);
+      await disputeService.addMessage(requestId, data);
+      refreshDispute();
+      return true;
+    } catch (error: any) {
+      Alert.alert('Error', error.response?.data?.error?.message || 'Failed to send message');
+      return false;
+    } finally {
+      setSendingDisputeMessage(false);
+    }
+  };
+
   if (loading) {
     return (
       <SafeAreaView style={styles.container}>
@@ -351,7 +557,24 @@ export const ActiveJobScreen: React.FC = () => {
             </TouchableOpacity>
           )}
 
-          {!hasArrived ? (
+          {request.status === 'accepted' && (
+            <TouchableOpacity
+              style={[styles.actionButton, styles.arrivedButton]}
+              onPress={handleEnRoute}
+              disabled={processing}
+            >
+              {processing ? (
+                <ActivityIndicator size="small" color="#FFFFFF" />
+              ) : (
+                <>
+                  <Ionicons name="car" size={20} color="#FFFFFF" />
+                  <Text style={styles.actionButtonText}>On My Way</Text>
+                </>
+              )}
+            </TouchableOpacity>
+          )}
+
+          {request.status === 'en_route' && (
             <TouchableOpacity
               style={[styles.actionButton, styles.arrivedButton]}
               onPress={handleArrived}
@@ -366,7 +589,54 @@ export const ActiveJobScreen: React.FC = () => {
                 </>
               )}
             </TouchableOpacity>
-          ) : (
+          )}
+
+          {request.status === 'arrived' && needsQuote && (
+            <TouchableOpacity
+              style={[styles.actionButton, styles.arrivedButton]}
+              onPress={() => setQuoteEditorVisible(true)}
+              disabled={processing}
+            >
+              <Ionicons name="document-text" size={20} color="#FFFFFF" />
+              <Text style={styles.actionButtonText}>
+                {latestQuote ? 'Send New Quote' : 'Send Quote'}
+              </Text>
+            </TouchableOpacity>
+          )}
+
+          {canQuote && quotePending && (
+            <View style={[styles.actionButton, styles.waitingButton]}>
+              <Ionicons name="time" size={20} color="#FFFFFF" />
+              <Text style={styles.actionButtonText}>Awaiting Approval</Text>
+            </View>
+          )}
+
+          {request.status === 'arrived' && latestQuote?.status === 'approved' && awaitingPayment && (
+            <View style={[styles.actionButton, styles.waitingButton]}>
+              <Ionicons name="card" size={20} color="#FFFFFF" />
+              <Text style={styles.actionButtonText}>Awaiting Payment</Text>
+            </View>
+          )}
+
+          {request.status === 'arrived' && latestQuote?.status === 'approved' && !awaitingPayment && (
+            <TouchableOpacity
+              style={[styles.actionButton, styles.doneButton]}
+              onPress={handleStartWork}
+              disabled={processing}
+            >
+              {processing ? (
+                <ActivityIndicator size="small" color="#FFFFFF" />
+              ) : (
+                <>
+                  <Ionicons name="build" size={20} color="#FFFFFF" />
+                  <Text style={styles.actionButtonText}>Start Work</Text>
+                </>
+              )}
+            </TouchableOpacity>
+          )}
+
+          {((request.status === 'in_progress' && !quotePending) ||
+            (request.status === 'awaiting_confirmation' && !request.mechanic_confirmed)) && (
             <TouchableOpacity
               style={[styles.actionButton, styles.doneButton]}
               onPress={handleMarkDone}
@@ -382,8 +652,97 @@ export const ActiveJobScreen: React.FC = () => {
               )}
             </TouchableOpacity>
           )}
+
+          {request.status === 'awaiting_confirmation' && request.mechanic_confirmed && (
+            <View style={[styles.actionButton, styles.waitingButton]}>
+              <Ionicons name="time" size={20} color="#FFFFFF" />
+              <Text style={styles.actionButtonText}>Awaiting Customer</Text>
+            </View>
+          )}
         </View>
+
+        {canQuote && latestQuote && (
+          <View style={styles.quoteRow}>
+            <Text style={styles.quoteText}>
+              Quote v{latestQuote.version}: ₦{Number(latestQuote.total_cost).toFixed(2)} ·{' '}
+              {latestQuote.status}
+            </Text>
+            {!needsQuote && (
+              <TouchableOpacity onPress={() => setQuoteEditorVisible(true)} disabled={processing}>
+                <Text style={styles.quoteLinkText}>Revise Quote</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+        )}
+
+        {tracksEscrow && escrow && escrow.required > 0 && (
+          <View style={styles.quoteRow}>
+            <Text style={styles.quoteText}>
+              {awaitingPayment
+                ? `Customer payment due: ₦${escrow.amount_due.toFixed(2)}`
+                : `₦${escrow.held.toFixed(2)} held in escrow, paid to you on completion`}
+            </Text>
+          </View>
+        )}
+
+        {request.status === 'arrived' && (
+          <TouchableOpacity
+            style={styles.noShowLink}
+            onPress={handleReportNoShow}
+            disabled={processing}
+          >
+            <Text style={styles.noShowLinkText}>Customer not here? Report a no-show</Text>
+          </TouchableOpacity>
+        )}
+
+        {DISPUTABLE_STATUSES.includes(request.status) && (
+          <TouchableOpacity
+            style={styles.noShowLink}
+            onPress={() => setShowDispute(true)}
+            disabled={processing}
+          >
+            <Text style={styles.noShowLinkText}>Problem with this job? Open a dispute</Text>
+          </TouchableOpacity>
+        )}
+
+        {dispute && (
+          <ScrollView style={styles.disputeContainer} nestedScrollEnabled>
+            <DisputeThread
+              dispute={dispute}
+              userId={user?.id}
+              sending={sendingDisputeMessage}
+              onSend={handleSendDisputeMessage}
+            />
+          </ScrollView>
+        )}
       </View>
+
+      <CustomerRatingModal
+        visible={ratingFor !== null}
+        customerName={customerName}
+        title={ratingFor === 'no_show' ? 'Report No-Show' : 'Rate Your Customer'}
+        submitLabel={ratingFor === 'no_show' ? 'Report No-Show' : 'Submit & Mark as Done'}
+        noShow={ratingFor === 'no_show'}
+        loading={processing}
+        onSubmit={handleRatingSubmit}
+        onClose={() => setRatingFor(null)}
+      />
+
+      <QuoteEditorModal
+        visible={quoteEditorVisible}
+        previousQuote={latestQuote}
+        loading={processing}
+        onSubmit={handleSubmitQuote}
+        onClose={() => setQuoteEditorVisible(false)}
+      />
+
+      <DisputeModal
+        visible={showDispute}
+        role="mechanic"
+        loading={processing}
+        onSubmit={handleOpenDispute}
+        onClose={() => setShowDispute(false)}
+      />
     </SafeAreaView>
   );
 };
@@ -535,10 +894,40 @@ const styles = StyleSheet.create({
   doneButton: {
     backgroundColor: '#34C759',
   },
+  waitingButton: {
+    backgroundColor: '#8E8E93',
+  },
   actionButtonText: {
     fontSize: 14,
     fontWeight: '600',
     color: '#FFFFFF',
   },
+  quoteRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingTop: 12,
+  },
+  quoteText: {
+    fontSize: 13,
+    color: '#8E8E93',
+  },
+  quoteLinkText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#007AFF',
+  },
+  noShowLink: {
+    alignItems: 'center',
+    paddingTop: 12,
+  },
+  noShowLinkText: {
+    fontSize: 13,
+    color: '#FF3B30',
+  },
+  disputeContainer: {
+    maxHeight: 280,
+    marginTop: 12,
+  },
 });
 
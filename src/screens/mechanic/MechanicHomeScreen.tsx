@@ -76,6 +76,18 @@ export const MechanicHomeScreen: React.FC = () => {
         setIncomingModalVisible(true);
       }
     },
+    onRequestWithdrawn: (requestId: string, status: 'withdrawn' | 'expired') => {
+      // Another mechanic took the job, the customer cancelled it or it timed out
+      if (incomingRequest?.id === requestId) {
+        setIncomingModalVisible(false);
+        setIncomingRequest(null);
+        if (status === 'expired') {
+          Alert.alert('Request Expired', 'The request was passed to another mechanic.');
+        } else {
+          Alert.alert('Job Taken', 'This request is no longer available.');
+        }
+      }
+    },
   });
 
   const loadInitialData = async () => {
@@ -9,12 +9,27 @@ import {
   Alert,
   ActivityIndicator,
   TouchableOpacity,
+  Linking,
 } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
-import { walletService, WalletTransaction } from '../../services/walletService';
+import {
+  walletService,
+  WalletTransaction,
+  BankAccount,
+  CommissionDebt,
+} from '../../services/walletService';
+import { WalletTopUp } from '../../services/customerWalletService';
+import { PaymentChannel } from '../../types';
 import { TransactionItem } from '../../components/wallet/TransactionItem';
+import { BankAccountsModal } from '../../components/wallet/BankAccountsModal';
 import { Button } from '../../components/common/Button';
 
+const settleChannelOptions: { channel: PaymentChannel; label: string }[] = [
+  { channel: 'card', label: 'Card' },
+  { channel: 'bank_transfer', label: 'Bank Transfer' },
+  { channel: 'ussd', label: 'USSD' },
+];
+
 export const WalletScreen: React.FC = () => {
   const [balance, setBalance] = useState<number>(0);
   const [transactions, setTransactions] = useState<WalletTransaction[]>([]);
@@ -23,6 +38,13 @@ export const WalletScreen: React.FC = () => {
   const [page, setPage] = useState(1);
   const [hasMore, setHasMore] = useState(true);
   const [loadingMore, setLoadingMore] = useState(false);
+  const [bankAccounts, setBankAccounts] = useState<BankAccount[]>([]);
+  const [showBankAccounts, setShowBankAccounts] = useState(false);
+  const [commissionDebt, setCommissionDebt] = useState<CommissionDebt | null>(null);
+  const [settlement, setSettlement] = useState<WalletTopUp | null>(null);
+  const [settling, setSettling] = useState(false);
+
+  const defaultAccount = bankAccounts.find((account) => account.is_default) || bankAccounts[0];
 
   const loadWalletData = async (pageNum: number = 1, append: boolean = false) => {
     try {
@@ -36,7 +58,8 @@ export const WalletScreen: React.FC = () => {
 
       if (response.success) {
         setBalance(response.data.balance);
-        
+        setCommissionDebt(response.data.commission_debt || null);
+
         if (append) {
           setTransactions((prev) => [...prev, ...response.data.recent_transactions]);
         } else {
@@ -59,13 +82,26 @@ export const WalletScreen: React.FC = () => {
     }
   };
 
+  const loadBankAccounts = async () => {
+    try {
+      const response = await walletService.getBankAccounts();
+      if (response.success) {
+        setBankAccounts(response.data);
+      }
+    } catch (error) {
+      console.error('Error loading bank accounts:', error);
+    }
+  };
+
   useEffect(() => {
     loadWalletData();
+    loadBankAccounts();
   }, []);
 
   const onRefresh = useCallback(() => {
     setRefreshing(true);
     loadWalletData(1, false);
+    loadBankAccounts();
   }, []);
 
   const loadMore = () => {
@@ -75,9 +111,18 @@ export const WalletScreen: React.FC = () => {
   };
 
   const handleWithdraw = () => {
+    if (!defaultAccount) {
+      Alert.alert('Add a Bank Account', 'Add the bank account you want to be paid into first.');
+      setShowBankAccounts(true);
+      return;
+    }
+
+    // One key per withdrawal, so a repeated tap can't request it twice
+    const idempotencyKey = `${Date.now()}-${Math.random().toString(36).slice(2, 10)}`;
+
     Alert.prompt(
       'Withdraw Funds',
-      'Enter the amount you want to withdraw',
+      `Enter the amount to send to ${defaultAccount.bank_name} •••• ${defaultAccount.account_number.slice(-4)}`,
       [
         {
           text: 'Cancel',
@@ -103,16 +148,16 @@ export const WalletScreen: React.FC = () => {
             }
 
             try {
-              const response = await walletService.withdraw({
-                amount: withdrawAmount,
-                bank_details: {
-                  // For now, just save the request without bank details
-                  // In the future, this could be a form with bank details
-                },
-              });
+              const response = await walletService.withdraw(
+                { amount: withdrawAmount, bank_account_id: defaultAccount.id },
+                idempotencyKey
+              );
 
               if (response.success) {
-                Alert.alert('Success', 'Withdrawal request submitted successfully');
+                Alert.alert(
+                  'Success',
+                  'Withdrawal requested. You will be notified once it has been paid.'
+                );
                 // Refresh wallet data
                 loadWalletData(1, false);
               }
@@ -132,8 +177,72 @@ export const WalletScreen: React.FC = () => {
     );
   };
 
+  const verifySettlement = async (pending: WalletTopUp) => {
+    try {
+      setSettling(true);
+      const response = await walletService.verifySettlement(pending.id);
+      if (response.success) {
+        const { status, amount: paidAmount } = response.data.top_up;
+        if (status === 'paid') {
+          setSettlement(null);
+          Alert.alert('Commission Paid', `₦${Number(paidAmount).toFixed(2)} has been paid off.`);
+          loadWalletData(1, false);
+        } else if (status === 'failed') {
+          setSettlement(null);
+          Alert.alert('Payment Failed', 'Your payment did not go through. Please try again.');
+        } else {
+          Alert.alert(
+            'Not Confirmed Yet',
+            "We haven't received your payment yet. If you have paid, check again in a moment."
+          );
+        }
+      }
+    } catch (error: any) {
+      Alert.alert('Error', error.response?.data?.error?.message || 'Failed to check payment');
+    } finally {
+      setSettling(false);
+    }
+  };
+
+  const startSettlement = async (channel: PaymentChannel) => {
+    try {
+      setSettling(true);
+      const response = await walletService.settleDebt(channel);
+      if (response.success) {
+        if (response.data.authorization_url) {
+          // Finish paying on the gateway's page, then come back and confirm
+          setSettlement(response.data);
+          await Linking.openURL(response.data.authorization_url);
+        } else {
+          await verifySettlement(response.data);
+        }
+      }
+    } catch (error: any) {
+      Alert.alert('Error', error.response?.data?.error?.message || 'Failed to start payment');
+    } finally {
+      setSettling(false);
+    }
+  };
+
+  const handleSettle = () => {
+    if (!commissionDebt) return;
+
+    Alert.alert(
+      'Settle Commission',
+      `Pay the ₦${commissionDebt.owed.toFixed(2)} you owe in commission on cash jobs.`,
+      [
+        ...settleChannelOptions.map(({ channel, label }) => ({
+          text: label,
+          onPress: () => startSettlement(channel),
+        })),
+        { text: 'Cancel', style: 'cancel' as const },
+      ]
+    );
+  };
+
   const formatBalance = (amount: number) => {
-    return `₦${amount.toFixed(2)}`;
+    const formatted = `₦${Math.abs(amount).toFixed(2)}`;
+    return amount < 0 ? `-${formatted}` : formatted;
   };
 
   if (loading && transactions.length === 0) {
@@ -152,8 +261,46 @@ export const WalletScreen: React.FC = () => {
       {/* Balance Card */}
       <View style={styles.balanceCard}>
         <Text style={styles.balanceLabel}>Wallet Balance</Text>
-        <Text style={styles.balanceAmount}>{formatBalance(balance)}</Text>
-        
+        <Text style={[styles.balanceAmount, balance < 0 && styles.balanceNegative]}>
+          {formatBalance(balance)}
+        </Text>
+
+        {commissionDebt && commissionDebt.owed > 0 && (
+          <View style={styles.debtBanner}>
+            <Ionicons name="alert-circle-outline" size={20} color="#FF3B30" />
+            <View style={styles.debtInfo}>
+              <Text style={styles.debtTitle}>
+                You owe ₦{commissionDebt.owed.toFixed(2)} in commission
+              </Text>
+              <Text style={styles.debtText}>
+                {commissionDebt.over_limit
+                  ? `Over the ₦${commissionDebt.limit.toFixed(2)} limit. Settle to go online again.`
+                  : `From cash jobs. Above ₦${commissionDebt.limit.toFixed(2)} you'll be taken offline.`}
+              </Text>
+            </View>
+          </View>
+        )}
+
+        {commissionDebt && commissionDebt.owed > 0 && (
+          <View style={styles.settleActions}>
+            {settlement ? (
+              <Button
+                title="I've Paid"
+                variant="secondary"
+                onPress={() => verifySettlement(settlement)}
+                loading={settling}
+              />
+            ) : (
+              <Button
+                title="Settle Now"
+                variant="secondary"
+                onPress={handleSettle}
+                loading={settling}
+              />
+            )}
+          </View>
+        )}
+
         <TouchableOpacity
           style={styles.withdrawButton}
           onPress={handleWithdraw}
@@ -162,6 +309,20 @@ export const WalletScreen: React.FC = () => {
           <Ionicons name="cash-outline" size={20} color="#FFFFFF" />
           <Text style={styles.withdrawButtonText}>Withdraw</Text>
         </TouchableOpacity>
+
+        <TouchableOpacity
+          style={styles.bankAccountRow}
+          onPress={() => setShowBankAccounts(true)}
+          activeOpacity={0.7}
+        >
+          <Ionicons name="business-outline" size={16} color="#8E8E93" />
+          <Text style={styles.bankAccountText} numberOfLines={1}>
+            {defaultAccount
+              ? `Paid to ${defaultAccount.bank_name} •••• ${defaultAccount.account_number.slice(-4)}`
+              : 'Add a bank account for withdrawals'}
+          </Text>
+          <Ionicons name="chevron-forward" size={16} color="#8E8E93" />
+        </TouchableOpacity>
       </View>
 
       {/* Transaction History */}
@@ -197,6 +358,13 @@ export const WalletScreen: React.FC = () => {
           />
         )}
       </View>
+
+      <BankAccountsModal
+        visible={showBankAccounts}
+        accounts={bankAccounts}
+        onChange={setBankAccounts}
+        onClose={() => setShowBankAccounts(false)}
+      />
     </SafeAreaView>
   );
 };
@@ -239,6 +407,34 @@ const styles = StyleSheet.create({
     color: '#FFFFFF',
     marginBottom: 20,
   },
+  balanceNegative: {
+    color: '#FF3B30',
+  },
+  debtBanner: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    backgroundColor: '#1C1C1E',
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 12,
+    gap: 8,
+  },
+  debtInfo: {
+    flex: 1,
+  },
+  debtTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#FFFFFF',
+    marginBottom: 2,
+  },
+  debtText: {
+    fontSize: 13,
+    color: '#8E8E93',
+  },
+  settleActions: {
+    marginBottom: 12,
+  },
   withdrawButton: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -254,6 +450,17 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     color: '#000000',
   },
+  bankAccountRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 16,
+    gap: 6,
+  },
+  bankAccountText: {
+    flex: 1,
+    fontSize: 13,
+    color: '#8E8E93',
+  },
   transactionsContainer: {
     flex: 1,
     backgroundColor: '#FFFFFF',
@@ -1,4 +1,4 @@
-import axios, { AxiosError } from 'axios';
+import axios, { AxiosError, InternalAxiosRequestConfig } from 'axios';
 import Constants from 'expo-constants';
 import { useAuthStore } from '../store/authStore';
 
@@ -29,15 +29,54 @@ apiClient.interceptors.request.use(
   }
 );
 
+// Shared in-flight refresh so concurrent 401s only rotate the refresh token once
+let refreshPromise: Promise<string | null> | null = null;
+
+const refreshAccessToken = async (): Promise<string | null> => {
+  const { refreshToken, setTokens } = useAuthStore.getState();
+  if (!refreshToken) {
+    return null;
+  }
+
+  try {
+    // Plain axios so this call skips the interceptors below
+    const response = await axios.post(`${API_BASE_URL}/auth/refresh-token`, {
+      refresh_token: refreshToken,
+    });
+    const { token, refresh_token } = response.data.data;
+    setTokens(token, refresh_token);
+    return token;
+  } catch (error) {
+    return null;
+  }
+};
+
 // Response interceptor for error handling
 apiClient.interceptors.response.use(
   (response) => response,
-  (error: AxiosError) => {
-    // Handle 401 Unauthorized - clear auth and redirect to login
-    if (error.response?.status === 401) {
+  async (error: AxiosError) => {
+    const originalRequest = error.config as
+      | (InternalAxiosRequestConfig & { _retry?: boolean })
+      | undefined;
+
+    // Handle 401 Unauthorized - try to refresh once, then clear auth
+    if (error.response?.status === 401 && originalRequest && !originalRequest._retry) {
+      originalRequest._retry = true;
+
+      if (!refreshPromise) {
+        refreshPromise = refreshAccessToken().finally(() => {
+          refreshPromise = null;
+        });
+      }
+
+      const newToken = await refreshPromise;
+      if (newToken) {
+        originalRequest.headers.Authorization = `Bearer ${newToken}`;
+        return apiClient(originalRequest);
+      }
+
       useAuthStore.getState().logout();
     }
     return Promise.reject(error);
   }
 );
-
@@ -1,6 +1,45 @@
+import { Platform } from 'react-native';
+import Constants from 'expo-constants';
+import * as SecureStore from 'expo-secure-store';
 import { apiClient } from './api';
 import { User } from '../types';
 
+const DEVICE_ID_KEY = 'mekofix_device_id';
+
+let deviceId: string | null = null;
+
+// Generated once and kept across logins, so logging in again replaces this
+// device's session on the backend instead of adding another one
+const getDeviceId = async (): Promise<string> => {
+  if (deviceId) {
+    return deviceId;
+  }
+
+  try {
+    deviceId = await SecureStore.getItemAsync(DEVICE_ID_KEY);
+  } catch {
+    // SecureStore isn't available on web; the id then lasts until the app reloads
+  }
+
+  if (!deviceId) {
+    deviceId = `${Platform.OS}-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+    try {
+      await SecureStore.setItemAsync(DEVICE_ID_KEY, deviceId);
+    } catch {
+      // Same as above
+    }
+  }
+
+  return deviceId;
+};
+
+// Sent on login so the backend can label this device's session
+const getDeviceInfo = async () => ({
+  device_id: await getDeviceId(),
+  device_name: Constants.deviceName || `${Platform.OS} device`,
+  platform: Platform.OS,
+});
+
 export interface LoginCredentials {
   email?: string;
   phone?: string;
@@ -62,11 +101,47 @@ export interface MechanicSignupData {
   specializations: string[];
 }
 
+export interface VendorSignupData {
+  // Step 1: Basic Info
+  full_name: string;
+  email: string;
+  phone: string;
+  password: string;
+  confirm_password: string;
+  gender: string;
+
+  // Step 2: Business & Documents
+  business_name: string;
+  business_address: string;
+  utility_bill?: {
+    uri: string;
+    type: string;
+    name: string;
+  } | null;
+  id_type: string;
+  id_document?: {
+    uri: string;
+    type: string;
+    name: string;
+  } | null;
+
+  // Step 3: Guarantors
+  guarantor1_name: string;
+  guarantor1_phone: string;
+  guarantor1_address: string;
+  guarantor1_relationship: string;
+  guarantor2_name: string;
+  guarantor2_phone: string;
+  guarantor2_address: string;
+  guarantor2_relationship: string;
+}
+
 export interface LoginResponse {
   success: boolean;
   data: {
     user: User;
     token: string;
+    refresh_token: string;
   };
 }
 
@@ -89,6 +164,7 @@ export interface OTPVerificationResponse {
   data: {
     user: User;
     token: string;
+    refresh_token: string;
   };
 }
 
@@ -96,15 +172,118 @@ export interface ForgotPasswordData {
   email: string;
 }
 
+export interface ResetPasswordData {
+  email: string;
+  code: string;
+  new_password: string;
+}
+
+// Convert image picker results to base64 for upload
+// In React Native, we'll convert local file URIs to base64 data URIs
+export const prepareFileForUpload = async (
+  file: { uri: string; type: string; name: string } | null | undefined
+) => {
+  if (!file) return null;
+  
+  // If it's already a data URI, use it directly
+  if (file.uri.startsWith('data:')) {
+    return {
+      uri: file.uri,
+      type: file.type,
+      name: file.name,
+    };
+  }
+  
+  // For local file URIs (from expo-image-picker), we need to convert to base64
+  // Note: For production, consider using expo-file-system's readAsStringAsync
+  // For now, we'll attempt conversion using fetch
+  try {
+    // Fetch the file
+    const response = await fetch(file.uri);
+    const blob = await response.blob();
+    const arrayBuffer = await blob.arrayBuffer();
+    
+    // Convert to base64 - React Native compatible method
+    // Using a simple base64 encoding that works in React Native
+    const bytes = new Uint8Array(arrayBuffer);
+    let binary = '';
+    for (let i = 0; i < bytes.byteLength; i++) {
+      binary += String.fromCharCode(bytes[i]);
+    }
+    
+    // Try to use btoa (available in some React Native environments)
+    // If not available, the backend will handle the URI
+    let base64: string;
+    try {
+      // @ts-ignore - btoa might not be in types but could be available
+      base64 = typeof btoa !== 'undefined' ? btoa(binary) : '';
+    } catch {
+      base64 = '';
+    }
+    
+    if (base64) {
+      const mimeType = file.type || blob.type || 'image/jpeg';
+      return {
+        uri: `data:${mimeType};base64,${base64}`,
+        type: mimeType,
+        name: file.name,
+      };
+    } else {
+      // If base64 conversion fails, send URI (backend can handle file:// URIs for local dev)
+      // In production, you should use expo-file-system for proper base64 conversion
+      console.warn('Base64 conversion not available, sending file URI. Consider using expo-file-system.');
+      return {
+        uri: file.uri,
+        type: file.type,
+        name: file.name,
+      };
+    }
+  } catch (error) {
+    console.error('Error processing file:', error);
+    // Fallback: send the URI
+    return {
+      uri: file.uri,
+      type: file.type,
+      name: file.name,
+    };
+  }
+};
+
+export interface DeviceSession {
+  id: string;
+  device_id?: string;
+  device_name?: string;
+  platform?: string;
+  created_at: string;
+  last_used_at: string;
+  expires_at: string;
+  is_current: boolean;
+}
+
 export const authService = {
   async login(credentials: LoginCredentials): Promise<LoginResponse> {
     const response = await apiClient.post<LoginResponse>(
       '/auth/login',
-      credentials
+      { ...credentials, ...(await getDeviceInfo()) }
     );
     return response.data;
   },
 
+  async logout(): Promise<{ success: boolean }> {
+    const response = await apiClient.post('/auth/logout');
+    return response.data;
+  },
+
+  async logoutAllDevices(): Promise<{ success: boolean }> {
+    const response = await apiClient.post('/auth/logout-all');
+    return response.data;
+  },
+
+  async getSessions(): Promise<{ success: boolean; data: DeviceSession[] }> {
+    const response = await apiClient.get('/auth/sessions');
+    return response.data;
+  },
+
   async registerCustomer(data: CustomerSignupData): Promise<SignupResponse> {
     const response = await apiClient.post<SignupResponse>(
       '/auth/register/customer',
@@ -116,7 +295,7 @@ export const authService = {
   async verifyOTP(data: OTPVerificationData): Promise<OTPVerificationResponse> {
     const response = await apiClient.post<OTPVerificationResponse>(
       '/auth/verify-otp',
-      data
+      { ...data, ...(await getDeviceInfo()) }
     );
     return response.data;
   },
@@ -131,76 +310,12 @@ export const authService = {
     return response.data;
   },
 
-  async registerMechanic(data: MechanicSignupData): Promise<SignupResponse> {
-    // Convert image picker results to base64 for upload
-    // In React Native, we'll convert local file URIs to base64 data URIs
-    const prepareFileForUpload = async (file: { uri: string; type: string; name: string } | null | undefined) => {
-      if (!file) return null;
-      
-      // If it's already a data URI, use it directly
-      if (file.uri.startsWith('data:')) {
-        return {
-          uri: file.uri,
-          type: file.type,
-          name: file.name,
-        };
-      }
-      
-      // For local file URIs (from expo-image-picker), we need to convert to base64
-      // Note: For production, consider using expo-file-system's readAsStringAsync
-      // For now, we'll attempt conversion using fetch
-      try {
-        // Fetch the file
-        const response = await fetch(file.uri);
-        const blob = await response.blob();
-        const arrayBuffer = await blob.arrayBuffer();
-        
-        // Convert to base64 - React Native compatible method
-        // Using a simple base64 encoding that works in React Native
-        const bytes = new Uint8Array(arrayBuffer);
-        let binary = '';
-        for (let i = 0; i < bytes.byteLength; i++) {
-          binary += String.fromCharCode(bytes[i]);
-        }
-        
-        // Try to use btoa (available in some React Native environments)
-        // If not available, the backend will handle the URI
-        let base64: string;
-        try {
-          // @ts-ignore - btoa might not be in types but could be available
-          base64 = typeof btoa !== 'undefined' ? btoa(binary) : '';
-        } catch {
-          base64 = '';
-        }
-        
-        if (base64) {
-          const mimeType = file.type || blob.type || 'image/jpeg';
-          return {
-            uri: `data:${mimeType};base64,${base64}`,
-            type: mimeType,
-            name: file.name,
-          };
-        } else {
-          // If base64 conversion fails, send URI (backend can handle file:// URIs for local dev)
-          // In production, you should use expo-file-system for proper base64 conversion
-          console.warn('Base64 conversion not available, sending file URI. Consider using expo-file-system.');
-          return {
-            uri: file.uri,
-            type: file.type,
-            name: file.name,
-          };
-        }
-      } catch (error) {
-        console.error('Error processing file:', error);
-        // Fallback: send the URI
-        return {
-          uri: file.uri,
-          type: file.type,
-          name: file.name,
-        };
-      }
-    };
+  async resetPassword(data: ResetPasswordData): Promise<{ success: boolean; message: string }> {
+    const response = await apiClient.post('/auth/reset-password', data);
+    return response.data;
+  },
 
+  async registerMechanic(data: MechanicSignupData): Promise<SignupResponse> {
     // Prepare files for upload
     const [utilityBill, idDocument, profilePhoto] = await Promise.all([
       prepareFileForUpload(data.utility_bill),
@@ -223,5 +338,26 @@ export const authService = {
     );
     return response.data;
   },
-};
 
+  async registerVendor(data: VendorSignupData): Promise<SignupResponse> {
+    // Prepare files for upload
+    const [utilityBill, idDocument] = await Promise.all([
+      prepareFileForUpload(data.utility_bill),
+      prepareFileForUpload(data.id_document),
+    ]);
+
+    // Prepare the request payload (exclude confirm_password)
+    const { confirm_password, ...payload } = data;
+    const requestData = {
+      ...payload,
+      utility_bill: utilityBill,
+      id_document: idDocument,
+    };
+
+    const response = await apiClient.post<SignupResponse>(
+      '/auth/register/vendor',
+      requestData
+    );
+    return response.data;
+  },
+};
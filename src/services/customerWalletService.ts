@@ -0,0 +1,55 @@
+import { apiClient } from './api';
+import { PaymentChannel } from '../types';
+import { WalletResponse } from './walletService';
+
+export interface WalletTopUp {
+  id: string;
+  amount: number;
+  status: 'pending' | 'paid' | 'failed' | 'cancelled';
+  channel: PaymentChannel;
+  authorization_url?: string | null; // gateway checkout page; null when nothing needs to be shown
+  created_at: string;
+}
+
+export interface TopUpResponse {
+  success: boolean;
+  data: WalletTopUp;
+}
+
+export interface VerifyTopUpResponse {
+  success: boolean;
+  data: {
+    top_up: WalletTopUp;
+    balance: number;
+  };
+}
+
+export const MIN_TOP_UP = 100;
+export const MAX_TOP_UP = 500000;
+
+export const customerWalletService = {
+  async getWallet(page: number = 1, limit: number = 20): Promise<WalletResponse> {
+    const response = await apiClient.get<WalletResponse>('/customer/wallet', {
+      params: { page, limit },
+    });
+    return response.data;
+  },
+
+  /**
+   * Start a top-up; open authorization_url to finish checkout, then verify it
+   */
+  async topUp(amount: number, channel: PaymentChannel): Promise<TopUpResponse> {
+    const response = await apiClient.post<TopUpResponse>('/customer/wallet/top-ups', {
+      amount,
+      channel,
+    });
+    return response.data;
+  },
+
+  async verifyTopUp(topUpId: string): Promise<VerifyTopUpResponse> {
+    const response = await apiClient.post<VerifyTopUpResponse>(
+      `/customer/wallet/top-ups/${topUpId}/verify`
+    );
+    return response.data;
+  },
+};
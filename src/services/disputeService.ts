@@ -0,0 +1,60 @@
+import { apiClient } from './api';
+import { prepareFileForUpload } from './authService';
+import { ImagePickerResult } from '../hooks/useImagePicker';
+import { DisputeMessage, DisputeReason, ServiceRequestDispute } from '../types';
+
+export const MAX_EVIDENCE_PHOTOS = 5;
+
+export interface DisputeResponse {
+  success: boolean;
+  data: ServiceRequestDispute | null;
+}
+
+export interface OpenDisputeData {
+  reason: DisputeReason;
+  description: string;
+  photos?: ImagePickerResult[];
+}
+
+export interface DisputeMessageData {
+  body?: string;
+  photos?: ImagePickerResult[];
+}
+
+const preparePhotos = async (photos: ImagePickerResult[] = []) =>
+  (await Promise.all(photos.map((photo) => prepareFileForUpload(photo)))).filter(Boolean);
+
+export const disputeService = {
+  async getDispute(serviceRequestId: string): Promise<DisputeResponse> {
+    const response = await apiClient.get<DisputeResponse>(
+      `/service-requests/${serviceRequestId}/dispute`
+    );
+    return response.data;
+  },
+
+  /**
+   * Report a problem with the job; payment is held until an admin resolves it
+   */
+  async openDispute(serviceRequestId: string, data: OpenDisputeData): Promise<DisputeResponse> {
+    const response = await apiClient.post<DisputeResponse>(
+      `/service-requests/${serviceRequestId}/dispute`,
+      {
+        reason: data.reason,
+        description: data.description,
+        photos: await preparePhotos(data.photos),
+      }
+    );
+    return response.data;
+  },
+
+  async addMessage(
+    serviceRequestId: string,
+    data: DisputeMessageData
+  ): Promise<{ success: boolean; data: DisputeMessage }> {
+    const response = await apiClient.post(`/service-requests/${serviceRequestId}/dispute/messages`, {
+      body: data.body,
+      photos: await preparePhotos(data.photos),
+    });
+    return response.data;
+  },
+};
@@ -0,0 +1,50 @@
+import { apiClient } from './api';
+import { Invoice } from '../types';
+
+export interface InvoiceResponse {
+  success: boolean;
+  data: Invoice;
+}
+
+export interface InvoiceLinkResponse {
+  success: boolean;
+  data: {
+    url: string;
+    invoice_number: string;
+  };
+}
+
+export interface EmailInvoiceResponse {
+  success: boolean;
+  message: string;
+}
+
+export const invoiceService = {
+  async getInvoice(serviceRequestId: string): Promise<InvoiceResponse> {
+    const response = await apiClient.get<InvoiceResponse>(
+      `/service-requests/${serviceRequestId}/invoice`
+    );
+    return response.data;
+  },
+
+  /**
+   * Short-lived link that opens the PDF in the browser without the access token
+   */
+  async getDownloadLink(
+    serviceRequestId: string,
+    format: 'pdf' | 'html' = 'pdf'
+  ): Promise<InvoiceLinkResponse> {
+    const response = await apiClient.post<InvoiceLinkResponse>(
+      `/service-requests/${serviceRequestId}/invoice/link`,
+      { format }
+    );
+    return response.data;
+  },
+
+  async emailInvoice(serviceRequestId: string): Promise<EmailInvoiceResponse> {
+    const response = await apiClient.post<EmailInvoiceResponse>(
+      `/service-requests/${serviceRequestId}/invoice/email`
+    );
+    return response.data;
+  },
+};
@@ -1,16 +1,36 @@
 import { apiClient } from './api';
-import { Mechanic } from '../types';
+import { Mechanic, MechanicProfile } from '../types';
 
 export interface NearbyMechanicsParams {
   lat: number;
   lng: number;
   radius?: number;
   specialization?: string;
+  categories?: string; // comma separated, matches any
+  min_rating?: number;
+  verified_only?: boolean;
+  gender?: 'male' | 'female';
+  min_price?: number;
+  max_price?: number;
+  page?: number;
+  limit?: number;
+  sort?: 'best' | 'distance' | 'rating' | 'jobs';
 }
 
 export interface NearbyMechanicsResponse {
   success: boolean;
   data: Mechanic[];
+  pagination?: {
+    page: number;
+    limit: number;
+    total: number;
+    total_pages: number;
+  };
+}
+
+export interface MechanicProfileResponse {
+  success: boolean;
+  data: MechanicProfile;
 }
 
 export interface Category {
@@ -70,6 +90,13 @@ export const mechanicService = {
     return response.data;
   },
 
+  async getMechanicProfile(userId: string): Promise<MechanicProfileResponse> {
+    const response = await apiClient.get<MechanicProfileResponse>(
+      `/mechanics/${userId}`
+    );
+    return response.data;
+  },
+
   async getCategories(): Promise<CategoriesResponse> {
     const response = await apiClient.get<CategoriesResponse>('/mechanics/categories');
     return response.data;
@@ -0,0 +1,48 @@
+import { apiClient } from './api';
+import { EscrowSummary, Payment, PaymentSource } from '../types';
+
+export interface EscrowResponse {
+  success: boolean;
+  data: EscrowSummary | null;
+}
+
+export interface PaymentResponse {
+  success: boolean;
+  data: Payment;
+}
+
+export interface VerifyPaymentResponse {
+  success: boolean;
+  data: {
+    payment: Payment;
+    escrow: EscrowSummary;
+  };
+}
+
+export const paymentService = {
+  async getPayments(serviceRequestId: string): Promise<EscrowResponse> {
+    const response = await apiClient.get<EscrowResponse>(
+      `/service-requests/${serviceRequestId}/payments`
+    );
+    return response.data;
+  },
+
+  /**
+   * Start paying what is due into escrow; open authorization_url to finish checkout.
+   * Wallet payments come back already held.
+   */
+  async createPayment(serviceRequestId: string, channel: PaymentSource): Promise<PaymentResponse> {
+    const response = await apiClient.post<PaymentResponse>(
+      `/service-requests/${serviceRequestId}/payments`,
+      { channel }
+    );
+    return response.data;
+  },
+
+  async verifyPayment(serviceRequestId: string, paymentId: string): Promise<VerifyPaymentResponse> {
+    const response = await apiClient.post<VerifyPaymentResponse>(
+      `/service-requests/${serviceRequestId}/payments/${paymentId}/verify`
+    );
+    return response.data;
+  },
+};
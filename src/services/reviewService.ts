@@ -0,0 +1,99 @@
+import { apiClient } from './api';
+import { MechanicReview, RatingSummary, ReviewReportReason } from '../types';
+
+export interface CreateReviewData {
+  rating: number;
+  comment?: string;
+  // Customers reviewing a mechanic only
+  punctuality?: number;
+  quality?: number;
+  price_fairness?: number;
+}
+
+export interface CreateReviewResponse {
+  success: boolean;
+  data: {
+    id: string;
+    rating: number;
+  };
+}
+
+export interface MechanicReviewsParams {
+  page?: number;
+  limit?: number;
+}
+
+export interface MechanicReviewsResponse {
+  success: boolean;
+  data: {
+    summary: RatingSummary;
+    reviews: MechanicReview[];
+  };
+  pagination: {
+    page: number;
+    limit: number;
+    total: number;
+    total_pages: number;
+  };
+}
+
+export interface ReplyToReviewResponse {
+  success: boolean;
+  data: {
+    id: string;
+    reply: string;
+    replied_at: string;
+  };
+}
+
+export interface ReportReviewResponse {
+  success: boolean;
+  data: {
+    id: string;
+    status: string;
+  };
+}
+
+export const reviewService = {
+  async createReview(
+    serviceRequestId: string,
+    data: CreateReviewData
+  ): Promise<CreateReviewResponse> {
+    const response = await apiClient.post<CreateReviewResponse>(
+      `/service-requests/${serviceRequestId}/reviews`,
+      data
+    );
+    return response.data;
+  },
+
+  async getMechanicReviews(
+    mechanicUserId: string,
+    params: MechanicReviewsParams = {}
+  ): Promise<MechanicReviewsResponse> {
+    const response = await apiClient.get<MechanicReviewsResponse>(
+      `/mechanics/${mechanicUserId}/reviews`,
+      { params }
+    );
+    return response.data;
+  },
+
+  async replyToReview(reviewId: string, reply: string): Promise<ReplyToReviewResponse> {
+    const response = await apiClient.put<ReplyToReviewResponse>(
+      `/reviews/${reviewId}/reply`,
+      { reply }
+    );
+    return response.data;
+  },
+
+  async reportReview(
+    reviewId: string,
+    reason: ReviewReportReason,
+    details?: string
+  ): Promise<ReportReviewResponse> {
+    const response = await apiClient.post<ReportReviewResponse>(
+      `/reviews/${reviewId}/report`,
+      { reason, details }
+    );
+    return response.data;
+  },
+};
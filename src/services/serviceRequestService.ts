@@ -1,8 +1,19 @@
 import { apiClient } from './api';
-import { ServiceRequest, Vehicle } from '../types';
+import {
+  CustomerFlag,
+  MechanicLiveLocation,
+  PaymentMethod,
+  QuoteItem,
+  ServiceRequest,
+  ServiceRequestEta,
+  ServiceRequestQuote,
+  Vehicle,
+} from '../types';
 
 export interface CreateServiceRequestData {
-  mechanic_id: string;
+  mechanic_id?: string;
+  dispatch_mode?: 'direct' | 'broadcast';
+  payment_method?: PaymentMethod;
   vehicle_id: string;
   category_id: string;
   problem_description: string;
@@ -29,10 +40,14 @@ export interface CancelServiceRequestResponse {
 }
 
 export interface CompleteServiceRequestData {
-  material_cost: number;
-  labor_cost: number;
+  // Only needed for jobs started without an approved quote
+  material_cost?: number;
+  labor_cost?: number;
   rating: number;
   review?: string;
+  punctuality?: number;
+  quality?: number;
+  price_fairness?: number;
 }
 
 export interface CompleteServiceRequestResponse {
@@ -55,16 +70,75 @@ export interface DeclineServiceRequestResponse {
   data: ServiceRequest;
 }
 
+export interface MarkEnRouteResponse {
+  success: boolean;
+  data: ServiceRequest;
+}
+
+export interface StartServiceRequestResponse {
+  success: boolean;
+  data: ServiceRequest;
+}
+
 export interface MarkArrivedResponse {
   success: boolean;
   data: ServiceRequest;
 }
 
+export interface JobLocationParams {
+  lat: number;
+  lng: number;
+  heading?: number | null;
+  speed?: number | null;
+  accuracy?: number | null;
+}
+
+export interface JobLocationResponse {
+  success: boolean;
+  data: MechanicLiveLocation;
+}
+
+export interface MechanicLocationResponse {
+  success: boolean;
+  data: MechanicLiveLocation | null;
+}
+
+export interface ServiceRequestEtaResponse {
+  success: boolean;
+  data: ServiceRequestEta | null;
+}
+
+export interface CustomerReviewData {
+  rating: number;
+  comment?: string;
+  flags?: CustomerFlag[];
+}
+
+export interface CustomerNoShowResponse {
+  success: boolean;
+  data: ServiceRequest;
+}
+
 export interface CompleteServiceRequestMechanicResponse {
   success: boolean;
   data: ServiceRequest;
 }
 
+export interface SubmitQuoteData {
+  items: QuoteItem[];
+  note?: string;
+}
+
+export interface QuoteResponse {
+  success: boolean;
+  data: ServiceRequestQuote;
+}
+
+export interface QuotesResponse {
+  success: boolean;
+  data: ServiceRequestQuote[];
+}
+
 export const serviceRequestService = {
   async createServiceRequest(
     data: CreateServiceRequestData
@@ -129,6 +203,38 @@ export const serviceRequestService = {
     return response.data;
   },
 
+  async markEnRoute(id: string): Promise<MarkEnRouteResponse> {
+    const response = await apiClient.put<MarkEnRouteResponse>(
+      `/mechanics/requests/${id}/en-route`
+    );
+    return response.data;
+  },
+
+  async updateJobLocation(
+    id: string,
+    params: JobLocationParams
+  ): Promise<JobLocationResponse> {
+    const response = await apiClient.put<JobLocationResponse>(
+      `/mechanics/requests/${id}/location`,
+      params
+    );
+    return response.data;
+  },
+
+  async getMechanicLocation(id: string): Promise<MechanicLocationResponse> {
+    const response = await apiClient.get<MechanicLocationResponse>(
+      `/service-requests/${id}/mechanic-location`
+    );
+    return response.data;
+  },
+
+  async getServiceRequestEta(id: string): Promise<ServiceRequestEtaResponse> {
+    const response = await apiClient.get<ServiceRequestEtaResponse>(
+      `/service-requests/${id}/eta`
+    );
+    return response.data;
+  },
+
   async markArrived(id: string): Promise<MarkArrivedResponse> {
     const response = await apiClient.put<MarkArrivedResponse>(
       `/mechanics/requests/${id}/arrived`
@@ -136,11 +242,59 @@ export const serviceRequestService = {
     return response.data;
   },
 
+  async startServiceRequest(id: string): Promise<StartServiceRequestResponse> {
+    const response = await apiClient.put<StartServiceRequestResponse>(
+      `/mechanics/requests/${id}/start`
+    );
+    return response.data;
+  },
+
   async completeServiceRequestMechanic(
-    id: string
+    id: string,
+    review?: CustomerReviewData
   ): Promise<CompleteServiceRequestMechanicResponse> {
     const response = await apiClient.put<CompleteServiceRequestMechanicResponse>(
-      `/mechanics/requests/${id}/complete`
+      `/mechanics/requests/${id}/complete`,
+      review
+    );
+    return response.data;
+  },
+
+  async submitQuote(id: string, data: SubmitQuoteData): Promise<QuoteResponse> {
+    const response = await apiClient.post<QuoteResponse>(
+      `/mechanics/requests/${id}/quotes`,
+      data
+    );
+    return response.data;
+  },
+
+  async getQuotes(id: string): Promise<QuotesResponse> {
+    const response = await apiClient.get<QuotesResponse>(`/service-requests/${id}/quotes`);
+    return response.data;
+  },
+
+  async approveQuote(id: string, quoteId: string): Promise<QuoteResponse> {
+    const response = await apiClient.put<QuoteResponse>(
+      `/service-requests/${id}/quotes/${quoteId}/approve`
+    );
+    return response.data;
+  },
+
+  async rejectQuote(id: string, quoteId: string, reason?: string): Promise<QuoteResponse> {
+    const response = await apiClient.put<QuoteResponse>(
+      `/service-requests/${id}/quotes/${quoteId}/reject`,
+      { reason }
+    );
+    return response.data;
+  },
+
+  async markCustomerNoShow(
+    id: string,
+    review: CustomerReviewData
+  ): Promise<CustomerNoShowResponse> {
+    const response = await apiClient.put<CustomerNoShowResponse>(
+      `/mechanics/requests/${id}/no-show`,
+      review
     );
     return response.data;
   },
@@ -1,20 +1,43 @@
 import { apiClient } from './api';
+import { PaymentChannel } from '../types';
+import { VerifyTopUpResponse, WalletTopUp } from './customerWalletService';
 
 export interface WalletTransaction {
   id: string;
   user_id: string;
   amount: number;
-  transaction_type: 'commission_deduction' | 'withdrawal' | 'top_up' | 'credit';
+  transaction_type:
+    | 'job_earning'
+    | 'cash_commission'
+    | 'debt_settlement'
+    | 'escrow_release'
+    | 'wallet_payment'
+    | 'payment_refund'
+    | 'promo_credit'
+    | 'payout_refund'
+    | 'opening_balance'
+    | 'commission_deduction'
+    | 'withdrawal'
+    | 'top_up'
+    | 'credit';
   description: string;
-  status?: 'pending' | 'completed' | 'failed';
+  status?: 'pending' | 'processing' | 'completed' | 'failed' | 'reversed';
   bank_details?: any;
   reference_id?: string;
   reference_type?: string;
   created_at: string;
 }
 
+// Commission owed on cash jobs (a negative balance); mechanics only
+export interface CommissionDebt {
+  owed: number;
+  limit: number;
+  over_limit: boolean;
+}
+
 export interface WalletData {
   balance: number;
+  commission_debt?: CommissionDebt;
   recent_transactions: WalletTransaction[];
   pagination: {
     page: number;
@@ -29,13 +52,34 @@ export interface WalletResponse {
   data: WalletData;
 }
 
+export interface Bank {
+  code: string;
+  name: string;
+}
+
+export interface BankAccount {
+  id: string;
+  bank_code: string;
+  bank_name: string;
+  account_number: string;
+  account_name: string;
+  is_default: boolean;
+  created_at: string;
+}
+
+export interface Payout {
+  id: string;
+  amount: number;
+  status: 'pending' | 'processing' | 'paid' | 'failed' | 'reversed';
+  bank_account_id: string;
+  failure_reason: string | null;
+  created_at: string;
+}
+
 export interface WithdrawRequest {
   amount: number;
-  bank_details?: {
-    account_number?: string;
-    account_name?: string;
-    bank_name?: string;
-  };
+  // Defaults to the mechanic's default bank account
+  bank_account_id?: string;
 }
 
 export interface WithdrawResponse {
@@ -43,9 +87,15 @@ export interface WithdrawResponse {
   data: {
     balance: number;
     transaction: WalletTransaction;
+    payout: Payout;
   };
 }
 
+export interface AddBankAccountRequest {
+  bank_code: string;
+  account_number: string;
+}
+
 export const walletService = {
   async getWallet(page: number = 1, limit: number = 20): Promise<WalletResponse> {
     const response = await apiClient.get<WalletResponse>('/mechanic/wallet', {
@@ -54,12 +104,60 @@ export const walletService = {
     return response.data;
   },
 
-  async withdraw(request: WithdrawRequest): Promise<WithdrawResponse> {
+  // Pass the same idempotencyKey when retrying a request, so it can't be paid twice
+  async withdraw(request: WithdrawRequest, idempotencyKey: string): Promise<WithdrawResponse> {
     const response = await apiClient.post<WithdrawResponse>(
       '/mechanic/wallet/withdraw',
-      request
+      request,
+      { headers: { 'Idempotency-Key': idempotencyKey } }
+    );
+    return response.data;
+  },
+
+  /**
+   * Pay off commission owed (all of it when amount is omitted); open authorization_url
+   * to finish checkout, then verify it
+   */
+  async settleDebt(
+    channel: PaymentChannel,
+    amount?: number
+  ): Promise<{ success: boolean; data: WalletTopUp }> {
+    const response = await apiClient.post('/mechanic/wallet/settle', { channel, amount });
+    return response.data;
+  },
+
+  async verifySettlement(id: string): Promise<VerifyTopUpResponse> {
+    const response = await apiClient.post<VerifyTopUpResponse>(
+      `/mechanic/wallet/top-ups/${id}/verify`
     );
     return response.data;
   },
+
+  async getBanks(): Promise<{ success: boolean; data: Bank[] }> {
+    const response = await apiClient.get('/mechanic/banks');
+    return response.data;
+  },
+
+  async getBankAccounts(): Promise<{ success: boolean; data: BankAccount[] }> {
+    const response = await apiClient.get('/mechanic/bank-accounts');
+    return response.data;
+  },
+
+  async addBankAccount(
+    request: AddBankAccountRequest
+  ): Promise<{ success: boolean; data: BankAccount }> {
+    const response = await apiClient.post('/mechanic/bank-accounts', request);
+    return response.data;
+  },
+
+  async setDefaultBankAccount(id: string): Promise<{ success: boolean; data: BankAccount[] }> {
+    const response = await apiClient.put(`/mechanic/bank-accounts/${id}/default`);
+    return response.data;
+  },
+
+  async removeBankAccount(id: string): Promise<{ success: boolean; data: BankAccount[] }> {
+    const response = await apiClient.delete(`/mechanic/bank-accounts/${id}`);
+    return response.data;
+  },
 };
 
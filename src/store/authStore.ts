@@ -4,20 +4,24 @@ import { User } from '../types';
 interface AuthState {
   user: User | null;
   token: string | null;
+  refreshToken: string | null;
   isAuthenticated: boolean;
   setUser: (user: User | null) => void;
   setToken: (token: string | null) => void;
-  login: (user: User, token: string) => void;
+  setTokens: (token: string, refreshToken: string) => void;
+  login: (user: User, token: string, refreshToken?: string) => void;
   logout: () => void;
 }
 
 export const useAuthStore = create<AuthState>((set) => ({
   user: null,
   token: null,
+  refreshToken: null,
   isAuthenticated: false,
   setUser: (user) => set({ user, isAuthenticated: !!user }),
   setToken: (token) => set({ token }),
-  login: (user, token) => set({ user, token, isAuthenticated: true }),
-  logout: () => set({ user: null, token: null, isAuthenticated: false }),
+  setTokens: (token, refreshToken) => set({ token, refreshToken }),
+  login: (user, token, refreshToken) =>
+    set({ user, token, refreshToken: refreshToken || null, isAuthenticated: true }),
+  logout: () => set({ user: null, token: null, refreshToken: null, isAuthenticated: false }),
 }));
-
@@ -29,6 +29,48 @@ export interface Vehicle {
   is_primary?: boolean;
 }
 
+export type ServiceRequestStatus =
+  | 'pending'
+  | 'accepted'
+  | 'en_route'
+  | 'arrived'
+  | 'in_progress'
+  | 'awaiting_confirmation'
+  | 'completed'
+  | 'cancelled'
+  | 'disputed'
+  | 'expired';
+
+export interface ServiceRequestEvent {
+  id: string;
+  from_status: ServiceRequestStatus | null;
+  to_status: ServiceRequestStatus;
+  actor_id: string | null;
+  actor_type: 'customer' | 'mechanic' | 'vendor' | 'admin' | 'system';
+  reason?: string | null;
+  metadata?: Record<string, any> | null;
+  created_at: string;
+}
+
+export interface MechanicLiveLocation {
+  service_request_id: string;
+  mechanic_id: string;
+  latitude: number;
+  longitude: number;
+  heading?: number | null; // degrees clockwise from north
+  speed?: number | null; // metres per second
+  accuracy?: number | null; // metres
+  recorded_at: string;
+}
+
+export interface ServiceRequestEta {
+  distance_km: number;
+  duration_minutes: number;
+  provider: string;
+  arrival_at: string;
+  location_recorded_at: string | null;
+}
+
 export interface ServiceRequest {
   id: string;
   customer_id: string;
@@ -40,14 +82,21 @@ export interface ServiceRequest {
   customer_location_lng?: number;
   customer_location_address?: string;
   customer_location?: Location;
-  status: 'pending' | 'accepted' | 'in_progress' | 'completed' | 'cancelled';
+  status: ServiceRequestStatus;
+  dispatch_mode?: 'direct' | 'broadcast';
+  dispatch_wave?: number;
+  payment_method?: PaymentMethod;
+  cancellation_reason?: 'customer_cancelled' | 'no_mechanic_available' | 'customer_no_show';
   material_cost?: number;
   labor_cost?: number;
   total_cost?: number;
   created_at: string;
   updated_at?: string;
-  completed_at?: string;
+  accepted_at?: string;
   arrived_at?: string;
+  started_at?: string;
+  completed_at?: string;
+  cancelled_at?: string;
   mechanic_confirmed?: boolean;
   customer_confirmed?: boolean;
   mechanic?: {
@@ -67,6 +116,146 @@ export interface ServiceRequest {
     id: string;
     name: string;
   };
+  timeline?: ServiceRequestEvent[];
+  quote?: ServiceRequestQuote | null; // latest version
+  escrow?: EscrowSummary | null; // null for cash jobs
+  dispute?: ServiceRequestDispute | null; // the latest one, open or resolved
+  customer_score?: RatingSummary; // mechanics only
+  reviews?: {
+    id?: string;
+    reviewer_id?: string;
+    reviewer_role: 'customer' | 'mechanic';
+    rating: number;
+    created_at?: string;
+  }[];
+}
+
+export type QuoteItemType = 'part' | 'labour';
+
+export interface QuoteItem {
+  type: QuoteItemType;
+  description: string;
+  quantity: number;
+  unit_price: number;
+  total?: number; // worked out by the server
+}
+
+export interface ServiceRequestQuote {
+  id: string;
+  service_request_id: string;
+  mechanic_id: string;
+  version: number;
+  status: 'pending' | 'approved' | 'rejected' | 'superseded';
+  items: QuoteItem[];
+  material_cost: number;
+  labor_cost: number;
+  total_cost: number;
+  note?: string | null;
+  rejection_reason?: string | null;
+  responded_at?: string | null;
+  created_at: string;
+}
+
+export type PaymentMethod = 'in_app' | 'cash';
+
+export type PaymentChannel = 'card' | 'bank_transfer' | 'ussd';
+
+// Gateway channels, or the customer's prepaid wallet
+export type PaymentSource = PaymentChannel | 'wallet';
+
+export interface Payment {
+  id: string;
+  service_request_id: string;
+  amount: number;
+  refunded_amount: number;
+  status: 'pending' | 'held' | 'released' | 'refunded' | 'failed' | 'cancelled';
+  channel: PaymentSource;
+  authorization_url?: string | null; // gateway checkout page; null when nothing needs to be shown
+  paid_at?: string | null;
+  created_at: string;
+}
+
+export interface EscrowSummary {
+  required: number; // total of the approved quote
+  held: number;
+  amount_due: number;
+  payments: Payment[];
+}
+
+export type DisputeReason =
+  | 'work_not_done'
+  | 'poor_quality'
+  | 'overcharged'
+  | 'customer_unresponsive'
+  | 'payment_issue'
+  | 'other';
+
+export interface DisputeMessage {
+  id: string;
+  sender_id: string | null;
+  sender_type: 'customer' | 'mechanic' | 'admin';
+  body: string | null;
+  photo_urls: string[];
+  created_at: string;
+}
+
+export interface ServiceRequestDispute {
+  id: string;
+  service_request_id: string;
+  opened_by: string;
+  opened_by_type: 'customer' | 'mechanic';
+  reason: DisputeReason;
+  status: 'open' | 'resolved';
+  outcome?: 'refund' | 'release' | 'adjust' | null;
+  resolution_notes?: string | null;
+  refunded_amount: number;
+  resolved_at?: string | null;
+  created_at: string;
+  messages: DisputeMessage[];
+}
+
+export interface InvoiceParty {
+  id: string;
+  full_name: string | null;
+  email: string | null;
+  phone: string | null;
+}
+
+export interface Invoice {
+  id: string;
+  invoice_number: string;
+  service_request_id: string;
+  copy: 'customer' | 'mechanic';
+  line_items: Required<QuoteItem>[];
+  subtotal: number;
+  vat_rate: number;
+  vat_amount: number;
+  total: number;
+  // Mechanic copy only
+  commission_rate?: number;
+  commission?: number;
+  mechanic_earnings?: number;
+  details: {
+    customer: InvoiceParty;
+    mechanic: InvoiceParty;
+    vehicle: { car_name: string | null; car_model: string | null; car_year: number | null } | null;
+    category: string | null;
+    address: string | null;
+    completed_at: string | null;
+  };
+  issued_at: string;
+}
+
+export interface ServiceRequestOffer {
+  id: string;
+  service_request_id: string;
+  mechanic_id: string;
+  wave: number;
+  distance_km?: number;
+  status: 'offered' | 'accepted' | 'declined' | 'withdrawn' | 'expired';
+  expires_at: string;
+  responded_at?: string;
+  created_at: string;
 }
 
 export interface Product {
@@ -82,6 +271,7 @@ export interface Product {
 
 export interface Mechanic {
   id: number | string;
+  user_id?: string;
   name: string;
   rating: number;
   specializations: string[];
@@ -91,6 +281,74 @@ export interface Mechanic {
   profile_picture_url?: string;
   is_available?: boolean;
   total_jobs?: number;
-  distance?: number;
+  distance?: number; // straight-line km
+  route_distance?: number; // estimated road km
+  eta_minutes?: number;
+  background_checked?: boolean;
+  typical_price?: number | null;
+  acceptance_rate?: number;
+  cancellation_rate?: number;
+  ranking?: {
+    score: number;
+    components: Record<string, { value: number; weight: number }>;
+    explanation: string;
+  };
+}
+
+export type ReviewDimension = 'punctuality' | 'quality' | 'price_fairness';
+
+export type CustomerFlag = 'no_show' | 'abusive';
+
+export type ReviewReportReason = 'abusive' | 'spam' | 'fake' | 'personal_info' | 'other';
+
+export interface MechanicReview {
+  id: string;
+  service_request_id: string;
+  rating: number;
+  dimensions: Record<ReviewDimension, number | null> | null;
+  flags: CustomerFlag[] | null;
+  comment: string | null;
+  reviewer_name: string;
+  category: string | null;
+  reply: string | null;
+  replied_at: string | null;
+  created_at: string;
+}
+
+export interface RatingSummary {
+  average: number;
+  total: number;
+  counts: Record<string, number>;
+  dimensions: Record<ReviewDimension, number | null> | null;
+  flags: Record<CustomerFlag, number> | null; // customers only
+}
+
+export interface MechanicPortfolioPhoto {
+  id: string;
+  image_url: string;
+  caption: string | null;
+  created_at: string;
+}
+
+export interface MechanicProfile {
+  id: string;
+  user_id: string;
+  name: string;
+  profile_photo: string | null;
+  bio: string | null;
+  years_of_experience: number | null;
+  rating: number;
+  total_jobs: number;
+  is_available: boolean;
+  member_since: string;
+  specializations: string[];
+  badges: {
+    identity_verified: boolean;
+    verified_at: string | null;
+    background_checked: boolean;
+  };
+  rating_breakdown: RatingSummary;
+  recent_reviews: MechanicReview[];
+  portfolio: MechanicPortfolioPhoto[];
 }
 